@@ -0,0 +1,737 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import {
+	applyMove,
+	createInitialState,
+	type EngineEvent,
+	type MatchState as GameState,
+	getEngineConfig,
+	isTerminal,
+	type Move,
+	MoveSchema,
+	type StateDelta,
+	winner,
+} from "@fightclaw/engine";
+
+// In-memory stand-in for the Worker's D1 tables and Durable Objects. It keeps
+// the wire shapes from CONTRACTS.md but leaves out ratings, fog of war, chess
+// clocks, house agents and disconnect forfeits.
+
+export type ArenaResponse = { status: number; body: Record<string, unknown> };
+
+export type MatchMode = "ranked" | "casual";
+
+type Agent = {
+	id: string;
+	name: string;
+	createdAt: string;
+	verifiedAt: string | null;
+	claimCode: string;
+};
+
+type ApiKey = {
+	id: string;
+	agentId: string;
+	secret: string;
+	prefix: string;
+	label: string | null;
+	createdAt: string;
+	lastUsedAt: string | null;
+	revokedAt: string | null;
+};
+
+export type AuthContext = { agent: Agent; apiKeyId: string };
+
+type QueueEntry = {
+	agentId: string;
+	matchId: string;
+	mode: MatchMode;
+	joinedAtMs: number;
+};
+
+/** Mirrors the server's stored match: the engine game plus match metadata. */
+export type ArenaMatch = {
+	id: string;
+	mode: MatchMode;
+	players: [string, string];
+	stateVersion: number;
+	status: "active" | "ended";
+	createdAt: string;
+	updatedAt: string;
+	game: GameState;
+	lastMove: Move | null;
+	winnerAgentId?: string;
+	loserAgentId?: string;
+	endReason?: string;
+	endedAt?: string;
+};
+
+export type MatchLogEntry = {
+	id: number;
+	matchId: string;
+	turn: number;
+	ts: string;
+	eventType: string;
+	payload: unknown;
+};
+
+/**
+ * What transports are told about a match. A forfeit sends a full `state`
+ * before `ended`; an applied move sends `moved`, then `ended` if it was the
+ * last one.
+ */
+export type MatchUpdate =
+	| { type: "state"; match: ArenaMatch }
+	| {
+			type: "moved";
+			match: ArenaMatch;
+			agentId: string;
+			fromStateVersion: number;
+			delta: StateDelta;
+			engineEvents: EngineEvent[];
+	  }
+	| { type: "ended"; match: ArenaMatch; reason: string };
+
+type MatchRecord = {
+	match: ArenaMatch;
+	// Cached move responses by moveId, oldest first.
+	moves: Map<string, ArenaResponse>;
+	log: MatchLogEntry[];
+	listeners: Set<(update: MatchUpdate) => void>;
+	turnTimer: ReturnType<typeof setTimeout> | null;
+};
+
+export type LocalArenaOptions = {
+	adminKey: string;
+	/** 0 disables turn-timeout forfeits, as `TURN_TIMEOUT_SECONDS=0` does. */
+	turnTimeoutSeconds?: number;
+};
+
+const API_KEY_LIMIT = 10;
+const IDEMPOTENCY_LIMIT = 200;
+const NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_WAIT_SECONDS = 30;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const ok = (body: Record<string, unknown>, status = 200): ArenaResponse => ({
+	status,
+	body: { ok: true, ...body },
+});
+
+export const fail = (
+	status: number,
+	error: string,
+	extra?: Record<string, unknown>,
+): ArenaResponse => ({ status, body: { ...extra, ok: false, error } });
+
+export const unauthorized = () =>
+	fail(401, "Unauthorized.", { code: "unauthorized" });
+const forbidden = () => fail(403, "Forbidden.", { code: "forbidden" });
+
+const nowIso = () => new Date().toISOString();
+
+const randomToken = (bytes: number) => randomBytes(bytes).toString("base64url");
+
+const activeAgentId = (game: GameState) =>
+	game.players[game.activePlayer]?.id ?? null;
+
+const toApiKeySummary = (key: ApiKey, currentKeyId: string) => ({
+	id: key.id,
+	prefix: key.prefix,
+	label: key.label,
+	createdAt: key.createdAt,
+	lastUsedAt: key.lastUsedAt,
+	revokedAt: key.revokedAt,
+	current: key.id === currentKeyId,
+});
+
+export class LocalArena {
+	private readonly agents = new Map<string, Agent>();
+	private readonly apiKeys = new Map<string, ApiKey>();
+	private readonly queue = new Map<string, QueueEntry>();
+	private readonly matches = new Map<string, MatchRecord>();
+	private readonly activeMatchByAgent = new Map<string, string>();
+	private readonly matchFoundWaiters = new Map<string, Set<() => void>>();
+	private nextLogId = 1;
+
+	constructor(private readonly options: LocalArenaOptions) {}
+
+	register(body: unknown): ArenaResponse {
+		if (!isRecord(body) || typeof body.name !== "string") {
+			return fail(400, "Invalid register payload.");
+		}
+		const name = body.name.trim();
+		if (!NAME_PATTERN.test(name)) {
+			return fail(
+				400,
+				"Agent name must be 1-64 characters: letters, numbers, _ or - only.",
+			);
+		}
+		for (const agent of this.agents.values()) {
+			if (agent.name === name) return fail(409, "Agent name already in use.");
+		}
+
+		const agent: Agent = {
+			id: randomUUID(),
+			name,
+			createdAt: nowIso(),
+			verifiedAt: null,
+			claimCode: `fc_claim_${randomToken(9)}`,
+		};
+		this.agents.set(agent.id, agent);
+		const { key, secret } = this.issueApiKey(agent.id, null);
+		return ok(
+			{
+				agent: { id: agent.id, name, verified: false },
+				apiKeyId: key.id,
+				apiKey: secret,
+				apiKeyPrefix: key.prefix,
+				claimCode: agent.claimCode,
+			},
+			201,
+		);
+	}
+
+	verify(adminKey: string | null, body: unknown): ArenaResponse {
+		if (adminKey !== this.options.adminKey) return forbidden();
+		if (!isRecord(body) || typeof body.claimCode !== "string") {
+			return fail(400, "Invalid verify payload.");
+		}
+		const claimCode = body.claimCode.trim();
+		const agent = [...this.agents.values()].find(
+			(candidate) => candidate.claimCode === claimCode,
+		);
+		if (!agent) return fail(404, "Claim code not found.");
+		if (agent.verifiedAt) return fail(409, "Agent already verified.");
+		agent.verifiedAt = nowIso();
+		return ok({ agentId: agent.id, verifiedAt: agent.verifiedAt });
+	}
+
+	authenticate(authorization: string | null): AuthContext | null {
+		const match = /^Bearer\s+(.+)$/i.exec(authorization ?? "");
+		const key = match?.[1] ? this.apiKeys.get(match[1].trim()) : undefined;
+		if (!key || key.revokedAt) return null;
+		const agent = this.agents.get(key.agentId);
+		if (!agent) return null;
+		key.lastUsedAt = nowIso();
+		return { agent, apiKeyId: key.id };
+	}
+
+	/** Gameplay needs a verified agent, as on the hosted arena. */
+	requireVerified(auth: AuthContext): ArenaResponse | null {
+		if (auth.agent.verifiedAt) return null;
+		return fail(403, "Agent not verified.", { code: "agent_not_verified" });
+	}
+
+	me(auth: AuthContext): ArenaResponse {
+		return ok({
+			agent: {
+				id: auth.agent.id,
+				name: auth.agent.name,
+				verified: Boolean(auth.agent.verifiedAt),
+				verifiedAt: auth.agent.verifiedAt,
+				createdAt: auth.agent.createdAt,
+				apiKeyId: auth.apiKeyId,
+			},
+		});
+	}
+
+	createApiKey(auth: AuthContext, body: unknown): ArenaResponse {
+		const label =
+			isRecord(body) && typeof body.label === "string"
+				? body.label.trim()
+				: undefined;
+		if (label !== undefined && (label.length < 1 || label.length > 64)) {
+			return fail(400, "label must be a string of 1-64 characters.");
+		}
+		if (this.activeKeysFor(auth.agent.id).length >= API_KEY_LIMIT) {
+			return fail(
+				409,
+				`An agent may hold at most ${API_KEY_LIMIT} active API keys.`,
+				{ code: "api_key_limit" },
+			);
+		}
+		const { key, secret } = this.issueApiKey(auth.agent.id, label ?? null);
+		return ok(
+			{ key: toApiKeySummary(key, auth.apiKeyId), apiKey: secret },
+			201,
+		);
+	}
+
+	listApiKeys(auth: AuthContext): ArenaResponse {
+		const keys = [...this.apiKeys.values()]
+			.filter((key) => key.agentId === auth.agent.id)
+			.reverse()
+			.map((key) => toApiKeySummary(key, auth.apiKeyId));
+		return ok({ keys });
+	}
+
+	revokeApiKey(auth: AuthContext, keyId: string): ArenaResponse {
+		const key = [...this.apiKeys.values()].find(
+			(candidate) =>
+				candidate.id === keyId && candidate.agentId === auth.agent.id,
+		);
+		if (!key) return fail(404, "API key not found.");
+		if (!key.revokedAt) {
+			if (this.activeKeysFor(auth.agent.id).length <= 1) {
+				return fail(409, "Cannot revoke the last active API key.", {
+					code: "last_active_key",
+				});
+			}
+			key.revokedAt = nowIso();
+		}
+		return ok({ key: toApiKeySummary(key, auth.apiKeyId) });
+	}
+
+	joinQueue(auth: AuthContext, body: unknown): ArenaResponse {
+		const mode =
+			isRecord(body) && body.mode !== undefined ? body.mode : "ranked";
+		if (mode !== "ranked" && mode !== "casual") {
+			return fail(400, "mode must be ranked or casual.");
+		}
+		const agentId = auth.agent.id;
+
+		const activeMatchId = this.activeMatchByAgent.get(agentId);
+		const active = activeMatchId ? this.matches.get(activeMatchId) : undefined;
+		if (active) {
+			return ok({
+				status: "ready",
+				matchId: active.match.id,
+				opponentId: this.opponentOf(active.match, agentId),
+			});
+		}
+
+		const waiting = this.queue.get(agentId);
+		if (waiting?.mode === mode) {
+			return ok({ status: "waiting", matchId: waiting.matchId });
+		}
+		this.queue.delete(agentId);
+
+		const opponent = [...this.queue.values()].find(
+			(entry) => entry.mode === mode,
+		);
+		if (!opponent) {
+			const entry: QueueEntry = {
+				agentId,
+				matchId: randomUUID(),
+				mode,
+				joinedAtMs: Date.now(),
+			};
+			this.queue.set(agentId, entry);
+			return ok({ status: "waiting", matchId: entry.matchId });
+		}
+
+		// The longer-waiting entrant keeps its matchId and plays first.
+		this.queue.delete(opponent.agentId);
+		this.startMatch(opponent.matchId, mode, [opponent.agentId, agentId]);
+		return ok({
+			status: "ready",
+			matchId: opponent.matchId,
+			opponentId: opponent.agentId,
+		});
+	}
+
+	queueStatus(auth: AuthContext): ArenaResponse {
+		const agentId = auth.agent.id;
+		const activeMatchId = this.activeMatchByAgent.get(agentId);
+		const active = activeMatchId ? this.matches.get(activeMatchId) : undefined;
+		if (active) {
+			return ok({
+				status: "ready",
+				matchId: active.match.id,
+				opponentId: this.opponentOf(active.match, agentId),
+			});
+		}
+		const waiting = this.queue.get(agentId);
+		if (!waiting) return ok({ status: "idle" });
+		return ok({
+			status: "waiting",
+			matchId: waiting.matchId,
+			mode: waiting.mode,
+			waitedMs: Date.now() - waiting.joinedAtMs,
+			estimatedWaitMs: null,
+			searchWindow: null,
+		});
+	}
+
+	leaveQueue(auth: AuthContext): ArenaResponse {
+		this.queue.delete(auth.agent.id);
+		return ok({});
+	}
+
+	/** Resolves with `match_found` once the agent is seated, else `no_events`. */
+	async waitForEvents(
+		auth: AuthContext,
+		timeoutSeconds: number,
+	): Promise<ArenaResponse> {
+		const agentId = auth.agent.id;
+		const seconds = Math.min(Math.max(timeoutSeconds, 0), MAX_WAIT_SECONDS);
+		if (!this.activeMatchByAgent.has(agentId) && seconds > 0) {
+			await new Promise<void>((resolve) => {
+				const waiters = this.matchFoundWaiters.get(agentId) ?? new Set();
+				const done = () => {
+					clearTimeout(timer);
+					waiters.delete(done);
+					resolve();
+				};
+				const timer = setTimeout(done, seconds * 1000);
+				waiters.add(done);
+				this.matchFoundWaiters.set(agentId, waiters);
+			});
+		}
+
+		const matchId = this.activeMatchByAgent.get(agentId);
+		const record = matchId ? this.matches.get(matchId) : undefined;
+		if (!record) {
+			return {
+				status: 200,
+				body: { events: [{ eventVersion: 1, event: "no_events" }] },
+			};
+		}
+		return {
+			status: 200,
+			body: {
+				events: [
+					{
+						eventVersion: 1,
+						event: "match_found",
+						matchId: record.match.id,
+						opponentId: this.opponentOf(record.match, agentId),
+					},
+				],
+			},
+		};
+	}
+
+	getMatch(matchId: string): ArenaMatch | null {
+		return this.matches.get(matchId)?.match ?? null;
+	}
+
+	matchState(matchId: string): ArenaResponse {
+		return { status: 200, body: { state: this.getMatch(matchId) } };
+	}
+
+	/** Ended matches are public; active ones need the admin key. */
+	matchLog(
+		matchId: string,
+		adminKey: string | null,
+		query: { afterId?: string | null; limit?: string | null },
+	): ArenaResponse {
+		const record = this.matches.get(matchId);
+		if (!record) return fail(404, "Match not found.");
+		if (record.match.status !== "ended" && adminKey !== this.options.adminKey) {
+			return forbidden();
+		}
+		const afterId = Number.parseInt(query.afterId ?? "0", 10);
+		const requested = Number.parseInt(query.limit ?? "500", 10);
+		const limit =
+			Number.isFinite(requested) && requested > 0
+				? Math.min(requested, 5000)
+				: 500;
+		const events = record.log
+			.filter((entry) => entry.id > (Number.isFinite(afterId) ? afterId : 0))
+			.slice(0, limit);
+		return { status: 200, body: { matchId, events } };
+	}
+
+	subscribe(
+		matchId: string,
+		listener: (update: MatchUpdate) => void,
+	): () => void {
+		const record = this.matches.get(matchId);
+		if (!record) return () => {};
+		record.listeners.add(listener);
+		return () => {
+			record.listeners.delete(listener);
+		};
+	}
+
+	submitMove(agentId: string, matchId: string, body: unknown): ArenaResponse {
+		if (
+			!isRecord(body) ||
+			typeof body.moveId !== "string" ||
+			typeof body.expectedVersion !== "number" ||
+			body.move === undefined
+		) {
+			return fail(
+				400,
+				"Move payload must include moveId, expectedVersion, and move.",
+			);
+		}
+		const record = this.matches.get(matchId);
+		if (!record) return fail(404, "Match not found.");
+
+		const cached = record.moves.get(body.moveId);
+		if (cached) return cached;
+		const response = this.applyMoveRequest(record, agentId, {
+			moveId: body.moveId,
+			expectedVersion: body.expectedVersion,
+			move: body.move,
+		});
+		record.moves.set(body.moveId, response);
+		if (record.moves.size > IDEMPOTENCY_LIMIT) {
+			const oldest = record.moves.keys().next().value;
+			if (oldest !== undefined) record.moves.delete(oldest);
+		}
+		return response;
+	}
+
+	close() {
+		for (const record of this.matches.values()) {
+			if (record.turnTimer) clearTimeout(record.turnTimer);
+		}
+		for (const waiters of this.matchFoundWaiters.values()) {
+			for (const done of waiters) done();
+		}
+	}
+
+	private applyMoveRequest(
+		record: MatchRecord,
+		agentId: string,
+		request: { moveId: string; expectedVersion: number; move: unknown },
+	): ArenaResponse {
+		const state = record.match;
+		// Checked before the schema so an outsider can never forfeit a seat.
+		if (!state.players.includes(agentId)) {
+			return fail(403, "Agent not part of match.");
+		}
+		if (state.status === "ended") {
+			return fail(409, "Match has ended.", {
+				stateVersion: state.stateVersion,
+			});
+		}
+		if (request.expectedVersion !== state.stateVersion) {
+			return fail(409, "Version mismatch.", {
+				stateVersion: state.stateVersion,
+			});
+		}
+		const parsed = MoveSchema.safeParse(request.move);
+		if (!parsed.success) {
+			return this.forfeitResponse(
+				record,
+				agentId,
+				"invalid_move_schema",
+				"Invalid move schema.",
+			);
+		}
+		if (activeAgentId(state.game) !== agentId) {
+			return fail(409, "Not your turn.");
+		}
+
+		const applied = applyMove(state.game, parsed.data);
+		if (!applied.ok) {
+			const reason =
+				applied.reason === "illegal_move" ? "illegal_move" : "invalid_move";
+			return this.forfeitResponse(record, agentId, reason, applied.error);
+		}
+
+		const previous = state;
+		const now = nowIso();
+		let next: ArenaMatch = {
+			...state,
+			game: applied.state,
+			lastMove: parsed.data,
+			updatedAt: now,
+			stateVersion: state.stateVersion + 1,
+		};
+		if (applied.state.status === "ended" || isTerminal(applied.state).ended) {
+			const winnerAgentId = winner(applied.state) ?? undefined;
+			next = {
+				...next,
+				status: "ended",
+				endedAt: now,
+				winnerAgentId,
+				loserAgentId: winnerAgentId
+					? state.players.find((player) => player !== winnerAgentId)
+					: undefined,
+				endReason: "terminal",
+			};
+		}
+		record.match = next;
+		this.log(record, "move_applied", {
+			payloadVersion: 2,
+			agentId,
+			moveId: request.moveId,
+			move: parsed.data,
+			stateVersion: next.stateVersion,
+			engineEvents: applied.engineEvents,
+			ts: now,
+		});
+
+		this.emit(record, {
+			type: "moved",
+			match: next,
+			agentId,
+			fromStateVersion: previous.stateVersion,
+			delta: applied.delta,
+			engineEvents: applied.engineEvents,
+		});
+		if (next.status === "ended") {
+			this.finishMatch(record, "terminal");
+		} else if (
+			next.game.turn !== previous.game.turn ||
+			next.game.activePlayer !== previous.game.activePlayer
+		) {
+			this.armTurnTimer(record);
+		}
+		return ok({ state: next });
+	}
+
+	private forfeitResponse(
+		record: MatchRecord,
+		loserAgentId: string,
+		reason: string,
+		error: string,
+	): ArenaResponse {
+		const ended = this.forfeit(record, loserAgentId, reason);
+		return fail(400, error, {
+			stateVersion: ended.stateVersion,
+			forfeited: true,
+			matchStatus: "ended",
+			winnerAgentId: ended.winnerAgentId ?? null,
+			reason,
+			reasonCode: reason,
+		});
+	}
+
+	private forfeit(
+		record: MatchRecord,
+		loserAgentId: string,
+		reason: string,
+	): ArenaMatch {
+		const state = record.match;
+		if (state.status === "ended") return state;
+		const endedAt = nowIso();
+		const next: ArenaMatch = {
+			...state,
+			game: { ...state.game, status: "ended" },
+			status: "ended",
+			endedAt,
+			updatedAt: endedAt,
+			stateVersion: state.stateVersion + 1,
+			winnerAgentId: state.players.find((player) => player !== loserAgentId),
+			loserAgentId,
+			endReason: reason,
+		};
+		record.match = next;
+		this.emit(record, { type: "state", match: next });
+		this.log(record, "move_forfeit", {
+			loserAgentId,
+			winnerAgentId: next.winnerAgentId ?? null,
+			reason,
+		});
+		this.finishMatch(record, reason);
+		return next;
+	}
+
+	private startMatch(
+		matchId: string,
+		mode: MatchMode,
+		players: [string, string],
+	) {
+		const seed = Math.floor(Math.random() * 1_000_000);
+		const now = nowIso();
+		const game = createInitialState(seed, undefined, [...players]);
+		const record: MatchRecord = {
+			match: {
+				id: matchId,
+				mode,
+				players,
+				stateVersion: 0,
+				status: "active",
+				createdAt: now,
+				updatedAt: now,
+				game,
+				lastMove: null,
+			},
+			moves: new Map(),
+			log: [],
+			listeners: new Set(),
+			turnTimer: null,
+		};
+		this.matches.set(matchId, record);
+		for (const agentId of players) {
+			this.activeMatchByAgent.set(agentId, matchId);
+			for (const done of this.matchFoundWaiters.get(agentId) ?? []) done();
+		}
+		this.log(record, "match_started", {
+			players,
+			seed,
+			mapId: null,
+			engineConfig: getEngineConfig(game),
+		});
+		this.armTurnTimer(record);
+	}
+
+	private finishMatch(record: MatchRecord, reason: string) {
+		if (record.turnTimer) clearTimeout(record.turnTimer);
+		record.turnTimer = null;
+		for (const agentId of record.match.players) {
+			if (this.activeMatchByAgent.get(agentId) === record.match.id) {
+				this.activeMatchByAgent.delete(agentId);
+			}
+		}
+		this.log(record, "match_ended", {
+			winnerAgentId: record.match.winnerAgentId ?? null,
+			loserAgentId: record.match.loserAgentId ?? null,
+			reason,
+			reasonCode: reason,
+		});
+		this.emit(record, { type: "ended", match: record.match, reason });
+	}
+
+	private armTurnTimer(record: MatchRecord) {
+		if (record.turnTimer) clearTimeout(record.turnTimer);
+		record.turnTimer = null;
+		const seconds = this.options.turnTimeoutSeconds ?? 0;
+		if (seconds <= 0 || record.match.status !== "active") return;
+		const version = record.match.stateVersion;
+		record.turnTimer = setTimeout(() => {
+			const active = activeAgentId(record.match.game);
+			if (record.match.stateVersion !== version || !active) return;
+			this.forfeit(record, active, "turn_timeout");
+		}, seconds * 1000);
+	}
+
+	private emit(record: MatchRecord, update: MatchUpdate) {
+		for (const listener of record.listeners) listener(update);
+	}
+
+	private log(record: MatchRecord, eventType: string, payload: unknown) {
+		record.log.push({
+			id: this.nextLogId++,
+			matchId: record.match.id,
+			turn: record.match.game.turn,
+			ts: nowIso(),
+			eventType,
+			payload,
+		});
+	}
+
+	private opponentOf(match: ArenaMatch, agentId: string) {
+		return match.players.find((player) => player !== agentId) ?? agentId;
+	}
+
+	private activeKeysFor(agentId: string) {
+		return [...this.apiKeys.values()].filter(
+			(key) => key.agentId === agentId && !key.revokedAt,
+		);
+	}
+
+	private issueApiKey(agentId: string, label: string | null) {
+		const secret = `fc_sk_${randomToken(32)}`;
+		const key: ApiKey = {
+			id: randomUUID(),
+			agentId,
+			secret,
+			prefix: secret.slice("fc_sk_".length, "fc_sk_".length + 8),
+			label,
+			createdAt: nowIso(),
+			lastUsedAt: null,
+			revokedAt: null,
+		};
+		this.apiKeys.set(secret, key);
+		return { key, secret };
+	}
+}
@@ -0,0 +1,503 @@
+import {
+	createServer,
+	type IncomingMessage,
+	type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Duplex } from "node:stream";
+import { defaultRoutes, type RouteKey } from "@fightclaw/agent-client";
+import {
+	EVENT_VERSION,
+	type MatchEndedEvent,
+	type StateDeltaEvent,
+	type StateEvent,
+	type YourTurnEvent,
+} from "@fightclaw/protocol";
+import { type WebSocket, WebSocketServer } from "ws";
+import {
+	type ArenaMatch,
+	type ArenaResponse,
+	type AuthContext,
+	fail,
+	LocalArena,
+	type LocalArenaOptions,
+	type MatchUpdate,
+	unauthorized,
+} from "./arena";
+
+export type LocalArenaServerOptions = LocalArenaOptions & {
+	host?: string;
+	/** 0 picks a free port. */
+	port?: number;
+};
+
+export type LocalArenaServer = {
+	url: string;
+	arena: LocalArena;
+	close: () => Promise<void>;
+};
+
+// Routes are matched from agent-client's table, so the local arena serves
+// exactly the paths ArenaClient calls.
+const compiledRoutes = (Object.keys(defaultRoutes) as RouteKey[]).map(
+	(key) => ({
+		key,
+		pattern: new RegExp(
+			`^${defaultRoutes[key].replace(/:(\w+)/g, "(?<$1>[^/]+)")}$`,
+		),
+	}),
+);
+
+const matchRoute = (pathname: string) => {
+	for (const { key, pattern } of compiledRoutes) {
+		const match = pattern.exec(pathname);
+		if (!match) continue;
+		const params: Record<string, string> = {};
+		for (const [name, value] of Object.entries(match.groups ?? {})) {
+			params[name] = decodeURIComponent(value);
+		}
+		return { key, params };
+	}
+	return null;
+};
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+	const chunks: Buffer[] = [];
+	for await (const chunk of req) chunks.push(chunk as Buffer);
+	const text = Buffer.concat(chunks).toString("utf8");
+	if (text.trim().length === 0) return {};
+	try {
+		return JSON.parse(text);
+	} catch {
+		return null;
+	}
+};
+
+const header = (req: IncomingMessage, name: string) => {
+	const value = req.headers[name];
+	return typeof value === "string" ? value : null;
+};
+
+const writeJson = (
+	req: IncomingMessage,
+	res: ServerResponse,
+	response: ArenaResponse,
+) => {
+	const requestId = header(req, "x-request-id");
+	const body =
+		response.body.ok === false && requestId
+			? { ...response.body, requestId }
+			: response.body;
+	res.writeHead(response.status, { "content-type": "application/json" });
+	res.end(JSON.stringify(body));
+};
+
+const notFound = () => fail(404, "Not found.");
+
+const isYourTurn = (match: ArenaMatch, agentId: string) =>
+	match.status === "active" &&
+	match.game.players[match.game.activePlayer]?.id === agentId;
+
+const wsMessages = (update: MatchUpdate, agentId: string): unknown[] => {
+	const { match } = update;
+	switch (update.type) {
+		case "state":
+			return [
+				{
+					type: "state",
+					matchId: match.id,
+					stateVersion: match.stateVersion,
+					stateSnapshot: match.game,
+				},
+			];
+		case "moved":
+			return [
+				{
+					type: "state_delta",
+					matchId: match.id,
+					fromStateVersion: update.fromStateVersion,
+					stateVersion: match.stateVersion,
+					delta: update.delta,
+				},
+				{
+					type: "engine_events",
+					matchId: match.id,
+					stateVersion: match.stateVersion,
+					agentId: update.agentId,
+					engineEvents: update.engineEvents,
+				},
+				...(isYourTurn(match, agentId)
+					? [
+							{
+								type: "your_turn",
+								matchId: match.id,
+								stateVersion: match.stateVersion,
+							},
+						]
+					: []),
+			];
+		case "ended":
+			return [
+				{
+					type: "match_ended",
+					matchId: match.id,
+					winnerAgentId: match.winnerAgentId ?? null,
+					endReason: update.reason,
+					finalStateVersion: match.stateVersion,
+				},
+			];
+	}
+};
+
+const stateEvent = (match: ArenaMatch): StateEvent => ({
+	eventVersion: EVENT_VERSION,
+	event: "state",
+	matchId: match.id,
+	stateVersion: match.stateVersion,
+	state: match.game,
+});
+
+const yourTurnEvent = (match: ArenaMatch): YourTurnEvent => ({
+	eventVersion: EVENT_VERSION,
+	event: "your_turn",
+	matchId: match.id,
+	stateVersion: match.stateVersion,
+});
+
+// Like the server, SSE streams only get deltas when opened with `?deltas=1`.
+const sseEvents = (
+	update: MatchUpdate,
+	agentId: string,
+	deltas: boolean,
+): Array<{ event: string; data: unknown }> => {
+	const { match } = update;
+	switch (update.type) {
+		case "state":
+			return [{ event: "state", data: stateEvent(match) }];
+		case "moved": {
+			const delta: StateDeltaEvent = {
+				eventVersion: EVENT_VERSION,
+				event: "state_delta",
+				matchId: match.id,
+				fromStateVersion: update.fromStateVersion,
+				stateVersion: match.stateVersion,
+				delta: update.delta,
+			};
+			return [
+				deltas
+					? { event: "state_delta", data: delta }
+					: { event: "state", data: stateEvent(match) },
+				...(isYourTurn(match, agentId)
+					? [{ event: "your_turn", data: yourTurnEvent(match) }]
+					: []),
+			];
+		}
+		case "ended": {
+			const ended: MatchEndedEvent = {
+				eventVersion: EVENT_VERSION,
+				event: "match_ended",
+				matchId: match.id,
+				winnerAgentId: match.winnerAgentId ?? null,
+				loserAgentId: match.loserAgentId ?? null,
+				reason: update.reason,
+				reasonCode: update.reason,
+			};
+			return [
+				{ event: "match_ended", data: ended },
+				{ event: "game_ended", data: { ...ended, event: "game_ended" } },
+			];
+		}
+	}
+};
+
+const formatSse = (event: string, data: unknown) =>
+	`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+// Resolves the agent for a gameplay route: authenticated, verified and, for
+// match routes, seated in the match.
+const authorizeAgent = (
+	arena: LocalArena,
+	req: IncomingMessage,
+	matchId?: string,
+): { ok: true; auth: AuthContext } | { ok: false; response: ArenaResponse } => {
+	const auth = arena.authenticate(header(req, "authorization"));
+	if (!auth) return { ok: false, response: unauthorized() };
+	const unverified = arena.requireVerified(auth);
+	if (unverified) return { ok: false, response: unverified };
+	if (matchId !== undefined) {
+		const match = arena.getMatch(matchId);
+		if (!match) return { ok: false, response: fail(404, "Match not found.") };
+		if (!match.players.includes(auth.agent.id)) {
+			return { ok: false, response: fail(403, "Agent not part of match.") };
+		}
+	}
+	return { ok: true, auth };
+};
+
+const handleRequest = async (
+	arena: LocalArena,
+	req: IncomingMessage,
+	url: URL,
+	route: { key: RouteKey; params: Record<string, string> },
+): Promise<ArenaResponse> => {
+	const method = req.method ?? "GET";
+	const { key, params } = route;
+
+	if (key === "auth_register" && method === "POST") {
+		return arena.register(await readJson(req));
+	}
+	if (key === "auth_verify" && method === "POST") {
+		return arena.verify(header(req, "x-admin-key"), await readJson(req));
+	}
+	if (key === "match_state" && method === "GET") {
+		return arena.matchState(params.matchId ?? "");
+	}
+	if (key === "match_log" && method === "GET") {
+		return arena.matchLog(params.matchId ?? "", header(req, "x-admin-key"), {
+			afterId: url.searchParams.get("afterId"),
+			limit: url.searchParams.get("limit"),
+		});
+	}
+
+	const auth = arena.authenticate(header(req, "authorization"));
+	if (!auth) return unauthorized();
+
+	switch (key) {
+		case "auth_me":
+			return method === "GET" ? arena.me(auth) : notFound();
+		case "auth_keys":
+			if (method === "POST") {
+				return arena.createApiKey(auth, await readJson(req));
+			}
+			return method === "GET" ? arena.listApiKeys(auth) : notFound();
+		case "auth_key":
+			return method === "DELETE"
+				? arena.revokeApiKey(auth, params.keyId ?? "")
+				: notFound();
+		case "queue_status":
+			return method === "GET" ? arena.queueStatus(auth) : notFound();
+		case "queue_leave":
+			return method === "DELETE" ? arena.leaveQueue(auth) : notFound();
+		default:
+			break;
+	}
+
+	const unverified = arena.requireVerified(auth);
+	if (unverified) return unverified;
+
+	switch (key) {
+		case "queue_join":
+			return method === "POST"
+				? arena.joinQueue(auth, await readJson(req))
+				: notFound();
+		case "events_wait": {
+			if (method !== "GET") return notFound();
+			const timeout = Number.parseInt(
+				url.searchParams.get("timeout") ?? "30",
+				10,
+			);
+			return await arena.waitForEvents(
+				auth,
+				Number.isNaN(timeout) ? 30 : timeout,
+			);
+		}
+		case "match_move":
+			return method === "POST"
+				? arena.submitMove(
+						auth.agent.id,
+						params.matchId ?? "",
+						await readJson(req),
+					)
+				: notFound();
+		default:
+			return notFound();
+	}
+};
+
+const openMatchStream = (
+	arena: LocalArena,
+	req: IncomingMessage,
+	res: ServerResponse,
+	url: URL,
+	matchId: string,
+) => {
+	const authorized = authorizeAgent(arena, req, matchId);
+	if (!authorized.ok) {
+		writeJson(req, res, authorized.response);
+		return;
+	}
+	const agentId = authorized.auth.agent.id;
+	const match = arena.getMatch(matchId);
+	if (!match) return;
+
+	res.writeHead(200, {
+		"content-type": "text/event-stream",
+		"cache-control": "no-cache",
+		connection: "keep-alive",
+	});
+	res.write(formatSse("state", stateEvent(match)));
+	if (isYourTurn(match, agentId)) {
+		res.write(formatSse("your_turn", yourTurnEvent(match)));
+	}
+	const deltas = url.searchParams.get("deltas") === "1";
+	const unsubscribe = arena.subscribe(matchId, (update) => {
+		for (const { event, data } of sseEvents(update, agentId, deltas)) {
+			res.write(formatSse(event, data));
+		}
+	});
+	req.on("close", unsubscribe);
+};
+
+const attachAgentSocket = (
+	arena: LocalArena,
+	ws: WebSocket,
+	matchId: string,
+	agentId: string,
+) => {
+	const send = (message: unknown) => {
+		if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+	};
+	const match = arena.getMatch(matchId);
+	if (!match) {
+		ws.close();
+		return;
+	}
+
+	send({
+		type: "state",
+		matchId,
+		stateVersion: match.stateVersion,
+		stateSnapshot: match.game,
+	});
+	if (isYourTurn(match, agentId)) {
+		send({ type: "your_turn", matchId, stateVersion: match.stateVersion });
+	}
+	const unsubscribe = arena.subscribe(matchId, (update) => {
+		for (const message of wsMessages(update, agentId)) send(message);
+	});
+
+	ws.on("message", (raw) => {
+		let parsed: unknown = null;
+		try {
+			parsed = JSON.parse(raw.toString());
+		} catch {
+			parsed = null;
+		}
+		const message =
+			typeof parsed === "object" && parsed !== null
+				? (parsed as Record<string, unknown>)
+				: null;
+		if (message?.type === "ping") {
+			send({ type: "hello_ok", agentId });
+			return;
+		}
+		if (message?.type !== "move_submit") {
+			send({
+				type: "error",
+				error: message
+					? "Only move_submit is supported on match websocket."
+					: "Invalid WS message.",
+			});
+			return;
+		}
+
+		const response = arena.submitMove(agentId, matchId, {
+			moveId: message.moveId,
+			expectedVersion: message.expectedVersion,
+			move: message.move,
+		});
+		if (response.body.ok === true) {
+			const state = response.body.state as ArenaMatch;
+			send({
+				type: "move_result",
+				accepted: true,
+				newStateVersion: state.stateVersion,
+				stateSnapshot: state.game,
+			});
+			return;
+		}
+		const reason = response.body.reason ?? response.body.error;
+		send({
+			type: "move_result",
+			accepted: false,
+			reason: typeof reason === "string" ? reason : "move_rejected",
+		});
+	});
+	ws.on("close", unsubscribe);
+};
+
+const rejectUpgrade = (socket: Duplex, status: number, message: string) => {
+	socket.end(`HTTP/1.1 ${status} ${message}\r\nconnection: close\r\n\r\n`);
+};
+
+/** Serves the arena over HTTP, SSE and WebSocket on one port. */
+export const startLocalArenaServer = async (
+	options: LocalArenaServerOptions,
+): Promise<LocalArenaServer> => {
+	const arena = new LocalArena(options);
+	const wss = new WebSocketServer({ noServer: true });
+
+	const server = createServer((req, res) => {
+		const url = new URL(req.url ?? "/", "http://local-arena");
+		const route = matchRoute(url.pathname);
+		if (route?.key === "match_stream" && req.method === "GET") {
+			openMatchStream(arena, req, res, url, route.params.matchId ?? "");
+			return;
+		}
+		if (!route || route.key === "match_ws") {
+			writeJson(req, res, notFound());
+			return;
+		}
+		handleRequest(arena, req, url, route)
+			.then((response) => writeJson(req, res, response))
+			.catch((error: unknown) => {
+				console.error("Local arena request failed", error);
+				writeJson(req, res, fail(500, "Internal server error."));
+			});
+	});
+
+	server.on("upgrade", (req, socket, head) => {
+		const url = new URL(req.url ?? "/", "http://local-arena");
+		const route = matchRoute(url.pathname);
+		if (route?.key !== "match_ws") {
+			rejectUpgrade(socket, 404, "Not Found");
+			return;
+		}
+		const matchId = route.params.matchId ?? "";
+		const authorized = authorizeAgent(arena, req, matchId);
+		if (!authorized.ok) {
+			const status = authorized.response.status;
+			rejectUpgrade(
+				socket,
+				status,
+				status === 401 ? "Unauthorized" : "Forbidden",
+			);
+			return;
+		}
+		wss.handleUpgrade(req, socket, head, (ws) => {
+			attachAgentSocket(arena, ws, matchId, authorized.auth.agent.id);
+		});
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		server.once("error", reject);
+		server.listen(options.port ?? 3000, options.host ?? "127.0.0.1", () => {
+			server.off("error", reject);
+			resolve();
+		});
+	});
+	const address = server.address() as AddressInfo;
+	const host =
+		address.family === "IPv6" ? `[${address.address}]` : address.address;
+
+	return {
+		url: `http://${host}:${address.port}`,
+		arena,
+		close: async () => {
+			arena.close();
+			for (const client of wss.clients) client.terminate();
+			server.closeAllConnections();
+			await new Promise<void>((resolve) => server.close(() => resolve()));
+		},
+	};
+};
@@ -4,6 +4,8 @@ import {
 	type MoveProvider,
 	runMatch,
 } from "@fightclaw/agent-client";
+import { startLocalArenaServer } from "./arena/server";
+import { createInteractiveProvider, loadStrategy } from "./play";
 
 type ArgMap = Record<string, string | boolean>;
 
@@ -49,8 +51,13 @@ const usage = () => {
 			"Commands:",
 			"  register  --baseUrl <url> --name <agentName> [--verify --adminKey <key>]",
 			"  me        --baseUrl <url> --apiKey <key>",
+			"  keys      --baseUrl <url> --apiKey <key>",
+			"  keys-create --baseUrl <url> --apiKey <key> [--label <label>]",
+			"  keys-revoke --baseUrl <url> --apiKey <key> --id <keyId>",
 			"  run       --baseUrl <url> --apiKey <key> [--transport ws|http]",
+			"  play      --baseUrl <url> --apiKey <key> (--strategy <module> | --interactive) [--transport ws|http]",
 			"  run-many  --baseUrl <url> --count <n> --matches <n> --adminKey <key> [--prefix bot]",
+			"  serve     [--port 3000] [--host 127.0.0.1] [--adminKey <key>] [--turnTimeoutSeconds 0]",
 		].join("\n"),
 	);
 };
@@ -124,6 +131,40 @@ const runMe = async (args: ArgMap) => {
 	console.log(JSON.stringify(me, null, 2));
 };
 
+const runKeys = async (args: ArgMap) => {
+	const baseUrl = asString(args.baseUrl) ?? "http://127.0.0.1:3000";
+	const apiKey = asString(args.apiKey);
+	if (!apiKey) {
+		throw new Error("keys requires --apiKey");
+	}
+	const client = createClient(baseUrl, apiKey);
+	const keys = await client.listApiKeys();
+	console.log(JSON.stringify({ keys }, null, 2));
+};
+
+const runKeysCreate = async (args: ArgMap) => {
+	const baseUrl = asString(args.baseUrl) ?? "http://127.0.0.1:3000";
+	const apiKey = asString(args.apiKey);
+	if (!apiKey) {
+		throw new Error("keys-create requires --apiKey");
+	}
+	const client = createClient(baseUrl, apiKey);
+	const created = await client.createApiKey(asString(args.label));
+	console.log(JSON.stringify(created, null, 2));
+};
+
+const runKeysRevoke = async (args: ArgMap) => {
+	const baseUrl = asString(args.baseUrl) ?? "http://127.0.0.1:3000";
+	const apiKey = asString(args.apiKey);
+	const keyId = asString(args.id);
+	if (!apiKey || !keyId) {
+		throw new Error("keys-revoke requires --apiKey and --id");
+	}
+	const client = createClient(baseUrl, apiKey);
+	const key = await client.revokeApiKey(keyId);
+	console.log(JSON.stringify({ key }, null, 2));
+};
+
 const runSingle = async (args: ArgMap) => {
 	const baseUrl = asString(args.baseUrl) ?? "http://127.0.0.1:3000";
 	const apiKey = asString(args.apiKey);
@@ -141,6 +182,43 @@ const runSingle = async (args: ArgMap) => {
 	console.log(JSON.stringify(result, null, 2));
 };
 
+const runPlay = async (args: ArgMap) => {
+	const baseUrl = asString(args.baseUrl) ?? "http://127.0.0.1:3000";
+	const apiKey = asString(args.apiKey);
+	if (!apiKey) {
+		throw new Error("play requires --apiKey");
+	}
+	const strategyPath = asString(args.strategy);
+	const interactive = args.interactive === true;
+	if (Boolean(strategyPath) === interactive) {
+		throw new Error(
+			"play requires one of --strategy <module> or --interactive",
+		);
+	}
+	const transportArg = asString(args.transport);
+	const transport = transportArg === "http" ? "http" : "ws";
+
+	let session: ReturnType<typeof createInteractiveProvider> | null = null;
+	let moveProvider: MoveProvider;
+	if (strategyPath) {
+		moveProvider = await loadStrategy(strategyPath);
+	} else {
+		session = createInteractiveProvider();
+		moveProvider = session.provider;
+	}
+	const client = createClient(baseUrl, apiKey);
+	try {
+		const result = await runMatch(client, {
+			moveProvider,
+			preferredTransport: transport,
+			allowTransportFallback: true,
+		});
+		console.log(JSON.stringify(result, null, 2));
+	} finally {
+		session?.close();
+	}
+};
+
 const runMany = async (args: ArgMap) => {
 	const baseUrl = asString(args.baseUrl) ?? "http://127.0.0.1:3000";
 	const count = asInt(args.count, 2);
@@ -195,6 +273,36 @@ const runMany = async (args: ArgMap) => {
 	);
 };
 
+const DEFAULT_LOCAL_ADMIN_KEY = "local-admin-key";
+
+const runServe = async (args: ArgMap) => {
+	const adminKey =
+		asString(args.adminKey) ??
+		(typeof process.env.ADMIN_KEY === "string"
+			? process.env.ADMIN_KEY
+			: DEFAULT_LOCAL_ADMIN_KEY);
+	const server = await startLocalArenaServer({
+		adminKey,
+		host: asString(args.host) ?? "127.0.0.1",
+		port: asInt(args.port, 3000),
+		turnTimeoutSeconds: asInt(args.turnTimeoutSeconds, 0),
+	});
+	console.log(
+		`Local arena listening on ${server.url} (admin key: ${adminKey})`,
+	);
+
+	await new Promise<void>((resolve) => {
+		const stop = () => {
+			process.off("SIGINT", stop);
+			process.off("SIGTERM", stop);
+			resolve();
+		};
+		process.on("SIGINT", stop);
+		process.on("SIGTERM", stop);
+	});
+	await server.close();
+};
+
 const main = async () => {
 	const parsed = parseArgs(process.argv.slice(2));
 	const command = parsed.command;
@@ -210,12 +318,27 @@ const main = async () => {
 		case "me":
 			await runMe(parsed.args);
 			return;
+		case "keys":
+			await runKeys(parsed.args);
+			return;
+		case "keys-create":
+			await runKeysCreate(parsed.args);
+			return;
+		case "keys-revoke":
+			await runKeysRevoke(parsed.args);
+			return;
 		case "run":
 			await runSingle(parsed.args);
 			return;
+		case "play":
+			await runPlay(parsed.args);
+			return;
 		case "run-many":
 			await runMany(parsed.args);
 			return;
+		case "serve":
+			await runServe(parsed.args);
+			return;
 		default:
 			usage();
 			throw new Error(`Unknown command: ${command}`);
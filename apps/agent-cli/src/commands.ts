@@ -0,0 +1,124 @@
+import type { Move } from "@fightclaw/engine";
+
+// Port of the sim's command syntax (apps/sim/src/bots/commandParser.ts), one
+// command per line: `move A-1 E5`, `attack A-1 F6`, `recruit infantry B2`,
+// `fortify A-1`, `upgrade A-1`, `end_turn` (or `end turn` / `pass`).
+
+export type ParsedCommand =
+	| { action: "move"; unitId: string; target: string }
+	| { action: "attack"; unitId: string; target: string }
+	| { action: "recruit"; unitType: string; target: string }
+	| { action: "fortify"; unitId: string }
+	| { action: "upgrade"; unitId: string }
+	| { action: "end_turn" };
+
+const cleanToken = (token: string | undefined) => {
+	if (!token) return undefined;
+	const cleaned = token.replace(/[^A-Za-z0-9_-]/g, "");
+	return cleaned.length > 0 ? cleaned : undefined;
+};
+
+export const parseCommand = (line: string): ParsedCommand | null => {
+	const parts = line.trim().split(/\s+/);
+	const action = (parts[0] ?? "").toLowerCase();
+	const first = cleanToken(parts[1]);
+	const second = cleanToken(parts[2]);
+
+	switch (action) {
+		case "move":
+		case "attack":
+			return first && second ? { action, unitId: first, target: second } : null;
+		case "recruit":
+			return first && second
+				? { action, unitType: first.toLowerCase(), target: second }
+				: null;
+		case "fortify":
+		case "upgrade":
+			return first ? { action, unitId: first } : null;
+		case "end":
+			return first?.toLowerCase() === "turn" ? { action: "end_turn" } : null;
+		case "end_turn":
+		case "pass":
+			return { action: "end_turn" };
+		default:
+			return null;
+	}
+};
+
+/** Writes a legal move back out in command syntax. */
+export const formatMove = (move: Move): string => {
+	switch (move.action) {
+		case "move":
+			return `move ${move.unitId} ${move.to}`;
+		case "attack":
+			return `attack ${move.unitId} ${move.target}`;
+		case "recruit":
+			return `recruit ${move.unitType} ${move.at}`;
+		case "fortify":
+		case "upgrade":
+			return `${move.action} ${move.unitId}`;
+		case "end_turn":
+		case "pass":
+			return move.action;
+	}
+};
+
+const formatCommand = (command: ParsedCommand): string => {
+	switch (command.action) {
+		case "move":
+		case "attack":
+			return `${command.action} ${command.unitId} ${command.target}`;
+		case "recruit":
+			return `recruit ${command.unitType} ${command.target}`;
+		case "fortify":
+		case "upgrade":
+			return `${command.action} ${command.unitId}`;
+		case "end_turn":
+			return "end_turn";
+	}
+};
+
+/** The legal move a command names, or null if none matches. */
+export const matchCommand = (
+	command: ParsedCommand,
+	legalMoves: Move[],
+): Move | null => {
+	const wanted = formatCommand(command).toLowerCase();
+	return (
+		legalMoves.find((move) => {
+			// `pass` parses as `end_turn`, so either answers an end of turn.
+			const candidate = parseCommand(formatMove(move));
+			return (
+				candidate !== null && formatCommand(candidate).toLowerCase() === wanted
+			);
+		}) ?? null
+	);
+};
+
+/** Builds the move a command describes without checking it is legal. */
+export const commandToMove = (command: ParsedCommand): Move => {
+	switch (command.action) {
+		case "move":
+			return { action: "move", unitId: command.unitId, to: command.target };
+		case "attack":
+			return {
+				action: "attack",
+				unitId: command.unitId,
+				target: command.target,
+			};
+		case "recruit":
+			return {
+				action: "recruit",
+				unitType: command.unitType as Extract<
+					Move,
+					{ action: "recruit" }
+				>["unitType"],
+				at: command.target,
+			};
+		case "fortify":
+		case "upgrade":
+			return { action: command.action, unitId: command.unitId };
+		case "end_turn":
+			return { action: "end_turn" };
+	}
+};
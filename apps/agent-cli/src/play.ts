@@ -0,0 +1,120 @@
+import { resolve } from "node:path";
+import { createInterface } from "node:readline/promises";
+import { pathToFileURL } from "node:url";
+import type {
+	MoveProvider,
+	MoveProviderContext,
+} from "@fightclaw/agent-client";
+import { type Move, renderAscii } from "@fightclaw/engine";
+import {
+	commandToMove,
+	formatMove,
+	matchCommand,
+	parseCommand,
+} from "./commands";
+
+const isMoveProvider = (value: unknown): value is MoveProvider => {
+	if (typeof value !== "object" || value === null) return false;
+	const candidate = value as Record<string, unknown>;
+	return (
+		typeof candidate.nextMove === "function" ||
+		typeof candidate.nextTurn === "function"
+	);
+};
+
+/**
+ * Imports a strategy module and returns its `MoveProvider`: the default
+ * export, or a named `moveProvider` export. TypeScript modules load when the
+ * CLI runs under tsx.
+ */
+export const loadStrategy = async (path: string): Promise<MoveProvider> => {
+	const url = pathToFileURL(resolve(process.cwd(), path)).href;
+	const loaded = (await import(url)) as Record<string, unknown>;
+	const provider = loaded.default ?? loaded.moveProvider;
+	if (!isMoveProvider(provider)) {
+		throw new Error(
+			`${path} must export a MoveProvider (default or "moveProvider") with nextMove or nextTurn.`,
+		);
+	}
+	return provider;
+};
+
+const describeTurn = (context: MoveProviderContext) => {
+	const lines = [
+		"",
+		`Match ${context.matchId} · version ${context.stateVersion} · you are ${context.side ?? "?"}`,
+	];
+	if (context.state) {
+		const me = context.side ? context.state.players[context.side] : null;
+		lines.push(renderAscii(context.state));
+		lines.push(
+			`Turn ${context.state.turn} · actions left ${context.state.actionsRemaining}` +
+				(me ? ` · gold ${me.gold} · wood ${me.wood} · vp ${me.vp}` : ""),
+		);
+	} else {
+		lines.push("(no state available; legal moves unknown)");
+	}
+	if (
+		context.clock &&
+		context.clock.remainingMs[context.agentId] !== undefined
+	) {
+		const seconds = Math.ceil(
+			(context.clock.remainingMs[context.agentId] ?? 0) / 1000,
+		);
+		lines.push(`Clock: ${seconds}s left`);
+	}
+	return lines.join("\n");
+};
+
+const listMoves = (legalMoves: Move[]) =>
+	legalMoves
+		.map(
+			(move, index) =>
+				`  ${String(index + 1).padStart(3)}. ${formatMove(move)}`,
+		)
+		.join("\n");
+
+/**
+ * Lets a human pick each action: by its number in the legal move list or as
+ * a command (`move A-1 E5`, `end_turn`, ...). `moves` reprints the list.
+ */
+export const createInteractiveProvider = (): {
+	provider: MoveProvider;
+	close: () => void;
+} => {
+	const rl = createInterface({ input: process.stdin, output: process.stdout });
+
+	const provider: MoveProvider = {
+		nextMove: async (context) => {
+			console.log(describeTurn(context));
+			console.log(listMoves(context.legalMoves));
+			while (true) {
+				const line = (await rl.question("> ")).trim();
+				if (line === "") continue;
+				if (line === "moves") {
+					console.log(listMoves(context.legalMoves));
+					continue;
+				}
+				const index = Number.parseInt(line, 10);
+				if (String(index) === line) {
+					const picked = context.legalMoves[index - 1];
+					if (picked) return picked;
+					console.log(`No move #${line}.`);
+					continue;
+				}
+				const command = parseCommand(line);
+				if (!command) {
+					console.log("Unrecognised command; type a number or `moves`.");
+					continue;
+				}
+				// Without a state the server is the only judge of legality.
+				if (!context.state) return commandToMove(command);
+				const move = matchCommand(command, context.legalMoves);
+				if (move) return move;
+				console.log("Not a legal move right now.");
+			}
+		},
+	};
+
+	return { provider, close: () => rl.close() };
+};
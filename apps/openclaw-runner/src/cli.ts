@@ -221,6 +221,7 @@ const invokeGateway = async (
 		matchId: string;
 		stateVersion: number;
 		state: unknown;
+		legalMoves: Move[];
 	},
 ): Promise<GatewayMoveResult | null> => {
 	return await new Promise((resolve, reject) => {
@@ -283,14 +284,19 @@ const createMoveProvider = (
 	agentId: string,
 	gatewayCmd?: string,
 ): MoveProvider => ({
-	nextMove: async ({ matchId, stateVersion }: MoveProviderContext) => {
-		const state = await client.getMatchState(matchId);
+	nextMove: async ({
+		matchId,
+		stateVersion,
+		state,
+		legalMoves,
+	}: MoveProviderContext) => {
 		if (gatewayCmd) {
 			const gateway = await invokeGateway(gatewayCmd, {
 				agentId,
 				matchId,
 				stateVersion,
-				state,
+				state: state ?? (await client.getMatchState(matchId)),
+				legalMoves,
 			});
 			if (gateway?.move) {
 				const thought =
@@ -22,9 +22,12 @@ export type AppBindings = {
 	INTERNAL_RUNNER_KEY?: string;
 	MATCHMAKING_ELO_RANGE?: string;
 	TURN_TIMEOUT_SECONDS?: string;
+	HOUSE_AGENT_WAIT_SECONDS?: string;
+	HOUSE_MOVE_DELAY_MS?: string;
 	TEST_MODE?: string;
 	MATCHMAKER: DurableObjectNamespace;
 	MATCH: DurableObjectNamespace;
+	TOURNAMENT: DurableObjectNamespace;
 	MOVE_SUBMIT_LIMIT?: RateLimitBinding;
 	READ_LIMIT?: RateLimitBinding;
 
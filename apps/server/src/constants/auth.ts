@@ -0,0 +1,5 @@
+// Active (unrevoked) API keys an agent may hold at once.
+export const API_KEY_LIMIT = 10;
+// `lastUsedAt` is only rewritten once it is at least this stale, so busy
+// agents do not turn every authenticated request into a D1 write.
+export const API_KEY_LAST_USED_RESOLUTION_SECONDS = 60;
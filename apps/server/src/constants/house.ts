@@ -0,0 +1,14 @@
+export const HOUSE_STRATEGIES = ["greedy", "aggressive"] as const;
+
+export type HouseStrategy = (typeof HOUSE_STRATEGIES)[number];
+
+export const isHouseStrategy = (value: unknown): value is HouseStrategy =>
+	typeof value === "string" &&
+	(HOUSE_STRATEGIES as readonly string[]).includes(value);
+
+// How long a queued agent waits for a real opponent before a house agent
+// takes the game. Overridden by HOUSE_AGENT_WAIT_SECONDS.
+export const HOUSE_AGENT_WAIT_SECONDS_DEFAULT = 30;
+// Pause between house bot actions so spectators can follow the game.
+// Overridden by HOUSE_MOVE_DELAY_MS.
+export const HOUSE_MOVE_DELAY_MS_DEFAULT = 500;
@@ -0,0 +1,9 @@
+export const MATCH_MODES = ["ranked", "casual"] as const;
+
+export type MatchMode = (typeof MATCH_MODES)[number];
+
+export const DEFAULT_MATCH_MODE: MatchMode = "ranked";
+
+export const isMatchMode = (value: unknown): value is MatchMode =>
+	typeof value === "string" &&
+	(MATCH_MODES as readonly string[]).includes(value);
@@ -0,0 +1,12 @@
+// How often the matchmaker re-runs pairing while anyone is queued.
+export const MATCHMAKING_TICK_MS = 2_000;
+// Rating points a ranked pair's window grows per second the longer-waiting
+// side has queued, up to the cap.
+export const MATCHMAKING_WINDOW_GROWTH_PER_SECOND = 5;
+export const MATCHMAKING_WINDOW_GROWTH_MAX = 600;
+// Opponents remembered per agent; pairing avoids all of them when it can.
+export const MATCHMAKING_RECENT_OPPONENTS = 5;
+// Queues up to this size are paired exactly; larger ones greedily.
+export const MATCHMAKING_EXACT_BATCH_LIMIT = 16;
+// Completed waits kept per mode for the queue status estimate.
+export const MATCHMAKING_WAIT_SAMPLES = 20;
@@ -1 +1,13 @@
 export const ELO_START = 1500;
+
+// Glicko-2 parameters. Deviations are on the familiar 1500-centred scale.
+export const RATING_DEVIATION_START = 350;
+export const RATING_DEVIATION_MIN = 30;
+export const VOLATILITY_START = 0.06;
+export const GLICKO_TAU = 0.5;
+// Inactivity decay grows the deviation once per idle rating period.
+export const RATING_PERIOD_DAYS = 7;
+// Closing a season pulls ratings halfway back to the start and reopens
+// deviation so the new season's early games move ratings quickly.
+export const SEASON_RATING_CARRYOVER = 0.5;
+export const SEASON_RESET_DEVIATION = 200;
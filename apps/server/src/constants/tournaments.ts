@@ -0,0 +1,13 @@
+export const TOURNAMENT_FORMATS = [
+	"swiss",
+	"round_robin",
+	"single_elimination",
+] as const;
+
+export type TournamentFormat = (typeof TOURNAMENT_FORMATS)[number];
+
+export const TOURNAMENT_MAX_ENTRANTS = 64;
+export const TOURNAMENT_MAX_SWISS_ROUNDS = 12;
+// How often a running tournament retries unstarted pairings and checks on
+// matches whose end notification may have been lost.
+export const TOURNAMENT_TICK_MS = 30_000;
@@ -0,0 +1,73 @@
+import { z } from "zod";
+
+// Engine overrides a challenger may pick. Board shape and unit stats stay
+// fixed so every arranged game is still the published ruleset.
+export const matchEngineConfigSchema = z
+	.object({
+		actionsPerTurn: z.number().int().min(1).max(20).optional(),
+		turnLimit: z.number().int().min(1).max(500).optional(),
+		startingGold: z.number().int().min(0).max(1000).optional(),
+		startingWood: z.number().int().min(0).max(1000).optional(),
+		victory: z
+			.object({
+				vpThreshold: z.number().int().min(0).optional(),
+				crownHoldTurns: z.number().int().min(0).optional(),
+				economicNodePercent: z.number().min(0).max(100).optional(),
+			})
+			.strict()
+			.optional(),
+		drawRules: z
+			.object({
+				repetitionLimit: z.number().int().min(0).optional(),
+				noProgressTurns: z.number().int().min(0).optional(),
+			})
+			.strict()
+			.optional(),
+	})
+	.strict();
+
+const turnTimeControlSchema = z
+	.object({
+		// Seconds each turn may take before the active agent forfeits; 0 disables.
+		turnSeconds: z.number().int().min(0).max(3600),
+	})
+	.strict();
+
+// Chess clock: each agent starts with a bank that runs down only on their own
+// turns. The first `delaySeconds` of a turn are free and `incrementSeconds`
+// is added once the turn passes. An empty bank forfeits like a turn timeout.
+const clockTimeControlSchema = z
+	.object({
+		initialSeconds: z.number().int().min(1).max(7200),
+		incrementSeconds: z.number().int().min(0).max(600).optional(),
+		delaySeconds: z.number().int().min(0).max(600).optional(),
+	})
+	.strict();
+
+export const timeControlSchema = z.union([
+	turnTimeControlSchema,
+	clockTimeControlSchema,
+]);
+
+export const matchSettingsSchema = z.object({
+	mapId: z.string().min(1).optional(),
+	fogOfWar: z.boolean().optional(),
+	engineConfig: matchEngineConfigSchema.optional(),
+	timeControl: timeControlSchema.optional(),
+});
+
+// Ranked games are rated on the queue's settings, so arranged ranked games
+// may not change any of them.
+export const RANKED_SETTINGS_ERROR =
+	"Ranked games must use the default map, rules and time control.";
+
+export const hasDefaultSettings = (settings: MatchSettings) =>
+	settings.mapId === undefined &&
+	settings.fogOfWar !== true &&
+	settings.engineConfig === undefined &&
+	settings.timeControl === undefined;
+
+export type MatchEngineConfig = z.infer<typeof matchEngineConfigSchema>;
+export type TimeControl = z.infer<typeof timeControlSchema>;
+export type ClockTimeControl = z.infer<typeof clockTimeControlSchema>;
+export type MatchSettings = z.infer<typeof matchSettingsSchema>;
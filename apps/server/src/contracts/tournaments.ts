@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { MATCH_MODES } from "../constants/matchModes";
+import {
+	TOURNAMENT_FORMATS,
+	TOURNAMENT_MAX_SWISS_ROUNDS,
+} from "../constants/tournaments";
+import { matchSettingsSchema } from "./matchSettings";
+
+export const tournamentCreateSchema = z
+	.object({
+		name: z.string().trim().min(1).max(80),
+		format: z.enum(TOURNAMENT_FORMATS),
+		// Swiss only; other formats derive their round count.
+		rounds: z.number().int().min(1).max(TOURNAMENT_MAX_SWISS_ROUNDS).optional(),
+		mode: z.enum(MATCH_MODES).optional(),
+		// Applied to every game of the tournament.
+		settings: matchSettingsSchema.strict().optional(),
+	})
+	.strict();
+
+export type TournamentCreate = z.infer<typeof tournamentCreateSchema>;
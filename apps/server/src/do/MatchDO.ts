@@ -1,18 +1,48 @@
 import { DurableObject } from "cloudflare:workers";
 import {
 	applyMove,
+	bindEngineConfig,
+	createInitialState as createInitialGameState,
+	diffStates,
 	type EngineEvent,
 	type GameState,
 	getEngineConfig,
-	initialState,
+	getMapDefinition,
 	isTerminal,
 	type Move,
 	MoveSchema,
+	type PlayerSide,
+	projectStateForPlayer,
+	type StateDelta,
+	validateMove,
 	winner,
 } from "@fightclaw/engine";
 import { z } from "zod";
 import type { AppBindings } from "../appTypes";
-import { ELO_START } from "../constants/rating";
+import {
+	HOUSE_MOVE_DELAY_MS_DEFAULT,
+	HOUSE_STRATEGIES,
+	type HouseStrategy,
+} from "../constants/house";
+import {
+	DEFAULT_MATCH_MODE,
+	MATCH_MODES,
+	type MatchMode,
+} from "../constants/matchModes";
+import {
+	type MatchEngineConfig,
+	matchSettingsSchema,
+	type TimeControl,
+} from "../contracts/matchSettings";
+import { chooseHouseMove } from "../house/bots";
+import {
+	clockDeadlineMs,
+	isClockTimeControl,
+	type MatchClock,
+	passClockTurn,
+	startClock,
+	viewClock,
+} from "../matches/clock";
 import { log } from "../obs/log";
 import { emitMetric } from "../obs/metrics";
 import {
@@ -20,8 +50,10 @@ import {
 	buildEngineEventsEvent,
 	buildGameEndedAliasEvent,
 	buildMatchEndedEvent,
+	buildStateDeltaEvent,
 	buildStateEvent,
 	buildYourTurnEvent,
+	type RatingChange,
 } from "../protocol/events";
 import { formatSse } from "../protocol/sse";
 import {
@@ -29,6 +61,8 @@ import {
 	type AgentWsOutbound,
 	agentWsInboundSchema,
 } from "../protocol/ws";
+import type { GameScore } from "../ratings/glicko2";
+import { loadRatingChanges, recordRatedGame } from "../ratings/leaderboard";
 import { parseBearerToken } from "../utils/auth";
 import { sha256Hex } from "../utils/crypto";
 import { isRecord } from "../utils/typeGuards";
@@ -39,8 +73,10 @@ type MatchEnv = Pick<
 	| "DB"
 	| "API_KEY_PEPPER"
 	| "MATCHMAKER"
+	| "TOURNAMENT"
 	| "INTERNAL_RUNNER_KEY"
 	| "TURN_TIMEOUT_SECONDS"
+	| "HOUSE_MOVE_DELAY_MS"
 	| "TEST_MODE"
 	| "OBS"
 	| "SENTRY_ENVIRONMENT"
@@ -55,15 +91,35 @@ type MatchState = {
 	players: string[];
 	game: GameState;
 	lastMove: Move | null;
+	// Agent that made lastMove; under fog only they are shown it.
+	lastMoveAgentId?: string;
 	endedAt?: string;
 	winnerAgentId?: string;
 	loserAgentId?: string;
 	endReason?: string;
-	mode: "ranked";
+	mode: MatchMode;
+	mapId?: string;
+	fogOfWar?: boolean;
+	// Per-match overrides from an arranged game; absent for queue matches.
+	engineConfig?: MatchEngineConfig;
+	timeControl?: TimeControl;
+	// Chess-clock banks; present only when timeControl is a clock.
+	clock?: MatchClock;
+	// Set when a ranked match ends and its result has been rated.
+	ratingChanges?: RatingChange[];
+	// Tournament notified of the result when the match ends.
+	tournamentId?: string;
+	// Seats played by the server's house bots, by agent id.
+	houseAgents?: Record<string, HouseStrategy>;
 };
 
 type MoveResult =
-	| { ok: true; state: MatchState; engineEvents: EngineEvent[] }
+	| {
+			ok: true;
+			state: MatchState;
+			engineEvents: EngineEvent[];
+			delta: StateDelta;
+	  }
 	| { ok: false; error: string; reason?: string };
 
 type MovePayload = {
@@ -109,7 +165,6 @@ const MATCH_ID_KEY = "matchId";
 const SSE_WRITE_TIMEOUT_MS = 5000;
 const DEFAULT_TURN_TIMEOUT_SECONDS = 60;
 const WS_DISCONNECT_GRACE_MS = 15_000;
-const ELO_K = 32;
 const DISCONNECT_DEADLINE_PREFIX = "disconnect:";
 const MAX_PUBLIC_THOUGHT_LEN = 280;
 
@@ -126,11 +181,13 @@ const stripControlCharsExceptNewline = (input: string) => {
 	return output;
 };
 
-const initPayloadSchema = z
-	.object({
+const initPayloadSchema = matchSettingsSchema
+	.extend({
 		players: z.array(z.string()).length(2),
 		seed: z.number().int().optional(),
-		mode: z.literal("ranked").optional(),
+		mode: z.enum(MATCH_MODES).optional(),
+		tournamentId: z.string().min(1).optional(),
+		houseAgents: z.record(z.string(), z.enum(HOUSE_STRATEGIES)).optional(),
 	})
 	.strict();
 
@@ -214,6 +271,8 @@ export class MatchDO extends DurableObject<MatchEnv> {
 	private readonly encoder = new TextEncoder();
 	private spectators = new Set<StreamWriter>();
 	private agentStreams = new Map<string, Set<StreamWriter>>();
+	// SSE streams opened with `?deltas=1`; the rest get full `state` events.
+	private deltaStreams = new WeakSet<StreamWriter>();
 	private agentSockets = new Map<string, Set<WebSocket>>();
 	private socketAgentByWs = new WeakMap<WebSocket, string>();
 	private matchId: string | null = null;
@@ -230,10 +289,92 @@ export class MatchDO extends DurableObject<MatchEnv> {
 		const timeoutChecked = await this.maybeEnforceTurnTimeout(state);
 		const disconnectChecked =
 			await this.maybeEnforceDisconnectTimeout(timeoutChecked);
+		if (houseStrategyToMove(disconnectChecked)) {
+			// The move handler reschedules the alarm for whatever comes next.
+			await this.playHouseMove(disconnectChecked);
+			return;
+		}
 		await this.scheduleNextAlarm(disconnectChecked);
 	}
 
-	private turnTimeoutMs() {
+	// House moves go through the normal move path so they are validated,
+	// recorded and broadcast like any agent's.
+	private async playHouseMove(state: MatchState) {
+		const strategy = houseStrategyToMove(state);
+		const agentId = getActiveAgentId(state.game);
+		if (!strategy || !agentId) return;
+		// Under fog the bot only sees what its seat sees.
+		const game = isFogged(state)
+			? projectGameForAgent(state, agentId)
+			: bindStoredGame(state);
+		const move = chooseHouseMove(strategy, game, state.stateVersion);
+		if (!move) {
+			// Left to the turn timeout.
+			await this.scheduleNextAlarm(state);
+			return;
+		}
+		let response = await this.submitHouseMove(
+			state,
+			agentId,
+			`house:${state.stateVersion}`,
+			move,
+		);
+		if (response.status === 409) {
+			// Blocked by a unit the bot cannot see; it ends the turn instead.
+			const body = (await response.json()) as MoveResponse;
+			if (!body.ok && body.reason === "fog_blocked") {
+				response = await this.submitHouseMove(
+					state,
+					agentId,
+					`house:${state.stateVersion}:end`,
+					{ action: "end_turn" },
+				);
+			}
+		}
+		if (!response.ok) {
+			log("warn", "house_move_rejected", {
+				matchId: this.matchId,
+				agentId,
+				status: response.status,
+			});
+		}
+	}
+
+	private submitHouseMove(
+		state: MatchState,
+		agentId: string,
+		moveId: string,
+		move: Move,
+	) {
+		return this.fetch(
+			new Request("https://do/move", {
+				method: "POST",
+				headers: {
+					"content-type": "application/json",
+					"x-agent-id": agentId,
+				},
+				body: JSON.stringify({
+					moveId,
+					expectedVersion: state.stateVersion,
+					move,
+				}),
+			}),
+		);
+	}
+
+	private houseMoveDelayMs() {
+		const raw = this.env.HOUSE_MOVE_DELAY_MS;
+		const parsed = raw ? Number.parseInt(raw, 10) : Number.NaN;
+		return Number.isFinite(parsed) && parsed >= 0
+			? parsed
+			: HOUSE_MOVE_DELAY_MS_DEFAULT;
+	}
+
+	private turnTimeoutMs(state: MatchState) {
+		if (state.timeControl && !isClockTimeControl(state.timeControl)) {
+			const seconds = state.timeControl.turnSeconds;
+			return seconds > 0 ? seconds * 1000 : null;
+		}
 		const raw = this.env.TURN_TIMEOUT_SECONDS;
 		const parsed = raw ? Number.parseInt(raw, 10) : Number.NaN;
 		if (Number.isNaN(parsed)) {
@@ -246,6 +387,19 @@ export class MatchDO extends DurableObject<MatchEnv> {
 		return seconds * 1000;
 	}
 
+	// Deadline for the turn that started at `turnStartMs`, or null when turns
+	// are untimed. Clock matches use the active agent's bank instead.
+	private turnDeadlineMs(state: MatchState, turnStartMs: number) {
+		if (state.clock && isClockTimeControl(state.timeControl)) {
+			const activeAgentId = getActiveAgentId(state.game);
+			return activeAgentId
+				? clockDeadlineMs(state.timeControl, state.clock, activeAgentId)
+				: null;
+		}
+		const timeoutMs = this.turnTimeoutMs(state);
+		return timeoutMs === null ? null : turnStartMs + timeoutMs;
+	}
+
 	private disconnectKey(agentId: string) {
 		return `${DISCONNECT_DEADLINE_PREFIX}${agentId}`;
 	}
@@ -298,6 +452,9 @@ export class MatchDO extends DurableObject<MatchEnv> {
 			const deadline = await this.getDisconnectDeadline(agentId);
 			if (deadline) deadlines.push(deadline);
 		}
+		if (houseStrategyToMove(state)) {
+			deadlines.push(Date.now() + this.houseMoveDelayMs());
+		}
 		if (deadlines.length === 0) {
 			await this.ctx.storage.deleteAlarm();
 			return;
@@ -313,8 +470,12 @@ export class MatchDO extends DurableObject<MatchEnv> {
 		let nextState = state;
 
 		const nowMs = Date.now();
-		const timeoutMs = this.turnTimeoutMs();
-		if (timeoutMs === null) {
+		const baseMs = Date.parse(nextState.updatedAt);
+		const deadlineMs = this.turnDeadlineMs(
+			nextState,
+			Number.isFinite(baseMs) ? baseMs : nowMs,
+		);
+		if (deadlineMs === null) {
 			if (typeof nextState.turnExpiresAtMs === "number") {
 				const next: MatchState = {
 					...nextState,
@@ -333,11 +494,9 @@ export class MatchDO extends DurableObject<MatchEnv> {
 			!Number.isFinite(expiresAt) ||
 			expiresAt <= 0
 		) {
-			const baseMs = Date.parse(nextState.updatedAt);
-			const startMs = Number.isFinite(baseMs) ? baseMs : nowMs;
 			const next: MatchState = {
 				...nextState,
-				turnExpiresAtMs: startMs + timeoutMs,
+				turnExpiresAtMs: deadlineMs,
 			};
 			await this.ctx.storage.put("state", next);
 			await this.scheduleNextAlarm(next);
@@ -352,6 +511,18 @@ export class MatchDO extends DurableObject<MatchEnv> {
 		if (finalExpiresAt !== null && nowMs >= finalExpiresAt) {
 			const activeAgentId = getActiveAgentId(nextState.game);
 			if (activeAgentId) {
+				if (nextState.clock) {
+					nextState = {
+						...nextState,
+						clock: {
+							...nextState.clock,
+							remainingMs: {
+								...nextState.clock.remainingMs,
+								[activeAgentId]: 0,
+							},
+						},
+					};
+				}
 				return await this.forfeitMatch(
 					nextState,
 					activeAgentId,
@@ -582,17 +753,21 @@ export class MatchDO extends DurableObject<MatchEnv> {
 		const matchId = await this.resolveMatchId();
 		if (!matchId) return new Response("Match id unavailable.", { status: 409 });
 
+		const clock = clockSnapshot(state);
 		this.sendWsToAgent(agentId, {
 			type: "state",
 			matchId,
 			stateVersion: state.stateVersion,
-			stateSnapshot: state.game,
+			stateSnapshot: projectGameForAgent(state, agentId),
+			...(state.engineConfig ? { engineConfig: state.engineConfig } : {}),
+			...(clock ? { clock } : {}),
 		});
 		if (state.status === "active" && getActiveAgentId(state.game) === agentId) {
 			this.sendWsToAgent(agentId, {
 				type: "your_turn",
 				matchId,
 				stateVersion: state.stateVersion,
+				...(clock ? { clock } : {}),
 			});
 		}
 
@@ -724,15 +899,40 @@ export class MatchDO extends DurableObject<MatchEnv> {
 				return Response.json({ ok: true, state: enforced });
 			}
 
+			const mapId = parsed.data.mapId;
+			if (mapId && !getMapDefinition(mapId)) {
+				return Response.json(
+					{ ok: false, error: `Unknown map id: ${mapId}` },
+					{ status: 400 },
+				);
+			}
+
 			const seed = parsed.data.seed ?? Math.floor(Math.random() * 1_000_000);
 			const nextState = createInitialState(
 				parsed.data.players,
 				seed,
-				parsed.data.mode ?? "ranked",
+				parsed.data.mode ?? DEFAULT_MATCH_MODE,
+				mapId,
+				parsed.data.fogOfWar ?? false,
+				parsed.data.engineConfig,
+				parsed.data.timeControl,
 			);
-			const timeoutMs = this.turnTimeoutMs();
+			if (parsed.data.tournamentId) {
+				nextState.tournamentId = parsed.data.tournamentId;
+			}
+			if (parsed.data.houseAgents) {
+				nextState.houseAgents = parsed.data.houseAgents;
+			}
+			const startedAtMs = Date.now();
+			if (isClockTimeControl(nextState.timeControl)) {
+				nextState.clock = startClock(
+					nextState.timeControl,
+					nextState.players,
+					startedAtMs,
+				);
+			}
 			nextState.turnExpiresAtMs =
-				timeoutMs === null ? undefined : Date.now() + timeoutMs;
+				this.turnDeadlineMs(nextState, startedAtMs) ?? undefined;
 			if (this.matchId) {
 				await this.ctx.storage.put(MATCH_ID_KEY, this.matchId);
 			}
@@ -741,6 +941,7 @@ export class MatchDO extends DurableObject<MatchEnv> {
 			await this.recordEvent(nextState, "match_started", {
 				players: nextState.players,
 				seed,
+				mapId: nextState.mapId ?? null,
 				engineConfig: getEngineConfig(nextState.game),
 			});
 
@@ -889,13 +1090,50 @@ export class MatchDO extends DurableObject<MatchEnv> {
 
 			const result = applyMoveToState(state, moveParse.data);
 
+			// A ruleset this deploy cannot run is a server fault, never a forfeit.
+			if (!result.ok && result.reason === "unsupported_ruleset") {
+				const response = {
+					ok: false,
+					error: result.error,
+					stateVersion: state.stateVersion,
+				} satisfies MoveResponse;
+				return Response.json(response, { status: 503 });
+			}
+
 			if (!result.ok) {
+				// Under fog a move the mover's view allows can still run into a
+				// unit they cannot see. That is rejected without a forfeit, and the
+				// error comes from their view so it never names the hidden unit.
+				let error = result.error;
+				if (isFogged(state)) {
+					const seen = validateMove(
+						projectGameForAgent(state, agentId),
+						moveParse.data,
+					);
+					if (seen.ok) {
+						const response = {
+							ok: false,
+							error: "Move blocked by an unseen unit.",
+							stateVersion: state.stateVersion,
+							reason: "fog_blocked",
+							reasonCode: "fog_blocked",
+						} satisfies MoveResponse;
+						await this.storeIdempotency(
+							body.moveId,
+							{ status: 409, body: response },
+							state.stateVersion,
+						);
+						return Response.json(response, { status: 409 });
+					}
+					error = seen.error;
+				}
+
 				const reasonCode =
 					result.reason === "illegal_move" ? "illegal_move" : "invalid_move";
 				const forfeited = await this.forfeitMatch(state, agentId, reasonCode);
 				const response = {
 					ok: false,
-					error: result.error,
+					error,
 					stateVersion: forfeited.stateVersion,
 					forfeited: true,
 					matchStatus: "ended",
@@ -914,20 +1152,36 @@ export class MatchDO extends DurableObject<MatchEnv> {
 			let nextState = result.state;
 			if (nextState.status !== "active") {
 				await this.ctx.storage.deleteAlarm();
+				nextState = await this.settleRatings(nextState);
 			} else if (
 				nextState.game.turn !== state.game.turn ||
 				nextState.game.activePlayer !== state.game.activePlayer
 			) {
 				const baseMs = Date.parse(nextState.updatedAt);
 				const nowMs = Number.isFinite(baseMs) ? baseMs : Date.now();
-				const timeoutMs = this.turnTimeoutMs();
-				const expiresAtMs = timeoutMs === null ? undefined : nowMs + timeoutMs;
-				nextState = { ...nextState, turnExpiresAtMs: expiresAtMs };
+				if (nextState.clock && isClockTimeControl(nextState.timeControl)) {
+					nextState = {
+						...nextState,
+						clock: passClockTurn(
+							nextState.timeControl,
+							nextState.clock,
+							agentId,
+							nowMs,
+						),
+					};
+				}
+				nextState = {
+					...nextState,
+					turnExpiresAtMs: this.turnDeadlineMs(nextState, nowMs) ?? undefined,
+				};
 			}
 			await this.ctx.storage.put("state", nextState);
 			await this.scheduleNextAlarm(nextState);
 
-			const response = { ok: true, state: nextState } satisfies MoveResponse;
+			const response = {
+				ok: true,
+				state: projectMatchStateForAgent(nextState, agentId),
+			} satisfies MoveResponse;
 			await this.storeIdempotency(
 				body.moveId,
 				{ status: 200, body: response },
@@ -948,10 +1202,16 @@ export class MatchDO extends DurableObject<MatchEnv> {
 				ts: nextState.updatedAt,
 			});
 
-			await this.broadcastState(nextState);
+			await this.broadcastState(nextState, {
+				previous: state,
+				delta: result.delta,
+			});
 			{
 				const matchId = this.matchId ?? this.ctx.id.name;
-				if (matchId) {
+				// Engine events name units and hexes, which would leak hidden
+				// positions while fog of war is in effect. Thoughts are public
+				// either way.
+				if (matchId && !isFogged(nextState)) {
 					await this.broadcast(
 						[...this.spectators],
 						"engine_events",
@@ -964,6 +1224,17 @@ export class MatchDO extends DurableObject<MatchEnv> {
 							ts: nextState.updatedAt,
 						}),
 					);
+					for (const playerId of nextState.players) {
+						this.sendWsToAgent(playerId, {
+							type: "engine_events",
+							matchId,
+							stateVersion: nextState.stateVersion,
+							agentId,
+							engineEvents: result.engineEvents,
+						});
+					}
+				}
+				if (matchId) {
 					const safeThought = sanitizePublicThought(body.publicThought);
 					const player =
 						getPlayerSideForAgent(nextState.game, agentId) ??
@@ -1000,6 +1271,7 @@ export class MatchDO extends DurableObject<MatchEnv> {
 					winnerAgentId: nextState.winnerAgentId ?? null,
 					loserAgentId: nextState.loserAgentId ?? null,
 					reason: "terminal",
+					...ratingChangesField(nextState),
 				});
 				await this.broadcastGameEnd(nextState, "terminal");
 			}
@@ -1063,7 +1335,12 @@ export class MatchDO extends DurableObject<MatchEnv> {
 				state = await this.maybeEnforceTurnTimeout(state);
 				state = await this.maybeEnforceDisconnectTimeout(state);
 			}
-			return Response.json({ state: state ?? null });
+			const viewerId = request.headers.get("x-agent-id");
+			const clock = state ? clockSnapshot(state) : undefined;
+			return Response.json({
+				state: state ? projectMatchStateForAgent(state, viewerId) : null,
+				...(clock ? { clock } : {}),
+			});
 		}
 
 		if (request.method === "GET" && url.pathname === "/stream") {
@@ -1082,6 +1359,7 @@ export class MatchDO extends DurableObject<MatchEnv> {
 
 			const { readable, writer, close } = this.createStream();
 			this.registerAgentStream(agentId, writer);
+			if (wantsDeltas(url)) this.deltaStreams.add(writer);
 			this.handleAbort(request, () => {
 				this.unregisterAgentStream(agentId, writer);
 				void close();
@@ -1095,7 +1373,12 @@ export class MatchDO extends DurableObject<MatchEnv> {
 				void this.sendEvent(
 					writer,
 					"state",
-					buildStateEvent(matchId, state.game),
+					buildStateEvent(
+						matchId,
+						projectGameForAgent(state, agentId),
+						state.stateVersion,
+						clockSnapshot(state),
+					),
 				).catch(() => {
 					this.unregisterAgentStream(agentId, writer);
 				});
@@ -1167,21 +1450,98 @@ export class MatchDO extends DurableObject<MatchEnv> {
 		await this.sendEventWithTimeout(writer, event, data, SSE_WRITE_TIMEOUT_MS);
 	}
 
-	private async broadcastState(state: MatchState) {
+	// After a move, each audience receives a delta against the view it already
+	// holds; everything else (init, forfeits, timeouts) sends full snapshots.
+	private async broadcastState(
+		state: MatchState,
+		change?: { previous: MatchState; delta: StateDelta },
+	) {
 		const matchId = this.matchId ?? this.ctx.id.name;
 		if (!matchId) return;
-		await this.broadcast(
-			[...this.spectators, ...this.allAgentWriters()],
-			"state",
-			buildStateEvent(matchId, state.game),
-		);
+		const previous =
+			change && change.previous.stateVersion + 1 === state.stateVersion
+				? change.previous
+				: null;
+		const deltas = new Map<PlayerSide | "spectator", StateDelta>();
+		const deltaFor = (viewer: PlayerSide | "spectator") => {
+			if (!previous || !change) return null;
+			if (!isFogged(previous) && !isFogged(state)) return change.delta;
+			let delta = deltas.get(viewer);
+			if (!delta) {
+				delta = diffStates(
+					projectGameForViewer(previous, viewer),
+					projectGameForViewer(state, viewer),
+				);
+				deltas.set(viewer, delta);
+			}
+			return delta;
+		};
+		const broadcastView = async (
+			writers: StreamWriter[],
+			viewer: PlayerSide | "spectator",
+		) => {
+			const delta = deltaFor(viewer);
+			const deltaWriters =
+				previous && delta
+					? writers.filter((writer) => this.deltaStreams.has(writer))
+					: [];
+			if (previous && delta && deltaWriters.length > 0) {
+				await this.broadcast(
+					deltaWriters,
+					"state_delta",
+					buildStateDeltaEvent(
+						matchId,
+						previous.stateVersion,
+						state.stateVersion,
+						delta,
+					),
+				);
+			}
+			const fullWriters = writers.filter(
+				(writer) => !deltaWriters.includes(writer),
+			);
+			if (fullWriters.length === 0) return;
+			await this.broadcast(
+				fullWriters,
+				"state",
+				buildStateEvent(
+					matchId,
+					projectGameForViewer(state, viewer),
+					state.stateVersion,
+					clockSnapshot(state),
+				),
+			);
+		};
+
+		await broadcastView([...this.spectators], "spectator");
+		for (const [agentId, writers] of this.agentStreams) {
+			await broadcastView([...writers], viewerForAgent(state, agentId));
+		}
+		const clock = clockSnapshot(state);
 		for (const agentId of state.players) {
-			this.sendWsToAgent(agentId, {
-				type: "state",
-				matchId,
-				stateVersion: state.stateVersion,
-				stateSnapshot: state.game,
-			});
+			const viewer = viewerForAgent(state, agentId);
+			const delta = deltaFor(viewer);
+			this.sendWsToAgent(
+				agentId,
+				previous && delta
+					? {
+							type: "state_delta",
+							matchId,
+							fromStateVersion: previous.stateVersion,
+							stateVersion: state.stateVersion,
+							delta,
+						}
+					: {
+							type: "state",
+							matchId,
+							stateVersion: state.stateVersion,
+							stateSnapshot: projectGameForViewer(state, viewer),
+							...(state.engineConfig
+								? { engineConfig: state.engineConfig }
+								: {}),
+							...(clock ? { clock } : {}),
+						},
+			);
 		}
 	}
 
@@ -1193,7 +1553,8 @@ export class MatchDO extends DurableObject<MatchEnv> {
 		if (!writers) return;
 		const matchId = this.matchId ?? this.ctx.id.name;
 		if (!matchId) return;
-		const payload = buildYourTurnEvent(matchId, state.stateVersion);
+		const clock = clockSnapshot(state);
+		const payload = buildYourTurnEvent(matchId, state.stateVersion, clock);
 		for (const writer of writers) {
 			void this.sendEvent(writer, "your_turn", payload).catch(() => {
 				writers.delete(writer);
@@ -1203,6 +1564,7 @@ export class MatchDO extends DurableObject<MatchEnv> {
 			type: "your_turn",
 			matchId,
 			stateVersion: state.stateVersion,
+			...(clock ? { clock } : {}),
 		});
 	}
 
@@ -1216,15 +1578,17 @@ export class MatchDO extends DurableObject<MatchEnv> {
 		if (!active || active !== agentId) return;
 		const matchId = this.matchId ?? this.ctx.id.name;
 		if (!matchId) return;
+		const clock = clockSnapshot(state);
 		void this.sendEvent(
 			writer,
 			"your_turn",
-			buildYourTurnEvent(matchId, state.stateVersion),
+			buildYourTurnEvent(matchId, state.stateVersion, clock),
 		);
 		this.sendWsToAgent(agentId, {
 			type: "your_turn",
 			matchId,
 			stateVersion: state.stateVersion,
+			...(clock ? { clock } : {}),
 		});
 	}
 
@@ -1236,6 +1600,7 @@ export class MatchDO extends DurableObject<MatchEnv> {
 			state.winnerAgentId ?? null,
 			state.loserAgentId ?? null,
 			reason,
+			state.ratingChanges,
 		);
 		await this.broadcast(
 			[...this.spectators, ...this.allAgentWriters()],
@@ -1254,6 +1619,7 @@ export class MatchDO extends DurableObject<MatchEnv> {
 				winnerAgentId: state.winnerAgentId ?? null,
 				endReason: reason,
 				finalStateVersion: state.stateVersion,
+				...ratingChangesField(state),
 			});
 		}
 	}
@@ -1399,7 +1765,7 @@ export class MatchDO extends DurableObject<MatchEnv> {
 			(player) => player !== loserAgentId,
 		);
 		const endedAt = new Date().toISOString();
-		const nextState: MatchState = {
+		const nextState = await this.settleRatings({
 			...state,
 			game: { ...state.game, status: "ended" },
 			status: "ended",
@@ -1409,7 +1775,7 @@ export class MatchDO extends DurableObject<MatchEnv> {
 			winnerAgentId: winnerAgentId ?? undefined,
 			loserAgentId,
 			endReason: reason,
-		};
+		});
 
 		if (reason === "turn_timeout") {
 			const matchId = await this.resolveMatchId();
@@ -1439,6 +1805,7 @@ export class MatchDO extends DurableObject<MatchEnv> {
 			winnerAgentId: winnerAgentId ?? null,
 			loserAgentId,
 			reason,
+			...ratingChangesField(nextState),
 		});
 		return nextState;
 	}
@@ -1450,15 +1817,6 @@ export class MatchDO extends DurableObject<MatchEnv> {
 			return;
 		}
 
-		// D1 `.run().changes` has been observed to be unreliable under some test runners.
-		// Use an explicit existence check to ensure we don't double-apply leaderboard updates.
-		const existingResult = await this.env.DB.prepare(
-			"SELECT 1 as ok FROM match_results WHERE match_id = ?",
-		)
-			.bind(matchId)
-			.first<{ ok: number }>();
-		const isFirstFinalization = !existingResult?.ok;
-
 		await this.env.DB.prepare(
 			"INSERT OR IGNORE INTO match_results(match_id, winner_agent_id, loser_agent_id, reason) VALUES (?, ?, ?, ?)",
 		)
@@ -1491,66 +1849,52 @@ export class MatchDO extends DurableObject<MatchEnv> {
 		} catch (error) {
 			console.error("Failed to update match row during finalization", error);
 		}
-		if (!isFirstFinalization) {
-			await this.notifyFeaturedEnded(matchId);
-			return;
-		}
-
-		if (state.mode !== "ranked") {
-			await this.notifyFeaturedEnded(matchId);
-			return;
-		}
-
-		if (!state.winnerAgentId || !state.loserAgentId) {
-			await this.notifyFeaturedEnded(matchId);
-			return;
+		await this.notifyFeaturedEnded(matchId);
+		if (state.tournamentId) {
+			await this.notifyTournamentEnded(state.tournamentId, matchId, state);
 		}
+	}
 
-		try {
-			await this.env.DB.batch([
-				this.env.DB.prepare(
-					"INSERT OR IGNORE INTO leaderboard(agent_id, rating, wins, losses, games_played) VALUES (?, ?, 0, 0, 0)",
-				).bind(state.winnerAgentId, ELO_START),
-				this.env.DB.prepare(
-					"INSERT OR IGNORE INTO leaderboard(agent_id, rating, wins, losses, games_played) VALUES (?, ?, 0, 0, 0)",
-				).bind(state.loserAgentId, ELO_START),
-			]);
-		} catch (error) {
-			console.error("Failed to ensure leaderboard entries", error);
+	// Ranked results are rated as the match ends, before match_ended goes
+	// out, so the event and the stored state can carry each rating change.
+	private async settleRatings(state: MatchState): Promise<MatchState> {
+		// Casual results stay in match history but never touch the leaderboard.
+		if (state.mode !== "ranked" || state.ratingChanges) return state;
+
+		// Decisive results score 1/0; games ending without a winner are rated
+		// as draws between the two seats.
+		let rated: [string, string, GameScore] | null = null;
+		if (state.winnerAgentId && state.loserAgentId) {
+			rated = [state.winnerAgentId, state.loserAgentId, 1];
+		} else if (
+			!state.winnerAgentId &&
+			!state.loserAgentId &&
+			state.players.length === 2
+		) {
+			const [first, second] = state.players as [string, string];
+			rated = [first, second, 0.5];
 		}
+		if (!rated) return state;
 
-		const winnerRow = await this.env.DB.prepare(
-			"SELECT rating FROM leaderboard WHERE agent_id = ?",
-		)
-			.bind(state.winnerAgentId)
-			.first<{ rating: number }>();
-
-		const loserRow = await this.env.DB.prepare(
-			"SELECT rating FROM leaderboard WHERE agent_id = ?",
-		)
-			.bind(state.loserAgentId)
-			.first<{ rating: number }>();
-
-		const winnerRating =
-			typeof winnerRow?.rating === "number" ? winnerRow.rating : ELO_START;
-		const loserRating =
-			typeof loserRow?.rating === "number" ? loserRow.rating : ELO_START;
-
-		const { winnerNext, loserNext } = calculateElo(winnerRating, loserRating);
-
+		const matchId = await this.resolveMatchId();
+		if (!matchId) return state;
 		try {
-			await this.env.DB.batch([
-				this.env.DB.prepare(
-					"UPDATE leaderboard SET rating=?, wins=wins+1, games_played=games_played+1, updated_at=datetime('now') WHERE agent_id=?",
-				).bind(winnerNext, state.winnerAgentId),
-				this.env.DB.prepare(
-					"UPDATE leaderboard SET rating=?, losses=losses+1, games_played=games_played+1, updated_at=datetime('now') WHERE agent_id=?",
-				).bind(loserNext, state.loserAgentId),
-			]);
+			// rating_history is keyed by match, so a repeated finalization
+			// reuses the recorded change instead of rating the game twice.
+			const recorded = await loadRatingChanges(this.env.DB, matchId);
+			if (recorded.length > 0) return { ...state, ratingChanges: recorded };
+			const [agentA, agentB, scoreA] = rated;
+			const ratingChanges = await recordRatedGame(
+				this.env.DB,
+				matchId,
+				[agentA, agentB],
+				scoreA,
+			);
+			return { ...state, ratingChanges };
 		} catch (error) {
 			console.error("Failed to update leaderboard", error);
+			return state;
 		}
-		await this.notifyFeaturedEnded(matchId);
 	}
 
 	private async handleSpectate(request: Request) {
@@ -1561,6 +1905,7 @@ export class MatchDO extends DurableObject<MatchEnv> {
 		}
 		const { readable, writer, close } = this.createStream();
 		this.spectators.add(writer);
+		if (wantsDeltas(new URL(request.url))) this.deltaStreams.add(writer);
 		this.handleAbort(request, () => {
 			this.spectators.delete(writer);
 			void close();
@@ -1574,7 +1919,12 @@ export class MatchDO extends DurableObject<MatchEnv> {
 			void this.sendEvent(
 				writer,
 				"state",
-				buildStateEvent(matchId, state.game),
+				buildStateEvent(
+					matchId,
+					projectGameForViewer(state, "spectator"),
+					state.stateVersion,
+					clockSnapshot(state),
+				),
 			).catch(() => {
 				this.spectators.delete(writer);
 			});
@@ -1584,6 +1934,7 @@ export class MatchDO extends DurableObject<MatchEnv> {
 					state.winnerAgentId ?? null,
 					state.loserAgentId ?? null,
 					state.endReason ?? "ended",
+					state.ratingChanges,
 				);
 				void this.sendEvent(writer, "match_ended", endedPayload).catch(() => {
 					this.spectators.delete(writer);
@@ -1625,6 +1976,38 @@ export class MatchDO extends DurableObject<MatchEnv> {
 		}
 	}
 
+	private async notifyTournamentEnded(
+		tournamentId: string,
+		matchId: string,
+		state: MatchState,
+	) {
+		const key = this.env.INTERNAL_RUNNER_KEY;
+		if (!key) {
+			console.warn("INTERNAL_RUNNER_KEY missing; tournament result skipped");
+			return;
+		}
+
+		try {
+			const id = this.env.TOURNAMENT.idFromName(tournamentId);
+			const stub = this.env.TOURNAMENT.get(id);
+			await stub.fetch("https://do/match-ended", {
+				method: "POST",
+				headers: {
+					"content-type": "application/json",
+					"x-runner-key": key,
+					"x-runner-id": "match-do",
+				},
+				body: JSON.stringify({
+					matchId,
+					winnerAgentId: state.winnerAgentId ?? null,
+				}),
+			});
+		} catch (error) {
+			// The tournament's own tick polls the match and picks the result up.
+			console.error("Failed to notify tournament", error);
+		}
+	}
+
 	private async finalizeMatch(state: MatchState, reason: string) {
 		// Emit match_ended metric with reason
 		const matchId = await this.resolveMatchId();
@@ -1658,7 +2041,11 @@ export class MatchDO extends DurableObject<MatchEnv> {
 const createInitialState = (
 	players: string[],
 	seed: number,
-	mode: "ranked",
+	mode: MatchMode,
+	mapId?: string,
+	fogOfWar = false,
+	engineConfig?: MatchEngineConfig,
+	timeControl?: TimeControl,
 ): MatchState => {
 	const now = new Date().toISOString();
 	return {
@@ -1667,15 +2054,88 @@ const createInitialState = (
 		updatedAt: now,
 		createdAt: now,
 		players,
-		game: initialState(seed, players),
+		game: createInitialGameState(
+			seed,
+			{
+				...engineConfig,
+				...(mapId ? { map: mapId } : {}),
+				fogOfWar: { enabled: fogOfWar },
+			},
+			[...players],
+		),
 		lastMove: null,
 		mode,
+		mapId,
+		...(fogOfWar ? { fogOfWar } : {}),
+		...(engineConfig ? { engineConfig } : {}),
+		...(timeControl ? { timeControl } : {}),
+	};
+};
+
+// Stored games lose their engine config binding, so per-match overrides are
+// re-bound before the engine sees the game again.
+const bindStoredGame = (state: MatchState): GameState =>
+	state.engineConfig
+		? bindEngineConfig(state.game, state.engineConfig)
+		: state.game;
+
+const wantsDeltas = (url: URL) => url.searchParams.get("deltas") === "1";
+
+const isFogged = (state: MatchState) =>
+	state.fogOfWar === true && state.status === "active";
+
+// The fog rule is re-bound from the match flag before projecting.
+const projectGameForViewer = (
+	state: MatchState,
+	viewer: PlayerSide | "spectator",
+): GameState => {
+	if (!isFogged(state)) return state.game;
+	const bound = bindEngineConfig(bindStoredGame(state), {
+		fogOfWar: { enabled: true },
+	});
+	return projectStateForPlayer(bound, viewer);
+};
+
+const viewerForAgent = (
+	state: MatchState,
+	agentId: string | null,
+): PlayerSide | "spectator" =>
+	(agentId ? getPlayerSideForAgent(state.game, agentId) : null) ?? "spectator";
+
+const projectGameForAgent = (
+	state: MatchState,
+	agentId: string | null,
+): GameState => projectGameForViewer(state, viewerForAgent(state, agentId));
+
+const clockSnapshot = (state: MatchState) =>
+	state.clock && isClockTimeControl(state.timeControl)
+		? viewClock(
+				state.timeControl,
+				state.clock,
+				state.status === "active" ? getActiveAgentId(state.game) : null,
+				Date.now(),
+			)
+		: undefined;
+
+const ratingChangesField = (state: MatchState) =>
+	state.ratingChanges ? { ratingChanges: state.ratingChanges } : {};
+
+const projectMatchStateForAgent = (
+	state: MatchState,
+	agentId: string | null,
+): MatchState => {
+	if (!isFogged(state)) return state;
+	const ownsLastMove = agentId !== null && state.lastMoveAgentId === agentId;
+	return {
+		...state,
+		game: projectGameForAgent(state, agentId),
+		lastMove: ownsLastMove ? state.lastMove : null,
 	};
 };
 
 const applyMoveToState = (state: MatchState, move: Move): MoveResult => {
 	try {
-		const applied = applyMove(state.game, move);
+		const applied = applyMove(bindStoredGame(state), move);
 		if (!applied.ok) {
 			return { ok: false, error: applied.error, reason: applied.reason };
 		}
@@ -1686,6 +2146,7 @@ const applyMoveToState = (state: MatchState, move: Move): MoveResult => {
 			...state,
 			game: nextGame,
 			lastMove: move,
+			lastMoveAgentId: getActiveAgentId(state.game) ?? undefined,
 			updatedAt: now,
 			stateVersion: state.stateVersion + 1,
 		};
@@ -1707,7 +2168,12 @@ const applyMoveToState = (state: MatchState, move: Move): MoveResult => {
 			};
 		}
 
-		return { ok: true, state: nextState, engineEvents: applied.engineEvents };
+		return {
+			ok: true,
+			state: nextState,
+			engineEvents: applied.engineEvents,
+			delta: applied.delta,
+		};
 	} catch (error) {
 		return { ok: false, error: (error as Error).message };
 	}
@@ -1719,6 +2185,13 @@ const getActiveAgentId = (game: GameState) => {
 	return player?.id ?? null;
 };
 
+// The strategy to play when a house bot holds the active seat.
+const houseStrategyToMove = (state: MatchState): HouseStrategy | null => {
+	if (state.status !== "active" || !state.houseAgents) return null;
+	const agentId = getActiveAgentId(state.game);
+	return agentId ? (state.houseAgents[agentId] ?? null) : null;
+};
+
 const getPlayerSideForAgent = (game: GameState, agentId: string) => {
 	for (const side of ["A", "B"] as const) {
 		if (game.players[side]?.id === agentId) return side;
@@ -1745,11 +2218,3 @@ const isFinishPayload = (value: unknown): value is FinishPayload => {
 	const reason = value.reason;
 	return reason === undefined || reason === "forfeit";
 };
-
-const calculateElo = (winnerRating: number, loserRating: number) => {
-	const expectedWinner = 1 / (1 + 10 ** ((loserRating - winnerRating) / 400));
-	const expectedLoser = 1 / (1 + 10 ** ((winnerRating - loserRating) / 400));
-	const winnerNext = Math.round(winnerRating + ELO_K * (1 - expectedWinner));
-	const loserNext = Math.round(loserRating + ELO_K * (0 - expectedLoser));
-	return { winnerNext, loserNext };
-};
@@ -1,16 +1,46 @@
 import { DurableObject } from "cloudflare:workers";
+import { getMapDefinition } from "@fightclaw/engine";
+import { z } from "zod";
 import type { AppBindings } from "../appTypes";
-import { ELO_START } from "../constants/rating";
+import { HOUSE_AGENT_WAIT_SECONDS_DEFAULT } from "../constants/house";
+import {
+	DEFAULT_MATCH_MODE,
+	isMatchMode,
+	MATCH_MODES,
+	type MatchMode,
+} from "../constants/matchModes";
+import {
+	MATCHMAKING_RECENT_OPPONENTS,
+	MATCHMAKING_TICK_MS,
+	MATCHMAKING_WAIT_SAMPLES,
+} from "../constants/matchmaking";
+import { RATING_DEVIATION_START } from "../constants/rating";
 import { RUNNER_ID_RE } from "../constants/runner";
+import {
+	hasDefaultSettings,
+	type MatchSettings,
+	matchSettingsSchema,
+	RANKED_SETTINGS_ERROR,
+} from "../contracts/matchSettings";
+import { listHouseAgents, loadHouseStrategies } from "../house/agents";
+import {
+	type PairingCandidate,
+	type PairingOptions,
+	pairCost,
+	planQueuePairs,
+	searchWindow,
+} from "../matchmaking/pairing";
 import { emitMetric } from "../obs/metrics";
 import {
 	buildMatchFoundEvent,
 	buildNoEventsEvent,
 	type MatchFoundEvent,
 	type NoEventsEvent,
+	type RatingChange,
 } from "../protocol/events";
 import { formatSse } from "../protocol/sse";
 import { type AgentWsOutbound, agentWsInboundSchema } from "../protocol/ws";
+import { loadAgentRating } from "../ratings/leaderboard";
 import { parseBearerToken } from "../utils/auth";
 import { sha256Hex } from "../utils/crypto";
 import { doFetchWithRetry } from "../utils/durable";
@@ -29,6 +59,40 @@ const RECENT_PREFIX = "recent:";
 const QUEUE_TTL_MS = 10 * 60 * 1000;
 const FEATURED_STREAM_INTERVAL_MS = 1000;
 const WS_QUEUE_LEAVE_GRACE_MS = 15_000;
+const CHALLENGE_PREFIX = "challenge:";
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+const CHALLENGE_MAX_PENDING = 10;
+const LOBBY_PREFIX = "lobby:";
+const LOBBY_HOST_PREFIX = "lobbyHost:";
+const LOBBY_TTL_MS = 30 * 60 * 1000;
+const LOBBY_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const LOBBY_CODE_LENGTH = 6;
+const WAIT_SAMPLES_PREFIX = "waitSamples:";
+// Arranged games are unranked unless both sides opt in through the challenge.
+const ARRANGED_MATCH_MODE: MatchMode = "casual";
+
+const challengeCreateSchema = matchSettingsSchema
+	.extend({
+		targetAgentId: z.string().min(1),
+		mode: z.enum(MATCH_MODES).optional(),
+	})
+	.strict();
+
+const lobbyCreateSchema = matchSettingsSchema
+	.extend({
+		mode: z.enum(MATCH_MODES).optional(),
+	})
+	.strict();
+
+const tournamentMatchSchema = z
+	.object({
+		tournamentId: z.string().min(1),
+		matchId: z.string().uuid(),
+		players: z.tuple([z.string().min(1), z.string().min(1)]),
+		mode: z.enum(MATCH_MODES),
+		settings: matchSettingsSchema,
+	})
+	.strict();
 
 type MatchmakerEnv = {
 	DB: D1Database;
@@ -36,6 +100,7 @@ type MatchmakerEnv = {
 	API_KEY_PEPPER?: string;
 	INTERNAL_RUNNER_KEY?: string;
 	MATCHMAKING_ELO_RANGE?: string;
+	HOUSE_AGENT_WAIT_SECONDS?: string;
 	TEST_MODE?: string;
 } & Partial<Pick<AppBindings, "OBS" | "SENTRY_ENVIRONMENT">>;
 
@@ -46,19 +111,51 @@ type QueueJoinResponse = {
 };
 type QueueStatusResponse =
 	| { status: "idle" }
-	| { status: "waiting"; matchId: string }
+	| {
+			status: "waiting";
+			matchId: string;
+			mode: MatchMode;
+			waitedMs: number;
+			// Null until the matchmaker has seen a wait complete in this mode.
+			estimatedWaitMs: number | null;
+			// Ranked only: the rating range currently searched.
+			searchWindow: { min: number; max: number } | null;
+	  }
 	| { status: "ready"; matchId: string; opponentId: string };
 type QueueEntry = {
 	agentId: string;
 	matchId: string;
 	rating: number;
+	// Entries stored before Glicko-2 carry no deviation and pair as unrated.
+	deviation?: number;
 	enqueuedAtMs: number;
+	// Entries stored before casual queues existed carry no mode and are ranked.
+	mode?: MatchMode;
 };
+type PairingRating = { rating: number; deviation: number };
 type ActiveMatchEntry = {
 	matchId: string;
 	opponentId: string;
 	setAtMs: number;
 };
+type ChallengeEntry = {
+	id: string;
+	challengerId: string;
+	targetId: string;
+	mode: MatchMode;
+	settings: MatchSettings;
+	createdAtMs: number;
+	expiresAtMs: number;
+};
+type ChallengeStatus = "pending" | "accepted" | "declined" | "cancelled";
+type LobbyEntry = {
+	code: string;
+	hostId: string;
+	mode: MatchMode;
+	settings: MatchSettings;
+	createdAtMs: number;
+	expiresAtMs: number;
+};
 type MatchmakerEvent = MatchFoundEvent | NoEventsEvent;
 type FeaturedStatus = "active" | "ended";
 type FeaturedSnapshot = {
@@ -68,6 +165,48 @@ type FeaturedSnapshot = {
 };
 type FeaturedCache = FeaturedSnapshot & { checkedAt: number };
 
+const queueEntryMode = (entry: QueueEntry): MatchMode =>
+	entry.mode ?? DEFAULT_MATCH_MODE;
+
+const queueEntryRating = (entry: QueueEntry): PairingRating => ({
+	rating: entry.rating,
+	deviation: entry.deviation ?? RATING_DEVIATION_START,
+});
+
+const challengeView = (
+	entry: ChallengeEntry,
+	status: ChallengeStatus,
+	matchId?: string,
+) => ({
+	id: entry.id,
+	challengerAgentId: entry.challengerId,
+	targetAgentId: entry.targetId,
+	mode: entry.mode,
+	...entry.settings,
+	status,
+	createdAt: new Date(entry.createdAtMs).toISOString(),
+	expiresAt: new Date(entry.expiresAtMs).toISOString(),
+	...(matchId ? { matchId } : {}),
+});
+
+const lobbyView = (entry: LobbyEntry) => ({
+	code: entry.code,
+	hostAgentId: entry.hostId,
+	mode: entry.mode,
+	...entry.settings,
+	createdAt: new Date(entry.createdAtMs).toISOString(),
+	expiresAt: new Date(entry.expiresAtMs).toISOString(),
+});
+
+const generateLobbyCode = () => {
+	const bytes = crypto.getRandomValues(new Uint8Array(LOBBY_CODE_LENGTH));
+	let code = "";
+	for (const byte of bytes) {
+		code += LOBBY_CODE_ALPHABET[byte % LOBBY_CODE_ALPHABET.length];
+	}
+	return code;
+};
+
 export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 	private waiters = new Map<string, Set<(event: MatchmakerEvent) => void>>();
 	private sessions = new Map<string, Set<WebSocket>>();
@@ -90,6 +229,7 @@ export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 			const auth = this.requireRunnerKey(request);
 			if (!auth.ok) return auth.response;
 			await this.ctx.storage.deleteAll();
+			await this.ctx.storage.deleteAlarm();
 			this.waiters.clear();
 			this.sessions.clear();
 			for (const timeout of this.pendingQueueLeaveTimers.values()) {
@@ -117,6 +257,42 @@ export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 			return this.handleQueueLeave(request);
 		}
 
+		if (url.pathname === "/challenges") {
+			if (request.method === "POST") return this.handleChallengeCreate(request);
+			if (request.method === "GET") return this.handleChallengeList(request);
+		}
+
+		const challengeAction = url.pathname.match(
+			/^\/challenges\/([^/]+)\/(accept|decline)$/,
+		);
+		if (request.method === "POST" && challengeAction) {
+			const [, challengeId, action] = challengeAction;
+			return action === "accept"
+				? this.handleChallengeAccept(request, challengeId as string)
+				: this.handleChallengeDecline(request, challengeId as string);
+		}
+
+		if (request.method === "POST" && url.pathname === "/lobbies") {
+			return this.handleLobbyCreate(request);
+		}
+
+		const lobbyPath = url.pathname.match(/^\/lobbies\/([^/]+)(\/join)?$/);
+		if (lobbyPath) {
+			const code = (lobbyPath[1] as string).toUpperCase();
+			if (request.method === "POST" && lobbyPath[2]) {
+				return this.handleLobbyJoin(request, code);
+			}
+			if (request.method === "DELETE" && !lobbyPath[2]) {
+				return this.handleLobbyClose(request, code);
+			}
+		}
+
+		if (request.method === "POST" && url.pathname === "/tournaments/match") {
+			const auth = this.requireRunnerKey(request);
+			if (!auth.ok) return auth.response;
+			return this.handleTournamentMatch(request);
+		}
+
 		if (request.method === "GET" && url.pathname === "/events/wait") {
 			const agentId = request.headers.get("x-agent-id");
 			if (!agentId) {
@@ -240,6 +416,224 @@ export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 		}
 	}
 
+	// The matchmaking tick: pairs the whole queue, hands long waits to house
+	// agents, and runs again while anyone is still queued.
+	async alarm(): Promise<void> {
+		await this.withQueueMutex(async () => {
+			const nowMs = Date.now();
+			await this.pairQueue(nowMs);
+			await this.fillQueueWithHouseAgents(nowMs);
+			const remaining = await this.loadQueuePruned(nowMs);
+			if (remaining.length > 0) {
+				await this.ctx.storage.setAlarm(nowMs + MATCHMAKING_TICK_MS);
+			}
+		});
+	}
+
+	// Starts the tick once someone is waiting; an earlier alarm is kept.
+	private async scheduleMatchmakingTick(nowMs: number) {
+		const dueAtMs = nowMs + MATCHMAKING_TICK_MS;
+		const current = await this.ctx.storage.getAlarm();
+		if (current === null || current > dueAtMs) {
+			await this.ctx.storage.setAlarm(dueAtMs);
+		}
+	}
+
+	private houseWaitMs() {
+		const raw = this.env.HOUSE_AGENT_WAIT_SECONDS;
+		const parsed = raw ? Number.parseInt(raw, 10) : Number.NaN;
+		const seconds =
+			Number.isFinite(parsed) && parsed >= 0
+				? parsed
+				: HOUSE_AGENT_WAIT_SECONDS_DEFAULT;
+		return seconds * 1000;
+	}
+
+	private pairingOptions(mode: MatchMode, nowMs: number): PairingOptions {
+		return {
+			nowMs,
+			baseRange: this.matchmakingEloRange(),
+			ranked: mode === "ranked",
+		};
+	}
+
+	private async toPairingCandidate(
+		entry: QueueEntry,
+	): Promise<QueueEntry & PairingCandidate> {
+		return {
+			...entry,
+			deviation: queueEntryRating(entry).deviation,
+			recentOpponents: await this.loadRecentOpponents(entry.agentId),
+		};
+	}
+
+	/**
+	 * Pairs everyone waiting, mode by mode, so windows that widened while
+	 * agents waited are used even when nobody new joins.
+	 */
+	private async pairQueue(nowMs: number) {
+		const queue = await this.loadQueuePruned(nowMs);
+		for (const mode of MATCH_MODES) {
+			const waiting = queue.filter((entry) => queueEntryMode(entry) === mode);
+			if (waiting.length < 2) continue;
+			const candidates = await Promise.all(
+				waiting.map((entry) => this.toPairingCandidate(entry)),
+			);
+			const pairs = planQueuePairs(
+				candidates,
+				this.pairingOptions(mode, nowMs),
+			);
+			for (const [older, newer] of pairs) {
+				await this.removeFromQueue([older.agentId, newer.agentId], nowMs);
+				const started = await this.startMatch(
+					older.matchId,
+					[older.agentId, newer.agentId],
+					mode,
+					{},
+					nowMs,
+				);
+				if (!started) {
+					await this.restoreQueueEntries([older, newer], nowMs);
+					continue;
+				}
+				await this.recordQueueWait(mode, [older, newer], nowMs);
+			}
+		}
+	}
+
+	/**
+	 * Pairs every queued agent that has waited past HOUSE_AGENT_WAIT_SECONDS
+	 * with a free house agent, oldest first. House games are always casual,
+	 * whichever queue the agent joined.
+	 */
+	private async fillQueueWithHouseAgents(nowMs: number) {
+		const queue = await this.loadQueuePruned(nowMs);
+		if (queue.length === 0) return;
+
+		const houseAgents = await listHouseAgents(this.env.DB);
+		if (houseAgents.length === 0) return;
+		const houseIds = new Set(houseAgents.map((agent) => agent.id));
+		const free: string[] = [];
+		for (const agent of houseAgents) {
+			if (!(await this.resolveActiveMatch(agent.id))) free.push(agent.id);
+		}
+
+		const waitMs = this.houseWaitMs();
+		const due = queue
+			.filter(
+				(entry) =>
+					!houseIds.has(entry.agentId) && nowMs - entry.enqueuedAtMs >= waitMs,
+			)
+			.sort((a, b) => a.enqueuedAtMs - b.enqueuedAtMs);
+
+		for (const entry of due) {
+			const houseId = free.shift();
+			if (!houseId) break;
+			await this.removeFromQueue([entry.agentId], nowMs);
+			const started = await this.startMatch(
+				entry.matchId,
+				[entry.agentId, houseId],
+				"casual",
+				{},
+				nowMs,
+			);
+			if (!started) {
+				await this.restoreQueueEntries([entry], nowMs);
+				continue;
+			}
+			await this.recordQueueWait(queueEntryMode(entry), [entry], nowMs);
+			emitMetric(this.env, "house_match", {
+				scope: "matchmaker_do",
+				matchId: entry.matchId,
+				agentId: entry.agentId,
+			});
+		}
+	}
+
+	// Best-effort recovery after a failed start: entries go back with their
+	// original wait so they are not lost.
+	private async restoreQueueEntries(entries: QueueEntry[], nowMs: number) {
+		const current = await this.loadQueuePruned(nowMs);
+		const missing = entries
+			.filter(
+				(entry) => !current.some((queued) => queued.agentId === entry.agentId),
+			)
+			.map(
+				(entry): QueueEntry => ({
+					agentId: entry.agentId,
+					matchId: entry.matchId,
+					rating: entry.rating,
+					deviation: entry.deviation,
+					enqueuedAtMs: entry.enqueuedAtMs,
+					mode: queueEntryMode(entry),
+				}),
+			);
+		if (missing.length > 0) {
+			await this.ctx.storage.put(QUEUE_KEY, [...current, ...missing]);
+		}
+	}
+
+	private async loadRecentOpponents(agentId: string): Promise<string[]> {
+		const stored = await this.ctx.storage.get<string | string[]>(
+			`${RECENT_PREFIX}${agentId}`,
+		);
+		// Only the last opponent was stored before the list was kept.
+		if (typeof stored === "string") return [stored];
+		if (!Array.isArray(stored)) return [];
+		return stored.filter((id): id is string => typeof id === "string");
+	}
+
+	private async rememberOpponent(agentId: string, opponentId: string) {
+		const recent = await this.loadRecentOpponents(agentId);
+		await this.ctx.storage.put(
+			`${RECENT_PREFIX}${agentId}`,
+			[opponentId, ...recent.filter((id) => id !== opponentId)].slice(
+				0,
+				MATCHMAKING_RECENT_OPPONENTS,
+			),
+		);
+	}
+
+	private async recordQueueWait(
+		mode: MatchMode,
+		entries: QueueEntry[],
+		nowMs: number,
+	) {
+		const key = `${WAIT_SAMPLES_PREFIX}${mode}`;
+		const samples = (await this.ctx.storage.get<number[]>(key)) ?? [];
+		const waits = entries.map((entry) =>
+			Math.max(0, nowMs - entry.enqueuedAtMs),
+		);
+		await this.ctx.storage.put(
+			key,
+			[...waits, ...samples].slice(0, MATCHMAKING_WAIT_SAMPLES),
+		);
+	}
+
+	/**
+	 * Remaining wait for a queued entry: the recent average wait in its mode,
+	 * capped by when a house agent would take it. Null without any data.
+	 */
+	private async estimateWaitMs(entry: QueueEntry, nowMs: number) {
+		const waitedMs = Math.max(0, nowMs - entry.enqueuedAtMs);
+		const samples =
+			(await this.ctx.storage.get<number[]>(
+				`${WAIT_SAMPLES_PREFIX}${queueEntryMode(entry)}`,
+			)) ?? [];
+		let estimate: number | null = null;
+		if (samples.length > 0) {
+			const average =
+				samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+			estimate = Math.max(0, average - waitedMs);
+		}
+		const houseAgents = await listHouseAgents(this.env.DB);
+		if (houseAgents.length > 0) {
+			const houseMs = Math.max(0, this.houseWaitMs() - waitedMs);
+			estimate = estimate === null ? houseMs : Math.min(estimate, houseMs);
+		}
+		return estimate === null ? null : Math.round(estimate);
+	}
+
 	private sendWs(socket: WebSocket, payload: AgentWsOutbound): boolean {
 		try {
 			socket.send(JSON.stringify(payload));
@@ -500,6 +894,7 @@ export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 										winnerAgentId?: string | null;
 										loserAgentId?: string | null;
 										endReason?: string;
+										ratingChanges?: RatingChange[];
 									} | null;
 								};
 								const state = payload.state;
@@ -534,6 +929,9 @@ export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 										loserAgentId: state.loserAgentId ?? null,
 										reason: state.endReason ?? "ended",
 										reasonCode: state.endReason ?? "ended",
+										...(state.ratingChanges
+											? { ratingChanges: state.ratingChanges }
+											: {}),
 									};
 									controller.enqueue(
 										encoder.encode(formatSse("match_ended", endedPayload)),
@@ -631,12 +1029,20 @@ export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 			if (typeof entry.rating !== "number" || !Number.isFinite(entry.rating)) {
 				return false;
 			}
+			if (
+				entry.deviation !== undefined &&
+				(typeof entry.deviation !== "number" ||
+					!Number.isFinite(entry.deviation))
+			) {
+				return false;
+			}
 			if (
 				typeof entry.enqueuedAtMs !== "number" ||
 				!Number.isFinite(entry.enqueuedAtMs)
 			) {
 				return false;
 			}
+			if (entry.mode !== undefined && !isMatchMode(entry.mode)) return false;
 			return nowMs - entry.enqueuedAtMs <= QUEUE_TTL_MS;
 		});
 
@@ -678,48 +1084,44 @@ export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 		return stored;
 	}
 
-	private selectOpponent(
-		candidates: QueueEntry[],
-		rating: number,
-	): QueueEntry | null {
-		let best: QueueEntry | null = null;
-
-		for (const candidate of candidates) {
-			if (!best) {
-				best = candidate;
-				continue;
-			}
-
-			const diff = Math.abs(candidate.rating - rating);
-			const bestDiff = Math.abs(best.rating - rating);
-			if (diff < bestDiff) {
-				best = candidate;
-				continue;
-			}
-			if (diff > bestDiff) continue;
-
-			if (candidate.enqueuedAtMs < best.enqueuedAtMs) {
-				best = candidate;
-				continue;
-			}
-			if (candidate.enqueuedAtMs > best.enqueuedAtMs) continue;
-
-			if (candidate.agentId < best.agentId) {
-				best = candidate;
+	/**
+	 * The cheapest allowed opponent for an agent joining now; ties go to the
+	 * longest wait. See pairCost for the window and repeat-opponent rules.
+	 */
+	private async selectOpponent(
+		joiner: PairingCandidate,
+		entries: QueueEntry[],
+		options: PairingOptions,
+	): Promise<QueueEntry | null> {
+		let best: { entry: QueueEntry; cost: number } | null = null;
+		for (const entry of entries) {
+			const candidate = await this.toPairingCandidate(entry);
+			const cost = pairCost(joiner, candidate, options);
+			if (cost === null) continue;
+			if (
+				!best ||
+				cost < best.cost ||
+				(cost === best.cost &&
+					(entry.enqueuedAtMs < best.entry.enqueuedAtMs ||
+						(entry.enqueuedAtMs === best.entry.enqueuedAtMs &&
+							entry.agentId < best.entry.agentId)))
+			) {
+				best = { entry, cost };
 			}
 		}
-
-		return best;
+		return best?.entry ?? null;
 	}
 
 	private async handleQueueJoin(request: Request): Promise<Response> {
 		const body: unknown =
 			request.method === "POST" ? await request.json().catch(() => null) : null;
 		const mode =
-			isRecord(body) && typeof body.mode === "string" ? body.mode : "ranked";
-		if (mode !== "ranked") {
+			isRecord(body) && body.mode !== undefined
+				? body.mode
+				: DEFAULT_MATCH_MODE;
+		if (!isMatchMode(mode)) {
 			return Response.json(
-				{ error: "Only ranked mode is supported." },
+				{ error: "mode must be ranked or casual." },
 				{ status: 400 },
 			);
 		}
@@ -767,129 +1169,60 @@ export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 			let queue = await this.loadQueuePruned(nowMs);
 
 			const existing = queue.find((entry) => entry.agentId === agentId);
-			if (existing) {
+			if (existing && queueEntryMode(existing) === mode) {
 				const response: QueueJoinResponse = {
 					matchId: existing.matchId,
 					status: "waiting",
 				};
 				return Response.json(response);
 			}
+			if (existing) {
+				// Switching queues gives up the place in the other mode's queue.
+				queue = queue.filter((entry) => entry.agentId !== agentId);
+				await this.ctx.storage.put(QUEUE_KEY, queue);
+			}
 
-			const rating = await this.getRating(agentId);
-			const range = this.matchmakingEloRange();
-
-			const eligible = queue.filter(
-				(entry) =>
-					entry.agentId !== agentId && Math.abs(entry.rating - rating) <= range,
-			);
+			const self = await loadAgentRating(this.env.DB, agentId, nowMs);
 
-			let candidates = eligible;
-			const lastOpponent = await this.ctx.storage.get<string>(
-				`${RECENT_PREFIX}${agentId}`,
+			// Modes are matched separately. Casual games do not move ratings, so
+			// the rating window only applies to ranked; casual still prefers the
+			// closest rating among everyone waiting.
+			const joiner: PairingCandidate = {
+				agentId,
+				rating: self.rating,
+				deviation: self.deviation,
+				enqueuedAtMs: nowMs,
+				recentOpponents: await this.loadRecentOpponents(agentId),
+			};
+			const opponent = await this.selectOpponent(
+				joiner,
+				queue.filter(
+					(entry) =>
+						entry.agentId !== agentId && queueEntryMode(entry) === mode,
+				),
+				this.pairingOptions(mode, nowMs),
 			);
-			if (lastOpponent && candidates.length > 0) {
-				const opponentRecents = await Promise.all(
-					candidates.map(async (entry) => {
-						return await this.ctx.storage.get<string>(
-							`${RECENT_PREFIX}${entry.agentId}`,
-						);
-					}),
-				);
-
-				const preferred = candidates.filter(
-					(entry, idx) =>
-						entry.agentId !== lastOpponent && opponentRecents[idx] !== agentId,
-				);
-				if (preferred.length > 0) {
-					candidates = preferred;
-				}
-			}
-
-			const opponent = this.selectOpponent(candidates, rating);
 			if (opponent) {
 				queue = queue.filter((entry) => entry.agentId !== opponent.agentId);
 				await this.ctx.storage.put(QUEUE_KEY, queue);
 
 				const matchId = opponent.matchId;
-				const players = [opponent.agentId, agentId];
-
-				const id = this.env.MATCH.idFromName(matchId);
-				const stub = this.env.MATCH.get(id);
-				const initResp = await doFetchWithRetry(stub, "https://do/init", {
-					method: "POST",
-					body: JSON.stringify({
-						players,
-						seed: Math.floor(Math.random() * 1_000_000),
-						mode: "ranked",
-					}),
-					headers: {
-						"content-type": "application/json",
-						"x-match-id": matchId,
-					},
-				});
-				if (!initResp.ok) {
-					// Best-effort recovery: re-add opponent to queue so they aren't lost.
-					const restored: QueueEntry = {
-						agentId: opponent.agentId,
-						matchId: opponent.matchId,
-						rating: opponent.rating,
-						enqueuedAtMs: opponent.enqueuedAtMs,
-					};
-					const current =
-						(await this.ctx.storage.get<QueueEntry[]>(QUEUE_KEY)) ?? [];
-					if (!current.some((entry) => entry.agentId === restored.agentId)) {
-						current.push(restored);
-						await this.ctx.storage.put(QUEUE_KEY, current);
-					}
+				const started = await this.startMatch(
+					matchId,
+					[opponent.agentId, agentId],
+					mode,
+					{},
+					nowMs,
+				);
+				if (!started) {
+					await this.restoreQueueEntries([opponent], nowMs);
 					return Response.json(
 						{ error: "Match initialization failed." },
 						{ status: 503 },
 					);
 				}
 
-				await this.recordMatch(matchId, "ranked");
-				await this.recordMatchPlayers(matchId, players);
-				await this.enqueueFeaturedMatch(matchId, players);
-
-				// Emit metrics for match creation and found
-				emitMetric(this.env, "match_created", {
-					scope: "matchmaker_do",
-					matchId,
-				});
-				for (const playerId of players) {
-					emitMetric(this.env, "match_found", {
-						scope: "matchmaker_do",
-						matchId,
-						agentId: playerId,
-					});
-				}
-
-				const recentAKey = `${RECENT_PREFIX}${opponent.agentId}`;
-				const recentBKey = `${RECENT_PREFIX}${agentId}`;
-				const activeAKey = `${ACTIVE_MATCH_PREFIX}${opponent.agentId}`;
-				const activeBKey = `${ACTIVE_MATCH_PREFIX}${agentId}`;
-
-				await this.ctx.storage.put(recentAKey, agentId);
-				await this.ctx.storage.put(recentBKey, opponent.agentId);
-				await this.ctx.storage.put(activeAKey, {
-					matchId,
-					opponentId: agentId,
-					setAtMs: nowMs,
-				} satisfies ActiveMatchEntry);
-				await this.ctx.storage.put(activeBKey, {
-					matchId,
-					opponentId: opponent.agentId,
-					setAtMs: nowMs,
-				} satisfies ActiveMatchEntry);
-
-				await this.enqueueEvent(
-					opponent.agentId,
-					buildMatchFoundEvent(matchId, agentId),
-				);
-				await this.enqueueEvent(
-					agentId,
-					buildMatchFoundEvent(matchId, opponent.agentId),
-				);
+				await this.recordQueueWait(mode, [opponent], nowMs);
 
 				const response: QueueJoinResponse = {
 					matchId,
@@ -903,11 +1236,14 @@ export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 			const entry: QueueEntry = {
 				agentId,
 				matchId,
-				rating,
+				rating: self.rating,
+				deviation: self.deviation,
 				enqueuedAtMs: nowMs,
+				mode,
 			};
 			queue = [...queue, entry];
 			await this.ctx.storage.put(QUEUE_KEY, queue);
+			await this.scheduleMatchmakingTick(nowMs);
 
 			// Emit queue_join metric
 			emitMetric(this.env, "queue_join", {
@@ -920,6 +1256,528 @@ export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 		});
 	}
 
+	/**
+	 * Creates the match in its MatchDO and records both players as matched.
+	 * Returns false when the MatchDO could not be initialized; nothing is
+	 * recorded in that case so the caller can restore whatever it consumed.
+	 */
+	private async startMatch(
+		matchId: string,
+		players: [string, string],
+		mode: MatchMode,
+		settings: MatchSettings,
+		nowMs: number,
+		tournamentId?: string,
+	): Promise<boolean> {
+		// House agents can be seated by any path (queue fill, tournaments), so
+		// the MatchDO is told which seats it plays itself.
+		const houseAgents = await loadHouseStrategies(this.env.DB, players);
+		const id = this.env.MATCH.idFromName(matchId);
+		const stub = this.env.MATCH.get(id);
+		const initResp = await doFetchWithRetry(stub, "https://do/init", {
+			method: "POST",
+			body: JSON.stringify({
+				...settings,
+				players,
+				seed: Math.floor(Math.random() * 1_000_000),
+				mode,
+				...(tournamentId ? { tournamentId } : {}),
+				...(houseAgents ? { houseAgents } : {}),
+			}),
+			headers: {
+				"content-type": "application/json",
+				"x-match-id": matchId,
+			},
+		});
+		if (!initResp.ok) return false;
+
+		await this.recordMatch(matchId, mode);
+		await this.recordMatchPlayers(matchId, players);
+		await this.enqueueFeaturedMatch(matchId, players);
+
+		// Emit metrics for match creation and found
+		emitMetric(this.env, "match_created", {
+			scope: "matchmaker_do",
+			matchId,
+		});
+		for (const playerId of players) {
+			emitMetric(this.env, "match_found", {
+				scope: "matchmaker_do",
+				matchId,
+				agentId: playerId,
+			});
+		}
+
+		const [agentA, agentB] = players;
+		await this.rememberOpponent(agentA, agentB);
+		await this.rememberOpponent(agentB, agentA);
+		await this.ctx.storage.put(`${ACTIVE_MATCH_PREFIX}${agentA}`, {
+			matchId,
+			opponentId: agentB,
+			setAtMs: nowMs,
+		} satisfies ActiveMatchEntry);
+		await this.ctx.storage.put(`${ACTIVE_MATCH_PREFIX}${agentB}`, {
+			matchId,
+			opponentId: agentA,
+			setAtMs: nowMs,
+		} satisfies ActiveMatchEntry);
+
+		await this.enqueueEvent(agentA, buildMatchFoundEvent(matchId, agentB));
+		await this.enqueueEvent(agentB, buildMatchFoundEvent(matchId, agentA));
+		return true;
+	}
+
+	private validateArrangedSettings(
+		settings: MatchSettings,
+		mode: MatchMode | undefined,
+	): string | null {
+		if (settings.mapId && !getMapDefinition(settings.mapId)) {
+			return `Unknown map id: ${settings.mapId}`;
+		}
+		if (mode === "ranked" && !hasDefaultSettings(settings)) {
+			return RANKED_SETTINGS_ERROR;
+		}
+		return null;
+	}
+
+	private async removeFromQueue(agentIds: string[], nowMs: number) {
+		const queue = await this.loadQueuePruned(nowMs);
+		const next = queue.filter((entry) => !agentIds.includes(entry.agentId));
+		if (next.length !== queue.length) {
+			await this.ctx.storage.put(QUEUE_KEY, next);
+		}
+	}
+
+	/**
+	 * Checks both sides of an arranged game before it starts. Returns the error
+	 * response to send, or null when the match may be created.
+	 */
+	private async checkArrangedPlayers(
+		agentId: string,
+		opponentId: string,
+	): Promise<Response | null> {
+		if ((await this.getQueueEligibility(opponentId)) !== "eligible") {
+			return Response.json(
+				{
+					error: "Opponent is not available for matches.",
+					code: "opponent_unavailable",
+				},
+				{ status: 409 },
+			);
+		}
+		for (const id of [agentId, opponentId]) {
+			if (await this.resolveActiveMatch(id)) {
+				return Response.json(
+					{
+						error:
+							id === agentId
+								? "Agent is already in a match."
+								: "Opponent is already in a match.",
+						code: "agent_busy",
+					},
+					{ status: 409 },
+				);
+			}
+		}
+		return null;
+	}
+
+	private async loadChallenge(
+		challengeId: string,
+		nowMs: number,
+	): Promise<ChallengeEntry | null> {
+		const key = `${CHALLENGE_PREFIX}${challengeId}`;
+		const entry = await this.ctx.storage.get<ChallengeEntry>(key);
+		if (!entry) return null;
+		if (nowMs >= entry.expiresAtMs) {
+			await this.ctx.storage.delete(key);
+			return null;
+		}
+		return entry;
+	}
+
+	private async listPendingChallenges(nowMs: number) {
+		const stored = await this.ctx.storage.list<ChallengeEntry>({
+			prefix: CHALLENGE_PREFIX,
+		});
+		const pending: ChallengeEntry[] = [];
+		const expired: string[] = [];
+		for (const [key, entry] of stored) {
+			if (nowMs >= entry.expiresAtMs) expired.push(key);
+			else pending.push(entry);
+		}
+		if (expired.length > 0) await this.ctx.storage.delete(expired);
+		return pending;
+	}
+
+	private async handleChallengeCreate(request: Request): Promise<Response> {
+		const agentId = request.headers.get("x-agent-id");
+		if (!agentId) {
+			return Response.json({ error: "Agent id is required." }, { status: 400 });
+		}
+		const body: unknown = await request.json().catch(() => null);
+		const parsed = challengeCreateSchema.safeParse(body);
+		if (!parsed.success) {
+			return Response.json(
+				{ error: "Invalid challenge payload.", code: "invalid_challenge" },
+				{ status: 400 },
+			);
+		}
+		const { targetAgentId, mode, ...settings } = parsed.data;
+		if (targetAgentId === agentId) {
+			return Response.json(
+				{ error: "Agents cannot challenge themselves." },
+				{ status: 400 },
+			);
+		}
+		const settingsError = this.validateArrangedSettings(settings, mode);
+		if (settingsError) {
+			return Response.json({ error: settingsError }, { status: 400 });
+		}
+		if ((await this.getQueueEligibility(targetAgentId)) !== "eligible") {
+			return Response.json(
+				{
+					error: "Opponent is not available for matches.",
+					code: "opponent_unavailable",
+				},
+				{ status: 404 },
+			);
+		}
+
+		return this.withQueueMutex(async () => {
+			const nowMs = Date.now();
+			const pending = await this.listPendingChallenges(nowMs);
+			const outgoing = pending.filter(
+				(entry) => entry.challengerId === agentId,
+			);
+			if (outgoing.length >= CHALLENGE_MAX_PENDING) {
+				return Response.json(
+					{
+						error: "Too many pending challenges.",
+						code: "challenge_limit",
+					},
+					{ status: 429 },
+				);
+			}
+
+			const entry: ChallengeEntry = {
+				id: crypto.randomUUID(),
+				challengerId: agentId,
+				targetId: targetAgentId,
+				mode: mode ?? ARRANGED_MATCH_MODE,
+				settings,
+				createdAtMs: nowMs,
+				expiresAtMs: nowMs + CHALLENGE_TTL_MS,
+			};
+			await this.ctx.storage.put(`${CHALLENGE_PREFIX}${entry.id}`, entry);
+			return Response.json(
+				{ challenge: challengeView(entry, "pending") },
+				{ status: 201 },
+			);
+		});
+	}
+
+	private async handleChallengeList(request: Request): Promise<Response> {
+		const agentId = request.headers.get("x-agent-id");
+		if (!agentId) {
+			return Response.json({ error: "Agent id is required." }, { status: 400 });
+		}
+		return this.withQueueMutex(async () => {
+			const pending = await this.listPendingChallenges(Date.now());
+			const byAge = (a: ChallengeEntry, b: ChallengeEntry) =>
+				a.createdAtMs - b.createdAtMs;
+			return Response.json({
+				incoming: pending
+					.filter((entry) => entry.targetId === agentId)
+					.sort(byAge)
+					.map((entry) => challengeView(entry, "pending")),
+				outgoing: pending
+					.filter((entry) => entry.challengerId === agentId)
+					.sort(byAge)
+					.map((entry) => challengeView(entry, "pending")),
+			});
+		});
+	}
+
+	// Tournament pairings start here so they share the active-match checks
+	// and bookkeeping of every other arranged game. A busy agent gets a 409
+	// and the tournament retries the pairing on its next tick.
+	private async handleTournamentMatch(request: Request): Promise<Response> {
+		const body: unknown = await request.json().catch(() => null);
+		const parsed = tournamentMatchSchema.safeParse(body);
+		if (!parsed.success) {
+			return Response.json(
+				{ error: "Invalid tournament match payload." },
+				{ status: 400 },
+			);
+		}
+		const { tournamentId, matchId, players, mode, settings } = parsed.data;
+		const [agentA, agentB] = players;
+
+		return this.withQueueMutex(async () => {
+			const nowMs = Date.now();
+			// checkArrangedPlayers covers the second seat.
+			if ((await this.getQueueEligibility(agentA)) !== "eligible") {
+				return Response.json(
+					{
+						error: "Agent is not available for matches.",
+						code: "agent_unavailable",
+					},
+					{ status: 409 },
+				);
+			}
+			const blocked = await this.checkArrangedPlayers(agentA, agentB);
+			if (blocked) return blocked;
+
+			await this.removeFromQueue(players, nowMs);
+			const started = await this.startMatch(
+				matchId,
+				players,
+				mode,
+				settings,
+				nowMs,
+				tournamentId,
+			);
+			if (!started) {
+				return Response.json(
+					{ error: "Match initialization failed." },
+					{ status: 503 },
+				);
+			}
+			return Response.json({ ok: true, matchId });
+		});
+	}
+
+	private async handleChallengeAccept(
+		request: Request,
+		challengeId: string,
+	): Promise<Response> {
+		const agentId = request.headers.get("x-agent-id");
+		if (!agentId) {
+			return Response.json({ error: "Agent id is required." }, { status: 400 });
+		}
+		return this.withQueueMutex(async () => {
+			const nowMs = Date.now();
+			const entry = await this.loadChallenge(challengeId, nowMs);
+			if (!entry) {
+				return Response.json(
+					{ error: "Challenge not found.", code: "challenge_not_found" },
+					{ status: 404 },
+				);
+			}
+			if (entry.targetId !== agentId) {
+				return Response.json(
+					{ error: "Only the challenged agent can accept." },
+					{ status: 403 },
+				);
+			}
+			const blocked = await this.checkArrangedPlayers(
+				agentId,
+				entry.challengerId,
+			);
+			if (blocked) return blocked;
+
+			const matchId = crypto.randomUUID();
+			await this.removeFromQueue([agentId, entry.challengerId], nowMs);
+			const started = await this.startMatch(
+				matchId,
+				[entry.challengerId, agentId],
+				entry.mode,
+				entry.settings,
+				nowMs,
+			);
+			if (!started) {
+				return Response.json(
+					{ error: "Match initialization failed." },
+					{ status: 503 },
+				);
+			}
+			await this.ctx.storage.delete(`${CHALLENGE_PREFIX}${entry.id}`);
+
+			return Response.json({
+				status: "ready",
+				matchId,
+				opponentId: entry.challengerId,
+				challenge: challengeView(entry, "accepted", matchId),
+			});
+		});
+	}
+
+	private async handleChallengeDecline(
+		request: Request,
+		challengeId: string,
+	): Promise<Response> {
+		const agentId = request.headers.get("x-agent-id");
+		if (!agentId) {
+			return Response.json({ error: "Agent id is required." }, { status: 400 });
+		}
+		return this.withQueueMutex(async () => {
+			const entry = await this.loadChallenge(challengeId, Date.now());
+			if (!entry) {
+				return Response.json(
+					{ error: "Challenge not found.", code: "challenge_not_found" },
+					{ status: 404 },
+				);
+			}
+			// The target declines; the challenger withdraws with the same call.
+			if (entry.targetId !== agentId && entry.challengerId !== agentId) {
+				return Response.json(
+					{ error: "Challenge not found.", code: "challenge_not_found" },
+					{ status: 404 },
+				);
+			}
+			await this.ctx.storage.delete(`${CHALLENGE_PREFIX}${entry.id}`);
+			return Response.json({
+				ok: true,
+				challenge: challengeView(
+					entry,
+					entry.targetId === agentId ? "declined" : "cancelled",
+				),
+			});
+		});
+	}
+
+	private async loadLobby(
+		code: string,
+		nowMs: number,
+	): Promise<LobbyEntry | null> {
+		const entry = await this.ctx.storage.get<LobbyEntry>(
+			`${LOBBY_PREFIX}${code}`,
+		);
+		if (!entry) return null;
+		if (nowMs >= entry.expiresAtMs) {
+			await this.deleteLobby(entry);
+			return null;
+		}
+		return entry;
+	}
+
+	private async deleteLobby(entry: LobbyEntry) {
+		const hostKey = `${LOBBY_HOST_PREFIX}${entry.hostId}`;
+		const keys = [`${LOBBY_PREFIX}${entry.code}`];
+		if ((await this.ctx.storage.get<string>(hostKey)) === entry.code) {
+			keys.push(hostKey);
+		}
+		await this.ctx.storage.delete(keys);
+	}
+
+	private async handleLobbyCreate(request: Request): Promise<Response> {
+		const agentId = request.headers.get("x-agent-id");
+		if (!agentId) {
+			return Response.json({ error: "Agent id is required." }, { status: 400 });
+		}
+		const body: unknown = await request.json().catch(() => ({}));
+		const parsed = lobbyCreateSchema.safeParse(body ?? {});
+		if (!parsed.success) {
+			return Response.json(
+				{ error: "Invalid lobby payload.", code: "invalid_lobby" },
+				{ status: 400 },
+			);
+		}
+		const { mode, ...settings } = parsed.data;
+		const settingsError = this.validateArrangedSettings(settings, mode);
+		if (settingsError) {
+			return Response.json({ error: settingsError }, { status: 400 });
+		}
+
+		return this.withQueueMutex(async () => {
+			const nowMs = Date.now();
+			// A host keeps one open lobby; opening another replaces it.
+			const previousCode = await this.ctx.storage.get<string>(
+				`${LOBBY_HOST_PREFIX}${agentId}`,
+			);
+			if (previousCode) {
+				const previous = await this.loadLobby(previousCode, nowMs);
+				if (previous) await this.deleteLobby(previous);
+			}
+
+			let code = generateLobbyCode();
+			while (await this.ctx.storage.get(`${LOBBY_PREFIX}${code}`)) {
+				code = generateLobbyCode();
+			}
+			const entry: LobbyEntry = {
+				code,
+				hostId: agentId,
+				mode: mode ?? ARRANGED_MATCH_MODE,
+				settings,
+				createdAtMs: nowMs,
+				expiresAtMs: nowMs + LOBBY_TTL_MS,
+			};
+			await this.ctx.storage.put(`${LOBBY_PREFIX}${code}`, entry);
+			await this.ctx.storage.put(`${LOBBY_HOST_PREFIX}${agentId}`, code);
+			return Response.json({ lobby: lobbyView(entry) }, { status: 201 });
+		});
+	}
+
+	private async handleLobbyJoin(
+		request: Request,
+		code: string,
+	): Promise<Response> {
+		const agentId = request.headers.get("x-agent-id");
+		if (!agentId) {
+			return Response.json({ error: "Agent id is required." }, { status: 400 });
+		}
+		return this.withQueueMutex(async () => {
+			const nowMs = Date.now();
+			const entry = await this.loadLobby(code, nowMs);
+			if (!entry) {
+				return Response.json(
+					{ error: "Lobby not found.", code: "lobby_not_found" },
+					{ status: 404 },
+				);
+			}
+			if (entry.hostId === agentId) {
+				return Response.json({ status: "waiting", lobby: lobbyView(entry) });
+			}
+			const blocked = await this.checkArrangedPlayers(agentId, entry.hostId);
+			if (blocked) return blocked;
+
+			const matchId = crypto.randomUUID();
+			await this.removeFromQueue([agentId, entry.hostId], nowMs);
+			const started = await this.startMatch(
+				matchId,
+				[entry.hostId, agentId],
+				entry.mode,
+				entry.settings,
+				nowMs,
+			);
+			if (!started) {
+				return Response.json(
+					{ error: "Match initialization failed." },
+					{ status: 503 },
+				);
+			}
+			await this.deleteLobby(entry);
+
+			return Response.json({
+				status: "ready",
+				matchId,
+				opponentId: entry.hostId,
+			});
+		});
+	}
+
+	private async handleLobbyClose(
+		request: Request,
+		code: string,
+	): Promise<Response> {
+		const agentId = request.headers.get("x-agent-id");
+		if (!agentId) {
+			return Response.json({ error: "Agent id is required." }, { status: 400 });
+		}
+		return this.withQueueMutex(async () => {
+			const entry = await this.loadLobby(code, Date.now());
+			if (!entry || entry.hostId !== agentId) {
+				return Response.json(
+					{ error: "Lobby not found.", code: "lobby_not_found" },
+					{ status: 404 },
+				);
+			}
+			await this.deleteLobby(entry);
+			return Response.json({ ok: true });
+		});
+	}
+
 	private async handleQueueStatus(request: Request): Promise<Response> {
 		return this.withQueueMutex(async () => {
 			const agentId = request.headers.get("x-agent-id");
@@ -945,9 +1803,23 @@ export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 			const queue = await this.loadQueuePruned(nowMs);
 			const existing = queue.find((entry) => entry.agentId === agentId);
 			if (existing) {
+				const mode = queueEntryMode(existing);
 				const response: QueueStatusResponse = {
 					status: "waiting",
 					matchId: existing.matchId,
+					mode,
+					waitedMs: Math.max(0, nowMs - existing.enqueuedAtMs),
+					estimatedWaitMs: await this.estimateWaitMs(existing, nowMs),
+					searchWindow:
+						mode === "ranked"
+							? searchWindow(
+									{
+										...queueEntryRating(existing),
+										enqueuedAtMs: existing.enqueuedAtMs,
+									},
+									{ nowMs, baseRange: this.matchmakingEloRange() },
+								)
+							: null,
 				};
 				return Response.json(response);
 			}
@@ -1003,7 +1875,7 @@ export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 		}
 	}
 
-	private async recordMatch(matchId: string, mode: "ranked") {
+	private async recordMatch(matchId: string, mode: MatchMode) {
 		try {
 			await this.env.DB.prepare(
 				"INSERT OR IGNORE INTO matches(id, status, created_at, mode) VALUES (?, 'active', datetime('now'), ?)",
@@ -1097,12 +1969,8 @@ export class MatchmakerDO extends DurableObject<MatchmakerEnv> {
 	}
 
 	private async getRating(agentId: string) {
-		const row = await this.env.DB.prepare(
-			"SELECT rating FROM leaderboard WHERE agent_id = ?",
-		)
-			.bind(agentId)
-			.first<{ rating: number }>();
-		return typeof row?.rating === "number" ? row.rating : ELO_START;
+		const { rating } = await loadAgentRating(this.env.DB, agentId);
+		return Math.round(rating);
 	}
 
 	private requireRunnerKey(request: Request) {
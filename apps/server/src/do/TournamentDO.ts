@@ -0,0 +1,612 @@
+import { DurableObject } from "cloudflare:workers";
+import { getMapDefinition } from "@fightclaw/engine";
+import { z } from "zod";
+import type { AppBindings } from "../appTypes";
+import type { MatchMode } from "../constants/matchModes";
+import { RUNNER_ID_RE } from "../constants/runner";
+import {
+	TOURNAMENT_MAX_ENTRANTS,
+	TOURNAMENT_TICK_MS,
+	type TournamentFormat,
+} from "../constants/tournaments";
+import {
+	hasDefaultSettings,
+	type MatchSettings,
+	RANKED_SETTINGS_ERROR,
+} from "../contracts/matchSettings";
+import { tournamentCreateSchema } from "../contracts/tournaments";
+import { loadAgentRating } from "../ratings/leaderboard";
+import {
+	computeStandings,
+	type Pairing,
+	pairRound,
+	plannedRounds,
+} from "../tournaments/pairing";
+import { doFetchWithRetry } from "../utils/durable";
+import { isRecord } from "../utils/typeGuards";
+
+type TournamentEnv = Pick<
+	AppBindings,
+	"DB" | "MATCH" | "MATCHMAKER" | "INTERNAL_RUNNER_KEY" | "TEST_MODE"
+>;
+
+type TournamentStatus = "registration" | "running" | "completed";
+
+type TournamentState = {
+	id: string;
+	name: string;
+	format: TournamentFormat;
+	mode: MatchMode;
+	settings: MatchSettings;
+	requestedRounds?: number;
+	plannedRounds: number;
+	currentRound: number;
+	status: TournamentStatus;
+	// Registration order until the start, seed order after.
+	entrants: string[];
+	pairings: Pairing[];
+	createdAt: string;
+	startedAt?: string;
+	endedAt?: string;
+};
+
+const STATE_KEY = "tournament";
+const D1_BATCH_SIZE = 50;
+// Tournament games are unranked unless the organiser asks for ranked.
+const DEFAULT_TOURNAMENT_MODE: MatchMode = "casual";
+
+const initSchema = tournamentCreateSchema.extend({ id: z.string().uuid() });
+
+const entrantsSchema = z
+	.object({
+		agentIds: z.array(z.string().min(1)).min(1).max(TOURNAMENT_MAX_ENTRANTS),
+	})
+	.strict();
+
+const tournamentView = (state: TournamentState) => {
+	const rounds: Array<{ round: number; pairings: Omit<Pairing, "round">[] }> =
+		[];
+	for (const { round, ...pairing } of state.pairings) {
+		let entry = rounds.find((candidate) => candidate.round === round);
+		if (!entry) {
+			entry = { round, pairings: [] };
+			rounds.push(entry);
+		}
+		entry.pairings.push(pairing);
+	}
+	return {
+		id: state.id,
+		name: state.name,
+		format: state.format,
+		mode: state.mode,
+		status: state.status,
+		settings: state.settings,
+		plannedRounds: state.plannedRounds,
+		currentRound: state.currentRound,
+		entrants: state.entrants.map((agentId, index) => ({
+			agentId,
+			seed: state.status === "registration" ? null : index + 1,
+		})),
+		rounds,
+		createdAt: state.createdAt,
+		startedAt: state.startedAt ?? null,
+		endedAt: state.endedAt ?? null,
+	};
+};
+
+const notFoundResponse = () =>
+	Response.json(
+		{ error: "Tournament not found.", code: "tournament_not_found" },
+		{ status: 404 },
+	);
+
+export class TournamentDO extends DurableObject<TournamentEnv> {
+	private mutex: Promise<void> = Promise.resolve();
+
+	async fetch(request: Request): Promise<Response> {
+		const url = new URL(request.url);
+
+		if (request.method === "POST" && url.pathname === "/init") {
+			return this.withMutex(() => this.handleInit(request));
+		}
+
+		if (request.method === "GET" && url.pathname === "/") {
+			const state = await this.loadState();
+			if (!state) return notFoundResponse();
+			return Response.json({ tournament: tournamentView(state) });
+		}
+
+		if (request.method === "GET" && url.pathname === "/standings") {
+			const state = await this.loadState();
+			if (!state) return notFoundResponse();
+			return Response.json({
+				tournamentId: state.id,
+				status: state.status,
+				currentRound: state.currentRound,
+				standings: computeStandings(
+					state.entrants,
+					state.pairings,
+					state.format,
+				),
+			});
+		}
+
+		if (request.method === "POST" && url.pathname === "/entrants") {
+			return this.withMutex(() => this.handleRegister(request));
+		}
+
+		if (request.method === "POST" && url.pathname === "/start") {
+			return this.withMutex(() => this.handleStart());
+		}
+
+		if (request.method === "POST" && url.pathname === "/match-ended") {
+			const auth = this.requireRunnerKey(request);
+			if (!auth.ok) return auth.response;
+			return this.withMutex(() => this.handleMatchEnded(request));
+		}
+
+		return Response.json({ error: "Not found." }, { status: 404 });
+	}
+
+	async alarm(): Promise<void> {
+		await this.withMutex(async () => {
+			const state = await this.loadState();
+			if (!state || state.status !== "running") return;
+			await this.pollActiveMatches(state);
+			await this.advance(state);
+		});
+	}
+
+	private async withMutex<T>(fn: () => Promise<T>): Promise<T> {
+		const previous = this.mutex;
+		let release: (() => void) | undefined;
+		this.mutex = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+		await previous;
+		try {
+			return await fn();
+		} finally {
+			release?.();
+		}
+	}
+
+	private loadState() {
+		return this.ctx.storage.get<TournamentState>(STATE_KEY);
+	}
+
+	private async handleInit(request: Request): Promise<Response> {
+		const body: unknown = await request.json().catch(() => null);
+		const parsed = initSchema.safeParse(body);
+		if (!parsed.success) {
+			return Response.json(
+				{ error: "Invalid tournament payload." },
+				{ status: 400 },
+			);
+		}
+		if (await this.loadState()) {
+			return Response.json(
+				{ error: "Tournament already exists.", code: "tournament_exists" },
+				{ status: 409 },
+			);
+		}
+
+		const { id, name, format, rounds, mode, settings } = parsed.data;
+		if (settings?.mapId && !getMapDefinition(settings.mapId)) {
+			return Response.json(
+				{ error: `Unknown map id: ${settings.mapId}` },
+				{ status: 400 },
+			);
+		}
+		if (mode === "ranked" && settings && !hasDefaultSettings(settings)) {
+			return Response.json({ error: RANKED_SETTINGS_ERROR }, { status: 400 });
+		}
+		const state: TournamentState = {
+			id,
+			name,
+			format,
+			mode: mode ?? DEFAULT_TOURNAMENT_MODE,
+			settings: settings ?? {},
+			...(format === "swiss" && rounds ? { requestedRounds: rounds } : {}),
+			plannedRounds: 0,
+			currentRound: 0,
+			status: "registration",
+			entrants: [],
+			pairings: [],
+			createdAt: new Date().toISOString(),
+		};
+		await this.ctx.storage.put(STATE_KEY, state);
+		await this.syncToD1(state, { entrants: false });
+		return Response.json({ tournament: tournamentView(state) });
+	}
+
+	private async handleRegister(request: Request): Promise<Response> {
+		const state = await this.loadState();
+		if (!state) return notFoundResponse();
+		if (state.status !== "registration") {
+			return Response.json(
+				{
+					error: "Registration is closed.",
+					code: "registration_closed",
+				},
+				{ status: 409 },
+			);
+		}
+
+		const body: unknown = await request.json().catch(() => null);
+		const parsed = entrantsSchema.safeParse(body);
+		if (!parsed.success) {
+			return Response.json(
+				{ error: "agentIds must list 1-64 agent ids." },
+				{ status: 400 },
+			);
+		}
+
+		const requested = [...new Set(parsed.data.agentIds)].filter(
+			(agentId) => !state.entrants.includes(agentId),
+		);
+		const eligible = await this.loadEligibleAgents(requested);
+		const rejected = requested.filter((agentId) => !eligible.has(agentId));
+		if (rejected.length > 0) {
+			return Response.json(
+				{
+					error: "Entrants must be verified, enabled agents.",
+					code: "ineligible_entrants",
+					agentIds: rejected,
+				},
+				{ status: 400 },
+			);
+		}
+		if (state.entrants.length + requested.length > TOURNAMENT_MAX_ENTRANTS) {
+			return Response.json(
+				{
+					error: `Tournaments take at most ${TOURNAMENT_MAX_ENTRANTS} entrants.`,
+					code: "tournament_full",
+				},
+				{ status: 409 },
+			);
+		}
+
+		state.entrants.push(...requested);
+		await this.ctx.storage.put(STATE_KEY, state);
+		await this.syncToD1(state, { entrants: true });
+		return Response.json({ tournament: tournamentView(state) });
+	}
+
+	private async handleStart(): Promise<Response> {
+		const state = await this.loadState();
+		if (!state) return notFoundResponse();
+		if (state.status !== "registration") {
+			return Response.json(
+				{ error: "Tournament already started.", code: "already_started" },
+				{ status: 409 },
+			);
+		}
+		if (state.entrants.length < 2) {
+			return Response.json(
+				{ error: "At least two entrants are required." },
+				{ status: 400 },
+			);
+		}
+
+		// Seed by current rating; registration order breaks ties.
+		const ratings = await Promise.all(
+			state.entrants.map(
+				async (agentId, index) =>
+					[
+						agentId,
+						(await loadAgentRating(this.env.DB, agentId)).rating,
+						index,
+					] as const,
+			),
+		);
+		state.entrants = [...ratings]
+			.sort((a, b) => b[1] - a[1] || a[2] - b[2])
+			.map(([agentId]) => agentId);
+		state.plannedRounds = plannedRounds(
+			state.format,
+			state.entrants.length,
+			state.requestedRounds,
+		);
+		state.status = "running";
+		state.startedAt = new Date().toISOString();
+
+		await this.syncToD1(state, { entrants: true });
+		await this.advance(state);
+		return Response.json({ tournament: tournamentView(state) });
+	}
+
+	private async handleMatchEnded(request: Request): Promise<Response> {
+		const body: unknown = await request.json().catch(() => null);
+		if (!isRecord(body) || typeof body.matchId !== "string") {
+			return Response.json({ error: "matchId is required." }, { status: 400 });
+		}
+		const state = await this.loadState();
+		if (!state) return notFoundResponse();
+
+		const winnerAgentId =
+			typeof body.winnerAgentId === "string" ? body.winnerAgentId : null;
+		const recorded = this.recordResult(state, body.matchId, winnerAgentId);
+		if (recorded && state.status === "running") {
+			await this.advance(state);
+		}
+		return Response.json({ ok: true, recorded });
+	}
+
+	private recordResult(
+		state: TournamentState,
+		matchId: string,
+		winnerAgentId: string | null,
+	) {
+		const pairing = state.pairings.find(
+			(candidate) =>
+				candidate.matchId === matchId && candidate.status === "active",
+		);
+		if (!pairing) return false;
+		pairing.status = "ended";
+		pairing.winnerAgentId =
+			winnerAgentId === pairing.agentA || winnerAgentId === pairing.agentB
+				? winnerAgentId
+				: null;
+		return true;
+	}
+
+	// Backstop for lost end notifications.
+	private async pollActiveMatches(state: TournamentState) {
+		for (const pairing of state.pairings) {
+			if (pairing.status !== "active" || !pairing.matchId) continue;
+			try {
+				const stub = this.env.MATCH.get(
+					this.env.MATCH.idFromName(pairing.matchId),
+				);
+				const resp = await doFetchWithRetry(stub, "https://do/state");
+				if (!resp.ok) continue;
+				const payload = (await resp.json()) as {
+					state?: { status?: string; winnerAgentId?: string | null } | null;
+				};
+				if (payload.state?.status === "ended") {
+					this.recordResult(
+						state,
+						pairing.matchId,
+						payload.state.winnerAgentId ?? null,
+					);
+				}
+			} catch (error) {
+				console.error("Failed to poll tournament match", error);
+			}
+		}
+	}
+
+	/**
+	 * Moves the tournament forward: pairs the next round once every pairing
+	 * of the current one is decided, finishes after the last round, and
+	 * starts any pairing still waiting for a match. Persists the result.
+	 */
+	private async advance(state: TournamentState) {
+		const roundDecided = () =>
+			state.pairings
+				.filter((pairing) => pairing.round === state.currentRound)
+				.every(
+					(pairing) => pairing.status === "ended" || pairing.status === "bye",
+				);
+
+		while (state.status === "running" && roundDecided()) {
+			if (state.currentRound >= state.plannedRounds) {
+				state.status = "completed";
+				state.endedAt = new Date().toISOString();
+				break;
+			}
+			state.currentRound += 1;
+			state.pairings.push(
+				...pairRound(
+					state.format,
+					state.entrants,
+					state.pairings,
+					state.currentRound,
+				),
+			);
+		}
+
+		if (state.status === "running") {
+			await this.startPendingPairings(state);
+		}
+
+		await this.ctx.storage.put(STATE_KEY, state);
+		await this.syncToD1(state, { entrants: false });
+		if (state.status === "running") {
+			await this.ctx.storage.setAlarm(Date.now() + TOURNAMENT_TICK_MS);
+		} else {
+			await this.ctx.storage.deleteAlarm();
+		}
+	}
+
+	// Pairings that fail to start (usually an agent still finishing another
+	// game) stay pending and are retried on the next alarm.
+	private async startPendingPairings(state: TournamentState) {
+		const key = this.env.INTERNAL_RUNNER_KEY;
+		if (!key) {
+			console.warn("INTERNAL_RUNNER_KEY missing; tournament pairings held");
+			return;
+		}
+		const stub = this.env.MATCHMAKER.get(
+			this.env.MATCHMAKER.idFromName("global"),
+		);
+
+		for (const pairing of state.pairings) {
+			if (pairing.round !== state.currentRound) continue;
+			if (pairing.status !== "pending" || pairing.agentB === null) continue;
+
+			const matchId = crypto.randomUUID();
+			try {
+				const resp = await doFetchWithRetry(
+					stub,
+					"https://do/tournaments/match",
+					{
+						method: "POST",
+						headers: {
+							"content-type": "application/json",
+							"x-runner-key": key,
+							"x-runner-id": "tournament-do",
+						},
+						body: JSON.stringify({
+							tournamentId: state.id,
+							matchId,
+							players: [pairing.agentA, pairing.agentB],
+							mode: state.mode,
+							settings: state.settings,
+						}),
+					},
+				);
+				if (resp.ok) {
+					pairing.matchId = matchId;
+					pairing.status = "active";
+				}
+			} catch (error) {
+				console.error("Failed to start tournament match", error);
+			}
+		}
+	}
+
+	private async loadEligibleAgents(agentIds: string[]) {
+		if (agentIds.length === 0) return new Set<string>();
+		const placeholders = agentIds.map(() => "?").join(", ");
+		const { results } = await this.env.DB.prepare(
+			[
+				"SELECT id FROM agents",
+				"WHERE verified_at IS NOT NULL AND disabled_at IS NULL",
+				`AND id IN (${placeholders})`,
+			].join(" "),
+		)
+			.bind(...agentIds)
+			.all<{ id: string }>();
+		return new Set((results ?? []).map((row) => row.id));
+	}
+
+	// D1 mirrors the bracket for listings and reporting. Only the current and
+	// previous rounds can change, so older pairings are not rewritten.
+	private async syncToD1(
+		state: TournamentState,
+		options: { entrants: boolean },
+	) {
+		const db = this.env.DB;
+		const statements: D1PreparedStatement[] = [
+			db
+				.prepare(
+					[
+						"INSERT INTO tournaments (id, name, format, mode, status, planned_rounds, current_round,",
+						"settings_json, created_at, started_at, ended_at)",
+						"VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+						"ON CONFLICT(id) DO UPDATE SET",
+						"status=excluded.status, planned_rounds=excluded.planned_rounds,",
+						"current_round=excluded.current_round, started_at=excluded.started_at,",
+						"ended_at=excluded.ended_at",
+					].join(" "),
+				)
+				.bind(
+					state.id,
+					state.name,
+					state.format,
+					state.mode,
+					state.status,
+					state.plannedRounds,
+					state.currentRound,
+					JSON.stringify(state.settings),
+					state.createdAt,
+					state.startedAt ?? null,
+					state.endedAt ?? null,
+				),
+		];
+
+		if (options.entrants) {
+			state.entrants.forEach((agentId, index) => {
+				statements.push(
+					db
+						.prepare(
+							[
+								"INSERT INTO tournament_entrants (tournament_id, agent_id, seed)",
+								"VALUES (?, ?, ?)",
+								"ON CONFLICT(tournament_id, agent_id) DO UPDATE SET seed=excluded.seed",
+							].join(" "),
+						)
+						.bind(
+							state.id,
+							agentId,
+							state.status === "registration" ? null : index + 1,
+						),
+				);
+			});
+		}
+
+		for (const pairing of state.pairings) {
+			if (pairing.round < state.currentRound - 1) continue;
+			statements.push(
+				db
+					.prepare(
+						[
+							"INSERT INTO tournament_pairings (tournament_id, round, table_no, agent_a_id,",
+							"agent_b_id, match_id, status, winner_agent_id)",
+							"VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+							"ON CONFLICT(tournament_id, round, table_no) DO UPDATE SET",
+							"match_id=excluded.match_id, status=excluded.status,",
+							"winner_agent_id=excluded.winner_agent_id, updated_at=datetime('now')",
+						].join(" "),
+					)
+					.bind(
+						state.id,
+						pairing.round,
+						pairing.table,
+						pairing.agentA,
+						pairing.agentB,
+						pairing.matchId,
+						pairing.status,
+						pairing.winnerAgentId,
+					),
+			);
+		}
+
+		try {
+			for (let i = 0; i < statements.length; i += D1_BATCH_SIZE) {
+				await db.batch(statements.slice(i, i + D1_BATCH_SIZE));
+			}
+		} catch (error) {
+			console.error("Failed to mirror tournament to D1", error);
+		}
+	}
+
+	private requireRunnerKey(request: Request) {
+		const expectedKey = this.env.INTERNAL_RUNNER_KEY;
+		if (!expectedKey) {
+			return {
+				ok: false as const,
+				response: Response.json(
+					{
+						error: "Internal auth not configured.",
+						code: "internal_auth_not_configured",
+					},
+					{ status: 503 },
+				),
+			};
+		}
+		const providedKey = request.headers.get("x-runner-key");
+		if (!providedKey || providedKey !== expectedKey) {
+			return {
+				ok: false as const,
+				response: Response.json({ error: "Forbidden." }, { status: 403 }),
+			};
+		}
+		const runnerId = request.headers.get("x-runner-id")?.trim() ?? "";
+		if (!RUNNER_ID_RE.test(runnerId)) {
+			return {
+				ok: false as const,
+				response: Response.json(
+					{
+						error: "Valid x-runner-id is required.",
+						code: "invalid_runner_id",
+					},
+					{ status: 400 },
+				),
+			};
+		}
+		return { ok: true as const };
+	}
+}
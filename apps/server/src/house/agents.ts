@@ -0,0 +1,92 @@
+import { type HouseStrategy, isHouseStrategy } from "../constants/house";
+import { randomBase64Url, sha256Hex } from "../utils/crypto";
+
+export type HouseAgent = {
+	id: string;
+	name: string;
+	strategy: HouseStrategy;
+	disabledAt: string | null;
+};
+
+type HouseAgentRow = {
+	id: string;
+	name: string;
+	house_strategy: string | null;
+	disabled_at: string | null;
+};
+
+const toHouseAgents = (rows: HouseAgentRow[]): HouseAgent[] =>
+	rows.flatMap((row) =>
+		isHouseStrategy(row.house_strategy)
+			? [
+					{
+						id: row.id,
+						name: row.name,
+						strategy: row.house_strategy,
+						disabledAt: row.disabled_at,
+					},
+				]
+			: [],
+	);
+
+export const listHouseAgents = async (
+	db: D1Database,
+	options: { includeDisabled?: boolean } = {},
+): Promise<HouseAgent[]> => {
+	const { results } = await db
+		.prepare(
+			[
+				"SELECT id, name, house_strategy, disabled_at FROM agents",
+				"WHERE house_strategy IS NOT NULL",
+				options.includeDisabled ? "" : "AND disabled_at IS NULL",
+				"ORDER BY created_at ASC, id ASC",
+			].join(" "),
+		)
+		.all<HouseAgentRow>();
+	return toHouseAgents(results ?? []);
+};
+
+/**
+ * Creates a verified agent played by the server. House agents have no API
+ * key: the stored hash is of a discarded random value, so nothing can
+ * authenticate as them.
+ */
+export const createHouseAgent = async (
+	db: D1Database,
+	name: string,
+	strategy: HouseStrategy,
+): Promise<HouseAgent> => {
+	const id = crypto.randomUUID();
+	const unusableHash = await sha256Hex(`house:${randomBase64Url(32)}`);
+	await db
+		.prepare(
+			[
+				"INSERT INTO agents (id, name, api_key_hash, verified_at, house_strategy)",
+				"VALUES (?, ?, ?, datetime('now'), ?)",
+			].join(" "),
+		)
+		.bind(id, name, unusableHash, strategy)
+		.run();
+	return { id, name, strategy, disabledAt: null };
+};
+
+/** Strategies of the house agents among `agentIds`, or null if there are none. */
+export const loadHouseStrategies = async (
+	db: D1Database,
+	agentIds: string[],
+): Promise<Record<string, HouseStrategy> | null> => {
+	if (agentIds.length === 0) return null;
+	const placeholders = agentIds.map(() => "?").join(", ");
+	const { results } = await db
+		.prepare(
+			[
+				"SELECT id, name, house_strategy, disabled_at FROM agents",
+				`WHERE house_strategy IS NOT NULL AND id IN (${placeholders})`,
+			].join(" "),
+		)
+		.bind(...agentIds)
+		.all<HouseAgentRow>();
+	const agents = toHouseAgents(results ?? []);
+	if (agents.length === 0) return null;
+	return Object.fromEntries(agents.map((agent) => [agent.id, agent.strategy]));
+};
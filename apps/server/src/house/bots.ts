@@ -0,0 +1,118 @@
+import {
+	type GameState,
+	listLegalMoves,
+	type Move,
+	previewMove,
+} from "@fightclaw/engine";
+import type { HouseStrategy } from "../constants/house";
+
+// Ports of the sim's greedy and aggressive bots (apps/sim/src/bots). The
+// RNG is seeded from the game seed and state version, so a replayed match
+// sees the same house moves.
+
+const mulberry32 = (seed: number) => {
+	let t = seed >>> 0;
+	return () => {
+		t += 0x6d2b79f5;
+		let x = t;
+		x = Math.imul(x ^ (x >>> 15), x | 1);
+		x ^= x + Math.imul(x ^ (x >>> 7), x | 61);
+		return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+	};
+};
+
+const pickOne = <T>(items: T[], rng: () => number): T => {
+	const index = Math.floor(rng() * items.length);
+	return items[Math.min(index, items.length - 1)] as T;
+};
+
+const actionScore = (move: Move): number => {
+	switch (move.action) {
+		case "attack":
+			return 10;
+		case "recruit":
+			return 7;
+		case "upgrade":
+			return 5;
+		case "move":
+			return 3;
+		case "fortify":
+			return 2;
+		case "end_turn":
+		case "pass":
+			return 0;
+	}
+};
+
+/**
+ * One-ply lookahead for attacks: rewards kills, damage and VP, penalising own
+ * losses. Other actions keep their action-type score.
+ */
+const greedyScore = (game: GameState, move: Move): number => {
+	if (move.action !== "attack") return actionScore(move);
+	const preview = previewMove(game, move);
+	if (!preview.ok) return Number.NEGATIVE_INFINITY;
+	const side = game.activePlayer;
+	const enemy = side === "A" ? "B" : "A";
+	if (preview.terminal.ended) {
+		return preview.terminal.winner === game.players[side].id ? 1000 : -1000;
+	}
+
+	let score = actionScore(move);
+	score += 8 * preview.unitsLost[enemy].length;
+	score -= 8 * preview.unitsLost[side].length;
+	if (preview.combat) {
+		score += 2 * preview.combat.damageDealt - 2 * preview.combat.damageTaken;
+	}
+	for (const change of preview.captures) {
+		if (change.to === side) score += 2;
+		else if (change.from === side) score -= 2;
+	}
+	score += 4 * (preview.resources[side].vp - preview.resources[enemy].vp);
+	return score;
+};
+
+const chooseGreedy = (game: GameState, legal: Move[], rng: () => number) => {
+	let bestScore = Number.NEGATIVE_INFINITY;
+	let best: Move[] = [];
+	for (const move of legal) {
+		const score = greedyScore(game, move);
+		if (score > bestScore) {
+			bestScore = score;
+			best = [move];
+		} else if (score === bestScore) {
+			best.push(move);
+		}
+	}
+	return pickOne(best.length > 0 ? best : legal, rng);
+};
+
+// Attacks first, then moves, recruits and fortifies.
+const AGGRESSIVE_PRIORITY: Move["action"][] = [
+	"attack",
+	"move",
+	"recruit",
+	"fortify",
+];
+
+const chooseAggressive = (legal: Move[], rng: () => number) => {
+	for (const action of AGGRESSIVE_PRIORITY) {
+		const bucket = legal.filter((move) => move.action === action);
+		if (bucket.length > 0) return pickOne(bucket, rng);
+	}
+	return pickOne(legal, rng);
+};
+
+/** The house bot's next action for the active player, or null if none. */
+export const chooseHouseMove = (
+	strategy: HouseStrategy,
+	game: GameState,
+	stateVersion: number,
+): Move | null => {
+	const legal = listLegalMoves(game);
+	if (legal.length === 0) return null;
+	const rng = mulberry32(game.seed ^ Math.imul(stateVersion + 1, 0x9e3779b1));
+	return strategy === "greedy"
+		? chooseGreedy(game, legal, rng)
+		: chooseAggressive(legal, rng);
+};
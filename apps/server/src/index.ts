@@ -6,6 +6,7 @@ import { cors } from "hono/cors";
 import type { AppBindings, AppVariables } from "./appTypes";
 import { MatchDO as MatchDOBase } from "./do/MatchDO";
 import { MatchmakerDO as MatchmakerDOBase } from "./do/MatchmakerDO";
+import { TournamentDO as TournamentDOBase } from "./do/TournamentDO";
 import {
 	requireAgentAuth,
 	requireRunnerKey,
@@ -16,11 +17,13 @@ import { requestLogger } from "./obs/requestLogger";
 import { sentryOptions } from "./obs/sentry";
 import { adminRoutes } from "./routes/admin";
 import { authRoutes } from "./routes/auth";
+import { challengeRoutes } from "./routes/challenges";
 import { internalRunnerRoutes } from "./routes/internalRunner";
 import { matchesRoutes } from "./routes/matches";
 import { internalPromptsRoutes, promptsRoutes } from "./routes/prompts";
 import { queueRoutes } from "./routes/queue";
 import { systemRoutes } from "./routes/system";
+import { tournamentRoutes } from "./routes/tournaments";
 import { sha256Hex } from "./utils/crypto";
 import { doFetchWithRetry } from "./utils/durable";
 import {
@@ -163,6 +166,14 @@ app.use("/*", async (c, next) => {
 
 app.use("/v1/matches/*", async (c, next) => {
 	const path = c.req.path;
+	// State is public, but a player's own key gets their side's fogged view.
+	if (
+		c.req.method === "GET" &&
+		path.endsWith("/state") &&
+		c.req.header("authorization")
+	) {
+		return requireAgentAuth(c, next);
+	}
 	if (
 		c.req.method === "GET" &&
 		(path.endsWith("/state") ||
@@ -199,6 +210,18 @@ app.use("/v1/queue/*", async (c, next) => {
 	});
 });
 
+app.use("/v1/challenges/*", async (c, next) => {
+	return requireAgentAuth(c, async () => {
+		return requireVerifiedAgent(c, next);
+	});
+});
+
+app.use("/v1/lobbies/*", async (c, next) => {
+	return requireAgentAuth(c, async () => {
+		return requireVerifiedAgent(c, next);
+	});
+});
+
 app.get("/ws", async (c) => {
 	const authResponse = await requireAgentAuth(c, async () => {});
 	if (authResponse) return authResponse;
@@ -294,8 +317,10 @@ app.route("/v1/internal", internalRunnerRoutes);
 // Internal runner prompt injection (Workstream A).
 app.route("/v1/internal", internalPromptsRoutes);
 app.route("/", queueRoutes);
+app.route("/", challengeRoutes);
 app.route("/", matchesRoutes);
 app.route("/", systemRoutes);
+app.route("/", tournamentRoutes);
 
 // Type assertions needed because Sentry wrapper expects exact SentryEnv,
 // but our DO envs extend it with additional bindings (DB, MATCH, etc.)
@@ -309,5 +334,10 @@ export const MatchmakerDO = Sentry.instrumentDurableObjectWithSentry(
 	// biome-ignore lint/suspicious/noExplicitAny: Sentry wrapper type mismatch
 	MatchmakerDOBase as any,
 );
+export const TournamentDO = Sentry.instrumentDurableObjectWithSentry(
+	sentryOptions,
+	// biome-ignore lint/suspicious/noExplicitAny: Sentry wrapper type mismatch
+	TournamentDOBase as any,
+);
 
 export default Sentry.withSentry(sentryOptions, app);
@@ -0,0 +1,91 @@
+import type { ClockTimeControl, TimeControl } from "../contracts/matchSettings";
+import type { MatchClockSnapshot } from "../protocol/events";
+
+// Stored on the match; `remainingMs` is each bank as of `turnStartedAtMs`.
+export type MatchClock = {
+	remainingMs: Record<string, number>;
+	turnStartedAtMs: number;
+};
+
+export const isClockTimeControl = (
+	timeControl: TimeControl | undefined,
+): timeControl is ClockTimeControl =>
+	timeControl !== undefined && "initialSeconds" in timeControl;
+
+const incrementMs = (control: ClockTimeControl) =>
+	(control.incrementSeconds ?? 0) * 1000;
+
+const delayMs = (control: ClockTimeControl) =>
+	(control.delaySeconds ?? 0) * 1000;
+
+const elapsedChargeMs = (
+	control: ClockTimeControl,
+	clock: MatchClock,
+	nowMs: number,
+) => Math.max(0, nowMs - clock.turnStartedAtMs - delayMs(control));
+
+export const startClock = (
+	control: ClockTimeControl,
+	players: string[],
+	nowMs: number,
+): MatchClock => ({
+	remainingMs: Object.fromEntries(
+		players.map((agentId) => [agentId, control.initialSeconds * 1000]),
+	),
+	turnStartedAtMs: nowMs,
+});
+
+export const clockDeadlineMs = (
+	control: ClockTimeControl,
+	clock: MatchClock,
+	activeAgentId: string,
+) =>
+	clock.turnStartedAtMs +
+	delayMs(control) +
+	(clock.remainingMs[activeAgentId] ?? 0);
+
+// Closes `moverId`'s turn at `nowMs`: charges the time used past the delay,
+// adds the increment and starts the next turn's clock.
+export const passClockTurn = (
+	control: ClockTimeControl,
+	clock: MatchClock,
+	moverId: string,
+	nowMs: number,
+): MatchClock => {
+	const left = Math.max(
+		0,
+		(clock.remainingMs[moverId] ?? 0) - elapsedChargeMs(control, clock, nowMs),
+	);
+	return {
+		remainingMs: {
+			...clock.remainingMs,
+			[moverId]: left + incrementMs(control),
+		},
+		turnStartedAtMs: nowMs,
+	};
+};
+
+export const viewClock = (
+	control: ClockTimeControl,
+	clock: MatchClock,
+	activeAgentId: string | null,
+	nowMs: number,
+): MatchClockSnapshot => {
+	const remainingMs = { ...clock.remainingMs };
+	if (activeAgentId && activeAgentId in remainingMs) {
+		remainingMs[activeAgentId] = Math.max(
+			0,
+			(remainingMs[activeAgentId] ?? 0) -
+				elapsedChargeMs(control, clock, nowMs),
+		);
+	}
+	return {
+		remainingMs,
+		incrementMs: incrementMs(control),
+		delayMs: delayMs(control),
+		activeAgentId,
+		turnDeadlineAtMs: activeAgentId
+			? clockDeadlineMs(control, clock, activeAgentId)
+			: null,
+	};
+};
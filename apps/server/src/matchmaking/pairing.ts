@@ -0,0 +1,167 @@
+import {
+	MATCHMAKING_EXACT_BATCH_LIMIT,
+	MATCHMAKING_WINDOW_GROWTH_MAX,
+	MATCHMAKING_WINDOW_GROWTH_PER_SECOND,
+} from "../constants/matchmaking";
+import { pairingDistance } from "../ratings/glicko2";
+
+export type PairingCandidate = {
+	agentId: string;
+	rating: number;
+	deviation: number;
+	enqueuedAtMs: number;
+	// Most recent first.
+	recentOpponents: string[];
+};
+
+export type PairingOptions = {
+	nowMs: number;
+	// MATCHMAKING_ELO_RANGE; the window before any growth.
+	baseRange: number;
+	// Casual pairs ignore the window and only prefer close ratings.
+	ranked: boolean;
+};
+
+// Large enough that a repeat pairing is only chosen when it is the only way
+// to seat an extra pair.
+const REPEAT_OPPONENT_PENALTY = 1000;
+
+const windowGrowth = (waitedMs: number) =>
+	Math.min(
+		MATCHMAKING_WINDOW_GROWTH_MAX,
+		(Math.max(0, waitedMs) / 1000) * MATCHMAKING_WINDOW_GROWTH_PER_SECOND,
+	);
+
+/**
+ * The rating gap a ranked pair may span: the configured range or two
+ * combined deviations, widened by how long the longer-waiting side has
+ * queued.
+ */
+export const pairWindow = (
+	a: PairingCandidate,
+	b: PairingCandidate,
+	options: PairingOptions,
+) => {
+	const combined = Math.sqrt(a.deviation ** 2 + b.deviation ** 2);
+	const base = Math.max(options.baseRange, 2 * combined);
+	const waitedMs = options.nowMs - Math.min(a.enqueuedAtMs, b.enqueuedAtMs);
+	return base + windowGrowth(waitedMs);
+};
+
+/**
+ * The rating range an entry accepts against an equally settled opponent;
+ * reported by queue status. Less settled opponents may sit further out.
+ */
+export const searchWindow = (
+	entry: Pick<PairingCandidate, "rating" | "deviation" | "enqueuedAtMs">,
+	options: Pick<PairingOptions, "nowMs" | "baseRange">,
+) => {
+	const width =
+		Math.max(options.baseRange, 2 * Math.SQRT2 * entry.deviation) +
+		windowGrowth(options.nowMs - entry.enqueuedAtMs);
+	return {
+		min: Math.round(entry.rating - width),
+		max: Math.round(entry.rating + width),
+	};
+};
+
+/** Cost of pairing two entries, or null when the pair is not allowed. */
+export const pairCost = (
+	a: PairingCandidate,
+	b: PairingCandidate,
+	options: PairingOptions,
+): number | null => {
+	if (a.agentId === b.agentId) return null;
+	if (
+		options.ranked &&
+		Math.abs(a.rating - b.rating) > pairWindow(a, b, options)
+	) {
+		return null;
+	}
+	const repeat =
+		a.recentOpponents.includes(b.agentId) ||
+		b.recentOpponents.includes(a.agentId);
+	return pairingDistance(a, b) + (repeat ? REPEAT_OPPONENT_PENALTY : 0);
+};
+
+type Plan = { count: number; cost: number; pairs: Array<[number, number]> };
+
+const EMPTY_PLAN: Plan = { count: 0, cost: 0, pairs: [] };
+
+// More pairs first, then the lower total cost.
+const isBetter = (candidate: Plan, current: Plan) =>
+	candidate.count > current.count ||
+	(candidate.count === current.count && candidate.cost < current.cost);
+
+const planExact = (costs: Array<Array<number | null>>): Plan => {
+	const n = costs.length;
+	const memo = new Map<number, Plan>();
+	const solve = (used: number): Plan => {
+		let first = 0;
+		while (first < n && used & (1 << first)) first++;
+		if (first >= n) return EMPTY_PLAN;
+		const cached = memo.get(used);
+		if (cached) return cached;
+
+		// Candidates are ordered oldest first, so on ties the older entry pairs.
+		let best = solve(used | (1 << first));
+		for (let other = first + 1; other < n; other++) {
+			const cost = costs[first]?.[other];
+			if (cost === null || cost === undefined || used & (1 << other)) {
+				continue;
+			}
+			const rest = solve(used | (1 << first) | (1 << other));
+			const candidate: Plan = {
+				count: rest.count + 1,
+				cost: rest.cost + cost,
+				pairs: [[first, other], ...rest.pairs],
+			};
+			if (isBetter(candidate, best)) best = candidate;
+		}
+		memo.set(used, best);
+		return best;
+	};
+	return solve(0);
+};
+
+const planGreedy = (costs: Array<Array<number | null>>): Plan => {
+	const edges: Array<[number, number, number]> = [];
+	costs.forEach((row, i) => {
+		row.forEach((cost, j) => {
+			if (j > i && cost !== null) edges.push([i, j, cost]);
+		});
+	});
+	edges.sort((a, b) => a[2] - b[2] || a[0] - b[0] || a[1] - b[1]);
+
+	const seated = new Set<number>();
+	const plan: Plan = { count: 0, cost: 0, pairs: [] };
+	for (const [i, j, cost] of edges) {
+		if (seated.has(i) || seated.has(j)) continue;
+		seated.add(i);
+		seated.add(j);
+		plan.pairs.push([i, j]);
+		plan.count++;
+		plan.cost += cost;
+	}
+	return plan;
+};
+
+/**
+ * Pairs a whole queue at once: as many pairs as the windows allow, then the
+ * lowest total cost. Each pair lists the longer-waiting entry first.
+ */
+export const planQueuePairs = <T extends PairingCandidate>(
+	entries: T[],
+	options: PairingOptions,
+): Array<[T, T]> => {
+	const ordered = [...entries].sort(
+		(a, b) =>
+			a.enqueuedAtMs - b.enqueuedAtMs || a.agentId.localeCompare(b.agentId),
+	);
+	const costs = ordered.map((a) => ordered.map((b) => pairCost(a, b, options)));
+	const plan =
+		ordered.length <= MATCHMAKING_EXACT_BATCH_LIMIT
+			? planExact(costs)
+			: planGreedy(costs);
+	return plan.pairs.map(([i, j]) => [ordered[i], ordered[j]] as [T, T]);
+};
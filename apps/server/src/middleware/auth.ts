@@ -1,6 +1,7 @@
 import type { Context, Next } from "hono";
 import { createIdentity } from "../appContext";
 import type { AppBindings, AppVariables } from "../appTypes";
+import { API_KEY_LAST_USED_RESOLUTION_SECONDS } from "../constants/auth";
 import { RUNNER_ID_RE } from "../constants/runner";
 import { sha256Hex } from "../utils/crypto";
 import {
@@ -91,22 +92,32 @@ export const requireAgentAuth = async (
 	const hash = await sha256Hex(`${pepper}${token}`);
 	const row = await c.env.DB.prepare(
 		[
-			"SELECT a.id as agent_id, k.id as api_key_id, a.verified_at as verified_at",
+			"SELECT a.id as agent_id, k.id as api_key_id, a.verified_at as verified_at,",
+			"(k.last_used_at IS NULL OR k.last_used_at < datetime('now', ?)) as last_used_stale",
 			"FROM api_keys k",
 			"JOIN agents a ON a.id = k.agent_id",
 			"WHERE k.key_hash = ? AND k.revoked_at IS NULL",
 			"LIMIT 1",
 		].join(" "),
 	)
-		.bind(hash)
+		.bind(`-${API_KEY_LAST_USED_RESOLUTION_SECONDS} seconds`, hash)
 		.first<{
 			agent_id: string;
 			api_key_id: string;
 			verified_at: string | null;
+			last_used_stale: number;
 		}>();
 
 	if (!row?.agent_id) return unauthorized(c);
 
+	if (row.last_used_stale) {
+		await c.env.DB.prepare(
+			"UPDATE api_keys SET last_used_at = datetime('now') WHERE id = ?",
+		)
+			.bind(row.api_key_id)
+			.run();
+	}
+
 	const isAdmin = Boolean(
 		c.req.header("x-admin-key") &&
 			c.req.header("x-admin-key") === c.env.ADMIN_KEY,
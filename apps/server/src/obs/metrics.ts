@@ -4,6 +4,7 @@ export type MetricEvent =
 	| "api_request"
 	| "queue_join"
 	| "queue_leave"
+	| "house_match"
 	| "match_created"
 	| "match_found"
 	| "match_started"
@@ -2,9 +2,12 @@ import type {
 	AgentThoughtEvent,
 	EngineEventsEvent,
 	GameEndedEvent,
+	MatchClockSnapshot,
 	MatchEndedEvent,
 	MatchFoundEvent,
 	NoEventsEvent,
+	RatingChange,
+	StateDeltaEvent,
 	StateEvent,
 	YourTurnEvent,
 } from "@fightclaw/protocol";
@@ -15,9 +18,12 @@ export type {
 	AgentThoughtEvent,
 	EngineEventsEvent,
 	GameEndedEvent,
+	MatchClockSnapshot,
 	MatchEndedEvent,
 	MatchFoundEvent,
 	NoEventsEvent,
+	RatingChange,
+	StateDeltaEvent,
 	StateEvent,
 	YourTurnEvent,
 };
@@ -35,21 +41,41 @@ export const buildMatchFoundEvent = (
 export const buildYourTurnEvent = (
 	matchId: string,
 	stateVersion: number,
+	clock?: MatchClockSnapshot,
 ): YourTurnEvent => ({
 	eventVersion: EVENT_VERSION,
 	event: "your_turn",
 	matchId,
 	stateVersion,
+	...(clock ? { clock } : {}),
 });
 
 export const buildStateEvent = (
 	matchId: string,
 	state: unknown,
+	stateVersion?: number,
+	clock?: MatchClockSnapshot,
 ): StateEvent => ({
 	eventVersion: EVENT_VERSION,
 	event: "state",
 	matchId,
+	...(stateVersion === undefined ? {} : { stateVersion }),
 	state,
+	...(clock ? { clock } : {}),
+});
+
+export const buildStateDeltaEvent = (
+	matchId: string,
+	fromStateVersion: number,
+	stateVersion: number,
+	delta: unknown[],
+): StateDeltaEvent => ({
+	eventVersion: EVENT_VERSION,
+	event: "state_delta",
+	matchId,
+	fromStateVersion,
+	stateVersion,
+	delta,
 });
 
 export const buildEngineEventsEvent = (
@@ -77,6 +103,7 @@ export const buildMatchEndedEvent = (
 	winnerAgentId: MatchEndedEvent["winnerAgentId"],
 	loserAgentId: MatchEndedEvent["loserAgentId"],
 	reason: string,
+	ratingChanges?: RatingChange[],
 ): MatchEndedEvent => ({
 	eventVersion: EVENT_VERSION,
 	event: "match_ended",
@@ -85,6 +112,7 @@ export const buildMatchEndedEvent = (
 	loserAgentId,
 	reason,
 	reasonCode: reason,
+	...(ratingChanges ? { ratingChanges } : {}),
 });
 
 export const buildGameEndedAliasEvent = (
@@ -1,10 +1,11 @@
 import { MoveSchema } from "@fightclaw/engine";
 import { z } from "zod";
+import { MATCH_MODES } from "../constants/matchModes";
 
 export const queueJoinSchema = z
 	.object({
 		type: z.literal("queue_join"),
-		mode: z.literal("ranked"),
+		mode: z.enum(MATCH_MODES),
 	})
 	.strict();
 
@@ -63,11 +64,22 @@ export const matchFoundSchema = z
 	})
 	.strict();
 
+export const matchClockSchema = z
+	.object({
+		remainingMs: z.record(z.string(), z.number()),
+		incrementMs: z.number(),
+		delayMs: z.number(),
+		activeAgentId: z.string().nullable(),
+		turnDeadlineAtMs: z.number().nullable(),
+	})
+	.strict();
+
 export const yourTurnSchema = z
 	.object({
 		type: z.literal("your_turn"),
 		matchId: z.string().uuid(),
 		stateVersion: z.number().int(),
+		clock: matchClockSchema.optional(),
 	})
 	.strict();
 
@@ -77,6 +89,30 @@ export const stateSchema = z
 		matchId: z.string().uuid(),
 		stateVersion: z.number().int(),
 		stateSnapshot: z.unknown(),
+		engineConfig: z.unknown().optional(),
+		clock: matchClockSchema.optional(),
+	})
+	.strict();
+
+export const stateDeltaSchema = z
+	.object({
+		type: z.literal("state_delta"),
+		matchId: z.string().uuid(),
+		fromStateVersion: z.number().int(),
+		stateVersion: z.number().int(),
+		delta: z.array(z.unknown()),
+	})
+	.strict();
+
+// Players receive the same per-action engine events as spectators, except
+// under fog of war.
+export const engineEventsSchema = z
+	.object({
+		type: z.literal("engine_events"),
+		matchId: z.string().uuid(),
+		stateVersion: z.number().int(),
+		agentId: z.string(),
+		engineEvents: z.array(z.unknown()),
 	})
 	.strict();
 
@@ -97,6 +133,19 @@ export const matchEndedSchema = z
 		winnerAgentId: z.string().uuid().nullable().optional(),
 		endReason: z.string().optional(),
 		finalStateVersion: z.number().int(),
+		ratingChanges: z
+			.array(
+				z
+					.object({
+						agentId: z.string(),
+						ratingBefore: z.number(),
+						ratingAfter: z.number(),
+						delta: z.number(),
+						deviationAfter: z.number(),
+					})
+					.strict(),
+			)
+			.optional(),
 	})
 	.strict();
 
@@ -113,6 +162,8 @@ export const agentWsOutboundSchema = z.discriminatedUnion("type", [
 	matchFoundSchema,
 	yourTurnSchema,
 	stateSchema,
+	stateDeltaSchema,
+	engineEventsSchema,
 	moveResultSchema,
 	matchEndedSchema,
 	wsErrorSchema,
@@ -0,0 +1,147 @@
+import {
+	ELO_START,
+	GLICKO_TAU,
+	RATING_DEVIATION_MIN,
+	RATING_DEVIATION_START,
+	RATING_PERIOD_DAYS,
+	SEASON_RATING_CARRYOVER,
+	SEASON_RESET_DEVIATION,
+	VOLATILITY_START,
+} from "../constants/rating";
+
+export type GlickoRating = {
+	rating: number;
+	deviation: number;
+	volatility: number;
+};
+
+/** 1 for a win, 0.5 for a draw, 0 for a loss. */
+export type GameScore = 0 | 0.5 | 1;
+
+const SCALE = 173.7178;
+const CONVERGENCE = 0.000001;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const initialRating = (): GlickoRating => ({
+	rating: ELO_START,
+	deviation: RATING_DEVIATION_START,
+	volatility: VOLATILITY_START,
+});
+
+const clampDeviation = (deviation: number) =>
+	Math.min(RATING_DEVIATION_START, Math.max(RATING_DEVIATION_MIN, deviation));
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / Math.PI ** 2);
+
+const expectedScore = (mu: number, muOpponent: number, phiOpponent: number) =>
+	1 / (1 + Math.exp(-g(phiOpponent) * (mu - muOpponent)));
+
+/**
+ * Grows the deviation for the rating periods an agent sat out, so a rating
+ * nobody has tested in months is trusted less than a fresh one.
+ */
+export const applyInactivityDecay = (
+	current: GlickoRating,
+	lastRatedAtMs: number | null,
+	nowMs: number,
+): GlickoRating => {
+	if (lastRatedAtMs === null || nowMs <= lastRatedAtMs) return current;
+	const periods = (nowMs - lastRatedAtMs) / (RATING_PERIOD_DAYS * DAY_MS);
+	const phi = current.deviation / SCALE;
+	const decayed = Math.sqrt(phi * phi + periods * current.volatility ** 2);
+	return { ...current, deviation: clampDeviation(decayed * SCALE) };
+};
+
+/** Rating an agent carries into the next season. */
+export const seasonSoftReset = (current: GlickoRating): GlickoRating => ({
+	...current,
+	rating: ELO_START + (current.rating - ELO_START) * SEASON_RATING_CARRYOVER,
+	deviation: Math.max(current.deviation, SEASON_RESET_DEVIATION),
+});
+
+// Step 5 of the Glicko-2 paper: solve for the new volatility (Illinois method).
+const nextVolatility = (
+	phi: number,
+	sigma: number,
+	v: number,
+	delta: number,
+) => {
+	const a = Math.log(sigma * sigma);
+	const tau2 = GLICKO_TAU * GLICKO_TAU;
+	const f = (x: number) => {
+		const ex = Math.exp(x);
+		const denom = phi * phi + v + ex;
+		return (
+			(ex * (delta * delta - phi * phi - v - ex)) / (2 * denom * denom) -
+			(x - a) / tau2
+		);
+	};
+
+	let lower = a;
+	let upper: number;
+	if (delta * delta > phi * phi + v) {
+		upper = Math.log(delta * delta - phi * phi - v);
+	} else {
+		let k = 1;
+		while (f(a - k * GLICKO_TAU) < 0) k++;
+		upper = a - k * GLICKO_TAU;
+	}
+
+	let fLower = f(lower);
+	let fUpper = f(upper);
+	while (Math.abs(upper - lower) > CONVERGENCE) {
+		const next = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+		const fNext = f(next);
+		if (fNext * fUpper <= 0) {
+			lower = upper;
+			fLower = fUpper;
+		} else {
+			fLower /= 2;
+		}
+		upper = next;
+		fUpper = fNext;
+	}
+	return Math.exp(lower / 2);
+};
+
+/**
+ * Rates one game for `player` against `opponent`. Both inputs are the
+ * pre-game ratings (after inactivity decay); call once per side.
+ */
+export const rateGame = (
+	player: GlickoRating,
+	opponent: GlickoRating,
+	score: GameScore,
+): GlickoRating => {
+	const mu = (player.rating - ELO_START) / SCALE;
+	const phi = player.deviation / SCALE;
+	const muOpponent = (opponent.rating - ELO_START) / SCALE;
+	const phiOpponent = opponent.deviation / SCALE;
+
+	const gOpponent = g(phiOpponent);
+	const expected = expectedScore(mu, muOpponent, phiOpponent);
+	const v = 1 / (gOpponent * gOpponent * expected * (1 - expected));
+	const delta = v * gOpponent * (score - expected);
+
+	const volatility = nextVolatility(phi, player.volatility, v, delta);
+	const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+	const phiNext = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+	const muNext = mu + phiNext * phiNext * gOpponent * (score - expected);
+
+	return {
+		rating: muNext * SCALE + ELO_START,
+		deviation: clampDeviation(phiNext * SCALE),
+		volatility,
+	};
+};
+
+/**
+ * How far apart two ratings are in units of their combined uncertainty.
+ * Matchmaking pairs the smallest distance first.
+ */
+export const pairingDistance = (
+	a: Pick<GlickoRating, "rating" | "deviation">,
+	b: Pick<GlickoRating, "rating" | "deviation">,
+) =>
+	Math.abs(a.rating - b.rating) /
+	Math.sqrt(a.deviation * a.deviation + b.deviation * b.deviation);
@@ -0,0 +1,385 @@
+import type { RatingChange } from "@fightclaw/protocol";
+
+import { ELO_START } from "../constants/rating";
+import {
+	applyInactivityDecay,
+	type GameScore,
+	type GlickoRating,
+	initialRating,
+	rateGame,
+	seasonSoftReset,
+} from "./glicko2";
+
+type LeaderboardRatingRow = {
+	rating: number | null;
+	rating_deviation: number | null;
+	volatility: number | null;
+	last_rated_at: string | null;
+};
+
+type AgentTally = GlickoRating & {
+	wins: number;
+	losses: number;
+	draws: number;
+	gamesPlayed: number;
+	lastRatedAtMs: number | null;
+};
+
+type RatingHistoryRow = {
+	agent_id: string;
+	rating_before: number;
+	rating_after: number;
+	deviation_after: number;
+};
+
+const BACKFILL_BATCH_SIZE = 50;
+
+const HISTORY_COLUMNS_SQL = [
+	"rating_history(match_id, agent_id, opponent_agent_id, score,",
+	"rating_before, rating_after, deviation_before, deviation_after, volatility_after, created_at)",
+	"VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+].join(" ");
+
+// D1 `datetime('now')` values are UTC without a zone marker.
+export const parseSqliteTimestamp = (value: string | null | undefined) => {
+	if (!value) return null;
+	const iso = value.includes("T") ? value : `${value.replace(" ", "T")}Z`;
+	const parsed = Date.parse(iso);
+	return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toSqliteTimestamp = (ms: number) =>
+	new Date(ms).toISOString().slice(0, 19).replace("T", " ");
+
+const ratingFromRow = (
+	row: LeaderboardRatingRow | null | undefined,
+	nowMs: number,
+): GlickoRating => {
+	if (!row) return initialRating();
+	const start = initialRating();
+	const current: GlickoRating = {
+		rating: typeof row.rating === "number" ? row.rating : ELO_START,
+		deviation:
+			typeof row.rating_deviation === "number"
+				? row.rating_deviation
+				: start.deviation,
+		volatility:
+			typeof row.volatility === "number" ? row.volatility : start.volatility,
+	};
+	return applyInactivityDecay(
+		current,
+		parseSqliteTimestamp(row.last_rated_at),
+		nowMs,
+	);
+};
+
+/** Current rating for an agent with inactivity decay applied. */
+export const loadAgentRating = async (
+	db: D1Database,
+	agentId: string,
+	nowMs = Date.now(),
+): Promise<GlickoRating> => {
+	const row = await db
+		.prepare(
+			"SELECT rating, rating_deviation, volatility, last_rated_at FROM leaderboard WHERE agent_id = ?",
+		)
+		.bind(agentId)
+		.first<LeaderboardRatingRow>();
+	return ratingFromRow(row, nowMs);
+};
+
+export const toRatingChange = (
+	agentId: string,
+	before: Pick<GlickoRating, "rating">,
+	after: Pick<GlickoRating, "rating" | "deviation">,
+): RatingChange => ({
+	agentId,
+	ratingBefore: Math.round(before.rating),
+	ratingAfter: Math.round(after.rating),
+	delta: Math.round(after.rating - before.rating),
+	deviationAfter: Math.round(after.deviation),
+});
+
+/** Rating changes already recorded for a match, winner first. */
+export const loadRatingChanges = async (
+	db: D1Database,
+	matchId: string,
+): Promise<RatingChange[]> => {
+	const { results } = await db
+		.prepare(
+			[
+				"SELECT agent_id, rating_before, rating_after, deviation_after",
+				"FROM rating_history WHERE match_id = ?",
+				"ORDER BY score DESC, agent_id ASC",
+			].join(" "),
+		)
+		.bind(matchId)
+		.all<RatingHistoryRow>();
+	return (results ?? []).map((row) =>
+		toRatingChange(
+			row.agent_id,
+			{ rating: row.rating_before },
+			{ rating: row.rating_after, deviation: row.deviation_after },
+		),
+	);
+};
+
+/**
+ * Applies one ranked result to the leaderboard and writes its
+ * rating_history rows. `scoreA` is the first player's score; the second
+ * player receives the complement. A match already in rating_history fails
+ * the batch, so a result is never applied twice.
+ */
+export const recordRatedGame = async (
+	db: D1Database,
+	matchId: string,
+	players: [string, string],
+	scoreA: GameScore,
+	nowMs = Date.now(),
+): Promise<RatingChange[]> => {
+	const [agentA, agentB] = players;
+	await db.batch(
+		players.map((agentId) =>
+			db
+				.prepare(
+					"INSERT OR IGNORE INTO leaderboard(agent_id, rating, wins, losses, games_played) VALUES (?, ?, 0, 0, 0)",
+				)
+				.bind(agentId, ELO_START),
+		),
+	);
+
+	const before = await Promise.all(
+		players.map((agentId) => loadAgentRating(db, agentId, nowMs)),
+	);
+	const [ratingA, ratingB] = before as [GlickoRating, GlickoRating];
+	const scoreB = (1 - scoreA) as GameScore;
+	const nextA = rateGame(ratingA, ratingB, scoreA);
+	const nextB = rateGame(ratingB, ratingA, scoreB);
+	const ratedAt = toSqliteTimestamp(nowMs);
+
+	const update = (agentId: string, next: GlickoRating, score: GameScore) =>
+		db
+			.prepare(
+				[
+					"UPDATE leaderboard",
+					"SET rating=?, rating_deviation=?, volatility=?,",
+					"wins=wins+?, losses=losses+?, draws=draws+?,",
+					"games_played=games_played+1, last_rated_at=?, updated_at=datetime('now')",
+					"WHERE agent_id=?",
+				].join(" "),
+			)
+			.bind(
+				next.rating,
+				next.deviation,
+				next.volatility,
+				score === 1 ? 1 : 0,
+				score === 0 ? 1 : 0,
+				score === 0.5 ? 1 : 0,
+				ratedAt,
+				agentId,
+			);
+
+	const history = (
+		agentId: string,
+		opponentId: string,
+		score: GameScore,
+		before: GlickoRating,
+		after: GlickoRating,
+	) =>
+		db
+			.prepare(`INSERT INTO ${HISTORY_COLUMNS_SQL}`)
+			.bind(
+				matchId,
+				agentId,
+				opponentId,
+				score,
+				before.rating,
+				after.rating,
+				before.deviation,
+				after.deviation,
+				after.volatility,
+				ratedAt,
+			);
+
+	await db.batch([
+		history(agentA, agentB, scoreA, ratingA, nextA),
+		history(agentB, agentA, scoreB, ratingB, nextB),
+		update(agentA, nextA, scoreA),
+		update(agentB, nextB, scoreB),
+	]);
+	return [
+		toRatingChange(agentA, ratingA, nextA),
+		toRatingChange(agentB, ratingB, nextB),
+	];
+};
+
+/**
+ * Recomputes every rated agent, and the rating_history rows, by replaying
+ * ranked results in order. Closed seasons soft-reset ratings and zero the
+ * tallies at their end, as closing them did. Agents without a ranked result
+ * keep their current row.
+ */
+export const backfillRatings = async (db: D1Database) => {
+	const { results: resultRows } = await db
+		.prepare(
+			[
+				"SELECT r.match_id, r.winner_agent_id, r.loser_agent_id, r.created_at",
+				"FROM match_results r",
+				"JOIN matches m ON m.id = r.match_id",
+				"WHERE m.mode = 'ranked'",
+				"ORDER BY r.created_at ASC, r.match_id ASC",
+			].join(" "),
+		)
+		.all<{
+			match_id: string;
+			winner_agent_id: string | null;
+			loser_agent_id: string | null;
+			created_at: string | null;
+		}>();
+	const { results: playerRows } = await db
+		.prepare(
+			[
+				"SELECT mp.match_id, mp.agent_id",
+				"FROM match_players mp",
+				"JOIN matches m ON m.id = mp.match_id",
+				"WHERE m.mode = 'ranked'",
+				"ORDER BY mp.match_id, mp.seat",
+			].join(" "),
+		)
+		.all<{ match_id: string; agent_id: string }>();
+	const { results: seasonRows } = await db
+		.prepare(
+			"SELECT ended_at FROM seasons WHERE ended_at IS NOT NULL ORDER BY ended_at ASC",
+		)
+		.all<{ ended_at: string }>();
+	const seasonEnds = (seasonRows ?? [])
+		.map((row) => parseSqliteTimestamp(row.ended_at))
+		.filter((value): value is number => value !== null);
+
+	const seats = new Map<string, string[]>();
+	for (const row of playerRows ?? []) {
+		const list = seats.get(row.match_id) ?? [];
+		list.push(row.agent_id);
+		seats.set(row.match_id, list);
+	}
+
+	const tallies = new Map<string, AgentTally>();
+	const tallyFor = (agentId: string) => {
+		let tally = tallies.get(agentId);
+		if (!tally) {
+			tally = {
+				...initialRating(),
+				wins: 0,
+				losses: 0,
+				draws: 0,
+				gamesPlayed: 0,
+				lastRatedAtMs: null,
+			};
+			tallies.set(agentId, tally);
+		}
+		return tally;
+	};
+
+	let nextSeasonEnd = 0;
+	const closeSeasonsUntil = (atMs: number) => {
+		while (
+			nextSeasonEnd < seasonEnds.length &&
+			(seasonEnds[nextSeasonEnd] as number) <= atMs
+		) {
+			for (const tally of tallies.values()) {
+				Object.assign(tally, seasonSoftReset(tally), {
+					wins: 0,
+					losses: 0,
+					draws: 0,
+					gamesPlayed: 0,
+				});
+			}
+			nextSeasonEnd++;
+		}
+	};
+
+	const historyStatements: D1PreparedStatement[] = [];
+	let gamesReplayed = 0;
+	for (const row of resultRows ?? []) {
+		let pairing: [string, string, GameScore] | null = null;
+		if (row.winner_agent_id && row.loser_agent_id) {
+			pairing = [row.winner_agent_id, row.loser_agent_id, 1];
+		} else if (!row.winner_agent_id && !row.loser_agent_id) {
+			const [first, second] = seats.get(row.match_id) ?? [];
+			if (first && second) pairing = [first, second, 0.5];
+		}
+		if (!pairing) continue;
+
+		const [agentA, agentB, scoreA] = pairing;
+		const atMs = parseSqliteTimestamp(row.created_at) ?? Date.now();
+		closeSeasonsUntil(atMs);
+		const a = tallyFor(agentA);
+		const b = tallyFor(agentB);
+		const ratingA = applyInactivityDecay(a, a.lastRatedAtMs, atMs);
+		const ratingB = applyInactivityDecay(b, b.lastRatedAtMs, atMs);
+		const scoreB = (1 - scoreA) as GameScore;
+		for (const [tally, agentId, opponentId, before, next, score] of [
+			[a, agentA, agentB, ratingA, rateGame(ratingA, ratingB, scoreA), scoreA],
+			[b, agentB, agentA, ratingB, rateGame(ratingB, ratingA, scoreB), scoreB],
+		] as const) {
+			historyStatements.push(
+				db
+					.prepare(`INSERT OR REPLACE INTO ${HISTORY_COLUMNS_SQL}`)
+					.bind(
+						row.match_id,
+						agentId,
+						opponentId,
+						score,
+						before.rating,
+						next.rating,
+						before.deviation,
+						next.deviation,
+						next.volatility,
+						toSqliteTimestamp(atMs),
+					),
+			);
+			Object.assign(tally, next);
+			if (score === 1) tally.wins++;
+			else if (score === 0) tally.losses++;
+			else tally.draws++;
+			tally.gamesPlayed++;
+			tally.lastRatedAtMs = atMs;
+		}
+		gamesReplayed++;
+	}
+	closeSeasonsUntil(Number.POSITIVE_INFINITY);
+
+	const leaderboardStatements = [...tallies].map(([agentId, tally]) =>
+		db
+			.prepare(
+				[
+					"INSERT INTO leaderboard(agent_id, rating, rating_deviation, volatility, wins, losses, draws, games_played, last_rated_at)",
+					"VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+					"ON CONFLICT(agent_id) DO UPDATE SET",
+					"rating=excluded.rating, rating_deviation=excluded.rating_deviation,",
+					"volatility=excluded.volatility, wins=excluded.wins, losses=excluded.losses,",
+					"draws=excluded.draws, games_played=excluded.games_played,",
+					"last_rated_at=excluded.last_rated_at, updated_at=datetime('now')",
+				].join(" "),
+			)
+			.bind(
+				agentId,
+				tally.rating,
+				tally.deviation,
+				tally.volatility,
+				tally.wins,
+				tally.losses,
+				tally.draws,
+				tally.gamesPlayed,
+				tally.lastRatedAtMs === null
+					? null
+					: toSqliteTimestamp(tally.lastRatedAtMs),
+			),
+	);
+	const statements = [...historyStatements, ...leaderboardStatements];
+	for (let i = 0; i < statements.length; i += BACKFILL_BATCH_SIZE) {
+		await db.batch(statements.slice(i, i + BACKFILL_BATCH_SIZE));
+	}
+
+	return { gamesReplayed, agentsUpdated: tallies.size };
+};
@@ -0,0 +1,131 @@
+import {
+	ELO_START,
+	SEASON_RATING_CARRYOVER,
+	SEASON_RESET_DEVIATION,
+} from "../constants/rating";
+
+export type Season = {
+	id: number;
+	name: string | null;
+	startedAt: string;
+	endedAt: string | null;
+};
+
+type SeasonRow = {
+	id: number;
+	name: string | null;
+	started_at: string;
+	ended_at: string | null;
+};
+
+const SEASON_COLUMNS_SQL = "id, name, started_at, ended_at";
+
+const toSeason = (row: SeasonRow): Season => ({
+	id: row.id,
+	name: row.name,
+	startedAt: row.started_at,
+	endedAt: row.ended_at,
+});
+
+export const listSeasons = async (db: D1Database): Promise<Season[]> => {
+	const { results } = await db
+		.prepare(`SELECT ${SEASON_COLUMNS_SQL} FROM seasons ORDER BY id DESC`)
+		.all<SeasonRow>();
+	return (results ?? []).map(toSeason);
+};
+
+export const getSeason = async (
+	db: D1Database,
+	seasonId: number,
+): Promise<Season | null> => {
+	const row = await db
+		.prepare(`SELECT ${SEASON_COLUMNS_SQL} FROM seasons WHERE id = ?`)
+		.bind(seasonId)
+		.first<SeasonRow>();
+	return row ? toSeason(row) : null;
+};
+
+/** The open season, opening the next one if none is open. */
+export const getCurrentSeason = async (db: D1Database): Promise<Season> => {
+	const select = db.prepare(
+		`SELECT ${SEASON_COLUMNS_SQL} FROM seasons WHERE ended_at IS NULL ORDER BY id DESC LIMIT 1`,
+	);
+	const row = await select.first<SeasonRow>();
+	if (row) return toSeason(row);
+
+	await db
+		.prepare(
+			[
+				"INSERT OR IGNORE INTO seasons (id, name)",
+				"SELECT COALESCE(MAX(id), 0) + 1, 'Season ' || (COALESCE(MAX(id), 0) + 1)",
+				"FROM seasons",
+			].join(" "),
+		)
+		.run();
+	const created = await select.first<SeasonRow>();
+	if (!created) throw new Error("No open season.");
+	return toSeason(created);
+};
+
+/**
+ * Freezes the current leaderboard into season_standings, soft-resets every
+ * rating (see seasonSoftReset) and opens the next season. Runs as one
+ * batch, so a concurrent close fails on the standings key instead of
+ * archiving twice.
+ */
+export const closeSeason = async (
+	db: D1Database,
+	nextName: string | null = null,
+) => {
+	const current = await getCurrentSeason(db);
+	const nextId = current.id + 1;
+
+	await db.batch([
+		db
+			.prepare(
+				[
+					"INSERT INTO season_standings (season_id, agent_id, rank, rating, rating_deviation,",
+					"wins, losses, draws, games_played)",
+					"SELECT ?, agent_id, ROW_NUMBER() OVER (ORDER BY rating DESC, agent_id ASC),",
+					"rating, rating_deviation, wins, losses, draws, games_played",
+					"FROM leaderboard WHERE games_played > 0",
+				].join(" "),
+			)
+			.bind(current.id),
+		db
+			.prepare(
+				"UPDATE seasons SET ended_at = datetime('now') WHERE id = ? AND ended_at IS NULL",
+			)
+			.bind(current.id),
+		db
+			.prepare(
+				[
+					"UPDATE leaderboard",
+					"SET rating = ? + (rating - ?) * ?, rating_deviation = MAX(rating_deviation, ?),",
+					"wins = 0, losses = 0, draws = 0, games_played = 0, updated_at = datetime('now')",
+				].join(" "),
+			)
+			.bind(
+				ELO_START,
+				ELO_START,
+				SEASON_RATING_CARRYOVER,
+				SEASON_RESET_DEVIATION,
+			),
+		db
+			.prepare("INSERT INTO seasons (id, name) VALUES (?, ?)")
+			.bind(nextId, nextName ?? `Season ${nextId}`),
+	]);
+
+	const standings = await db
+		.prepare(
+			"SELECT COUNT(*) AS count FROM season_standings WHERE season_id = ?",
+		)
+		.bind(current.id)
+		.first<{ count: number }>();
+
+	return {
+		closed: await getSeason(db, current.id),
+		standings: standings?.count ?? 0,
+		current: await getSeason(db, nextId),
+	};
+};
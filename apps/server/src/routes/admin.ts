@@ -1,9 +1,22 @@
 import { Hono } from "hono";
+import { z } from "zod";
 import type { AppBindings, AppVariables } from "../appTypes";
+import { HOUSE_STRATEGIES } from "../constants/house";
+import { tournamentCreateSchema } from "../contracts/tournaments";
+import { createHouseAgent, listHouseAgents } from "../house/agents";
 import { requireAdminKey } from "../middleware/auth";
-import { notFound } from "../utils/httpErrors";
-import { success } from "../utils/httpSuccess";
+import { backfillRatings } from "../ratings/leaderboard";
+import { closeSeason } from "../ratings/seasons";
+import { doFetchWithRetry } from "../utils/durable";
+import {
+	badRequest,
+	conflict,
+	internalServerError,
+	notFound,
+} from "../utils/httpErrors";
+import { created, success } from "../utils/httpSuccess";
 import { parseUuidParam } from "../utils/params";
+import { adaptDoErrorEnvelope } from "../utils/responseAdapters";
 
 export const adminRoutes = new Hono<{
 	Bindings: AppBindings;
@@ -44,3 +57,134 @@ adminRoutes.post("/agents/:id/disable", requireAdminKey, async (c) => {
 		disabledAt: disabled?.disabled_at ?? null,
 	});
 });
+
+// Replays every ranked result through Glicko-2. Safe to repeat: each run
+// recomputes from match_results rather than adjusting current values.
+adminRoutes.post("/ratings/backfill", requireAdminKey, async (c) => {
+	const summary = await backfillRatings(c.env.DB);
+	return success(c, summary);
+});
+
+const closeSeasonSchema = z
+	.object({
+		// Display name for the season being opened.
+		name: z.string().trim().min(1).max(64).optional(),
+	})
+	.strict();
+
+// Archives final standings, soft-resets ratings and opens the next season.
+adminRoutes.post("/seasons/close", requireAdminKey, async (c) => {
+	const raw = await c.req.text();
+	let body: unknown = {};
+	if (raw.trim().length > 0) {
+		try {
+			body = JSON.parse(raw);
+		} catch {
+			return badRequest(c, "Invalid JSON body.");
+		}
+	}
+	const parsed = closeSeasonSchema.safeParse(body);
+	if (!parsed.success) {
+		return badRequest(c, "name must be a string of 1-64 characters.");
+	}
+
+	try {
+		const summary = await closeSeason(c.env.DB, parsed.data.name ?? null);
+		return success(c, summary);
+	} catch (error) {
+		console.error("Failed to close season", error);
+		return internalServerError(c, "Season close failed");
+	}
+});
+
+const houseAgentSchema = z
+	.object({
+		name: z
+			.string()
+			.trim()
+			.regex(/^[A-Za-z0-9_-]{1,64}$/),
+		strategy: z.enum(HOUSE_STRATEGIES),
+	})
+	.strict();
+
+// House agents take queued agents nobody else has matched; disable one with
+// POST /agents/:id/disable.
+adminRoutes.post("/house-agents", requireAdminKey, async (c) => {
+	const body: unknown = await c.req.json().catch(() => null);
+	const parsed = houseAgentSchema.safeParse(body);
+	if (!parsed.success) {
+		return badRequest(
+			c,
+			`name must be 1-64 characters (letters, numbers, _ or -) and strategy one of ${HOUSE_STRATEGIES.join(", ")}.`,
+		);
+	}
+
+	const existing = await c.env.DB.prepare(
+		"SELECT 1 as ok FROM agents WHERE name = ? LIMIT 1",
+	)
+		.bind(parsed.data.name)
+		.first<{ ok: number }>();
+	if (existing?.ok) {
+		return conflict(c, "Agent name already in use.");
+	}
+
+	const agent = await createHouseAgent(
+		c.env.DB,
+		parsed.data.name,
+		parsed.data.strategy,
+	);
+	return created(c, { agent });
+});
+
+adminRoutes.get("/house-agents", requireAdminKey, async (c) => {
+	const agents = await listHouseAgents(c.env.DB, { includeDisabled: true });
+	return success(c, { agents });
+});
+
+const getTournamentStub = (env: AppBindings, tournamentId: string) =>
+	env.TOURNAMENT.get(env.TOURNAMENT.idFromName(tournamentId));
+
+const forwardTournament = async (
+	env: AppBindings,
+	tournamentId: string,
+	path: string,
+	body: unknown,
+) => {
+	const response = await doFetchWithRetry(
+		getTournamentStub(env, tournamentId),
+		`https://do${path}`,
+		{
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify(body),
+		},
+	);
+	return adaptDoErrorEnvelope(response);
+};
+
+adminRoutes.post("/tournaments", requireAdminKey, async (c) => {
+	const body: unknown = await c.req.json().catch(() => null);
+	const parsed = tournamentCreateSchema.safeParse(body);
+	if (!parsed.success) {
+		return badRequest(
+			c,
+			parsed.error.issues[0]?.message ?? "Invalid tournament payload.",
+		);
+	}
+	const id = crypto.randomUUID();
+	return forwardTournament(c.env, id, "/init", { ...parsed.data, id });
+});
+
+adminRoutes.post("/tournaments/:id/entrants", requireAdminKey, async (c) => {
+	const idResult = parseUuidParam(c, "id", "Tournament id");
+	if (!idResult.ok) return idResult.response;
+	const body: unknown = await c.req.json().catch(() => null);
+	if (body === null) return badRequest(c, "Invalid JSON body.");
+	return forwardTournament(c.env, idResult.value, "/entrants", body);
+});
+
+adminRoutes.post("/tournaments/:id/start", requireAdminKey, async (c) => {
+	const idResult = parseUuidParam(c, "id", "Tournament id");
+	if (!idResult.ok) return idResult.response;
+	return forwardTournament(c.env, idResult.value, "/start", {});
+});
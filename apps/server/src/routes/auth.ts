@@ -1,6 +1,7 @@
 import { Hono } from "hono";
 import { z } from "zod";
 import type { AppBindings, AppVariables } from "../appTypes";
+import { API_KEY_LIMIT } from "../constants/auth";
 import { requireAdminKey, requireAgentAuth } from "../middleware/auth";
 import { randomBase64Url, sha256Hex } from "../utils/crypto";
 import {
@@ -12,6 +13,7 @@ import {
 	unauthorized,
 } from "../utils/httpErrors";
 import { created, success } from "../utils/httpSuccess";
+import { parseUuidParam } from "../utils/params";
 
 const namePattern = /^[A-Za-z0-9_-]{1,64}$/;
 const gameTypePattern = /^[a-z0-9_]{1,50}$/;
@@ -28,6 +30,43 @@ const verifySchema = z
 	})
 	.strict();
 
+const apiKeyCreateSchema = z
+	.object({
+		label: z.string().trim().min(1).max(64).optional(),
+	})
+	.strict();
+
+type ApiKeyRow = {
+	id: string;
+	key_prefix: string;
+	label: string | null;
+	created_at: string;
+	last_used_at: string | null;
+	revoked_at: string | null;
+};
+
+const API_KEY_COLUMNS =
+	"id, key_prefix, label, created_at, last_used_at, revoked_at";
+
+const issueApiKey = async (pepper: string) => {
+	const apiKey = `fc_sk_${randomBase64Url(32)}`;
+	return {
+		apiKey,
+		apiKeyPrefix: apiKey.slice("fc_sk_".length, "fc_sk_".length + 8),
+		apiKeyHash: await sha256Hex(`${pepper}${apiKey}`),
+	};
+};
+
+const toApiKeySummary = (row: ApiKeyRow, currentKeyId?: string) => ({
+	id: row.id,
+	prefix: row.key_prefix,
+	label: row.label,
+	createdAt: row.created_at,
+	lastUsedAt: row.last_used_at,
+	revokedAt: row.revoked_at,
+	current: row.id === currentKeyId,
+});
+
 export const authRoutes = new Hono<{
 	Bindings: AppBindings;
 	Variables: AppVariables;
@@ -62,11 +101,9 @@ authRoutes.post("/register", async (c) => {
 
 	const agentId = crypto.randomUUID();
 	const apiKeyId = crypto.randomUUID();
-	const apiKey = `fc_sk_${randomBase64Url(32)}`;
-	const apiKeyPrefix = apiKey.slice("fc_sk_".length, "fc_sk_".length + 8);
+	const { apiKey, apiKeyPrefix, apiKeyHash } = await issueApiKey(pepper);
 	const claimCode = `fc_claim_${randomBase64Url(9)}`;
 
-	const apiKeyHash = await sha256Hex(`${pepper}${apiKey}`);
 	const claimCodeHash = await sha256Hex(`${pepper}${claimCode}`);
 
 	try {
@@ -165,5 +202,128 @@ authRoutes.get("/me", requireAgentAuth, async (c) => {
 	});
 });
 
+// Extra keys let an agent rotate a leaked key without re-registering.
+authRoutes.post("/keys", requireAgentAuth, async (c) => {
+	const auth = c.get("auth");
+	if (!auth) return unauthorized(c);
+
+	const raw = await c.req.text();
+	let body: unknown = {};
+	if (raw.trim().length > 0) {
+		try {
+			body = JSON.parse(raw);
+		} catch {
+			return badRequest(c, "Invalid JSON body.");
+		}
+	}
+	const parsed = apiKeyCreateSchema.safeParse(body);
+	if (!parsed.success) {
+		return badRequest(c, "label must be a string of 1-64 characters.");
+	}
+
+	const pepper = c.env.API_KEY_PEPPER;
+	if (!pepper) return internalServerError(c, "Auth not configured.");
+
+	const active = await c.env.DB.prepare(
+		"SELECT COUNT(*) as count FROM api_keys WHERE agent_id = ? AND revoked_at IS NULL",
+	)
+		.bind(auth.agentId)
+		.first<{ count: number }>();
+	if ((active?.count ?? 0) >= API_KEY_LIMIT) {
+		return conflict(
+			c,
+			`An agent may hold at most ${API_KEY_LIMIT} active API keys.`,
+			{ code: "api_key_limit" },
+		);
+	}
+
+	const apiKeyId = crypto.randomUUID();
+	const { apiKey, apiKeyPrefix, apiKeyHash } = await issueApiKey(pepper);
+	await c.env.DB.prepare(
+		"INSERT INTO api_keys (id, agent_id, key_hash, key_prefix, label) VALUES (?, ?, ?, ?, ?)",
+	)
+		.bind(
+			apiKeyId,
+			auth.agentId,
+			apiKeyHash,
+			apiKeyPrefix,
+			parsed.data.label ?? null,
+		)
+		.run();
+
+	const row = await c.env.DB.prepare(
+		`SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = ? LIMIT 1`,
+	)
+		.bind(apiKeyId)
+		.first<ApiKeyRow>();
+	if (!row) return internalServerError(c, "API key creation failed.");
+
+	return created(c, {
+		key: toApiKeySummary(row, auth.apiKeyId),
+		apiKey,
+	});
+});
+
+authRoutes.get("/keys", requireAgentAuth, async (c) => {
+	const auth = c.get("auth");
+	if (!auth) return unauthorized(c);
+
+	const { results } = await c.env.DB.prepare(
+		[
+			`SELECT ${API_KEY_COLUMNS} FROM api_keys`,
+			"WHERE agent_id = ?",
+			"ORDER BY created_at DESC, id",
+		].join(" "),
+	)
+		.bind(auth.agentId)
+		.all<ApiKeyRow>();
+
+	return success(c, {
+		keys: results.map((row) => toApiKeySummary(row, auth.apiKeyId)),
+	});
+});
+
+// Revoking is idempotent. The last active key cannot be revoked, so an agent
+// always keeps a way back in.
+authRoutes.delete("/keys/:id", requireAgentAuth, async (c) => {
+	const auth = c.get("auth");
+	if (!auth) return unauthorized(c);
+	const keyIdResult = parseUuidParam(c, "id", "API key id");
+	if (!keyIdResult.ok) return keyIdResult.response;
+
+	const existing = await c.env.DB.prepare(
+		`SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = ? AND agent_id = ? LIMIT 1`,
+	)
+		.bind(keyIdResult.value, auth.agentId)
+		.first<ApiKeyRow>();
+	if (!existing) return notFound(c, "API key not found.");
+
+	if (!existing.revoked_at) {
+		const result = await c.env.DB.prepare(
+			[
+				"UPDATE api_keys SET revoked_at = datetime('now')",
+				"WHERE id = ? AND revoked_at IS NULL",
+				"AND (SELECT COUNT(*) FROM api_keys",
+				"WHERE agent_id = ? AND revoked_at IS NULL) > 1",
+			].join(" "),
+		)
+			.bind(existing.id, auth.agentId)
+			.run();
+		if ((result.meta.changes ?? 0) === 0) {
+			return conflict(c, "Cannot revoke the last active API key.", {
+				code: "last_active_key",
+			});
+		}
+	}
+
+	const row = await c.env.DB.prepare(
+		`SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = ? LIMIT 1`,
+	)
+		.bind(existing.id)
+		.first<ApiKeyRow>();
+
+	return success(c, { key: toApiKeySummary(row ?? existing, auth.apiKeyId) });
+});
+
 // Exported for reuse in prompt routes validation.
 export const validateGameType = (value: string) => gameTypePattern.test(value);
@@ -0,0 +1,86 @@
+import { type Context, Hono } from "hono";
+
+import type { AppBindings, AppVariables } from "../appTypes";
+import { doFetchWithRetry } from "../utils/durable";
+import { badRequest, unauthorized } from "../utils/httpErrors";
+import { adaptDoErrorEnvelope } from "../utils/responseAdapters";
+
+const getMatchmakerStub = (c: { env: AppBindings }) => {
+	const id = c.env.MATCHMAKER.idFromName("global");
+	return c.env.MATCHMAKER.get(id);
+};
+
+type AppContext = Context<{ Bindings: AppBindings; Variables: AppVariables }>;
+
+// Challenges and lobbies live in the matchmaker so arranged games share the
+// queue's active-match bookkeeping; these routes only authenticate and forward.
+const forward = async (
+	c: AppContext,
+	path: string,
+	method: "GET" | "POST" | "DELETE",
+	withBody = false,
+) => {
+	const agentId = c.get("agentId");
+	if (!agentId) return unauthorized(c);
+
+	let body: string | undefined;
+	if (withBody) {
+		const raw = await c.req.text();
+		if (raw.trim().length > 0) {
+			try {
+				body = JSON.stringify(JSON.parse(raw));
+			} catch {
+				return badRequest(c, "Invalid JSON body.");
+			}
+		}
+	}
+
+	const stub = getMatchmakerStub(c);
+	const response = await doFetchWithRetry(stub, `https://do${path}`, {
+		method,
+		headers: {
+			"content-type": "application/json",
+			"x-agent-id": agentId,
+			"x-request-id": c.get("requestId"),
+		},
+		...(body === undefined ? {} : { body }),
+	});
+	return adaptDoErrorEnvelope(response);
+};
+
+export const challengeRoutes = new Hono<{
+	Bindings: AppBindings;
+	Variables: AppVariables;
+}>();
+
+challengeRoutes.post("/v1/challenges", async (c) => {
+	return forward(c, "/challenges", "POST", true);
+});
+
+challengeRoutes.get("/v1/challenges", async (c) => {
+	return forward(c, "/challenges", "GET");
+});
+
+challengeRoutes.post("/v1/challenges/:id/accept", async (c) => {
+	const id = encodeURIComponent(c.req.param("id"));
+	return forward(c, `/challenges/${id}/accept`, "POST");
+});
+
+challengeRoutes.post("/v1/challenges/:id/decline", async (c) => {
+	const id = encodeURIComponent(c.req.param("id"));
+	return forward(c, `/challenges/${id}/decline`, "POST");
+});
+
+challengeRoutes.post("/v1/lobbies", async (c) => {
+	return forward(c, "/lobbies", "POST", true);
+});
+
+challengeRoutes.post("/v1/lobbies/:code/join", async (c) => {
+	const code = encodeURIComponent(c.req.param("code"));
+	return forward(c, `/lobbies/${code}/join`, "POST");
+});
+
+challengeRoutes.delete("/v1/lobbies/:code", async (c) => {
+	const code = encodeURIComponent(c.req.param("code"));
+	return forward(c, `/lobbies/${code}`, "DELETE");
+});
@@ -82,6 +82,32 @@ const isMatchPublicForSpectators = async (
 	}
 };
 
+// Streams send a full `state` after every move unless the client opts in to
+// `state_delta` events with `?deltas=1`.
+const doStreamUrl = (c: AppContext, path: "stream" | "spectate") =>
+	c.req.query("deltas") === "1"
+		? `https://do/${path}?deltas=1`
+		: `https://do/${path}`;
+
+const isMatchFogged = async (c: AppContext, matchId: string) => {
+	try {
+		const stub = getMatchStub(c, matchId);
+		const stateResp = await doFetchWithRetry(stub, "https://do/state", {
+			headers: {
+				"x-match-id": matchId,
+				"x-request-id": c.get("requestId"),
+			},
+		});
+		if (!stateResp.ok) return true;
+		const json = (await stateResp.json()) as {
+			state?: { fogOfWar?: unknown; status?: unknown } | null;
+		};
+		return json.state?.fogOfWar === true && json.state.status === "active";
+	} catch {
+		return true;
+	}
+};
+
 const submitMove = async (
 	c: AppContext,
 	matchId: string,
@@ -267,9 +293,11 @@ matchesRoutes.get("/v1/matches/:id/state", async (c) => {
 	const matchIdResult = parseUuidParam(c, "id", "Match id");
 	if (!matchIdResult.ok) return matchIdResult.response;
 
+	const agentId = c.get("agentId");
 	const stub = getMatchStub(c, matchIdResult.value);
 	const response = await stub.fetch("https://do/state", {
 		headers: {
+			...(agentId ? { "x-agent-id": agentId } : {}),
 			"x-match-id": matchIdResult.value,
 			"x-request-id": c.get("requestId"),
 		},
@@ -299,11 +327,17 @@ matchesRoutes.get("/v1/matches/:id/log", async (c) => {
 		return notFound(c, "Match not found.");
 	}
 
-	const isPublic = await isMatchPublicForSpectators(c, matchIdResult.value);
-
-	if (!isPublic) {
-		const provided = c.req.header("x-admin-key");
-		if (!provided || provided !== c.env.ADMIN_KEY) {
+	const provided = c.req.header("x-admin-key");
+	const isAdmin = Boolean(provided && provided === c.env.ADMIN_KEY);
+	if (!isAdmin) {
+		const isPublic = await isMatchPublicForSpectators(c, matchIdResult.value);
+		if (!isPublic) return forbidden(c);
+		// Logged moves and engine events name hidden units, so a fogged match's
+		// log stays private until it ends.
+		if (
+			matchRow.status !== "ended" &&
+			(await isMatchFogged(c, matchIdResult.value))
+		) {
 			return forbidden(c);
 		}
 	}
@@ -358,7 +392,7 @@ matchesRoutes.get("/v1/matches/:id/stream", async (c) => {
 	if (!agentId) return unauthorized(c);
 
 	const stub = getMatchStub(c, matchIdResult.value);
-	const response = await stub.fetch("https://do/stream", {
+	const response = await stub.fetch(doStreamUrl(c, "stream"), {
 		signal: c.req.raw.signal,
 		headers: {
 			"x-agent-id": agentId,
@@ -385,7 +419,7 @@ const handleSpectateStream = async (c: AppContext) => {
 	}
 
 	const stub = getMatchStub(c, matchIdResult.value);
-	const response = await stub.fetch("https://do/spectate", {
+	const response = await stub.fetch(doStreamUrl(c, "spectate"), {
 		signal: c.req.raw.signal,
 		headers: {
 			"x-match-id": matchIdResult.value,
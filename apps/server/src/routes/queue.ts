@@ -1,6 +1,11 @@
 import { type Context, Hono } from "hono";
 
 import type { AppBindings, AppVariables } from "../appTypes";
+import {
+	DEFAULT_MATCH_MODE,
+	isMatchMode,
+	type MatchMode,
+} from "../constants/matchModes";
 import { doFetchWithRetry } from "../utils/durable";
 import { unauthorized } from "../utils/httpErrors";
 import { adaptDoErrorEnvelope } from "../utils/responseAdapters";
@@ -17,18 +22,19 @@ const queueJoin = async (c: AppContext) => {
 	const agentId = c.get("agentId");
 	if (!agentId) return unauthorized(c);
 
-	const mode = "ranked" as const;
+	let mode: MatchMode = DEFAULT_MATCH_MODE;
 	try {
 		const contentType = c.req.header("content-type") ?? "";
 		if (contentType.includes("application/json")) {
 			const body = (await c.req.json()) as unknown;
-			if (isRecord(body) && typeof body.mode === "string") {
-				if (body.mode !== "ranked") {
+			if (isRecord(body) && body.mode !== undefined) {
+				if (!isMatchMode(body.mode)) {
 					return c.json(
-						{ ok: false, error: "Only ranked mode is supported." },
+						{ ok: false, error: "mode must be ranked or casual." },
 						400,
 					);
 				}
+				mode = body.mode;
 			}
 		}
 	} catch {
@@ -7,7 +7,10 @@ import {
 import { Hono } from "hono";
 
 import type { AppBindings, AppVariables } from "../appTypes";
-import { internalServerError } from "../utils/httpErrors";
+import { applyInactivityDecay, initialRating } from "../ratings/glicko2";
+import { parseSqliteTimestamp, toRatingChange } from "../ratings/leaderboard";
+import { getCurrentSeason, getSeason, listSeasons } from "../ratings/seasons";
+import { badRequest, internalServerError, notFound } from "../utils/httpErrors";
 
 export const systemRoutes = new Hono<{
 	Bindings: AppBindings;
@@ -27,19 +30,53 @@ systemRoutes.get("/v1/leaderboard", async (c) => {
 	const parsed = limitRaw ? Number.parseInt(limitRaw, 10) : 100;
 	const limit =
 		Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, 200) : 100;
+	const seasonRaw = c.req.query("season");
+	const seasonId = seasonRaw ? Number(seasonRaw) : null;
+	if (seasonId !== null && !(Number.isInteger(seasonId) && seasonId > 0)) {
+		return badRequest(c, "season must be a positive integer.");
+	}
 	try {
+		const current = await getCurrentSeason(c.env.DB);
+		if (seasonId === null || seasonId === current.id) {
+			const { results } = await c.env.DB.prepare(
+				[
+					"SELECT agent_id, ROUND(rating) AS rating, ROUND(rating_deviation) AS rating_deviation,",
+					"wins, losses, draws, games_played, updated_at",
+					"FROM leaderboard ORDER BY rating DESC LIMIT ?",
+				].join(" "),
+			)
+				.bind(limit)
+				.all();
+			return c.json({ season: current, leaderboard: results ?? [] });
+		}
+
+		const season = await getSeason(c.env.DB, seasonId);
+		if (!season) return notFound(c, "Season not found.");
 		const { results } = await c.env.DB.prepare(
-			"SELECT agent_id, rating, wins, losses, games_played, updated_at FROM leaderboard ORDER BY rating DESC LIMIT ?",
+			[
+				"SELECT agent_id, rank, ROUND(rating) AS rating, ROUND(rating_deviation) AS rating_deviation,",
+				"wins, losses, draws, games_played",
+				"FROM season_standings WHERE season_id = ? ORDER BY rank ASC LIMIT ?",
+			].join(" "),
 		)
-			.bind(limit)
+			.bind(seasonId, limit)
 			.all();
-		return c.json({ leaderboard: results ?? [] });
+		return c.json({ season, leaderboard: results ?? [] });
 	} catch (error) {
 		console.error("Failed to load leaderboard", error);
 		return internalServerError(c, "Leaderboard unavailable");
 	}
 });
 
+systemRoutes.get("/v1/seasons", async (c) => {
+	try {
+		return c.json({ seasons: await listSeasons(c.env.DB) });
+	} catch (error) {
+		console.error("Failed to load seasons", error);
+		return internalServerError(c, "Seasons unavailable");
+	}
+});
+
 systemRoutes.get("/v1/system/version", (c) => {
 	const metadata = c.env.CF_VERSION_METADATA;
 	const record =
@@ -76,7 +113,8 @@ systemRoutes.get("/v1/agents/:id", async (c) => {
 		const agent = await c.env.DB.prepare(
 			[
 				"SELECT a.id, a.name, a.created_at, a.verified_at,",
-				"l.rating, l.wins, l.losses, l.games_played, l.updated_at",
+				"l.rating, l.rating_deviation, l.volatility, l.last_rated_at,",
+				"l.wins, l.losses, l.draws, l.games_played, l.updated_at",
 				"FROM agents a",
 				"LEFT JOIN leaderboard l ON l.agent_id = a.id",
 				"WHERE a.id = ?",
@@ -90,8 +128,12 @@ systemRoutes.get("/v1/agents/:id", async (c) => {
 				created_at: string;
 				verified_at: string | null;
 				rating: number | null;
+				rating_deviation: number | null;
+				volatility: number | null;
+				last_rated_at: string | null;
 				wins: number | null;
 				losses: number | null;
+				draws: number | null;
 				games_played: number | null;
 				updated_at: string | null;
 			}>();
@@ -99,7 +141,7 @@ systemRoutes.get("/v1/agents/:id", async (c) => {
 
 		const { results: recent } = await c.env.DB.prepare(
 			[
-				"SELECT m.id, m.status, m.created_at, m.ended_at, m.winner_agent_id, m.end_reason, m.final_state_version",
+				"SELECT m.id, m.status, m.created_at, m.ended_at, m.winner_agent_id, m.end_reason, m.final_state_version, m.mode",
 				"FROM matches m",
 				"LEFT JOIN match_players mp ON mp.match_id = m.id",
 				"WHERE mp.agent_id = ?",
@@ -118,6 +160,7 @@ systemRoutes.get("/v1/agents/:id", async (c) => {
 				winner_agent_id?: unknown;
 				end_reason?: unknown;
 				final_state_version?: unknown;
+				mode?: unknown;
 			};
 			return {
 				id: match.id,
@@ -127,9 +170,21 @@ systemRoutes.get("/v1/agents/:id", async (c) => {
 				winnerAgentId: match.winner_agent_id,
 				endReason: match.end_reason,
 				finalStateVersion: match.final_state_version,
+				mode: match.mode,
 			};
 		});
 
+		const start = initialRating();
+		const current = applyInactivityDecay(
+			{
+				rating: agent.rating ?? start.rating,
+				deviation: agent.rating_deviation ?? start.deviation,
+				volatility: agent.volatility ?? start.volatility,
+			},
+			parseSqliteTimestamp(agent.last_rated_at),
+			Date.now(),
+		);
+
 		return c.json({
 			agent: {
 				id: agent.id,
@@ -138,10 +193,15 @@ systemRoutes.get("/v1/agents/:id", async (c) => {
 				verifiedAt: agent.verified_at,
 			},
 			rating: {
-				elo: agent.rating ?? 1500,
+				elo: Math.round(current.rating),
+				// Deviation includes inactivity decay up to now.
+				deviation: Math.round(current.deviation),
+				volatility: current.volatility,
 				wins: agent.wins ?? 0,
 				losses: agent.losses ?? 0,
+				draws: agent.draws ?? 0,
 				gamesPlayed: agent.games_played ?? 0,
+				lastRatedAt: agent.last_rated_at,
 				updatedAt: agent.updated_at,
 			},
 			recentMatches,
@@ -151,3 +211,64 @@ systemRoutes.get("/v1/agents/:id", async (c) => {
 		return internalServerError(c, "Agent profile unavailable");
 	}
 });
+
+systemRoutes.get("/v1/agents/:id/ratings", async (c) => {
+	const agentId = c.req.param("id");
+	const limitRaw = c.req.query("limit");
+	const parsed = limitRaw ? Number.parseInt(limitRaw, 10) : 100;
+	const limit =
+		Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, 500) : 100;
+
+	try {
+		const agent = await c.env.DB.prepare(
+			"SELECT id FROM agents WHERE id = ? LIMIT 1",
+		)
+			.bind(agentId)
+			.first<{ id: string }>();
+		if (!agent) return c.json({ ok: false, error: "Agent not found." }, 404);
+
+		// Latest `limit` rated games, returned oldest first as a time series.
+		const { results } = await c.env.DB.prepare(
+			[
+				"SELECT match_id, opponent_agent_id, score, rating_before, rating_after,",
+				"deviation_after, created_at",
+				"FROM rating_history WHERE agent_id = ?",
+				"ORDER BY created_at DESC, match_id DESC",
+				"LIMIT ?",
+			].join(" "),
+		)
+			.bind(agentId, limit)
+			.all<{
+				match_id: string;
+				opponent_agent_id: string;
+				score: number;
+				rating_before: number;
+				rating_after: number;
+				deviation_after: number;
+				created_at: string;
+			}>();
+
+		const history = (results ?? []).reverse().map((row) => {
+			const change = toRatingChange(
+				agentId,
+				{ rating: row.rating_before },
+				{ rating: row.rating_after, deviation: row.deviation_after },
+			);
+			return {
+				matchId: row.match_id,
+				opponentAgentId: row.opponent_agent_id,
+				result: row.score === 1 ? "win" : row.score === 0 ? "loss" : "draw",
+				ratingBefore: change.ratingBefore,
+				ratingAfter: change.ratingAfter,
+				delta: change.delta,
+				deviationAfter: change.deviationAfter,
+				ratedAt: row.created_at,
+			};
+		});
+
+		return c.json({ agentId, history });
+	} catch (error) {
+		console.error("Failed to load rating history", error);
+		return internalServerError(c, "Rating history unavailable");
+	}
+});
@@ -0,0 +1,95 @@
+import { Hono } from "hono";
+
+import type { AppBindings, AppVariables } from "../appTypes";
+import { doFetchWithRetry } from "../utils/durable";
+import { badRequest, internalServerError } from "../utils/httpErrors";
+import { parseUuidParam } from "../utils/params";
+import { adaptDoErrorEnvelope } from "../utils/responseAdapters";
+
+const TOURNAMENT_STATUSES = ["registration", "running", "completed"];
+const TOURNAMENT_LIST_LIMIT = 50;
+
+export const tournamentRoutes = new Hono<{
+	Bindings: AppBindings;
+	Variables: AppVariables;
+}>();
+
+const getTournamentStub = (env: AppBindings, tournamentId: string) =>
+	env.TOURNAMENT.get(env.TOURNAMENT.idFromName(tournamentId));
+
+tournamentRoutes.get("/v1/tournaments", async (c) => {
+	const status = c.req.query("status");
+	if (status !== undefined && !TOURNAMENT_STATUSES.includes(status)) {
+		return badRequest(
+			c,
+			`status must be one of ${TOURNAMENT_STATUSES.join(", ")}.`,
+		);
+	}
+
+	try {
+		const where = status ? "WHERE t.status = ?" : "";
+		const { results } = await c.env.DB.prepare(
+			[
+				"SELECT t.id, t.name, t.format, t.mode, t.status, t.planned_rounds,",
+				"t.current_round, t.created_at, t.started_at, t.ended_at,",
+				"(SELECT COUNT(*) FROM tournament_entrants e WHERE e.tournament_id = t.id) AS entrants",
+				"FROM tournaments t",
+				where,
+				"ORDER BY t.created_at DESC LIMIT ?",
+			].join(" "),
+		)
+			.bind(...(status ? [status] : []), TOURNAMENT_LIST_LIMIT)
+			.all<{
+				id: string;
+				name: string;
+				format: string;
+				mode: string;
+				status: string;
+				planned_rounds: number;
+				current_round: number;
+				created_at: string;
+				started_at: string | null;
+				ended_at: string | null;
+				entrants: number;
+			}>();
+		return c.json({
+			tournaments: (results ?? []).map((row) => ({
+				id: row.id,
+				name: row.name,
+				format: row.format,
+				mode: row.mode,
+				status: row.status,
+				plannedRounds: row.planned_rounds,
+				currentRound: row.current_round,
+				entrants: row.entrants,
+				createdAt: row.created_at,
+				startedAt: row.started_at,
+				endedAt: row.ended_at,
+			})),
+		});
+	} catch (error) {
+		console.error("Failed to list tournaments", error);
+		return internalServerError(c, "Tournaments unavailable");
+	}
+});
+
+// The DO is authoritative for brackets; D1 only backs the listing above.
+tournamentRoutes.get("/v1/tournaments/:id", async (c) => {
+	const idResult = parseUuidParam(c, "id", "Tournament id");
+	if (!idResult.ok) return idResult.response;
+	const response = await doFetchWithRetry(
+		getTournamentStub(c.env, idResult.value),
+		"https://do/",
+	);
+	return adaptDoErrorEnvelope(response);
+});
+
+tournamentRoutes.get("/v1/tournaments/:id/standings", async (c) => {
+	const idResult = parseUuidParam(c, "id", "Tournament id");
+	if (!idResult.ok) return idResult.response;
+	const response = await doFetchWithRetry(
+		getTournamentStub(c.env, idResult.value),
+		"https://do/standings",
+	);
+	return adaptDoErrorEnvelope(response);
+});
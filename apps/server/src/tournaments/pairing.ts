@@ -0,0 +1,351 @@
+import type { TournamentFormat } from "../constants/tournaments";
+
+export type PairingStatus = "pending" | "active" | "ended" | "bye";
+
+export type Pairing = {
+	round: number;
+	table: number;
+	agentA: string;
+	// null is a bye for agentA.
+	agentB: string | null;
+	matchId: string | null;
+	status: PairingStatus;
+	// null on an ended pairing is a draw.
+	winnerAgentId: string | null;
+};
+
+export type Standing = {
+	rank: number;
+	agentId: string;
+	seed: number;
+	points: number;
+	wins: number;
+	draws: number;
+	losses: number;
+	byes: number;
+	buchholz: number;
+	headToHead: number;
+	eliminated: boolean;
+};
+
+type Tally = Omit<Standing, "rank" | "headToHead"> & { opponents: string[] };
+
+const SWISS_SEARCH_BUDGET = 20_000;
+
+const isDecided = (pairing: Pairing) =>
+	pairing.status === "ended" || pairing.status === "bye";
+
+/** Points `agentId` earned from a decided pairing: 1 win or bye, 0.5 draw. */
+const pointsFor = (pairing: Pairing, agentId: string) => {
+	if (pairing.status === "bye") return 1;
+	if (pairing.winnerAgentId === null) return 0.5;
+	return pairing.winnerAgentId === agentId ? 1 : 0;
+};
+
+const nextPowerOfTwo = (value: number) => {
+	let size = 1;
+	while (size < value) size *= 2;
+	return size;
+};
+
+export const plannedRounds = (
+	format: TournamentFormat,
+	entrants: number,
+	requested?: number,
+) => {
+	if (entrants < 2) return 0;
+	if (format === "round_robin") {
+		return entrants % 2 === 0 ? entrants - 1 : entrants;
+	}
+	const log = Math.ceil(Math.log2(entrants));
+	if (format === "single_elimination") return log;
+	return Math.min(requested ?? log, entrants - 1);
+};
+
+const toPairings = (
+	round: number,
+	pairs: Array<[string, string | null]>,
+): Pairing[] =>
+	pairs.map(([agentA, agentB], index) => ({
+		round,
+		table: index + 1,
+		agentA,
+		agentB,
+		matchId: null,
+		status: agentB === null ? "bye" : "pending",
+		winnerAgentId: agentB === null ? agentA : null,
+	}));
+
+/** Circle-method schedule: every entrant meets every other exactly once. */
+export const pairRoundRobinRound = (
+	seeds: string[],
+	round: number,
+): Pairing[] => {
+	const slots: Array<string | null> = [...seeds];
+	if (slots.length % 2 === 1) slots.push(null);
+	const n = slots.length;
+	const rotating = slots.slice(1);
+	const shift = (round - 1) % (n - 1);
+	const order = [
+		slots[0] as string | null,
+		...rotating.slice(rotating.length - shift),
+		...rotating.slice(0, rotating.length - shift),
+	];
+
+	const pairs: Array<[string, string | null]> = [];
+	for (let i = 0; i < n / 2; i++) {
+		const home = order[i] ?? null;
+		const away = order[n - 1 - i] ?? null;
+		if (home === null && away === null) continue;
+		if (home === null) pairs.push([away as string, null]);
+		else pairs.push([home, away]);
+	}
+	// Byes go last so table numbers stay stable for real games.
+	pairs.sort((a, b) => Number(a[1] === null) - Number(b[1] === null));
+	return toPairings(round, pairs);
+};
+
+const standardBracketOrder = (size: number): number[] => {
+	let order = [1];
+	while (order.length < size) {
+		const next = order.length * 2 + 1;
+		order = order.flatMap((seed) => [seed, next - seed]);
+	}
+	return order;
+};
+
+/**
+ * Who advances from an elimination pairing. Draws go to the better seed so
+ * a bracket never stalls.
+ */
+const advancingAgent = (pairing: Pairing, seeds: string[]) => {
+	if (pairing.status === "bye" || pairing.agentB === null) {
+		return pairing.agentA;
+	}
+	if (pairing.winnerAgentId) return pairing.winnerAgentId;
+	return seeds.indexOf(pairing.agentA) <= seeds.indexOf(pairing.agentB)
+		? pairing.agentA
+		: pairing.agentB;
+};
+
+/**
+ * Round 1 seeds the bracket so top seeds meet late and take any byes;
+ * later rounds pair the advancing agents of adjacent tables.
+ */
+export const pairEliminationRound = (
+	seeds: string[],
+	history: Pairing[],
+	round: number,
+): Pairing[] => {
+	if (round === 1) {
+		const order = standardBracketOrder(nextPowerOfTwo(seeds.length));
+		const pairs: Array<[string, string | null]> = [];
+		for (let i = 0; i < order.length; i += 2) {
+			const a = seeds[(order[i] as number) - 1] ?? null;
+			const b = seeds[(order[i + 1] as number) - 1] ?? null;
+			if (a === null && b === null) continue;
+			pairs.push(a === null ? [b as string, null] : [a, b]);
+		}
+		return toPairings(round, pairs);
+	}
+
+	const previous = history
+		.filter((pairing) => pairing.round === round - 1)
+		.sort((a, b) => a.table - b.table);
+	const advancing = previous.map((pairing) => advancingAgent(pairing, seeds));
+	const pairs: Array<[string, string | null]> = [];
+	for (let i = 0; i < advancing.length; i += 2) {
+		pairs.push([advancing[i] as string, advancing[i + 1] ?? null]);
+	}
+	return toPairings(round, pairs);
+};
+
+const buildTallies = (seeds: string[], pairings: Pairing[]) => {
+	const tallies = new Map<string, Tally>();
+	seeds.forEach((agentId, index) => {
+		tallies.set(agentId, {
+			agentId,
+			seed: index + 1,
+			points: 0,
+			wins: 0,
+			draws: 0,
+			losses: 0,
+			byes: 0,
+			buchholz: 0,
+			eliminated: false,
+			opponents: [],
+		});
+	});
+
+	for (const pairing of pairings) {
+		if (!isDecided(pairing)) continue;
+		const sides =
+			pairing.agentB === null
+				? [pairing.agentA]
+				: [pairing.agentA, pairing.agentB];
+		for (const agentId of sides) {
+			const tally = tallies.get(agentId);
+			if (!tally) continue;
+			const points = pointsFor(pairing, agentId);
+			tally.points += points;
+			if (pairing.status === "bye") tally.byes++;
+			else if (points === 1) tally.wins++;
+			else if (points === 0.5) tally.draws++;
+			else tally.losses++;
+			const opponent =
+				agentId === pairing.agentA ? pairing.agentB : pairing.agentA;
+			if (opponent) tally.opponents.push(opponent);
+		}
+	}
+
+	for (const tally of tallies.values()) {
+		tally.buchholz = tally.opponents.reduce(
+			(sum, opponent) => sum + (tallies.get(opponent)?.points ?? 0),
+			0,
+		);
+	}
+	return tallies;
+};
+
+/**
+ * Ranks entrants by points, then Buchholz (sum of opponents' points), then
+ * head-to-head points among the entrants still tied, then seed.
+ */
+export const computeStandings = (
+	seeds: string[],
+	pairings: Pairing[],
+	format: TournamentFormat,
+): Standing[] => {
+	const tallies = buildTallies(seeds, pairings);
+
+	if (format === "single_elimination") {
+		for (const pairing of pairings) {
+			if (pairing.status !== "ended" || pairing.agentB === null) continue;
+			const advancing = advancingAgent(pairing, seeds);
+			const out =
+				advancing === pairing.agentA ? pairing.agentB : pairing.agentA;
+			const tally = tallies.get(out);
+			if (tally) tally.eliminated = true;
+		}
+	}
+
+	const tieKey = (tally: Tally) => `${tally.points}:${tally.buchholz}`;
+	const tied = new Map<string, Set<string>>();
+	for (const tally of tallies.values()) {
+		const key = tieKey(tally);
+		const group = tied.get(key) ?? new Set<string>();
+		group.add(tally.agentId);
+		tied.set(key, group);
+	}
+	const headToHead = (tally: Tally) => {
+		const group = tied.get(tieKey(tally));
+		if (!group || group.size < 2) return 0;
+		let points = 0;
+		for (const pairing of pairings) {
+			if (pairing.status !== "ended" || pairing.agentB === null) continue;
+			const opponent =
+				pairing.agentA === tally.agentId
+					? pairing.agentB
+					: pairing.agentB === tally.agentId
+						? pairing.agentA
+						: null;
+			if (opponent && group.has(opponent)) {
+				points += pointsFor(pairing, tally.agentId);
+			}
+		}
+		return points;
+	};
+
+	return [...tallies.values()]
+		.map((tally) => {
+			const { opponents: _opponents, ...standing } = tally;
+			return { ...standing, headToHead: headToHead(tally) };
+		})
+		.sort(
+			(a, b) =>
+				Number(a.eliminated) - Number(b.eliminated) ||
+				b.points - a.points ||
+				b.buchholz - a.buchholz ||
+				b.headToHead - a.headToHead ||
+				a.seed - b.seed,
+		)
+		.map((standing, index) => ({ ...standing, rank: index + 1 }));
+};
+
+/**
+ * Pairs a Swiss round: entrants ordered by standing, each paired with the
+ * highest-placed opponent they have not met. The lowest-placed entrant
+ * without a bye sits out an odd round. Rematches are allowed only when no
+ * rematch-free pairing exists.
+ */
+export const pairSwissRound = (
+	seeds: string[],
+	history: Pairing[],
+	round: number,
+): Pairing[] => {
+	const standings = computeStandings(seeds, history, "swiss");
+	const order = standings.map((standing) => standing.agentId);
+
+	let bye: string | null = null;
+	if (order.length % 2 === 1) {
+		const hadBye = new Set(
+			history
+				.filter((pairing) => pairing.agentB === null)
+				.map((pairing) => pairing.agentA),
+		);
+		bye =
+			[...order].reverse().find((agentId) => !hadBye.has(agentId)) ??
+			(order[order.length - 1] as string);
+		order.splice(order.indexOf(bye), 1);
+	}
+
+	const met = new Set<string>();
+	for (const pairing of history) {
+		if (pairing.agentB === null) continue;
+		met.add(`${pairing.agentA}|${pairing.agentB}`);
+		met.add(`${pairing.agentB}|${pairing.agentA}`);
+	}
+
+	// Bounded backtracking; late rounds of a small field can have no
+	// rematch-free pairing at all.
+	let budget = SWISS_SEARCH_BUDGET;
+	const solve = (
+		remaining: string[],
+		allowRematch: boolean,
+	): Array<[string, string]> | null => {
+		if (remaining.length === 0) return [];
+		const [first, ...rest] = remaining as [string, ...string[]];
+		for (let i = 0; i < rest.length; i++) {
+			if (--budget < 0) return null;
+			const opponent = rest[i] as string;
+			if (!allowRematch && met.has(`${first}|${opponent}`)) continue;
+			const tail = solve(
+				rest.filter((_, index) => index !== i),
+				allowRematch,
+			);
+			if (tail) return [[first, opponent], ...tail];
+		}
+		return null;
+	};
+
+	const rematchFree = solve(order, false);
+	budget = SWISS_SEARCH_BUDGET;
+	const pairs: Array<[string, string | null]> = [
+		...(rematchFree ?? solve(order, true) ?? []),
+	];
+	if (bye) pairs.push([bye, null]);
+	return toPairings(round, pairs);
+};
+
+export const pairRound = (
+	format: TournamentFormat,
+	seeds: string[],
+	history: Pairing[],
+	round: number,
+): Pairing[] => {
+	if (format === "round_robin") return pairRoundRobinRound(seeds, round);
+	if (format === "single_elimination") {
+		return pairEliminationRound(seeds, history, round);
+	}
+	return pairSwissRound(seeds, history, round);
+};
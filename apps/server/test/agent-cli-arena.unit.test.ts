@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ArenaClient } from "../../../packages/agent-client/src/client";
+import { runMatch } from "../../../packages/agent-client/src/runner";
+import type { MoveProvider } from "../../../packages/agent-client/src/types";
+import {
+	type LocalArenaServer,
+	startLocalArenaServer,
+} from "../../agent-cli/src/arena/server";
+
+const ADMIN_KEY = "test-admin";
+
+let server: LocalArenaServer;
+
+beforeEach(async () => {
+	server = await startLocalArenaServer({
+		adminKey: ADMIN_KEY,
+		port: 0,
+		turnTimeoutSeconds: 0,
+	});
+});
+
+afterEach(async () => {
+	await server.close();
+});
+
+const registerAgent = async (name: string) => {
+	const registered = await new ArenaClient({ baseUrl: server.url }).register(
+		name,
+	);
+	const client = new ArenaClient({
+		baseUrl: server.url,
+		agentApiKey: registered.apiKey,
+	});
+	await client.verifyClaim(registered.claimCode, ADMIN_KEY);
+	return { client, agentId: registered.agentId, apiKey: registered.apiKey };
+};
+
+// Both sides pass every turn, so the game runs to the turn limit.
+const endTurns: MoveProvider = {
+	nextMove: async () => ({ action: "end_turn" }),
+};
+
+const postMove = async (
+	apiKey: string,
+	matchId: string,
+	body: Record<string, unknown>,
+) => {
+	const res = await fetch(`${server.url}/v1/matches/${matchId}/move`, {
+		method: "POST",
+		headers: {
+			authorization: `Bearer ${apiKey}`,
+			"content-type": "application/json",
+		},
+		body: JSON.stringify(body),
+	});
+	return {
+		status: res.status,
+		body: (await res.json()) as Record<string, unknown>,
+	};
+};
+
+describe("agent-cli local arena", () => {
+	it("plays a match to the end over WS", async () => {
+		const alpha = await registerAgent("Alpha");
+		const beta = await registerAgent("Beta");
+
+		const results = await Promise.all(
+			[alpha, beta].map(({ client }) =>
+				runMatch(client, {
+					moveProvider: endTurns,
+					preferredTransport: "ws",
+					allowTransportFallback: false,
+				}),
+			),
+		);
+
+		expect(results[0]?.matchId).toBe(results[1]?.matchId);
+		for (const result of results) {
+			expect(result).toMatchObject({ transport: "ws", reason: "terminal" });
+		}
+	}, 30_000);
+
+	it("plays a match to the end over HTTP polling", async () => {
+		const alpha = await registerAgent("Alpha");
+		const beta = await registerAgent("Beta");
+
+		const results = await Promise.all(
+			[alpha, beta].map(({ client }) =>
+				runMatch(client, {
+					moveProvider: endTurns,
+					preferredTransport: "http",
+					allowTransportFallback: false,
+					httpPollIntervalMs: 10,
+				}),
+			),
+		);
+
+		expect(results[0]?.matchId).toBe(results[1]?.matchId);
+		for (const result of results) {
+			expect(result).toMatchObject({ transport: "http", reason: "terminal" });
+		}
+	}, 30_000);
+
+	it("answers moves with the server's envelopes", async () => {
+		const alpha = await registerAgent("Alpha");
+		const beta = await registerAgent("Beta");
+		await alpha.client.queueJoin();
+		const { matchId } = await beta.client.queueJoin();
+
+		// The longer-waiting entrant moves first.
+		const replayed = { moveId: "move-1", expectedVersion: 0 };
+		const first = await postMove(alpha.apiKey, matchId, {
+			...replayed,
+			move: { action: "end_turn" },
+		});
+		expect(first.status).toBe(200);
+		expect(first.body).toMatchObject({ ok: true, state: { stateVersion: 1 } });
+
+		const retried = await postMove(alpha.apiKey, matchId, {
+			...replayed,
+			move: { action: "end_turn" },
+		});
+		expect(retried).toEqual(first);
+
+		const stale = await postMove(beta.apiKey, matchId, {
+			moveId: "move-2",
+			expectedVersion: 0,
+			move: { action: "end_turn" },
+		});
+		expect(stale).toEqual({
+			status: 409,
+			body: { ok: false, error: "Version mismatch.", stateVersion: 1 },
+		});
+
+		const invalid = await postMove(beta.apiKey, matchId, {
+			moveId: "move-3",
+			expectedVersion: 1,
+			move: { action: "teleport" },
+		});
+		expect(invalid.status).toBe(400);
+		expect(invalid.body).toMatchObject({
+			ok: false,
+			forfeited: true,
+			matchStatus: "ended",
+			winnerAgentId: alpha.agentId,
+			reason: "invalid_move_schema",
+			reasonCode: "invalid_move_schema",
+		});
+
+		const state = await alpha.client.getMatchState(matchId);
+		expect(state.state).toMatchObject({
+			status: "ended",
+			winnerAgentId: alpha.agentId,
+			loserAgentId: beta.agentId,
+		});
+	});
+});
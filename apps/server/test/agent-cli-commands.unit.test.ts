@@ -0,0 +1,141 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createInitialState, listLegalMoves } from "@fightclaw/engine";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	commandToMove,
+	formatMove,
+	matchCommand,
+	parseCommand,
+} from "../../agent-cli/src/commands";
+import { loadStrategy } from "../../agent-cli/src/play";
+
+describe("agent-cli parseCommand", () => {
+	it("parses each command form", () => {
+		expect(parseCommand("move A-1 E5")).toEqual({
+			action: "move",
+			unitId: "A-1",
+			target: "E5",
+		});
+		expect(parseCommand("attack A-1 F6")).toEqual({
+			action: "attack",
+			unitId: "A-1",
+			target: "F6",
+		});
+		expect(parseCommand("recruit Infantry B2")).toEqual({
+			action: "recruit",
+			unitType: "infantry",
+			target: "B2",
+		});
+		expect(parseCommand("fortify A-1")).toEqual({
+			action: "fortify",
+			unitId: "A-1",
+		});
+		expect(parseCommand("upgrade A-1")).toEqual({
+			action: "upgrade",
+			unitId: "A-1",
+		});
+	});
+
+	it("accepts every spelling of ending the turn", () => {
+		for (const line of ["end_turn", "END TURN", "pass", "  end turn  "]) {
+			expect(parseCommand(line)).toEqual({ action: "end_turn" });
+		}
+	});
+
+	it("strips punctuation from tokens", () => {
+		expect(parseCommand("move `A-1`, E5.")).toEqual({
+			action: "move",
+			unitId: "A-1",
+			target: "E5",
+		});
+	});
+
+	it("rejects unknown or incomplete commands", () => {
+		for (const line of ["", "dance A-1", "move A-1", "end game", "fortify"]) {
+			expect(parseCommand(line)).toBeNull();
+		}
+	});
+});
+
+describe("agent-cli matchCommand", () => {
+	const legalMoves = listLegalMoves(
+		createInitialState(1, undefined, ["agent-a", "agent-b"]),
+	);
+
+	it("round-trips every legal move through formatMove", () => {
+		for (const move of legalMoves) {
+			const command = parseCommand(formatMove(move));
+			expect(command).not.toBeNull();
+			if (command) expect(matchCommand(command, legalMoves)).toEqual(move);
+		}
+	});
+
+	it("matches regardless of case", () => {
+		const move = legalMoves.find((candidate) => candidate.action === "move");
+		if (!move) throw new Error("No move available.");
+		const command = parseCommand(formatMove(move).toUpperCase());
+		if (!command) throw new Error("Command did not parse.");
+		expect(matchCommand(command, legalMoves)).toEqual(move);
+	});
+
+	it("returns null for a move that is not legal", () => {
+		const command = parseCommand("move A-1 Z99");
+		if (!command) throw new Error("Command did not parse.");
+		expect(matchCommand(command, legalMoves)).toBeNull();
+		expect(commandToMove(command)).toEqual({
+			action: "move",
+			unitId: "A-1",
+			to: "Z99",
+		});
+	});
+});
+
+describe("agent-cli loadStrategy", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "fightclaw-strategy-"));
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	const writeModule = async (name: string, source: string) => {
+		const path = join(dir, name);
+		await writeFile(path, source);
+		return path;
+	};
+
+	it("loads a default export", async () => {
+		const path = await writeModule(
+			"default.mjs",
+			'export default { nextMove: async () => ({ action: "end_turn" }) };',
+		);
+		const provider = await loadStrategy(path);
+		expect(await provider.nextMove?.({} as never)).toEqual({
+			action: "end_turn",
+		});
+	});
+
+	it("loads a named moveProvider export", async () => {
+		const path = await writeModule(
+			"named.mjs",
+			"export const moveProvider = { nextTurn: async () => [] };",
+		);
+		const provider = await loadStrategy(path);
+		expect(typeof provider.nextTurn).toBe("function");
+	});
+
+	it("rejects a module without a move provider", async () => {
+		const path = await writeModule(
+			"bad.mjs",
+			"export const strategy = { play: () => null };",
+		);
+		await expect(loadStrategy(path)).rejects.toThrow(
+			'must export a MoveProvider (default or "moveProvider")',
+		);
+	});
+});
@@ -1,10 +1,34 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	applyMove,
+	createInitialState,
+	getEngineConfig,
+	hashState,
+	type Move,
+} from "@fightclaw/engine";
 import { describe, expect, it, vi } from "vitest";
+import {
+	sha256,
+	stableStringify,
+} from "../../../apps/sim/src/boardgameio/artifact";
 import {
 	HttpLongPollEventSource,
 	WsEventSource,
 } from "../../../packages/agent-client/src/eventSources";
-import { runMatch } from "../../../packages/agent-client/src/runner";
-import type { MatchEventHandler } from "../../../packages/agent-client/src/types";
+import { createReplayRecorder } from "../../../packages/agent-client/src/recorder";
+import {
+	resumeMatch,
+	runMatch,
+} from "../../../packages/agent-client/src/runner";
+import type {
+	MatchEventHandler,
+	MoveJournal,
+	MoveProviderContext,
+	PendingMove,
+	ReplayBundle,
+} from "../../../packages/agent-client/src/types";
 
 const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
 
@@ -66,7 +90,7 @@ describe("agent-client runMatch transport fallback", () => {
 		};
 
 		const moveProvider = {
-			nextMove: vi.fn(async () => ({ action: "pass" })),
+			nextMove: vi.fn(async () => ({ action: "pass" as const })),
 		};
 
 		try {
@@ -159,7 +183,11 @@ describe("agent-client runMatch transport fallback", () => {
 		};
 
 		const moveProvider = {
-			nextMove: vi.fn(async () => ({ action: "move", unitId: "u1", to: "B2" })),
+			nextMove: vi.fn(async () => ({
+				action: "move" as const,
+				unitId: "u1",
+				to: "B2",
+			})),
 		};
 
 		try {
@@ -187,6 +215,94 @@ describe("agent-client runMatch transport fallback", () => {
 		}
 	});
 
+	it("chooses again without a move the fog blocked", async () => {
+		const wsStop = vi.fn();
+		const wsStart = vi
+			.spyOn(WsEventSource.prototype, "start")
+			.mockImplementation(async (handler: MatchEventHandler) => {
+				queueMicrotask(() => {
+					void handler({ type: "your_turn", stateVersion: 0 });
+				});
+				return wsStop;
+			});
+
+		const httpStart = vi
+			.spyOn(HttpLongPollEventSource.prototype, "start")
+			.mockImplementation(async () => {
+				throw new Error("http fallback should not start");
+			});
+
+		const game = createInitialState(1, undefined, ["agent-a", "agent-b"]);
+		const submitMove = vi
+			.fn()
+			.mockResolvedValueOnce({
+				ok: false as const,
+				error: "Move blocked by an unseen unit.",
+				stateVersion: 0,
+				reason: "fog_blocked",
+				reasonCode: "fog_blocked",
+			})
+			.mockResolvedValueOnce({
+				ok: true as const,
+				state: {
+					stateVersion: 1,
+					status: "ended" as const,
+					winnerAgentId: "agent-a",
+					endReason: "terminal",
+				},
+			});
+
+		const client = {
+			me: vi.fn(async () => ({ agentId: "agent-a" })),
+			queueJoin: vi.fn(async () => ({
+				status: "ready" as const,
+				matchId: "match-1",
+				opponentId: "agent-b",
+			})),
+			waitForMatch: vi.fn(),
+			getMatchState: vi.fn(async () => ({
+				state: { stateVersion: 0, status: "active" as const, game },
+			})),
+			submitMove,
+		};
+
+		const contexts: MoveProviderContext[] = [];
+		const moveProvider = {
+			nextMove: vi.fn(async (context: MoveProviderContext) => {
+				contexts.push(context);
+				const move = context.legalMoves[0];
+				if (!move) throw new Error("No legal move offered.");
+				return move;
+			}),
+		};
+
+		try {
+			const result = await runMatch(client as never, {
+				moveProvider,
+				allowTransportFallback: true,
+			});
+
+			expect(result.reason).toBe("terminal");
+			expect(submitMove).toHaveBeenCalledTimes(2);
+			const blocked = contexts[0]?.legalMoves[0];
+			expect(contexts[1]?.legalMoves).toHaveLength(
+				(contexts[0]?.legalMoves.length ?? 0) - 1,
+			);
+			expect(contexts[1]?.legalMoves).not.toContainEqual(blocked);
+			expect(submitMove).toHaveBeenNthCalledWith(
+				2,
+				"match-1",
+				expect.objectContaining({
+					expectedVersion: 0,
+					move: contexts[1]?.legalMoves[0],
+				}),
+			);
+		} finally {
+			wsStart.mockRestore();
+			httpStart.mockRestore();
+		}
+	});
+
 	it("forwards move reasoning as publicThought on submit", async () => {
 		const wsStop = vi.fn();
 		const wsStart = vi
@@ -301,7 +417,7 @@ describe("agent-client runMatch transport fallback", () => {
 		const slowMoveProvider = {
 			nextMove: vi.fn(
 				() =>
-					new Promise((resolve) => {
+					new Promise<Move>((resolve) => {
 						setTimeout(() => resolve({ action: "end_turn" }), 50);
 					}),
 			),
@@ -322,4 +438,396 @@ describe("agent-client runMatch transport fallback", () => {
 			httpStart.mockRestore();
 		}
 	});
+
+	it("passes the tracked state, legal moves, clock and opponent events", async () => {
+		const game = createInitialState(5, undefined, ["agent-a", "agent-b"]);
+		const clock = {
+			remainingMs: { "agent-a": 60_000, "agent-b": 55_000 },
+			incrementMs: 0,
+			delayMs: 0,
+			activeAgentId: "agent-a",
+			turnDeadlineAtMs: 1_000,
+		};
+		const opponentEvent = { type: "turn_end", player: "B" };
+		const wsStop = vi.fn();
+		const wsStart = vi
+			.spyOn(WsEventSource.prototype, "start")
+			.mockImplementation(async (handler: MatchEventHandler) => {
+				queueMicrotask(async () => {
+					await handler({ type: "state", stateVersion: 3, payload: game });
+					await handler({
+						type: "engine_events",
+						stateVersion: 3,
+						agentId: "agent-b",
+						engineEvents: [opponentEvent as never],
+					});
+					await handler({ type: "your_turn", stateVersion: 3, clock });
+				});
+				return wsStop;
+			});
+
+		const submitMove = vi.fn(async () => ({
+			ok: true as const,
+			state: {
+				stateVersion: 4,
+				status: "ended" as const,
+				winnerAgentId: "agent-a",
+				endReason: "terminal",
+			},
+		}));
+		const getMatchState = vi.fn();
+
+		const client = {
+			me: vi.fn(async () => ({ agentId: "agent-a" })),
+			queueJoin: vi.fn(async () => ({
+				status: "ready" as const,
+				matchId: "match-1",
+				opponentId: "agent-b",
+			})),
+			waitForMatch: vi.fn(),
+			submitMove,
+			getMatchState,
+		};
+
+		const contexts: MoveProviderContext[] = [];
+		const moveProvider = {
+			nextMove: vi.fn(async (context: MoveProviderContext) => {
+				contexts.push(context);
+				return { action: "end_turn" as const };
+			}),
+		};
+
+		try {
+			await runMatch(client as never, { moveProvider });
+
+			const [context] = contexts;
+			expect(context?.state).toBe(game);
+			expect(context?.side).toBe("A");
+			expect(context?.legalMoves.length).toBeGreaterThan(0);
+			expect(context?.clock).toEqual(clock);
+			expect(context?.previousTurnEvents).toEqual([opponentEvent]);
+			expect(getMatchState).not.toHaveBeenCalled();
+		} finally {
+			wsStart.mockRestore();
+		}
+	});
+
+	it("submits a nextTurn plan in order until the turn passes", async () => {
+		const players = {
+			A: { id: "agent-a" },
+			B: { id: "agent-b" },
+		};
+		const wsStop = vi.fn();
+		const wsStart = vi
+			.spyOn(WsEventSource.prototype, "start")
+			.mockImplementation(async (handler: MatchEventHandler) => {
+				queueMicrotask(() => {
+					void handler({ type: "your_turn", stateVersion: 0 });
+				});
+				setTimeout(() => {
+					void handler({
+						type: "match_ended",
+						reason: "terminal",
+						winnerAgentId: "agent-a",
+						loserAgentId: "agent-b",
+					});
+				}, 15);
+				return wsStop;
+			});
+
+		const submitMove = vi
+			.fn()
+			.mockResolvedValueOnce({
+				ok: true as const,
+				state: {
+					stateVersion: 1,
+					status: "active" as const,
+					game: { activePlayer: "A", players },
+				},
+			})
+			.mockResolvedValueOnce({
+				ok: true as const,
+				state: {
+					stateVersion: 2,
+					status: "active" as const,
+					game: { activePlayer: "B", players },
+				},
+			});
+
+		const client = {
+			me: vi.fn(async () => ({ agentId: "agent-a" })),
+			queueJoin: vi.fn(async () => ({
+				status: "ready" as const,
+				matchId: "match-1",
+				opponentId: "agent-b",
+			})),
+			waitForMatch: vi.fn(),
+			submitMove,
+			getMatchState: vi.fn(async () => ({ state: null })),
+		};
+
+		const moveProvider = {
+			nextTurn: vi.fn(async () => [
+				{ action: "fortify" as const, unitId: "u1" },
+				{ action: "end_turn" as const },
+				{ action: "fortify" as const, unitId: "u2" },
+			]),
+		};
+
+		try {
+			await runMatch(client as never, { moveProvider });
+
+			expect(moveProvider.nextTurn).toHaveBeenCalledTimes(1);
+			expect(submitMove).toHaveBeenCalledTimes(2);
+			expect(submitMove).toHaveBeenNthCalledWith(
+				1,
+				"match-1",
+				expect.objectContaining({
+					expectedVersion: 0,
+					move: { action: "fortify", unitId: "u1" },
+				}),
+			);
+			expect(submitMove).toHaveBeenNthCalledWith(
+				2,
+				"match-1",
+				expect.objectContaining({
+					expectedVersion: 1,
+					move: { action: "end_turn" },
+				}),
+			);
+		} finally {
+			wsStart.mockRestore();
+		}
+	});
+
+	it("resumes the active match by resending the journalled move", async () => {
+		const pending: PendingMove = {
+			matchId: "match-1",
+			moveId: "move-before-crash",
+			expectedVersion: 4,
+			move: { action: "end_turn" },
+		};
+		let stored: PendingMove | null = pending;
+		const journal: MoveJournal = {
+			load: vi.fn(async () => stored),
+			save: vi.fn(async (next: PendingMove) => {
+				stored = next;
+			}),
+			clear: vi.fn(async () => {
+				stored = null;
+			}),
+		};
+		const wsStop = vi.fn();
+		const wsStart = vi
+			.spyOn(WsEventSource.prototype, "start")
+			.mockImplementation(async (handler: MatchEventHandler) => {
+				queueMicrotask(() => {
+					void handler({
+						type: "match_ended",
+						reason: "terminal",
+						winnerAgentId: "agent-a",
+						loserAgentId: "agent-b",
+					});
+				});
+				return wsStop;
+			});
+
+		const submitMove = vi.fn(async () => ({
+			ok: true as const,
+			state: {
+				stateVersion: 5,
+				status: "active" as const,
+				game: {
+					activePlayer: "B",
+					players: { A: { id: "agent-a" }, B: { id: "agent-b" } },
+				},
+			},
+		}));
+		const client = {
+			me: vi.fn(async () => ({ agentId: "agent-a" })),
+			getActiveMatch: vi.fn(async () => ({
+				matchId: "match-1",
+				opponentId: "agent-b",
+			})),
+			getMatchState: vi.fn(async () => ({
+				state: { stateVersion: 4, status: "active" as const },
+			})),
+			queueJoin: vi.fn(),
+			submitMove,
+		};
+
+		try {
+			const result = await resumeMatch(client as never, {
+				moveProvider: { nextMove: vi.fn() },
+				moveJournal: journal,
+			});
+
+			expect(client.queueJoin).not.toHaveBeenCalled();
+			expect(submitMove).toHaveBeenCalledWith("match-1", {
+				moveId: "move-before-crash",
+				expectedVersion: 4,
+				move: { action: "end_turn" },
+			});
+			expect(stored).toBeNull();
+			expect(result.matchId).toBe("match-1");
+			expect(result.winnerAgentId).toBe("agent-a");
+		} finally {
+			wsStart.mockRestore();
+		}
+	});
+
+	it("reports an already-ended match without reconnecting", async () => {
+		const wsStart = vi.spyOn(WsEventSource.prototype, "start");
+		const client = {
+			me: vi.fn(async () => ({ agentId: "agent-a" })),
+			getActiveMatch: vi.fn(),
+			getMatchState: vi.fn(async () => ({
+				state: {
+					stateVersion: 9,
+					status: "ended" as const,
+					winnerAgentId: "agent-b",
+					endReason: "turn_timeout",
+					game: {
+						players: { A: { id: "agent-a" }, B: { id: "agent-b" } },
+					},
+				},
+			})),
+		};
+
+		try {
+			const result = await resumeMatch(client as never, {
+				matchId: "match-1",
+				moveProvider: { nextMove: vi.fn() },
+			});
+
+			expect(result).toEqual({
+				matchId: "match-1",
+				transport: "http",
+				reason: "turn_timeout",
+				winnerAgentId: "agent-b",
+				loserAgentId: "agent-a",
+			});
+			expect(client.getActiveMatch).not.toHaveBeenCalled();
+			expect(wsStart).not.toHaveBeenCalled();
+		} finally {
+			wsStart.mockRestore();
+		}
+	});
+
+	it("records the match and writes a replay bundle from the match log", async () => {
+		const game = createInitialState(7, undefined, ["agent-a", "agent-b"]);
+		const applied = applyMove(game, { action: "end_turn" });
+		if (!applied.ok) throw new Error(applied.error);
+		const ended = applied.state;
+		const wsStart = vi
+			.spyOn(WsEventSource.prototype, "start")
+			.mockImplementation(async (handler: MatchEventHandler) => {
+				queueMicrotask(() => {
+					void handler({ type: "state", stateVersion: 0, payload: game });
+					void handler({ type: "your_turn", stateVersion: 0 });
+				});
+				setTimeout(() => {
+					void handler({
+						type: "match_ended",
+						reason: "forfeit",
+						winnerAgentId: "agent-a",
+						loserAgentId: "agent-b",
+					});
+				}, 15);
+				return vi.fn();
+			});
+
+		const client = {
+			me: vi.fn(async () => ({ agentId: "agent-a" })),
+			queueJoin: vi.fn(async () => ({
+				status: "ready" as const,
+				matchId: "match-1",
+				opponentId: "agent-b",
+			})),
+			getMatchState: vi.fn(async () => ({
+				state: { stateVersion: 2, status: "ended" as const },
+			})),
+			getMatchLog: vi.fn(async () => [
+				{
+					id: 1,
+					matchId: "match-1",
+					turn: 1,
+					ts: "2026-01-01T00:00:00Z",
+					eventType: "match_started",
+					payload: {
+						players: ["agent-a", "agent-b"],
+						seed: 7,
+						mapId: null,
+						engineConfig: getEngineConfig(game),
+					},
+				},
+				{
+					id: 2,
+					matchId: "match-1",
+					turn: 1,
+					ts: "2026-01-01T00:00:01Z",
+					eventType: "move_applied",
+					payload: { agentId: "agent-a", move: { action: "end_turn" } },
+				},
+			]),
+			submitMove: vi.fn(async () => ({
+				ok: true as const,
+				state: {
+					stateVersion: 1,
+					status: "active" as const,
+					game: {
+						activePlayer: "B",
+						players: { A: { id: "agent-a" }, B: { id: "agent-b" } },
+					},
+				},
+			})),
+		};
+
+		const dir = await mkdtemp(join(tmpdir(), "fightclaw-replay-"));
+		const outputPath = join(dir, "replay.json");
+		const recorder = createReplayRecorder(outputPath);
+		try {
+			await runMatch(client as never, {
+				moveProvider: {
+					nextMove: vi.fn(async () => ({ action: "end_turn" as const })),
+				},
+				recorder,
+			});
+
+			const recording = recorder.recording();
+			expect(recording?.events.map((entry) => entry.event.type)).toEqual([
+				"state",
+				"your_turn",
+				"match_ended",
+			]);
+			expect(recording?.moves).toHaveLength(1);
+			expect(recording?.moves[0]?.expectedVersion).toBe(0);
+			expect(recording?.moves[0]?.latencyMs).toBeGreaterThanOrEqual(0);
+			expect(recording?.finalState?.status).toBe("ended");
+
+			const bundle = JSON.parse(
+				await readFile(outputPath, "utf8"),
+			) as ReplayBundle;
+			expect(bundle.matchCount).toBe(1);
+			const match = bundle.matches[0];
+			expect(match?.participants).toEqual(["agent-a", "agent-b"]);
+			expect(match?.result).toMatchObject({
+				winner: "agent-a",
+				reason: "forfeit",
+				illegalMoves: 0,
+			});
+			expect(match?.steps).toHaveLength(1);
+			expect(match?.steps[0]).toMatchObject({
+				ply: 0,
+				playerID: "agent-a",
+				move: { action: "end_turn" },
+				preHash: sha256(stableStringify(game)),
+				postHash: sha256(stableStringify(ended)),
+				postStateHash: hashState(ended),
+			});
+		} finally {
+			wsStart.mockRestore();
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
 });
@@ -0,0 +1,246 @@
+import { createHash } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Duplex } from "node:stream";
+import {
+	applyMove,
+	createInitialState,
+	getEngineConfig,
+	type MatchState,
+	type StateDelta,
+} from "@fightclaw/engine";
+import { afterEach, describe, expect, it } from "vitest";
+import { ArenaClient } from "../../../packages/agent-client/src/client";
+import { WsEventSource } from "../../../packages/agent-client/src/eventSources";
+import type { RunnerEvent } from "../../../packages/agent-client/src/types";
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+// One unmasked server text frame.
+const wsFrame = (message: unknown) => {
+	const payload = Buffer.from(JSON.stringify(message));
+	let header: Buffer;
+	if (payload.length < 126) {
+		header = Buffer.from([0x81, payload.length]);
+	} else if (payload.length < 65_536) {
+		header = Buffer.alloc(4);
+		header.writeUInt8(0x81, 0);
+		header.writeUInt8(126, 1);
+		header.writeUInt16BE(payload.length, 2);
+	} else {
+		header = Buffer.alloc(10);
+		header.writeUInt8(0x81, 0);
+		header.writeUInt8(127, 1);
+		header.writeBigUInt64BE(BigInt(payload.length), 2);
+	}
+	return Buffer.concat([header, payload]);
+};
+
+type FakeArena = {
+	baseUrl: string;
+	socket: Promise<Duplex>;
+	send: (message: unknown) => Promise<void>;
+	stateRequests: () => number;
+};
+
+const servers: Server[] = [];
+// Upgraded sockets are detached from the server, so close() would wait on them.
+const sockets: Duplex[] = [];
+
+afterEach(async () => {
+	for (const socket of sockets.splice(0)) socket.destroy();
+	for (const server of servers.splice(0)) {
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+	}
+});
+
+// A bare WebSocket endpoint that writes `initialFrames` in the same write as
+// the 101 response, plus an HTTP `/state` that serves `matchState`.
+const startFakeArena = async (options: {
+	initialFrames?: unknown[];
+	matchState?: unknown;
+}): Promise<FakeArena> => {
+	let stateRequests = 0;
+	let resolveSocket: (socket: Duplex) => void = () => {};
+	const socket = new Promise<Duplex>((resolve) => {
+		resolveSocket = resolve;
+	});
+
+	const server = createServer((req, res) => {
+		if (req.url?.endsWith("/state")) stateRequests += 1;
+		res.writeHead(200, { "content-type": "application/json" });
+		res.end(JSON.stringify({ state: options.matchState ?? null }));
+	});
+	server.on("upgrade", (req, upgraded: Duplex) => {
+		sockets.push(upgraded);
+		upgraded.on("error", () => {});
+		const accept = createHash("sha1")
+			.update(`${req.headers["sec-websocket-key"]}${WS_GUID}`)
+			.digest("base64");
+		upgraded.write(
+			Buffer.concat([
+				Buffer.from(
+					[
+						"HTTP/1.1 101 Switching Protocols",
+						"Upgrade: websocket",
+						"Connection: Upgrade",
+						`Sec-WebSocket-Accept: ${accept}`,
+						"",
+						"",
+					].join("\r\n"),
+				),
+				...(options.initialFrames ?? []).map(wsFrame),
+			]),
+		);
+		resolveSocket(upgraded);
+	});
+	servers.push(server);
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+
+	return {
+		baseUrl: `http://127.0.0.1:${port}`,
+		socket,
+		send: async (message) => {
+			(await socket).write(wsFrame(message));
+		},
+		stateRequests: () => stateRequests,
+	};
+};
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 2_000) => {
+	const endAt = Date.now() + timeoutMs;
+	while (!predicate()) {
+		if (Date.now() > endAt) throw new Error("Timed out waiting.");
+		await new Promise((resolve) => setTimeout(resolve, 5));
+	}
+};
+
+// States and deltas for versions 0..count of a game where both sides pass.
+const playTurns = (count: number) => {
+	const states: MatchState[] = [
+		createInitialState(1, undefined, ["agent-a", "agent-b"]),
+	];
+	const deltas: StateDelta[] = [];
+	for (let i = 0; i < count; i += 1) {
+		const applied = applyMove(states[i] as MatchState, { action: "end_turn" });
+		if (!applied.ok) throw new Error(applied.error);
+		states.push(applied.state);
+		deltas.push(applied.delta);
+	}
+	return { states, deltas };
+};
+
+const deltaFrame = (deltas: StateDelta[], fromStateVersion: number) => ({
+	type: "state_delta",
+	matchId: "match-1",
+	fromStateVersion,
+	stateVersion: fromStateVersion + 1,
+	delta: deltas[fromStateVersion],
+});
+
+const hasState = (events: RunnerEvent[], stateVersion: number) =>
+	events.some(
+		(event) =>
+			event.type === "state" &&
+			event.stateVersion === stateVersion &&
+			event.payload !== null,
+	);
+
+describe("agent-client WsEventSource", () => {
+	it("receives frames that arrive in the same read as the upgrade", async () => {
+		const { states } = playTurns(0);
+		const arena = await startFakeArena({
+			initialFrames: [
+				{
+					type: "state",
+					matchId: "match-1",
+					stateVersion: 0,
+					stateSnapshot: states[0],
+				},
+				{ type: "your_turn", matchId: "match-1", stateVersion: 0 },
+			],
+		});
+		const client = new ArenaClient({
+			baseUrl: arena.baseUrl,
+			agentApiKey: "key",
+		});
+		const events: RunnerEvent[] = [];
+		const stop = await new WsEventSource(client, "match-1").start((event) => {
+			events.push(event);
+		});
+
+		await waitFor(() => events.length >= 2);
+		expect(events.map((event) => event.type)).toEqual(["state", "your_turn"]);
+		stop();
+	});
+
+	it("refetches the state after a dropped delta and keeps applying deltas", async () => {
+		const { states, deltas } = playTurns(3);
+		const arena = await startFakeArena({
+			initialFrames: [
+				{
+					type: "state",
+					matchId: "match-1",
+					stateVersion: 0,
+					stateSnapshot: states[0],
+				},
+			],
+			matchState: { stateVersion: 2, status: "active", game: states[2] },
+		});
+		const client = new ArenaClient({
+			baseUrl: arena.baseUrl,
+			agentApiKey: "key",
+		});
+		const events: RunnerEvent[] = [];
+		const stop = await new WsEventSource(client, "match-1").start((event) => {
+			events.push(event);
+		});
+
+		// The 0 -> 1 delta never arrives, so 1 -> 2 cannot be applied.
+		await arena.send(deltaFrame(deltas, 1));
+		await waitFor(() => hasState(events, 2));
+		expect(arena.stateRequests()).toBe(1);
+
+		await arena.send(deltaFrame(deltas, 2));
+		await waitFor(() => hasState(events, 3));
+		const latest = events.at(-1);
+		expect(latest?.type === "state" ? latest.payload : null).toEqual(states[3]);
+		expect(arena.stateRequests()).toBe(1);
+		stop();
+	});
+
+	it("binds the match's engine config onto snapshots and applied deltas", async () => {
+		const { states, deltas } = playTurns(1);
+		const arena = await startFakeArena({
+			initialFrames: [
+				{
+					type: "state",
+					matchId: "match-1",
+					stateVersion: 0,
+					stateSnapshot: states[0],
+					engineConfig: { turnLimit: 30 },
+				},
+			],
+		});
+		const client = new ArenaClient({
+			baseUrl: arena.baseUrl,
+			agentApiKey: "key",
+		});
+		const events: RunnerEvent[] = [];
+		const stop = await new WsEventSource(client, "match-1").start((event) => {
+			events.push(event);
+		});
+
+		await arena.send(deltaFrame(deltas, 0));
+		await waitFor(() => hasState(events, 1));
+		const turnLimits = events.map((event) =>
+			event.type === "state" && event.payload
+				? getEngineConfig(event.payload as MatchState).turnLimit
+				: null,
+		);
+		expect(turnLimits).toEqual([30, 30]);
+		stop();
+	});
+});
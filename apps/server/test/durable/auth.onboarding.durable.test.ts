@@ -189,4 +189,83 @@ describe("auth onboarding", () => {
 			expect(res.status).toBe(401);
 		});
 	});
+
+	describe("api key rotation", () => {
+		type KeySummary = {
+			id: string;
+			prefix: string;
+			label: string | null;
+			lastUsedAt: string | null;
+			revokedAt: string | null;
+			current: boolean;
+		};
+
+		it("creates, lists and revokes keys", async () => {
+			const agent = await createAgent("rotating-agent", "rotating-agent-key");
+
+			const createdRes = await SELF.fetch("https://example.com/v1/auth/keys", {
+				method: "POST",
+				headers: {
+					...authHeader(agent.key),
+					"content-type": "application/json",
+				},
+				body: JSON.stringify({ label: "ci" }),
+			});
+			expect(createdRes.status).toBe(201);
+			const createdJson = (await createdRes.json()) as {
+				key: KeySummary;
+				apiKey: string;
+			};
+			expect(createdJson.key.label).toBe("ci");
+			expect(createdJson.apiKey.slice(6, 14)).toBe(createdJson.key.prefix);
+
+			const listRes = await SELF.fetch("https://example.com/v1/auth/keys", {
+				headers: authHeader(createdJson.apiKey),
+			});
+			const { keys } = (await listRes.json()) as { keys: KeySummary[] };
+			expect(keys).toHaveLength(2);
+			const current = keys.find((key) => key.current);
+			expect(current?.id).toBe(createdJson.key.id);
+			expect(current?.lastUsedAt).not.toBeNull();
+			const original = keys.find((key) => !key.current);
+			if (!original) throw new Error("original key missing");
+
+			const revokeRes = await SELF.fetch(
+				`https://example.com/v1/auth/keys/${original.id}`,
+				{ method: "DELETE", headers: authHeader(createdJson.apiKey) },
+			);
+			expect(revokeRes.status).toBe(200);
+			const revoked = (await revokeRes.json()) as { key: KeySummary };
+			expect(revoked.key.revokedAt).not.toBeNull();
+
+			const oldKeyRes = await SELF.fetch("https://example.com/v1/auth/me", {
+				headers: authHeader(agent.key),
+			});
+			expect(oldKeyRes.status).toBe(401);
+
+			const lastRes = await SELF.fetch(
+				`https://example.com/v1/auth/keys/${createdJson.key.id}`,
+				{ method: "DELETE", headers: authHeader(createdJson.apiKey) },
+			);
+			expect(lastRes.status).toBe(409);
+			const lastJson = (await lastRes.json()) as { code?: string };
+			expect(lastJson.code).toBe("last_active_key");
+		});
+
+		it("hides other agents' keys", async () => {
+			const owner = await createAgent("key-owner", "key-owner-key");
+			const other = await createAgent("key-other", "key-other-key");
+			const ownerKey = await env.DB.prepare(
+				"SELECT id FROM api_keys WHERE agent_id = ?",
+			)
+				.bind(owner.id)
+				.first<{ id: string }>();
+
+			const res = await SELF.fetch(
+				`https://example.com/v1/auth/keys/${ownerKey?.id}`,
+				{ method: "DELETE", headers: authHeader(other.key) },
+			);
+			expect(res.status).toBe(404);
+		});
+	});
 });
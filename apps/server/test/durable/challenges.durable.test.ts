@@ -0,0 +1,231 @@
+import { env, SELF } from "cloudflare:test";
+import { beforeEach, expect, it } from "vitest";
+import { authHeader, createAgent, resetDb } from "../helpers";
+
+beforeEach(async () => {
+	await resetDb();
+});
+
+const post = (path: string, key: string, body?: unknown) =>
+	SELF.fetch(`https://example.com${path}`, {
+		method: "POST",
+		headers: { ...authHeader(key), "content-type": "application/json" },
+		...(body === undefined ? {} : { body: JSON.stringify(body) }),
+	});
+
+it("starts an unranked match when a challenge is accepted", async () => {
+	const agentA = await createAgent("Alpha", "alpha-key");
+	const agentB = await createAgent("Beta", "beta-key");
+
+	const created = await post("/v1/challenges", agentA.key, {
+		targetAgentId: agentB.id,
+		engineConfig: { turnLimit: 30 },
+		timeControl: { turnSeconds: 120 },
+	});
+	expect(created.status).toBe(201);
+	const { challenge } = (await created.json()) as {
+		challenge: { id: string; mode: string; status: string };
+	};
+	expect(challenge.mode).toBe("casual");
+	expect(challenge.status).toBe("pending");
+
+	const list = await SELF.fetch("https://example.com/v1/challenges", {
+		headers: authHeader(agentB.key),
+	});
+	const listJson = (await list.json()) as {
+		incoming: Array<{ id: string }>;
+		outgoing: Array<{ id: string }>;
+	};
+	expect(listJson.incoming.map((entry) => entry.id)).toEqual([challenge.id]);
+	expect(listJson.outgoing).toEqual([]);
+
+	const byChallenger = await post(
+		`/v1/challenges/${challenge.id}/accept`,
+		agentA.key,
+	);
+	expect(byChallenger.status).toBe(403);
+
+	const accepted = await post(
+		`/v1/challenges/${challenge.id}/accept`,
+		agentB.key,
+	);
+	expect(accepted.status).toBe(200);
+	const acceptedJson = (await accepted.json()) as {
+		status: string;
+		matchId: string;
+		opponentId: string;
+	};
+	expect(acceptedJson.status).toBe("ready");
+	expect(acceptedJson.opponentId).toBe(agentA.id);
+
+	const status = await SELF.fetch("https://example.com/v1/queue/status", {
+		headers: authHeader(agentA.key),
+	});
+	const statusJson = (await status.json()) as {
+		status: string;
+		matchId?: string;
+	};
+	expect(statusJson.status).toBe("ready");
+	expect(statusJson.matchId).toBe(acceptedJson.matchId);
+
+	const row = await env.DB.prepare("SELECT mode FROM matches WHERE id = ?")
+		.bind(acceptedJson.matchId)
+		.first<{ mode: string }>();
+	expect(row?.mode).toBe("casual");
+
+	const again = await post(`/v1/challenges/${challenge.id}/accept`, agentB.key);
+	expect(again.status).toBe(404);
+});
+
+it("lets the target decline a challenge", async () => {
+	const agentA = await createAgent("Alpha", "alpha-key");
+	const agentB = await createAgent("Beta", "beta-key");
+
+	const created = await post("/v1/challenges", agentA.key, {
+		targetAgentId: agentB.id,
+	});
+	const { challenge } = (await created.json()) as {
+		challenge: { id: string };
+	};
+
+	const declined = await post(
+		`/v1/challenges/${challenge.id}/decline`,
+		agentB.key,
+	);
+	expect(declined.status).toBe(200);
+	const declinedJson = (await declined.json()) as {
+		challenge: { status: string };
+	};
+	expect(declinedJson.challenge.status).toBe("declined");
+
+	const list = await SELF.fetch("https://example.com/v1/challenges", {
+		headers: authHeader(agentA.key),
+	});
+	const listJson = (await list.json()) as { outgoing: unknown[] };
+	expect(listJson.outgoing).toEqual([]);
+});
+
+it("rejects self-challenges and unknown maps", async () => {
+	const agentA = await createAgent("Alpha", "alpha-key");
+	const agentB = await createAgent("Beta", "beta-key");
+
+	const self = await post("/v1/challenges", agentA.key, {
+		targetAgentId: agentA.id,
+	});
+	expect(self.status).toBe(400);
+
+	const badMap = await post("/v1/challenges", agentA.key, {
+		targetAgentId: agentB.id,
+		mapId: "no-such-map",
+	});
+	expect(badMap.status).toBe(400);
+});
+
+it("only allows ranked arranged games on the default settings", async () => {
+	const agentA = await createAgent("Alpha", "alpha-key");
+	const agentB = await createAgent("Beta", "beta-key");
+
+	const untimed = await post("/v1/challenges", agentA.key, {
+		targetAgentId: agentB.id,
+		mode: "ranked",
+		timeControl: { turnSeconds: 0 },
+	});
+	expect(untimed.status).toBe(400);
+	const untimedJson = (await untimed.json()) as { error: string };
+	expect(untimedJson.error).toMatch(/^Ranked games must use the default/);
+
+	const shortGame = await post("/v1/lobbies", agentA.key, {
+		mode: "ranked",
+		engineConfig: { turnLimit: 1 },
+	});
+	expect(shortGame.status).toBe(400);
+
+	const fogged = await post("/v1/lobbies", agentA.key, {
+		mode: "ranked",
+		fogOfWar: true,
+	});
+	expect(fogged.status).toBe(400);
+
+	const ranked = await post("/v1/challenges", agentA.key, {
+		targetAgentId: agentB.id,
+		mode: "ranked",
+	});
+	expect(ranked.status).toBe(201);
+	const { challenge } = (await ranked.json()) as {
+		challenge: { mode: string };
+	};
+	expect(challenge.mode).toBe("ranked");
+});
+
+it("pairs two agents through a private lobby code", async () => {
+	const agentA = await createAgent("Alpha", "alpha-key");
+	const agentB = await createAgent("Beta", "beta-key");
+
+	const created = await post("/v1/lobbies", agentA.key, { fogOfWar: true });
+	expect(created.status).toBe(201);
+	const { lobby } = (await created.json()) as {
+		lobby: { code: string; mode: string };
+	};
+	expect(lobby.code).toMatch(/^[A-Z2-9]{6}$/);
+	expect(lobby.mode).toBe("casual");
+
+	const hostJoin = await post(`/v1/lobbies/${lobby.code}/join`, agentA.key);
+	const hostJoinJson = (await hostJoin.json()) as { status: string };
+	expect(hostJoinJson.status).toBe("waiting");
+
+	const joined = await post(
+		`/v1/lobbies/${lobby.code.toLowerCase()}/join`,
+		agentB.key,
+	);
+	expect(joined.status).toBe(200);
+	const joinedJson = (await joined.json()) as {
+		status: string;
+		matchId: string;
+		opponentId: string;
+	};
+	expect(joinedJson.status).toBe("ready");
+	expect(joinedJson.opponentId).toBe(agentA.id);
+
+	const reuse = await post(`/v1/lobbies/${lobby.code}/join`, agentB.key);
+	expect(reuse.status).toBe(404);
+});
+
+it("reports chess-clock banks for a clock time control", async () => {
+	const agentA = await createAgent("Alpha", "alpha-key");
+	const agentB = await createAgent("Beta", "beta-key");
+
+	const created = await post("/v1/challenges", agentA.key, {
+		targetAgentId: agentB.id,
+		timeControl: { initialSeconds: 300, incrementSeconds: 5 },
+	});
+	expect(created.status).toBe(201);
+	const { challenge } = (await created.json()) as {
+		challenge: { id: string };
+	};
+	const accepted = await post(
+		`/v1/challenges/${challenge.id}/accept`,
+		agentB.key,
+	);
+	const { matchId } = (await accepted.json()) as { matchId: string };
+
+	const res = await SELF.fetch(
+		`https://example.com/v1/matches/${matchId}/state`,
+	);
+	const json = (await res.json()) as {
+		state: { turnExpiresAtMs?: number };
+		clock?: {
+			remainingMs: Record<string, number>;
+			incrementMs: number;
+			turnDeadlineAtMs: number | null;
+		};
+	};
+	expect(json.clock?.incrementMs).toBe(5000);
+	expect(Object.keys(json.clock?.remainingMs ?? {}).sort()).toEqual(
+		[agentA.id, agentB.id].sort(),
+	);
+	for (const remaining of Object.values(json.clock?.remainingMs ?? {})) {
+		expect(remaining).toBeGreaterThan(290_000);
+		expect(remaining).toBeLessThanOrEqual(300_000);
+	}
+	expect(json.clock?.turnDeadlineAtMs).toBe(json.state.turnExpiresAtMs);
+});
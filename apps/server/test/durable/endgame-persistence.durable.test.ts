@@ -1,6 +1,12 @@
 import { env, SELF } from "cloudflare:test";
 import { beforeEach, expect, it } from "vitest";
-import { authHeader, pollUntil, resetDb, setupMatch } from "../helpers";
+import {
+	authHeader,
+	createAgent,
+	pollUntil,
+	resetDb,
+	setupMatch,
+} from "../helpers";
 
 beforeEach(async () => {
 	await resetDb();
@@ -92,3 +98,120 @@ it("finalizes match persistence after finish (no SSE)", async () => {
 		.first<{ count: number }>();
 	expect(endedEvents?.count).toBe(1);
 });
+
+it("records casual matches without touching the leaderboard", async () => {
+	const agentA = await createAgent("Alpha", "alpha-key");
+	const agentB = await createAgent("Beta", "beta-key");
+	for (const agent of [agentA, agentB]) {
+		await SELF.fetch("https://example.com/v1/queue/join", {
+			method: "POST",
+			headers: { ...authHeader(agent.key), "content-type": "application/json" },
+			body: JSON.stringify({ mode: "casual" }),
+		});
+	}
+	const status = await SELF.fetch("https://example.com/v1/queue/status", {
+		headers: authHeader(agentA.key),
+	});
+	const { matchId } = (await status.json()) as { matchId: string };
+
+	await SELF.fetch(`https://example.com/v1/matches/${matchId}/finish`, {
+		method: "POST",
+		headers: {
+			...authHeader(agentA.key),
+			"content-type": "application/json",
+			"x-admin-key": env.ADMIN_KEY,
+		},
+		body: JSON.stringify({ reason: "forfeit" }),
+	});
+
+	const matchRow = await pollUntil(
+		async () =>
+			await env.DB.prepare("SELECT ended_at, mode FROM matches WHERE id = ?")
+				.bind(matchId)
+				.first<{ ended_at: string | null; mode: string | null }>(),
+		(row) => Boolean(row?.ended_at),
+	);
+	expect(matchRow?.mode).toBe("casual");
+
+	const played = await env.DB.prepare(
+		"SELECT COALESCE(SUM(games_played), 0) as total FROM leaderboard WHERE agent_id IN (?, ?)",
+	)
+		.bind(agentA.id, agentB.id)
+		.first<{ total: number }>();
+	expect(played?.total).toBe(0);
+
+	const profile = await SELF.fetch(
+		`https://example.com/v1/agents/${agentA.id}`,
+	);
+	const payload = (await profile.json()) as {
+		recentMatches: Array<{ id: string; mode: string }>;
+	};
+	expect(payload.recentMatches.find((m) => m.id === matchId)?.mode).toBe(
+		"casual",
+	);
+});
+
+it("records rating history and exposes the ranked rating delta", async () => {
+	const { matchId, agentA, agentB } = await setupMatch();
+
+	await SELF.fetch(`https://example.com/v1/matches/${matchId}/finish`, {
+		method: "POST",
+		headers: {
+			...authHeader(agentA.key),
+			"content-type": "application/json",
+			"x-admin-key": env.ADMIN_KEY,
+		},
+		body: JSON.stringify({ reason: "forfeit" }),
+	});
+
+	type Change = { agentId: string; delta: number; ratingAfter: number };
+	const stateJson = await pollUntil(
+		async () => {
+			const stateRes = await SELF.fetch(
+				`https://example.com/v1/matches/${matchId}/state`,
+			);
+			return (await stateRes.json()) as {
+				state: { status: string; ratingChanges?: Change[] } | null;
+			};
+		},
+		(payload) => payload.state?.status === "ended",
+	);
+	const changes = stateJson.state?.ratingChanges ?? [];
+	expect(changes).toHaveLength(2);
+	const loserChange = changes.find((change) => change.agentId === agentA.id);
+	const winnerChange = changes.find((change) => change.agentId === agentB.id);
+	expect(loserChange?.delta).toBeLessThan(0);
+	expect(winnerChange?.delta).toBeGreaterThan(0);
+
+	const endedEvent = await env.DB.prepare(
+		"SELECT payload_json FROM match_events WHERE match_id = ? AND event_type = 'match_ended'",
+	)
+		.bind(matchId)
+		.first<{ payload_json: string }>();
+	const endedPayload = JSON.parse(endedEvent?.payload_json ?? "{}") as {
+		ratingChanges?: Change[];
+	};
+	expect(endedPayload.ratingChanges).toEqual(changes);
+
+	const historyRes = await SELF.fetch(
+		`https://example.com/v1/agents/${agentB.id}/ratings`,
+	);
+	expect(historyRes.status).toBe(200);
+	const history = (await historyRes.json()) as {
+		history: Array<{
+			matchId: string;
+			opponentAgentId: string;
+			result: string;
+			delta: number;
+			ratingAfter: number;
+		}>;
+	};
+	expect(history.history).toHaveLength(1);
+	expect(history.history[0]).toMatchObject({
+		matchId,
+		opponentAgentId: agentA.id,
+		result: "win",
+		delta: winnerChange?.delta,
+		ratingAfter: winnerChange?.ratingAfter,
+	});
+});
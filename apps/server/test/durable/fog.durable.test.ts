@@ -0,0 +1,242 @@
+import { env, runInDurableObject, SELF } from "cloudflare:test";
+import {
+	bindEngineConfig,
+	type GameState,
+	getVisibleHexes,
+	listLegalMoves,
+	type Move,
+	projectStateForPlayer,
+} from "@fightclaw/engine";
+import { beforeEach, expect, it } from "vitest";
+import { authHeader, createAgent, resetDb, type TestAgent } from "../helpers";
+
+beforeEach(async () => {
+	await resetDb();
+});
+
+type Side = "A" | "B";
+
+type StateJson = {
+	state: {
+		stateVersion: number;
+		status: string;
+		lastMove: Move | null;
+		game: {
+			activePlayer: Side;
+			players: Record<Side, { id: string; units: Array<{ id: string }> }>;
+		};
+	} | null;
+};
+
+const post = (path: string, key: string, body?: unknown) =>
+	SELF.fetch(`https://example.com${path}`, {
+		method: "POST",
+		headers: { ...authHeader(key), "content-type": "application/json" },
+		...(body === undefined ? {} : { body: JSON.stringify(body) }),
+	});
+
+const startFoggedMatch = async (agentA: TestAgent, agentB: TestAgent) => {
+	const created = await post("/v1/lobbies", agentA.key, { fogOfWar: true });
+	const { lobby } = (await created.json()) as { lobby: { code: string } };
+	await post(`/v1/lobbies/${lobby.code}/join`, agentA.key);
+	const joined = await post(`/v1/lobbies/${lobby.code}/join`, agentB.key);
+	const { matchId } = (await joined.json()) as { matchId: string };
+	return matchId;
+};
+
+const readState = async (matchId: string, key?: string) => {
+	const res = await SELF.fetch(
+		`https://example.com/v1/matches/${matchId}/state`,
+		{ headers: key ? authHeader(key) : {} },
+	);
+	expect(res.status).toBe(200);
+	const json = (await res.json()) as StateJson;
+	if (!json.state) throw new Error("Match state missing.");
+	return json.state;
+};
+
+const readLog = (matchId: string, headers: Record<string, string> = {}) =>
+	SELF.fetch(`https://example.com/v1/matches/${matchId}/log`, { headers });
+
+const sideOf = (state: NonNullable<StateJson["state"]>, agentId: string) =>
+	state.game.players.A.id === agentId ? "A" : "B";
+
+const activeAgent = (
+	state: NonNullable<StateJson["state"]>,
+	agentA: TestAgent,
+	agentB: TestAgent,
+) =>
+	state.game.players[state.game.activePlayer].id === agentA.id
+		? { mover: agentA, other: agentB }
+		: { mover: agentB, other: agentA };
+
+// Edits the stored match state in place; returns whatever `edit` returns.
+const editStoredGame = async <T>(
+	matchId: string,
+	edit: (game: GameState) => T,
+): Promise<T> => {
+	const match = (env as unknown as Record<string, unknown>).MATCH as
+		| {
+				idFromName: (name: string) => unknown;
+				get: (id: unknown) => unknown;
+		  }
+		| undefined;
+	if (!match) throw new Error("MATCH durable object binding is not available.");
+	const stub = match.get(match.idFromName(matchId));
+	let result: T | undefined;
+	await runInDurableObject(
+		stub as Parameters<typeof runInDurableObject>[0],
+		async (_instance: unknown, state) => {
+			const stored = await state.storage.get<{ game: GameState }>("state");
+			if (!stored) throw new Error("Match state missing.");
+			result = edit(stored.game);
+			await state.storage.put("state", stored);
+			return new Response("ok");
+		},
+	);
+	return result as T;
+};
+
+it("serves each player their own fogged view of /state", async () => {
+	const agentA = await createAgent("Alpha", "alpha-key");
+	const agentB = await createAgent("Beta", "beta-key");
+	const matchId = await startFoggedMatch(agentA, agentB);
+
+	const spectator = await readState(matchId);
+	const asAlpha = await readState(matchId, agentA.key);
+	const side = sideOf(asAlpha, agentA.id);
+	const other = side === "A" ? "B" : "A";
+
+	expect(asAlpha.game.players[side].units.length).toBeGreaterThan(
+		spectator.game.players[side].units.length,
+	);
+	expect(asAlpha.game.players[other].units.length).toBe(
+		spectator.game.players[other].units.length,
+	);
+
+	const badKey = await SELF.fetch(
+		`https://example.com/v1/matches/${matchId}/state`,
+		{ headers: authHeader("not-a-key") },
+	);
+	expect(badKey.status).toBe(401);
+});
+
+it("keeps a fogged match's log private until it ends but still records thoughts", async () => {
+	const agentA = await createAgent("Alpha", "alpha-key");
+	const agentB = await createAgent("Beta", "beta-key");
+	const matchId = await startFoggedMatch(agentA, agentB);
+
+	const state = await readState(matchId);
+	const active =
+		state.game.players[state.game.activePlayer].id === agentA.id
+			? agentA
+			: agentB;
+	const moved = await post(`/v1/matches/${matchId}/move`, active.key, {
+		moveId: crypto.randomUUID(),
+		expectedVersion: state.stateVersion,
+		move: { action: "end_turn" },
+		publicThought: "Holding the line.",
+	});
+	expect(moved.status).toBe(200);
+
+	const publicLog = await readLog(matchId);
+	expect(publicLog.status).toBe(403);
+
+	const adminLog = await readLog(matchId, { "x-admin-key": env.ADMIN_KEY });
+	expect(adminLog.status).toBe(200);
+	const adminJson = (await adminLog.json()) as {
+		events: Array<{ eventType: string; payload: { text?: string } }>;
+	};
+	const thought = adminJson.events.find(
+		(event) => event.eventType === "agent_thought",
+	);
+	expect(thought?.payload.text).toBe("Holding the line.");
+
+	const finished = await SELF.fetch(
+		`https://example.com/v1/matches/${matchId}/finish`,
+		{
+			method: "POST",
+			headers: {
+				"x-admin-key": env.ADMIN_KEY,
+				"x-agent-id": agentA.id,
+				"content-type": "application/json",
+			},
+			body: JSON.stringify({ reason: "forfeit" }),
+		},
+	);
+	expect(finished.status).toBe(200);
+
+	const endedLog = await readLog(matchId);
+	expect(endedLog.status).toBe(200);
+});
+
+it("shows a fogged match's last move only to the agent who made it", async () => {
+	const agentA = await createAgent("Alpha", "alpha-key");
+	const agentB = await createAgent("Beta", "beta-key");
+	const matchId = await startFoggedMatch(agentA, agentB);
+
+	const state = await readState(matchId);
+	const { mover, other } = activeAgent(state, agentA, agentB);
+	const move = { action: "end_turn" } satisfies Move;
+	const moved = await post(`/v1/matches/${matchId}/move`, mover.key, {
+		moveId: crypto.randomUUID(),
+		expectedVersion: state.stateVersion,
+		move,
+	});
+	expect(moved.status).toBe(200);
+	const movedJson = (await moved.json()) as StateJson;
+	expect(movedJson.state?.lastMove).toEqual(move);
+
+	expect((await readState(matchId, mover.key)).lastMove).toEqual(move);
+	expect((await readState(matchId, other.key)).lastMove).toBeNull();
+	expect((await readState(matchId)).lastMove).toBeNull();
+});
+
+it("rejects a move into an unseen unit without forfeiting or naming it", async () => {
+	const agentA = await createAgent("Alpha", "alpha-key");
+	const agentB = await createAgent("Beta", "beta-key");
+	const matchId = await startFoggedMatch(agentA, agentB);
+
+	const state = await readState(matchId);
+	const { mover } = activeAgent(state, agentA, agentB);
+
+	// Park an enemy unit on a hex the mover can move to but cannot see.
+	const { move, hiddenId } = await editStoredGame(matchId, (game) => {
+		const fogged = bindEngineConfig(game, { fogOfWar: { enabled: true } });
+		const side = game.activePlayer;
+		const visible = new Set(getVisibleHexes(fogged, side));
+		const blind = listLegalMoves(projectStateForPlayer(fogged, side)).find(
+			(candidate) => candidate.action === "move" && !visible.has(candidate.to),
+		);
+		const enemy = game.players[side === "A" ? "B" : "A"].units[0];
+		if (blind?.action !== "move" || !enemy) {
+			throw new Error("No move into the fog available.");
+		}
+		for (const hex of game.board) {
+			hex.unitIds = hex.unitIds.filter((id) => id !== enemy.id);
+			if (hex.id === blind.to) hex.unitIds.push(enemy.id);
+		}
+		enemy.position = blind.to;
+		return { move: blind, hiddenId: enemy.id };
+	});
+
+	const blocked = await post(`/v1/matches/${matchId}/move`, mover.key, {
+		moveId: crypto.randomUUID(),
+		expectedVersion: state.stateVersion,
+		move,
+	});
+	expect(blocked.status).toBe(409);
+	const text = await blocked.text();
+	expect(text).not.toContain(hiddenId);
+	expect(JSON.parse(text)).toEqual({
+		ok: false,
+		error: "Move blocked by an unseen unit.",
+		stateVersion: state.stateVersion,
+		reason: "fog_blocked",
+		reasonCode: "fog_blocked",
+	});
+
+	const after = await readState(matchId, mover.key);
+	expect(after.status).toBe("active");
+	expect(after.stateVersion).toBe(state.stateVersion);
+});
@@ -0,0 +1,195 @@
+import { env, SELF } from "cloudflare:test";
+import { beforeEach, expect, it } from "vitest";
+import { authHeader, createAgent, pollUntil, resetDb } from "../helpers";
+
+type MatchStatePayload = {
+	state: {
+		stateVersion: number;
+		status: string;
+		mode: string;
+		lastMove: unknown;
+		game: {
+			activePlayer: "A" | "B";
+			players: Record<"A" | "B", { id: string }>;
+		};
+	} | null;
+};
+
+beforeEach(async () => {
+	await resetDb();
+});
+
+const createHouseAgent = async (name: string, strategy: string) => {
+	const res = await SELF.fetch("https://example.com/v1/admin/house-agents", {
+		method: "POST",
+		headers: {
+			"content-type": "application/json",
+			"x-admin-key": env.ADMIN_KEY,
+		},
+		body: JSON.stringify({ name, strategy }),
+	});
+	expect(res.status).toBe(201);
+	return ((await res.json()) as { agent: { id: string } }).agent;
+};
+
+const HOUSE_TURN_TIMEOUT_MS = 10_000;
+
+it(
+	"pairs a waiting agent with a house agent that plays its turns",
+	async () => {
+		const house = await createHouseAgent("HouseGreedy", "greedy");
+		const agent = await createAgent("Alpha", "alpha-key");
+
+		const join = await SELF.fetch("https://example.com/v1/matches/queue", {
+			method: "POST",
+			headers: { ...authHeader(agent.key), "content-type": "application/json" },
+			body: JSON.stringify({ mode: "ranked" }),
+		});
+		const { matchId } = (await join.json()) as { matchId: string };
+
+		const status = await pollUntil(
+			async () => {
+				const res = await SELF.fetch("https://example.com/v1/queue/status", {
+					headers: authHeader(agent.key),
+				});
+				return (await res.json()) as { status: string; opponentId?: string };
+			},
+			(payload) => payload.status === "ready",
+			5000,
+		);
+		expect(status).toMatchObject({ status: "ready", opponentId: house.id });
+
+		const readState = async () => {
+			const res = await SELF.fetch(
+				`https://example.com/v1/matches/${matchId}/state`,
+			);
+			return (await res.json()) as MatchStatePayload;
+		};
+		const initial = await readState();
+		// House games are casual whichever queue the agent joined.
+		expect(initial.state?.mode).toBe("casual");
+
+		const activeId = (payload: MatchStatePayload) =>
+			payload.state
+				? payload.state.game.players[payload.state.game.activePlayer].id
+				: null;
+		if (activeId(initial) === agent.id) {
+			await SELF.fetch(`https://example.com/v1/matches/${matchId}/move`, {
+				method: "POST",
+				headers: {
+					...authHeader(agent.key),
+					"content-type": "application/json",
+				},
+				body: JSON.stringify({
+					moveId: crypto.randomUUID(),
+					expectedVersion: initial.state?.stateVersion ?? 0,
+					move: { action: "end_turn" },
+				}),
+			});
+		}
+
+		// The house bot takes its whole turn and hands the move back.
+		const afterHouse = await pollUntil(
+			readState,
+			(payload) =>
+				activeId(payload) === agent.id &&
+				(payload.state?.stateVersion ?? 0) >
+					(initial.state?.stateVersion ?? 0) + 1,
+			HOUSE_TURN_TIMEOUT_MS,
+			100,
+		);
+		expect(activeId(afterHouse)).toBe(agent.id);
+	},
+	HOUSE_TURN_TIMEOUT_MS + 5000,
+);
+
+it(
+	"plays its turns in a fogged tournament game",
+	async () => {
+		const house = await createHouseAgent("HouseAggro", "aggressive");
+		const agent = await createAgent("Alpha", "alpha-key");
+
+		const adminPost = (path: string, body: unknown) =>
+			SELF.fetch(`https://example.com/v1/admin${path}`, {
+				method: "POST",
+				headers: {
+					"content-type": "application/json",
+					"x-admin-key": env.ADMIN_KEY,
+				},
+				body: JSON.stringify(body),
+			});
+		const created = await adminPost("/tournaments", {
+			name: "Fog Cup",
+			format: "single_elimination",
+			settings: { fogOfWar: true },
+		});
+		const { tournament } = (await created.json()) as {
+			tournament: { id: string };
+		};
+		await adminPost(`/tournaments/${tournament.id}/entrants`, {
+			agentIds: [agent.id, house.id],
+		});
+		const started = await adminPost(`/tournaments/${tournament.id}/start`, {});
+		const { tournament: running } = (await started.json()) as {
+			tournament: { rounds: { pairings: { matchId: string | null }[] }[] };
+		};
+		const matchId = running.rounds[0]?.pairings[0]?.matchId;
+		if (!matchId) throw new Error("Tournament match missing.");
+
+		const readState = async () => {
+			const res = await SELF.fetch(
+				`https://example.com/v1/matches/${matchId}/state`,
+				{ headers: authHeader(agent.key) },
+			);
+			return (await res.json()) as MatchStatePayload;
+		};
+		const activeId = (payload: MatchStatePayload) =>
+			payload.state
+				? payload.state.game.players[payload.state.game.activePlayer].id
+				: null;
+
+		const initial = await readState();
+		if (activeId(initial) === agent.id) {
+			await SELF.fetch(`https://example.com/v1/matches/${matchId}/move`, {
+				method: "POST",
+				headers: {
+					...authHeader(agent.key),
+					"content-type": "application/json",
+				},
+				body: JSON.stringify({
+					moveId: crypto.randomUUID(),
+					expectedVersion: initial.state?.stateVersion ?? 0,
+					move: { action: "end_turn" },
+				}),
+			});
+		}
+
+		const afterHouse = await pollUntil(
+			readState,
+			(payload) =>
+				activeId(payload) === agent.id &&
+				(payload.state?.stateVersion ?? 0) >
+					(initial.state?.stateVersion ?? 0) + 1,
+			HOUSE_TURN_TIMEOUT_MS,
+			100,
+		);
+		expect(afterHouse.state?.status).toBe("active");
+		// The house's moves stay hidden from the agent under fog.
+		expect(afterHouse.state?.lastMove).toBeNull();
+	},
+	HOUSE_TURN_TIMEOUT_MS + 5000,
+);
+
+it("leaves the queue alone without house agents", async () => {
+	const agent = await createAgent("Alpha", "alpha-key");
+	await SELF.fetch("https://example.com/v1/matches/queue", {
+		method: "POST",
+		headers: authHeader(agent.key),
+	});
+	await new Promise((resolve) => setTimeout(resolve, 200));
+
+	const res = await SELF.fetch("https://example.com/v1/queue/status", {
+		headers: authHeader(agent.key),
+	});
+	expect(((await res.json()) as { status: string }).status).toBe("waiting");
+});
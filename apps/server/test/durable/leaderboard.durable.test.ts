@@ -48,4 +48,169 @@ describe("leaderboard", () => {
 		expect(data.leaderboard[0]?.agent_id).toBe(agentB);
 		expect(data.leaderboard[1]?.agent_id).toBe(agentA);
 	});
+
+	it("replays ranked results, including draws, on backfill", async () => {
+		const agentA = crypto.randomUUID();
+		const agentB = crypto.randomUUID();
+		const decisive = crypto.randomUUID();
+		const drawn = crypto.randomUUID();
+		const casual = crypto.randomUUID();
+
+		await env.DB.batch([
+			env.DB.prepare(
+				"INSERT INTO agents (id, name, api_key_hash, verified_at) VALUES (?, ?, ?, datetime('now'))",
+			).bind(agentA, "AgentA", "hash-a"),
+			env.DB.prepare(
+				"INSERT INTO agents (id, name, api_key_hash, verified_at) VALUES (?, ?, ?, datetime('now'))",
+			).bind(agentB, "AgentB", "hash-b"),
+		]);
+		const statements = [];
+		for (const [matchId, mode, winner, loser, at] of [
+			[decisive, "ranked", agentA, agentB, "2025-01-01 00:00:00"],
+			[drawn, "ranked", null, null, "2025-01-02 00:00:00"],
+			[casual, "casual", agentB, agentA, "2025-01-03 00:00:00"],
+		] as const) {
+			statements.push(
+				env.DB.prepare(
+					"INSERT INTO matches (id, status, created_at, mode) VALUES (?, 'ended', ?, ?)",
+				).bind(matchId, at, mode),
+				env.DB.prepare(
+					"INSERT INTO match_players (match_id, agent_id, seat, starting_rating) VALUES (?, ?, 0, 1500), (?, ?, 1, 1500)",
+				).bind(matchId, agentA, matchId, agentB),
+				env.DB.prepare(
+					"INSERT INTO match_results (match_id, winner_agent_id, loser_agent_id, reason, created_at) VALUES (?, ?, ?, 'terminal', ?)",
+				).bind(matchId, winner, loser, at),
+			);
+		}
+		await env.DB.batch(statements);
+
+		const res = await SELF.fetch(
+			"https://example.com/v1/admin/ratings/backfill",
+			{ method: "POST", headers: { "x-admin-key": env.ADMIN_KEY } },
+		);
+		expect(res.status).toBe(200);
+		const summary = (await res.json()) as { gamesReplayed: number };
+		expect(summary.gamesReplayed).toBe(2);
+
+		const row = await env.DB.prepare(
+			"SELECT rating, rating_deviation, wins, losses, draws, games_played FROM leaderboard WHERE agent_id = ?",
+		)
+			.bind(agentA)
+			.first<{
+				rating: number;
+				rating_deviation: number;
+				wins: number;
+				losses: number;
+				draws: number;
+				games_played: number;
+			}>();
+		expect(row?.rating).toBeGreaterThan(1500);
+		expect(row?.rating_deviation).toBeLessThan(350);
+		expect(row?.wins).toBe(1);
+		expect(row?.losses).toBe(0);
+		expect(row?.draws).toBe(1);
+		expect(row?.games_played).toBe(2);
+	});
+
+	it("archives standings and soft-resets ratings when a season closes", async () => {
+		const agentA = crypto.randomUUID();
+		const agentB = crypto.randomUUID();
+		await env.DB.batch([
+			env.DB.prepare(
+				"INSERT INTO agents (id, name, api_key_hash, verified_at) VALUES (?, ?, ?, datetime('now'))",
+			).bind(agentA, "AgentA", "hash-a"),
+			env.DB.prepare(
+				"INSERT INTO agents (id, name, api_key_hash, verified_at) VALUES (?, ?, ?, datetime('now'))",
+			).bind(agentB, "AgentB", "hash-b"),
+			env.DB.prepare(
+				"INSERT INTO leaderboard (agent_id, rating, rating_deviation, wins, losses, games_played) VALUES (?, ?, ?, ?, ?, ?)",
+			).bind(agentA, 1900, 50, 9, 1, 10),
+			env.DB.prepare(
+				"INSERT INTO leaderboard (agent_id, rating, rating_deviation, wins, losses, games_played) VALUES (?, ?, ?, ?, ?, ?)",
+			).bind(agentB, 1300, 50, 1, 9, 10),
+		]);
+
+		const before = await SELF.fetch("https://example.com/v1/leaderboard");
+		const { season: first } = (await before.json()) as {
+			season: { id: number };
+		};
+
+		const forbiddenRes = await SELF.fetch(
+			"https://example.com/v1/admin/seasons/close",
+			{ method: "POST" },
+		);
+		expect(forbiddenRes.status).toBe(403);
+
+		const closeRes = await SELF.fetch(
+			"https://example.com/v1/admin/seasons/close",
+			{
+				method: "POST",
+				headers: {
+					"x-admin-key": env.ADMIN_KEY,
+					"content-type": "application/json",
+				},
+				body: JSON.stringify({ name: "Spring" }),
+			},
+		);
+		expect(closeRes.status).toBe(200);
+		const summary = (await closeRes.json()) as {
+			standings: number;
+			current: { id: number; name: string };
+		};
+		expect(summary.standings).toBe(2);
+		expect(summary.current).toMatchObject({
+			id: first.id + 1,
+			name: "Spring",
+		});
+
+		const current = await SELF.fetch("https://example.com/v1/leaderboard");
+		const currentData = (await current.json()) as {
+			season: { id: number };
+			leaderboard: Array<{
+				agent_id: string;
+				rating: number;
+				rating_deviation: number;
+				games_played: number;
+			}>;
+		};
+		expect(currentData.season.id).toBe(first.id + 1);
+		expect(currentData.leaderboard[0]).toMatchObject({
+			agent_id: agentA,
+			rating: 1700,
+			rating_deviation: 200,
+			games_played: 0,
+		});
+
+		const archived = await SELF.fetch(
+			`https://example.com/v1/leaderboard?season=${first.id}`,
+		);
+		expect(archived.status).toBe(200);
+		const archivedData = (await archived.json()) as {
+			season: { id: number; endedAt: string | null };
+			leaderboard: Array<{ agent_id: string; rank: number; rating: number }>;
+		};
+		expect(archivedData.season.endedAt).not.toBeNull();
+		expect(archivedData.leaderboard).toEqual([
+			expect.objectContaining({ agent_id: agentA, rank: 1, rating: 1900 }),
+			expect.objectContaining({ agent_id: agentB, rank: 2, rating: 1300 }),
+		]);
+
+		const seasons = await SELF.fetch("https://example.com/v1/seasons");
+		const seasonsData = (await seasons.json()) as {
+			seasons: Array<{ id: number }>;
+		};
+		expect(seasonsData.seasons.map((season) => season.id)).toEqual([
+			first.id + 1,
+			first.id,
+		]);
+
+		const missing = await SELF.fetch(
+			"https://example.com/v1/leaderboard?season=999",
+		);
+		expect(missing.status).toBe(404);
+		const invalid = await SELF.fetch(
+			"https://example.com/v1/leaderboard?season=abc",
+		);
+		expect(invalid.status).toBe(400);
+	});
 });
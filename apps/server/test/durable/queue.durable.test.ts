@@ -79,11 +79,47 @@ it("rejects unsupported queue modes", async () => {
 			...authHeader(agentA.key),
 			"content-type": "application/json",
 		},
-		body: JSON.stringify({ mode: "casual" }),
+		body: JSON.stringify({ mode: "blitz" }),
 	});
 	expect(join.status).toBe(400);
 	const payload = (await join.json()) as { error?: string };
-	expect(payload.error).toContain("ranked");
+	expect(payload.error).toContain("casual");
+});
+
+it("matches casual and ranked queues separately", async () => {
+	const agentA = await createAgent("Alpha", "alpha-key");
+	const agentB = await createAgent("Beta", "beta-key");
+	const agentC = await createAgent("Gamma", "gamma-key");
+
+	const join = async (key: string, mode: string) => {
+		const res = await SELF.fetch("https://example.com/v1/queue/join", {
+			method: "POST",
+			headers: { ...authHeader(key), "content-type": "application/json" },
+			body: JSON.stringify({ mode }),
+		});
+		expect(res.status).toBe(200);
+		return (await res.json()) as {
+			matchId: string;
+			status: string;
+			opponentId?: string;
+		};
+	};
+
+	const casualA = await join(agentA.key, "casual");
+	expect(casualA.status).toBe("waiting");
+
+	const rankedB = await join(agentB.key, "ranked");
+	expect(rankedB.status).toBe("waiting");
+
+	const casualC = await join(agentC.key, "casual");
+	expect(casualC.status).toBe("ready");
+	expect(casualC.matchId).toBe(casualA.matchId);
+	expect(casualC.opponentId).toBe(agentA.id);
+
+	const row = await env.DB.prepare("SELECT mode FROM matches WHERE id = ?")
+		.bind(casualC.matchId)
+		.first<{ mode: string }>();
+	expect(row?.mode).toBe("casual");
 });
 
 it("enforces ELO range for matchmaking", async () => {
@@ -91,21 +127,23 @@ it("enforces ELO range for matchmaking", async () => {
 	const agentB = await createAgent("Beta", "beta-key");
 	const agentC = await createAgent("Gamma", "gamma-key");
 
+	// Settled ratings (low deviation) keep the configured window in force.
 	await env.DB.batch([
+		env.DB.prepare(
+			"INSERT OR IGNORE INTO leaderboard(agent_id, rating, rating_deviation, wins, losses, games_played) VALUES (?, ?, 50, 0, 0, 0)",
+		).bind(agentA.id, 1500),
 		env.DB.prepare(
 			"INSERT OR IGNORE INTO leaderboard(agent_id, rating, wins, losses, games_played) VALUES (?, ?, 0, 0, 0)",
 		).bind(agentB.id, 1700),
 		env.DB.prepare(
 			"INSERT OR IGNORE INTO leaderboard(agent_id, rating, wins, losses, games_played) VALUES (?, ?, 0, 0, 0)",
 		).bind(agentC.id, 2000),
-		env.DB.prepare("UPDATE leaderboard SET rating=? WHERE agent_id=?").bind(
-			1700,
-			agentB.id,
-		),
-		env.DB.prepare("UPDATE leaderboard SET rating=? WHERE agent_id=?").bind(
-			2000,
-			agentC.id,
-		),
+		env.DB.prepare(
+			"UPDATE leaderboard SET rating=?, rating_deviation=50 WHERE agent_id=?",
+		).bind(1700, agentB.id),
+		env.DB.prepare(
+			"UPDATE leaderboard SET rating=?, rating_deviation=50 WHERE agent_id=?",
+		).bind(2000, agentC.id),
 	]);
 
 	const first = await SELF.fetch("https://example.com/v1/queue/join", {
@@ -181,23 +219,21 @@ it("avoids immediate rematches when alternatives exist", async () => {
 		},
 	);
 
-	// Seed ratings so B and C cannot match each other, but A can match both.
+	// Seed settled ratings so B and C cannot match each other, but A can
+	// match both.
 	await env.DB.batch([
 		env.DB.prepare(
 			"INSERT OR IGNORE INTO leaderboard(agent_id, rating, wins, losses, games_played) VALUES (?, ?, 0, 0, 0)",
 		).bind(agentC.id, 1900),
-		env.DB.prepare("UPDATE leaderboard SET rating=? WHERE agent_id=?").bind(
-			1700,
-			agentA.id,
-		),
-		env.DB.prepare("UPDATE leaderboard SET rating=? WHERE agent_id=?").bind(
-			1500,
-			agentB.id,
-		),
-		env.DB.prepare("UPDATE leaderboard SET rating=? WHERE agent_id=?").bind(
-			1900,
-			agentC.id,
-		),
+		env.DB.prepare(
+			"UPDATE leaderboard SET rating=?, rating_deviation=50 WHERE agent_id=?",
+		).bind(1700, agentA.id),
+		env.DB.prepare(
+			"UPDATE leaderboard SET rating=?, rating_deviation=50 WHERE agent_id=?",
+		).bind(1500, agentB.id),
+		env.DB.prepare(
+			"UPDATE leaderboard SET rating=?, rating_deviation=50 WHERE agent_id=?",
+		).bind(1900, agentC.id),
 	]);
 
 	const bJoin = await SELF.fetch("https://example.com/v1/queue/join", {
@@ -296,3 +332,58 @@ it("blocks disabled agents and prunes their waiting queue entries", async () =>
 	expect(cJoinJson.opponentId).toBe(agentB.id);
 	expect(cJoinJson.matchId).not.toBe(disabledJoinJson.matchId);
 });
+
+it("widens the ranked window for unsettled ratings", async () => {
+	const veteran = await createAgent("Veteran", "veteran-key");
+	const rookie = await createAgent("Rookie", "rookie-key");
+
+	await env.DB.prepare(
+		"INSERT INTO leaderboard(agent_id, rating, rating_deviation, wins, losses, games_played) VALUES (?, ?, 50, 0, 0, 0)",
+	)
+		.bind(veteran.id, 1800)
+		.run();
+
+	const first = await SELF.fetch("https://example.com/v1/queue/join", {
+		method: "POST",
+		headers: authHeader(veteran.key),
+	});
+	expect(((await first.json()) as { status: string }).status).toBe("waiting");
+
+	// 300 points apart is outside the 200-point window, but the rookie's
+	// starting deviation makes the pairing plausible.
+	const second = await SELF.fetch("https://example.com/v1/queue/join", {
+		method: "POST",
+		headers: authHeader(rookie.key),
+	});
+	const secondJson = (await second.json()) as {
+		status: string;
+		opponentId?: string;
+	};
+	expect(secondJson.status).toBe("ready");
+	expect(secondJson.opponentId).toBe(veteran.id);
+});
+
+it("reports wait time and search window while waiting", async () => {
+	const agent = await createAgent("Alpha", "alpha-key");
+	await SELF.fetch("https://example.com/v1/queue/join", {
+		method: "POST",
+		headers: { ...authHeader(agent.key), "content-type": "application/json" },
+		body: JSON.stringify({ mode: "ranked" }),
+	});
+
+	const res = await SELF.fetch("https://example.com/v1/queue/status", {
+		headers: authHeader(agent.key),
+	});
+	const status = (await res.json()) as {
+		status: string;
+		mode: string;
+		waitedMs: number;
+		estimatedWaitMs: number | null;
+		searchWindow: { min: number; max: number } | null;
+	};
+	expect(status).toMatchObject({ status: "waiting", mode: "ranked" });
+	expect(status.waitedMs).toBeGreaterThanOrEqual(0);
+	expect(status.estimatedWaitMs).toBeNull();
+	expect(status.searchWindow?.min).toBeLessThan(1500);
+	expect(status.searchWindow?.max).toBeGreaterThan(1500);
+});
@@ -116,6 +116,7 @@ it(
 			});
 
 			const result = await waitForEngineEvents;
+			expect(result.text).not.toContain("event: state_delta");
 
 			const frame =
 				result.framesPreview.find((value) =>
@@ -150,6 +151,66 @@ it(
 	TEST_TIMEOUT_MS,
 );
 
+it(
+	"events stream sends state_delta only when opted in with ?deltas=1",
+	async () => {
+		const { matchId, agentA } = await setupMatch();
+
+		const stream = await openSse(
+			`https://example.com/v1/matches/${matchId}/events?deltas=1`,
+		);
+
+		try {
+			const waitForDelta = readSseUntil(
+				stream.res,
+				(value) => value.includes("event: state_delta"),
+				SSE_TIMEOUT_MS,
+				SSE_MAX_BYTES,
+				{ throwOnTimeout: true, label: "state_delta" },
+			);
+
+			const stateRes = await SELF.fetch(
+				`https://example.com/v1/matches/${matchId}/state`,
+			);
+			const stateJson = (await stateRes.json()) as {
+				state: { stateVersion: number } | null;
+			};
+			const expectedVersion = stateJson.state?.stateVersion ?? 0;
+
+			await SELF.fetch(`https://example.com/v1/matches/${matchId}/move`, {
+				method: "POST",
+				headers: {
+					authorization: `Bearer ${agentA.key}`,
+					"content-type": "application/json",
+				},
+				body: JSON.stringify({
+					moveId: crypto.randomUUID(),
+					expectedVersion,
+					move: { action: "fortify", unitId: "A-1" },
+				}),
+			});
+
+			const result = await waitForDelta;
+			const frame =
+				result.framesPreview.find((value) =>
+					value.includes("event: state_delta"),
+				) ?? null;
+			const dataLine =
+				frame?.split("\n").find((line) => line.startsWith("data: ")) ?? null;
+			expect(dataLine).toBeTruthy();
+			const payload = JSON.parse(String(dataLine).slice("data: ".length)) as {
+				fromStateVersion?: number;
+				stateVersion?: number;
+			};
+			expect(payload.fromStateVersion).toBe(expectedVersion);
+			expect(payload.stateVersion).toBe(expectedVersion + 1);
+		} finally {
+			await stream.close();
+		}
+	},
+	TEST_TIMEOUT_MS,
+);
+
 it(
 	"events stream emits sanitized agent_thought for accepted internal moves",
 	async () => {
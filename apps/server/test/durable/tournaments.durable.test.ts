@@ -0,0 +1,145 @@
+import { env, SELF } from "cloudflare:test";
+import { beforeEach, expect, it } from "vitest";
+import { authHeader, createAgent, pollUntil, resetDb } from "../helpers";
+
+type TournamentView = {
+	id: string;
+	status: string;
+	currentRound: number;
+	plannedRounds: number;
+	entrants: { agentId: string; seed: number | null }[];
+	rounds: {
+		round: number;
+		pairings: {
+			agentA: string;
+			agentB: string | null;
+			matchId: string | null;
+			status: string;
+			winnerAgentId: string | null;
+		}[];
+	}[];
+};
+
+const adminPost = (path: string, body: unknown) =>
+	SELF.fetch(`https://example.com/v1/admin${path}`, {
+		method: "POST",
+		headers: {
+			"content-type": "application/json",
+			"x-admin-key": env.ADMIN_KEY,
+		},
+		body: JSON.stringify(body),
+	});
+
+beforeEach(async () => {
+	await resetDb();
+});
+
+it("runs a two-entrant elimination from registration to standings", async () => {
+	const agentA = await createAgent("Alpha", "alpha-key");
+	const agentB = await createAgent("Beta", "beta-key");
+
+	const created = await adminPost("/tournaments", {
+		name: "Cup",
+		format: "single_elimination",
+	});
+	expect(created.status).toBe(200);
+	const { tournament } = (await created.json()) as {
+		tournament: TournamentView;
+	};
+	expect(tournament.status).toBe("registration");
+
+	const registered = await adminPost(`/tournaments/${tournament.id}/entrants`, {
+		agentIds: [agentA.id, agentB.id],
+	});
+	expect(registered.status).toBe(200);
+
+	const started = await adminPost(`/tournaments/${tournament.id}/start`, {});
+	expect(started.status).toBe(200);
+	const running = ((await started.json()) as { tournament: TournamentView })
+		.tournament;
+	expect(running.status).toBe("running");
+	expect(running.plannedRounds).toBe(1);
+	const pairing = running.rounds[0]?.pairings[0];
+	expect(pairing?.status).toBe("active");
+	const matchId = pairing?.matchId as string;
+	expect(matchId).toBeTruthy();
+
+	await SELF.fetch(`https://example.com/v1/matches/${matchId}/finish`, {
+		method: "POST",
+		headers: {
+			...authHeader(agentA.key),
+			"content-type": "application/json",
+			"x-admin-key": env.ADMIN_KEY,
+		},
+		body: JSON.stringify({ reason: "forfeit" }),
+	});
+
+	const finished = await pollUntil(
+		async () => {
+			const res = await SELF.fetch(
+				`https://example.com/v1/tournaments/${tournament.id}`,
+			);
+			return ((await res.json()) as { tournament: TournamentView }).tournament;
+		},
+		(view) => view.status === "completed",
+	);
+	expect(finished.rounds[0]?.pairings[0]?.winnerAgentId).toBe(agentB.id);
+
+	const standingsRes = await SELF.fetch(
+		`https://example.com/v1/tournaments/${tournament.id}/standings`,
+	);
+	const { standings } = (await standingsRes.json()) as {
+		standings: { agentId: string; rank: number; eliminated: boolean }[];
+	};
+	expect(standings[0]).toMatchObject({ agentId: agentB.id, rank: 1 });
+	expect(standings[1]).toMatchObject({ agentId: agentA.id, eliminated: true });
+
+	const listRes = await SELF.fetch("https://example.com/v1/tournaments");
+	const { tournaments } = (await listRes.json()) as {
+		tournaments: { id: string; status: string; entrants: number }[];
+	};
+	expect(tournaments[0]).toMatchObject({
+		id: tournament.id,
+		status: "completed",
+		entrants: 2,
+	});
+});
+
+it("rejects a ranked tournament with custom settings", async () => {
+	const created = await adminPost("/tournaments", {
+		name: "Blitz",
+		format: "swiss",
+		mode: "ranked",
+		settings: { engineConfig: { turnLimit: 5 } },
+	});
+	expect(created.status).toBe(400);
+	const json = (await created.json()) as { error: string };
+	expect(json.error).toMatch(/^Ranked games must use the default/);
+});
+
+it("rejects unverified entrants", async () => {
+	const verified = await createAgent("Verified", "verified-key");
+	const unverified = await createAgent(
+		"Pending",
+		"pending-key",
+		crypto.randomUUID(),
+		{ verified: false },
+	);
+
+	const created = await adminPost("/tournaments", {
+		name: "Open",
+		format: "swiss",
+		rounds: 3,
+	});
+	const { tournament } = (await created.json()) as {
+		tournament: TournamentView;
+	};
+
+	const res = await adminPost(`/tournaments/${tournament.id}/entrants`, {
+		agentIds: [verified.id, unverified.id],
+	});
+	expect(res.status).toBe(400);
+	const body = (await res.json()) as { code: string; agentIds: string[] };
+	expect(body.code).toBe("ineligible_entrants");
+	expect(body.agentIds).toEqual([unverified.id]);
+});
@@ -10,6 +10,7 @@ declare module "cloudflare:test" {
 		SENTRY_ENVIRONMENT?: string;
 		TEST_MODE?: string;
 		MATCHMAKER: DurableObjectNamespace;
+		TOURNAMENT: DurableObjectNamespace;
 	}
 
 	export const env: ProvidedEnv;
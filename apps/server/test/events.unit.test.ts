@@ -1,10 +1,11 @@
-import { EventSchema, initialState } from "@fightclaw/engine";
+import { applyMove, EventSchema, initialState } from "@fightclaw/engine";
 import { describe, expect, it } from "vitest";
 import {
 	buildGameEndedAliasEvent,
 	buildMatchEndedEvent,
 	buildMatchFoundEvent,
 	buildNoEventsEvent,
+	buildStateDeltaEvent,
 	buildStateEvent,
 	buildYourTurnEvent,
 } from "../src/protocol/events";
@@ -54,6 +55,17 @@ describe("event builders", () => {
 		expect(EventSchema.safeParse(event).success).toBe(true);
 	});
 
+	it("builds state_delta from an applied move", () => {
+		const state = initialState(1, ["a", "b"]);
+		const result = applyMove(state, { action: "end_turn" });
+		if (!result.ok) throw new Error("end_turn rejected");
+		const event = buildStateDeltaEvent("match-1", 3, 4, result.delta);
+		expect(event.event).toBe("state_delta");
+		expect(event.fromStateVersion).toBe(3);
+		expect(event.stateVersion).toBe(4);
+		expect(EventSchema.safeParse(event).success).toBe(true);
+	});
+
 	it("builds no_events with version", () => {
 		const event = buildNoEventsEvent();
 		expect(event.eventVersion).toBe(1);
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+	RATING_DEVIATION_MIN,
+	RATING_DEVIATION_START,
+	RATING_PERIOD_DAYS,
+	SEASON_RESET_DEVIATION,
+} from "../src/constants/rating";
+import {
+	applyInactivityDecay,
+	initialRating,
+	pairingDistance,
+	rateGame,
+	seasonSoftReset,
+} from "../src/ratings/glicko2";
+import { parseSqliteTimestamp } from "../src/ratings/leaderboard";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("glicko-2 ratings", () => {
+	it("moves a fresh rating symmetrically on a decisive game", () => {
+		const start = initialRating();
+		const winner = rateGame(start, start, 1);
+		const loser = rateGame(start, start, 0);
+		expect(winner.rating).toBeGreaterThan(1500);
+		expect(loser.rating).toBeLessThan(1500);
+		expect(winner.rating - 1500).toBeCloseTo(1500 - loser.rating, 6);
+		expect(winner.deviation).toBeLessThan(RATING_DEVIATION_START);
+	});
+
+	it("matches the single-game case from Glickman's worked example", () => {
+		// Player 1500/200 beating a 1400/30 opponent in one rating period.
+		const next = rateGame(
+			{ rating: 1500, deviation: 200, volatility: 0.06 },
+			{ rating: 1400, deviation: 30, volatility: 0.06 },
+			1,
+		);
+		expect(next.rating).toBeCloseTo(1563.6, 0);
+		expect(next.deviation).toBeCloseTo(175.4, 0);
+		expect(next.volatility).toBeCloseTo(0.06, 4);
+	});
+
+	it("leaves equal players level after a draw and shrinks deviation", () => {
+		const start = initialRating();
+		const drawn = rateGame(start, start, 0.5);
+		expect(drawn.rating).toBeCloseTo(1500, 6);
+		expect(drawn.deviation).toBeLessThan(start.deviation);
+	});
+
+	it("moves uncertain ratings further than settled ones", () => {
+		const opponent = { rating: 1500, deviation: 80, volatility: 0.06 };
+		const fresh = rateGame(initialRating(), opponent, 1);
+		const settled = rateGame(
+			{ rating: 1500, deviation: 60, volatility: 0.06 },
+			opponent,
+			1,
+		);
+		expect(fresh.rating - 1500).toBeGreaterThan(settled.rating - 1500);
+	});
+
+	it("grows deviation with inactivity and caps it at the starting value", () => {
+		const settled = { rating: 1700, deviation: 60, volatility: 0.06 };
+		const lastMs = Date.UTC(2025, 0, 1);
+		const aYearLater = applyInactivityDecay(
+			settled,
+			lastMs,
+			lastMs + 52 * RATING_PERIOD_DAYS * DAY_MS,
+		);
+		expect(aYearLater.rating).toBe(1700);
+		expect(aYearLater.deviation).toBeGreaterThan(60);
+		const ancient = applyInactivityDecay(
+			{ ...settled, volatility: 1 },
+			lastMs,
+			lastMs + 1000 * DAY_MS,
+		);
+		expect(ancient.deviation).toBe(RATING_DEVIATION_START);
+		expect(applyInactivityDecay(settled, null, lastMs)).toEqual(settled);
+	});
+
+	it("never drops deviation below the floor", () => {
+		let rating = { rating: 1500, deviation: 40, volatility: 0.06 };
+		for (let i = 0; i < 50; i++) {
+			rating = rateGame(rating, { ...rating }, 0.5);
+		}
+		expect(rating.deviation).toBeGreaterThanOrEqual(RATING_DEVIATION_MIN);
+	});
+
+	it("scales pairing distance by combined uncertainty", () => {
+		const settled = { rating: 1500, deviation: 50 };
+		expect(
+			pairingDistance(settled, { rating: 1700, deviation: 50 }),
+		).toBeGreaterThan(
+			pairingDistance(settled, { rating: 1700, deviation: 350 }),
+		);
+	});
+
+	it("pulls ratings halfway back and reopens deviation between seasons", () => {
+		const strong = seasonSoftReset({
+			rating: 1900,
+			deviation: 40,
+			volatility: 0.05,
+		});
+		expect(strong).toEqual({
+			rating: 1700,
+			deviation: SEASON_RESET_DEVIATION,
+			volatility: 0.05,
+		});
+		const unsettled = seasonSoftReset({
+			rating: 1300,
+			deviation: 320,
+			volatility: 0.06,
+		});
+		expect(unsettled.rating).toBe(1400);
+		expect(unsettled.deviation).toBe(320);
+	});
+
+	it("parses D1 timestamps as UTC", () => {
+		expect(parseSqliteTimestamp("2025-01-02 03:04:05")).toBe(
+			Date.UTC(2025, 0, 2, 3, 4, 5),
+		);
+		expect(parseSqliteTimestamp(null)).toBeNull();
+	});
+});
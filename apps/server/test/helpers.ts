@@ -34,6 +34,12 @@ export const resetDb = async () => {
 	await env.DB.prepare("DELETE FROM match_events").run();
 	await env.DB.prepare("DELETE FROM match_players").run();
 	await env.DB.prepare("DELETE FROM match_results").run();
+	await env.DB.prepare("DELETE FROM tournament_pairings").run();
+	await env.DB.prepare("DELETE FROM tournament_entrants").run();
+	await env.DB.prepare("DELETE FROM tournaments").run();
+	await env.DB.prepare("DELETE FROM rating_history").run();
+	await env.DB.prepare("DELETE FROM season_standings").run();
+	await env.DB.prepare("DELETE FROM seasons").run();
 	await env.DB.prepare("DELETE FROM leaderboard").run();
 	await env.DB.prepare("DELETE FROM matches").run();
 	await env.DB.prepare("DELETE FROM agent_prompt_active").run();
@@ -0,0 +1,29 @@
+import { applyMove, createInitialState, isTerminal } from "@fightclaw/engine";
+import { describe, expect, it } from "vitest";
+import { HOUSE_STRATEGIES } from "../src/constants/house";
+import { chooseHouseMove } from "../src/house/bots";
+
+describe("house bots", () => {
+	it("chooses the same move for the same state", () => {
+		const game = createInitialState(7, undefined, ["house", "agent"]);
+		for (const strategy of HOUSE_STRATEGIES) {
+			expect(chooseHouseMove(strategy, game, 3)).toEqual(
+				chooseHouseMove(strategy, game, 3),
+			);
+		}
+	});
+
+	it("only plays legal moves", () => {
+		let game = createInitialState(11, undefined, ["greedy", "aggressive"]);
+		for (let version = 0; version < 150; version++) {
+			if (isTerminal(game).ended) break;
+			const strategy = game.activePlayer === "A" ? "greedy" : "aggressive";
+			const move = chooseHouseMove(strategy, game, version);
+			expect(move).not.toBeNull();
+			const applied = applyMove(game, move as NonNullable<typeof move>);
+			expect(applied.ok).toBe(true);
+			if (!applied.ok) return;
+			game = applied.state;
+		}
+	});
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import {
+	clockDeadlineMs,
+	passClockTurn,
+	startClock,
+	viewClock,
+} from "../src/matches/clock";
+
+const control = { initialSeconds: 60, incrementSeconds: 2, delaySeconds: 3 };
+
+describe("match clock", () => {
+	it("gives both agents the initial bank", () => {
+		const clock = startClock(control, ["a", "b"], 1_000);
+		expect(clock.remainingMs).toEqual({ a: 60_000, b: 60_000 });
+		expect(clockDeadlineMs(control, clock, "a")).toBe(1_000 + 3_000 + 60_000);
+	});
+
+	it("charges time past the delay and adds the increment", () => {
+		const clock = startClock(control, ["a", "b"], 0);
+		const next = passClockTurn(control, clock, "a", 10_000);
+		expect(next.remainingMs).toEqual({ a: 60_000 - 7_000 + 2_000, b: 60_000 });
+		expect(next.turnStartedAtMs).toBe(10_000);
+	});
+
+	it("does not charge a turn played inside the delay", () => {
+		const clock = startClock(control, ["a", "b"], 0);
+		const next = passClockTurn(control, clock, "a", 2_000);
+		expect(next.remainingMs.a).toBe(62_000);
+	});
+
+	it("shows the active agent's running bank", () => {
+		const clock = startClock(control, ["a", "b"], 0);
+		const view = viewClock(control, clock, "b", 13_000);
+		expect(view.remainingMs).toEqual({ a: 60_000, b: 50_000 });
+		expect(view.turnDeadlineAtMs).toBe(63_000);
+		expect(viewClock(control, clock, "b", 100_000).remainingMs.b).toBe(0);
+	});
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { matchSettingsSchema } from "../src/contracts/matchSettings";
+
+describe("arranged match settings", () => {
+	it("accepts whitelisted engine overrides and a turn time control", () => {
+		const parsed = matchSettingsSchema.safeParse({
+			mapId: "arena_21x9",
+			fogOfWar: true,
+			engineConfig: {
+				turnLimit: 30,
+				victory: { vpThreshold: 12 },
+				drawRules: { repetitionLimit: 3 },
+			},
+			timeControl: { turnSeconds: 0 },
+		});
+		expect(parsed.success).toBe(true);
+	});
+
+	it("rejects board and unit-stat overrides", () => {
+		expect(
+			matchSettingsSchema.safeParse({ engineConfig: { boardColumns: 9 } })
+				.success,
+		).toBe(false);
+		expect(
+			matchSettingsSchema.safeParse({
+				engineConfig: { unitStats: { infantry: { attack: 99 } } },
+			}).success,
+		).toBe(false);
+	});
+
+	it("accepts a chess-clock time control", () => {
+		expect(
+			matchSettingsSchema.safeParse({
+				timeControl: {
+					initialSeconds: 300,
+					incrementSeconds: 5,
+					delaySeconds: 2,
+				},
+			}).success,
+		).toBe(true);
+	});
+
+	it("rejects out-of-range or mixed time controls", () => {
+		expect(
+			matchSettingsSchema.safeParse({ timeControl: { turnSeconds: -1 } })
+				.success,
+		).toBe(false);
+		expect(
+			matchSettingsSchema.safeParse({ timeControl: { initialSeconds: 0 } })
+				.success,
+		).toBe(false);
+		expect(
+			matchSettingsSchema.safeParse({
+				timeControl: { turnSeconds: 60, initialSeconds: 300 },
+			}).success,
+		).toBe(false);
+	});
+});
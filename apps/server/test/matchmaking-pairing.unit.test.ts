@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+	type PairingCandidate,
+	pairCost,
+	planQueuePairs,
+	searchWindow,
+} from "../src/matchmaking/pairing";
+
+const NOW = 1_000_000;
+
+const entry = (
+	agentId: string,
+	rating: number,
+	waitedSeconds = 0,
+	recentOpponents: string[] = [],
+): PairingCandidate => ({
+	agentId,
+	rating,
+	deviation: 50,
+	enqueuedAtMs: NOW - waitedSeconds * 1000,
+	recentOpponents,
+});
+
+const ranked = { nowMs: NOW, baseRange: 200, ranked: true };
+
+describe("matchmaking pairing", () => {
+	it("widens the ranked window with the longer wait", () => {
+		expect(pairCost(entry("a", 1500), entry("b", 1800), ranked)).toBeNull();
+		expect(
+			pairCost(entry("a", 1500, 30), entry("b", 1800), ranked),
+		).not.toBeNull();
+	});
+
+	it("ignores the window for casual pairs", () => {
+		expect(
+			pairCost(entry("a", 1000), entry("b", 2500), {
+				...ranked,
+				ranked: false,
+			}),
+		).not.toBeNull();
+	});
+
+	it("reports a search window that grows while waiting", () => {
+		const fresh = searchWindow(entry("a", 1500), ranked);
+		const waited = searchWindow(entry("a", 1500, 60), ranked);
+		expect(fresh).toEqual({ min: 1300, max: 1700 });
+		expect(waited.max - waited.min).toBeGreaterThan(fresh.max - fresh.min);
+	});
+
+	it("pairs the whole queue rather than first come, first served", () => {
+		// Greedy from the oldest entry would pair a with b and strand c and d.
+		const pairs = planQueuePairs(
+			[
+				entry("a", 1500, 10),
+				entry("b", 1550, 9),
+				entry("c", 1720, 8),
+				entry("d", 1350, 7),
+			],
+			ranked,
+		);
+		expect(pairs.map(([x, y]) => [x.agentId, y.agentId])).toEqual([
+			["a", "d"],
+			["b", "c"],
+		]);
+	});
+
+	it("avoids recent opponents unless no other pairing exists", () => {
+		const pairs = planQueuePairs(
+			[
+				entry("a", 1500, 3, ["b"]),
+				entry("b", 1500, 2, ["a"]),
+				entry("c", 1520, 1),
+				entry("d", 1530, 0),
+			],
+			ranked,
+		);
+		for (const [x, y] of pairs) {
+			expect([x.agentId, y.agentId].sort()).not.toEqual(["a", "b"]);
+		}
+
+		const onlyPair = planQueuePairs(
+			[entry("a", 1500, 3, ["b"]), entry("b", 1500, 2, ["a"])],
+			ranked,
+		);
+		expect(onlyPair).toHaveLength(1);
+	});
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import {
+	computeStandings,
+	type Pairing,
+	pairEliminationRound,
+	pairRoundRobinRound,
+	pairSwissRound,
+	plannedRounds,
+} from "../src/tournaments/pairing";
+
+const seeds = (count: number) =>
+	Array.from({ length: count }, (_, index) => `agent-${index + 1}`);
+
+const decide = (
+	pairings: Pairing[],
+	winner: (pairing: Pairing) => string | null,
+): Pairing[] =>
+	pairings.map((pairing) =>
+		pairing.status === "bye"
+			? pairing
+			: { ...pairing, status: "ended", winnerAgentId: winner(pairing) },
+	);
+
+const pairKey = (pairing: Pairing) =>
+	[pairing.agentA, pairing.agentB ?? "bye"].sort().join("|");
+
+describe("tournament pairing", () => {
+	it("plans rounds per format", () => {
+		expect(plannedRounds("round_robin", 6)).toBe(5);
+		expect(plannedRounds("round_robin", 5)).toBe(5);
+		expect(plannedRounds("single_elimination", 5)).toBe(3);
+		expect(plannedRounds("swiss", 8)).toBe(3);
+		expect(plannedRounds("swiss", 4, 10)).toBe(3);
+	});
+
+	it("schedules every round-robin meeting exactly once", () => {
+		const field = seeds(5);
+		const meetings = new Set<string>();
+		let byes = 0;
+		for (let round = 1; round <= plannedRounds("round_robin", 5); round++) {
+			const pairings = pairRoundRobinRound(field, round);
+			const seated = pairings.flatMap((p) => [p.agentA, p.agentB]);
+			expect(new Set(seated.filter(Boolean)).size).toBe(5);
+			for (const pairing of pairings) {
+				if (pairing.agentB === null) {
+					byes++;
+					continue;
+				}
+				const key = pairKey(pairing);
+				expect(meetings.has(key)).toBe(false);
+				meetings.add(key);
+			}
+		}
+		expect(meetings.size).toBe(10);
+		expect(byes).toBe(5);
+	});
+
+	it("seeds an elimination bracket and gives byes to top seeds", () => {
+		const field = seeds(6);
+		const first = pairEliminationRound(field, [], 1);
+		expect(first.map((p) => [p.agentA, p.agentB])).toEqual([
+			["agent-1", null],
+			["agent-4", "agent-5"],
+			["agent-2", null],
+			["agent-3", "agent-6"],
+		]);
+
+		// Lower seeds win every game; the draw-free bracket advances them.
+		const decided = decide(first, (p) => p.agentB);
+		const second = pairEliminationRound(field, decided, 2);
+		expect(second.map((p) => [p.agentA, p.agentB])).toEqual([
+			["agent-1", "agent-5"],
+			["agent-2", "agent-6"],
+		]);
+	});
+
+	it("advances the better seed from an elimination draw", () => {
+		const field = seeds(2);
+		const drawn = decide(pairEliminationRound(field, [], 1), () => null);
+		const standings = computeStandings(field, drawn, "single_elimination");
+		expect(standings[0]?.agentId).toBe("agent-1");
+		expect(standings[1]?.eliminated).toBe(true);
+	});
+
+	it("pairs swiss rounds by score without rematches", () => {
+		const field = seeds(8);
+		let history: Pairing[] = [];
+		for (let round = 1; round <= 3; round++) {
+			const pairings = pairSwissRound(field, history, round);
+			expect(pairings).toHaveLength(4);
+			const previous = new Set(history.map(pairKey));
+			for (const pairing of pairings) {
+				expect(previous.has(pairKey(pairing))).toBe(false);
+			}
+			// Better seed always wins.
+			history = [
+				...history,
+				...decide(pairings, (p) =>
+					field.indexOf(p.agentA) < field.indexOf(p.agentB as string)
+						? p.agentA
+						: p.agentB,
+				),
+			];
+		}
+		const standings = computeStandings(field, history, "swiss");
+		expect(standings[0]).toMatchObject({ agentId: "agent-1", points: 3 });
+	});
+
+	it("rotates the swiss bye to entrants without one", () => {
+		const field = seeds(3);
+		let history: Pairing[] = [];
+		const byes: string[] = [];
+		for (let round = 1; round <= 2; round++) {
+			const pairings = pairSwissRound(field, history, round);
+			const bye = pairings.find((p) => p.agentB === null);
+			expect(bye).toBeDefined();
+			byes.push(bye?.agentA as string);
+			history = [...history, ...decide(pairings, (p) => p.agentA)];
+		}
+		expect(new Set(byes).size).toBe(2);
+	});
+
+	it("breaks ties by Buchholz, then head-to-head", () => {
+		const field = seeds(4);
+		const game = (
+			round: number,
+			agentA: string,
+			agentB: string,
+			winnerAgentId: string | null,
+		): Pairing => ({
+			round,
+			table: 1,
+			agentA,
+			agentB,
+			matchId: null,
+			status: "ended",
+			winnerAgentId,
+		});
+		const history = [
+			game(1, "agent-1", "agent-2", "agent-2"),
+			game(1, "agent-3", "agent-4", "agent-3"),
+			game(2, "agent-2", "agent-3", "agent-3"),
+			game(2, "agent-1", "agent-4", "agent-1"),
+		];
+		const standings = computeStandings(field, history, "swiss");
+		expect(standings.map((s) => s.agentId)).toEqual([
+			"agent-3",
+			"agent-2",
+			"agent-1",
+			"agent-4",
+		]);
+		// agent-2 and agent-1 share one point; agent-2 met the leader.
+		expect(standings[1]?.buchholz).toBeGreaterThan(standings[2]?.buchholz ?? 0);
+	});
+});
@@ -0,0 +1,9 @@
+import { RULESET_VERSION } from "@fightclaw/engine";
+import { ENGINE_VERSION } from "@fightclaw/protocol";
+import { describe, expect, it } from "vitest";
+
+describe("version constants", () => {
+	it("advertises the ruleset new matches are created under", () => {
+		expect(ENGINE_VERSION).toBe(RULESET_VERSION);
+	});
+});
@@ -5,7 +5,7 @@ import {
 } from "../src/protocol/ws";
 
 describe("ws protocol schemas", () => {
-	it("accepts ranked queue_join and rejects casual", () => {
+	it("accepts ranked and casual queue_join and rejects other modes", () => {
 		expect(
 			agentWsInboundSchema.safeParse({ type: "queue_join", mode: "ranked" })
 				.success,
@@ -13,6 +13,10 @@ describe("ws protocol schemas", () => {
 		expect(
 			agentWsInboundSchema.safeParse({ type: "queue_join", mode: "casual" })
 				.success,
+		).toBe(true);
+		expect(
+			agentWsInboundSchema.safeParse({ type: "queue_join", mode: "blitz" })
+				.success,
 		).toBe(false);
 	});
 
@@ -26,4 +30,35 @@ describe("ws protocol schemas", () => {
 		});
 		expect(parsed.success).toBe(true);
 	});
+
+	it("accepts ranked rating changes on match_ended", () => {
+		const parsed = agentWsOutboundSchema.safeParse({
+			type: "match_ended",
+			matchId: crypto.randomUUID(),
+			winnerAgentId: null,
+			endReason: "terminal",
+			finalStateVersion: 40,
+			ratingChanges: [
+				{
+					agentId: crypto.randomUUID(),
+					ratingBefore: 1500,
+					ratingAfter: 1500,
+					delta: 0,
+					deviationAfter: 290,
+				},
+			],
+		});
+		expect(parsed.success).toBe(true);
+	});
+
+	it("accepts state_delta outbound envelope", () => {
+		const parsed = agentWsOutboundSchema.safeParse({
+			type: "state_delta",
+			matchId: crypto.randomUUID(),
+			fromStateVersion: 4,
+			stateVersion: 5,
+			delta: [{ op: "replace", path: "/actionsRemaining", value: 6 }],
+		});
+		expect(parsed.success).toBe(true);
+	});
 });
@@ -42,6 +42,8 @@ export default defineWorkersConfig(async () => {
 							SENTRY_ENVIRONMENT: "test",
 							MATCHMAKING_ELO_RANGE: "200",
 							TURN_TIMEOUT_SECONDS: "60",
+							HOUSE_AGENT_WAIT_SECONDS: "0",
+							HOUSE_MOVE_DELAY_MS: "10",
 							TEST_MODE: "true",
 							CORS_ORIGIN: "",
 							TEST_MIGRATIONS: migrations,
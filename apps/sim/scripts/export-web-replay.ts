@@ -113,9 +113,11 @@ function resolveEngineConfigForArtifact(
 ): EngineConfigInput {
 	const boardColumns =
 		artifact.boardColumns ?? artifact.engineConfig?.boardColumns ?? 17;
+	const boardRows = artifact.boardRows ?? artifact.engineConfig?.boardRows ?? 9;
 	return {
 		...(artifact.engineConfig ?? {}),
 		boardColumns,
+		boardRows,
 	};
 }
 
@@ -1,6 +1,7 @@
 import { createHash } from "node:crypto";
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import path from "node:path";
+import { RULESET_VERSION } from "@fightclaw/engine";
 import type {
 	HarnessConfig,
 	MatchArtifact,
@@ -48,12 +49,14 @@ export class ArtifactBuilder {
 			hashAlgo: "sha256",
 			stateHashInput: "stable-json-sorted-keys-v1",
 			engineRulesVersion: enginePackage.version ?? "0.0.0",
+			rulesetVersion: RULESET_VERSION,
 			simHarnessVersion: `sim-${simPackage.version ?? "0.0.0"}`,
 			redactionApplied: false,
 			seed: config.seed,
 			scenario: config.scenario,
 			engineConfig: config.engineConfig,
 			boardColumns: config.engineConfig?.boardColumns ?? 21,
+			boardRows: config.engineConfig?.boardRows ?? 9,
 			participants: config.players,
 			invalidPolicy: config.invalidPolicy,
 			acceptedMoves: [],
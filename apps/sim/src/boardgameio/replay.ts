@@ -17,6 +17,13 @@ export function replayBoardgameArtifact(artifact: MatchArtifact): ReplayResult {
 				artifact.participants,
 				artifact.engineConfig,
 			);
+	// Replay under the ruleset the match was played with. Older artifacts
+	// predate the field, and their state hashes were taken without it.
+	if (artifact.rulesetVersion) {
+		state.rulesetVersion = artifact.rulesetVersion;
+	} else {
+		delete state.rulesetVersion;
+	}
 
 	for (const entry of artifact.acceptedMoves) {
 		const preHash = hashState(state);
@@ -34,6 +41,15 @@ export function replayBoardgameArtifact(artifact: MatchArtifact): ReplayResult {
 			};
 		}
 		state = result.state;
+		if (
+			entry.postStateHash !== undefined &&
+			Engine.hashState(state) !== entry.postStateHash
+		) {
+			return {
+				ok: false,
+				error: `Engine state diverged at ply ${entry.ply}`,
+			};
+		}
 		const postHash = hashState(state);
 		if (postHash !== entry.postHash) {
 			return {
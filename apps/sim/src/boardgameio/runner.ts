@@ -234,6 +234,7 @@ export async function playMatchBoardgameIO(
 					engineMove,
 					preHash,
 					postHash,
+					postStateHash: Engine.hashState(next.G.matchState),
 				});
 				acceptedMoves.push(engineMove);
 
@@ -79,6 +79,9 @@ export interface AcceptedMoveRecord {
 	engineMove: Move;
 	preHash: string;
 	postHash: string;
+	// Engine.hashState after the move. Cheaper than postHash and blind to
+	// serialization details, so replays report semantic divergence first.
+	postStateHash?: string;
 }
 
 export interface TurnArtifact {
@@ -140,12 +143,15 @@ export interface MatchArtifact {
 	hashAlgo: "sha256";
 	stateHashInput: "stable-json-sorted-keys-v1";
 	engineRulesVersion: string;
+	// MatchState.rulesetVersion at creation; absent in pre-versioning artifacts.
+	rulesetVersion?: string;
 	simHarnessVersion: string;
 	redactionApplied: boolean;
 	seed: number;
 	scenario?: ScenarioName;
 	engineConfig?: EngineConfigInput;
-	boardColumns?: 17 | 21;
+	boardColumns?: number;
+	boardRows?: number;
 	participants: [AgentId, AgentId];
 	invalidPolicy: InvalidPolicy;
 	acceptedMoves: AcceptedMoveRecord[];
@@ -1,12 +1,15 @@
+import { Engine } from "../engineAdapter";
 import { pickOne } from "../rng";
-import type { Bot, Move } from "../types";
+import type { Bot, MatchState, Move } from "../types";
 
-function scoreMove(m: Move): number {
+function actionScore(m: Move): number {
 	switch (m.action) {
 		case "attack":
 			return 10;
 		case "recruit":
 			return 7;
+		case "upgrade":
+			return 5;
 		case "move":
 			return 3;
 		case "fortify":
@@ -17,15 +20,44 @@ function scoreMove(m: Move): number {
 	}
 }
 
+/**
+ * One-ply lookahead for attacks: rewards kills, damage and VP, penalising own
+ * losses. Other actions cannot change material before the turn ends, so they
+ * keep their action-type score.
+ */
+function scoreMove(state: MatchState, m: Move): number {
+	if (m.action !== "attack") return actionScore(m);
+	const preview = Engine.previewMove(state, m);
+	if (!preview.ok) return Number.NEGATIVE_INFINITY;
+	const side = state.activePlayer;
+	const enemy = side === "A" ? "B" : "A";
+	if (preview.terminal.ended) {
+		return preview.terminal.winner === state.players[side].id ? 1000 : -1000;
+	}
+
+	let score = actionScore(m);
+	score += 8 * preview.unitsLost[enemy].length;
+	score -= 8 * preview.unitsLost[side].length;
+	if (preview.combat) {
+		score += 2 * preview.combat.damageDealt - 2 * preview.combat.damageTaken;
+	}
+	for (const change of preview.captures) {
+		if (change.to === side) score += 2;
+		else if (change.from === side) score -= 2;
+	}
+	score += 4 * (preview.resources[side].vp - preview.resources[enemy].vp);
+	return score;
+}
+
 export function makeGreedyBot(id: string): Bot {
 	return {
 		id,
 		name: "GreedyBot",
-		chooseMove: async ({ legalMoves, rng }) => {
+		chooseMove: async ({ state, legalMoves, rng }) => {
 			let bestScore = Number.NEGATIVE_INFINITY;
 			let best: Move[] = [];
 			for (const m of legalMoves) {
-				const s = scoreMove(m);
+				const s = scoreMove(state, m);
 				if (s > bestScore) {
 					bestScore = s;
 					best = [m];
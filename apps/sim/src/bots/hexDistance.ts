@@ -0,0 +1,33 @@
+function parseHexId(hexId: string): { row: number; col: number } | undefined {
+	const match = /^([A-Za-z])(\d+)$/.exec(hexId);
+	if (!match) return undefined;
+	const rowToken = match[1];
+	if (!rowToken) return undefined;
+	const row = rowToken.toUpperCase().charCodeAt(0) - 65;
+	const col = Number.parseInt(match[2] ?? "", 10) - 1;
+	if (!Number.isFinite(col) || col < 0 || row < 0) return undefined;
+	return { row, col };
+}
+
+/**
+ * Unobstructed distance between two odd-r offset hex ids, via cube
+ * coordinates. Malformed ids are infinitely far away.
+ */
+export function hexDistance(fromHex: string, toHex: string): number {
+	const from = parseHexId(fromHex);
+	const to = parseHexId(toHex);
+	if (!from || !to) return Number.POSITIVE_INFINITY;
+
+	const fromQ = from.col - Math.floor((from.row - (from.row & 1)) / 2);
+	const fromR = from.row;
+	const fromS = -fromQ - fromR;
+	const toQ = to.col - Math.floor((to.row - (to.row & 1)) / 2);
+	const toR = to.row;
+	const toS = -toQ - toR;
+
+	return Math.max(
+		Math.abs(fromQ - toQ),
+		Math.abs(fromR - toR),
+		Math.abs(fromS - toS),
+	);
+}
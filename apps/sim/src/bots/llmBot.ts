@@ -12,6 +12,7 @@ import {
 	type ParsedCommand,
 	parseCommandsWithReasoning,
 } from "./commandParser";
+import { hexDistance } from "./hexDistance";
 import { encodeLegalMoves, encodeState } from "./stateEncoder";
 
 const DEFAULT_LLM_TIMEOUT_MS = 35_000;
@@ -891,36 +892,6 @@ function scoreAttackMove(
 	);
 }
 
-function parseHexId(hexId: string): { row: number; col: number } | undefined {
-	const match = /^([A-Za-z])(\d+)$/.exec(hexId);
-	if (!match) return undefined;
-	const rowToken = match[1];
-	if (!rowToken) return undefined;
-	const row = rowToken.toUpperCase().charCodeAt(0) - 65;
-	const col = Number.parseInt(match[2] ?? "", 10) - 1;
-	if (!Number.isFinite(col) || col < 0 || row < 0) return undefined;
-	return { row, col };
-}
-
-function hexDistance(fromHex: string, toHex: string): number {
-	const from = parseHexId(fromHex);
-	const to = parseHexId(toHex);
-	if (!from || !to) return Number.POSITIVE_INFINITY;
-
-	const fromQ = from.col - Math.floor((from.row - (from.row & 1)) / 2);
-	const fromR = from.row;
-	const fromS = -fromQ - fromR;
-	const toQ = to.col - Math.floor((to.row - (to.row & 1)) / 2);
-	const toR = to.row;
-	const toS = -toQ - toR;
-
-	return Math.max(
-		Math.abs(fromQ - toQ),
-		Math.abs(fromR - toR),
-		Math.abs(fromS - toS),
-	);
-}
-
 // ---------------------------------------------------------------------------
 // Response parsing (exported for testing)
 // ---------------------------------------------------------------------------
@@ -0,0 +1,311 @@
+import { Engine } from "../engineAdapter";
+import { mulberry32, pickOne } from "../rng";
+import type { Bot, MatchState, Move } from "../types";
+import { hexDistance } from "./hexDistance";
+
+type Side = "A" | "B";
+
+export type MctsBotOptions = {
+	/** Search iterations per decision (default 200). */
+	iterations?: number;
+	/** Optional wall-clock cap per decision; iterations still bound the search. */
+	timeBudgetMs?: number;
+	/** Fixed search seed. Defaults to a seed drawn from the match rng. */
+	seed?: number;
+	/** UCT exploration constant (default 1.2). */
+	exploration?: number;
+	/** Quiet unit moves kept per node after pruning (default 6). */
+	maxQuietMoves?: number;
+	/** Roll out the opponent's reply before evaluating a line (default true). */
+	opponentReply?: boolean;
+};
+
+type SearchNode = {
+	state: MatchState;
+	move: Move | null;
+	parent: SearchNode | null;
+	children: SearchNode[];
+	untried: Move[];
+	visits: number;
+	value: number;
+};
+
+const DEFAULTS = {
+	iterations: 200,
+	exploration: 1.2,
+	maxQuietMoves: 6,
+	opponentReply: true,
+} as const;
+
+// Material is the dominant term; a full-strength infantry is worth ~10.
+const EVAL_SCALE = 20;
+
+/**
+ * Monte Carlo tree search over the active player's turn. Each decision
+ * searches the remaining actions of the turn (up to `actionsPerTurn`), rolls
+ * out the rest of the turn and the opponent's reply with a cheap attack-first
+ * policy, and scores the result with a material/VP/control evaluation.
+ */
+export function makeMctsBot(id: string, options: MctsBotOptions = {}): Bot {
+	const config = {
+		...options,
+		iterations: options.iterations ?? DEFAULTS.iterations,
+		exploration: options.exploration ?? DEFAULTS.exploration,
+		maxQuietMoves: options.maxQuietMoves ?? DEFAULTS.maxQuietMoves,
+		opponentReply: options.opponentReply ?? DEFAULTS.opponentReply,
+	};
+	return {
+		id,
+		// The search budget is encoded in the name so mass runs can rebuild the
+		// bot in worker processes.
+		name:
+			config.timeBudgetMs === undefined
+				? `MctsBot_${config.iterations}`
+				: `MctsBot_${config.iterations}_${config.timeBudgetMs}ms`,
+		chooseMove: async ({ state, legalMoves, rng }) => {
+			const seed = options.seed ?? Math.floor(rng() * 4294967296);
+			return searchBestMove(state, legalMoves, mulberry32(seed), config);
+		},
+	};
+}
+
+function searchBestMove(
+	state: MatchState,
+	legalMoves: Move[],
+	rng: () => number,
+	config: MctsBotOptions & {
+		iterations: number;
+		exploration: number;
+		maxQuietMoves: number;
+		opponentReply: boolean;
+	},
+): Move {
+	const side = state.activePlayer;
+	const root = createNode(state, null, null, side, legalMoves, config);
+	if (root.untried.length === 1) return root.untried[0] as Move;
+
+	const deadline =
+		config.timeBudgetMs === undefined
+			? Number.POSITIVE_INFINITY
+			: Date.now() + config.timeBudgetMs;
+
+	for (let i = 0; i < config.iterations && Date.now() < deadline; i++) {
+		let node = root;
+		while (node.untried.length === 0 && node.children.length > 0) {
+			node = selectChild(node, config.exploration);
+		}
+		if (node.untried.length > 0) {
+			const index = Math.floor(rng() * node.untried.length);
+			const [move] = node.untried.splice(index, 1);
+			if (move) {
+				const next = applyFast(node.state, move);
+				if (next) {
+					const child = createNode(next, move, node, side, undefined, config);
+					node.children.push(child);
+					node = child;
+				}
+			}
+		}
+
+		const value = evaluate(rollout(node.state, side, rng, config), side);
+		for (let n: SearchNode | null = node; n; n = n.parent) {
+			n.visits++;
+			n.value += value;
+		}
+	}
+
+	let best: SearchNode | null = null;
+	for (const child of root.children) {
+		if (
+			!best ||
+			child.visits > best.visits ||
+			(child.visits === best.visits &&
+				child.value / child.visits > best.value / best.visits)
+		) {
+			best = child;
+		}
+	}
+	return best?.move ?? pickOne(legalMoves, rng);
+}
+
+function createNode(
+	state: MatchState,
+	move: Move | null,
+	parent: SearchNode | null,
+	side: Side,
+	legalMoves: Move[] | undefined,
+	config: { maxQuietMoves: number },
+): SearchNode {
+	const ownTurn = state.status === "active" && state.activePlayer === side;
+	return {
+		state,
+		move,
+		parent,
+		children: [],
+		untried: ownTurn
+			? candidateMoves(
+					state,
+					legalMoves ?? Engine.listLegalMoves(state),
+					config.maxQuietMoves,
+				)
+			: [],
+		visits: 0,
+		value: 0,
+	};
+}
+
+function selectChild(node: SearchNode, exploration: number): SearchNode {
+	const logVisits = Math.log(node.visits);
+	let best = node.children[0] as SearchNode;
+	let bestScore = Number.NEGATIVE_INFINITY;
+	for (const child of node.children) {
+		const score =
+			child.value / child.visits +
+			exploration * Math.sqrt(logVisits / child.visits);
+		if (score > bestScore) {
+			bestScore = score;
+			best = child;
+		}
+	}
+	return best;
+}
+
+// simulateTurn skips the delta computation that applyMove performs.
+function applyFast(state: MatchState, move: Move): MatchState | null {
+	const result = Engine.simulateTurn(state, [move]);
+	return result.applied === 1 ? result.state : null;
+}
+
+/**
+ * Prunes the legal move list: every attack, recruit, upgrade, fortify and
+ * end_turn is kept, but unit moves are limited to the ones that make the most
+ * progress toward enemy units or strongholds.
+ */
+function candidateMoves(
+	state: MatchState,
+	legalMoves: Move[],
+	maxQuietMoves: number,
+): Move[] {
+	const quiet: Array<{ move: Move; gain: number }> = [];
+	const kept: Move[] = [];
+	const targets = enemyTargets(state, state.activePlayer);
+	const positions = new Map(
+		state.players[state.activePlayer].units.map((u) => [u.id, u.position]),
+	);
+	for (const move of legalMoves) {
+		if (move.action !== "move") {
+			kept.push(move);
+			continue;
+		}
+		const from = positions.get(move.unitId);
+		if (!from || targets.length === 0) continue;
+		quiet.push({
+			move,
+			gain: nearestDistance(from, targets) - nearestDistance(move.to, targets),
+		});
+	}
+	quiet.sort((a, b) => b.gain - a.gain);
+	return [...kept, ...quiet.slice(0, maxQuietMoves).map((q) => q.move)];
+}
+
+function rollout(
+	state: MatchState,
+	side: Side,
+	rng: () => number,
+	config: { maxQuietMoves: number; opponentReply: boolean },
+): MatchState {
+	let current = playOutTurn(state, rng, config.maxQuietMoves);
+	if (config.opponentReply && current.activePlayer !== side) {
+		current = playOutTurn(current, rng, config.maxQuietMoves);
+	}
+	return current;
+}
+
+// Attack-first playout policy: take any attack, otherwise usually advance.
+function playOutTurn(
+	state: MatchState,
+	rng: () => number,
+	maxQuietMoves: number,
+): MatchState {
+	const side = state.activePlayer;
+	const turn = state.turn;
+	let current = state;
+	const maxSteps = Engine.getEngineConfig(state).actionsPerTurn;
+	for (let step = 0; step <= maxSteps; step++) {
+		if (
+			current.status !== "active" ||
+			current.activePlayer !== side ||
+			current.turn !== turn
+		) {
+			break;
+		}
+		const legal = Engine.listLegalMoves(current);
+		const attacks = legal.filter((m) => m.action === "attack");
+		let move: Move;
+		if (attacks.length > 0) {
+			move = pickOne(attacks, rng);
+		} else if (rng() < 0.8) {
+			const options = candidateMoves(current, legal, maxQuietMoves).filter(
+				(m) => m.action === "move" || m.action === "recruit",
+			);
+			move =
+				options.length > 0 ? pickOne(options, rng) : { action: "end_turn" };
+		} else {
+			move = { action: "end_turn" };
+		}
+		current =
+			applyFast(current, move) ??
+			applyFast(current, { action: "end_turn" }) ??
+			current;
+	}
+	return current;
+}
+
+/** Position value for `side` in [0, 1]. */
+function evaluate(state: MatchState, side: Side): number {
+	const terminal = Engine.isTerminal(state);
+	if (terminal.ended) {
+		if (terminal.winner === null) return 0.5;
+		return terminal.winner === state.players[side].id ? 1 : 0;
+	}
+	const enemy: Side = side === "A" ? "B" : "A";
+	const stats = Engine.getEngineConfig(state).unitStats;
+	const material = (s: Side) =>
+		state.players[s].units.reduce((sum, unit) => {
+			const cost = stats[unit.type].cost;
+			return sum + (cost * unit.hp) / Math.max(1, unit.maxHp);
+		}, 0);
+	let controlled = 0;
+	for (const hex of state.board) {
+		if (hex.controlledBy === side) controlled++;
+		else if (hex.controlledBy === enemy) controlled--;
+	}
+	const own = state.players[side];
+	const other = state.players[enemy];
+	const score =
+		material(side) -
+		material(enemy) +
+		4 * (own.vp - other.vp) +
+		0.5 * controlled +
+		0.2 * (own.gold - other.gold) +
+		0.1 * (own.wood - other.wood);
+	return 1 / (1 + Math.exp(-score / EVAL_SCALE));
+}
+
+function enemyTargets(state: MatchState, side: Side): string[] {
+	const enemy: Side = side === "A" ? "B" : "A";
+	const stronghold = enemy === "A" ? "stronghold_a" : "stronghold_b";
+	const targets = state.players[enemy].units.map((u) => u.position);
+	for (const hex of state.board) {
+		if (hex.type === stronghold) targets.push(hex.id);
+	}
+	return targets;
+}
+
+function nearestDistance(from: string, targets: string[]): number {
+	let best = Number.POSITIVE_INFINITY;
+	for (const target of targets) {
+		best = Math.min(best, hexDistance(from, target));
+	}
+	return best;
+}
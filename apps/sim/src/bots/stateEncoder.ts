@@ -35,10 +35,8 @@ const TERRAIN_DISPLAY: Record<string, string> = {
 	stronghold_b: "stronghold",
 };
 
-const ROWS = 9;
-
 function parseHexId(id: string): { row: number; col: number } | null {
-	const match = /^([A-I])(\d+)$/.exec(id);
+	const match = /^([A-Z])(\d+)$/.exec(id);
 	if (!match) return null;
 	const rowChar = match[1];
 	const colRaw = match[2];
@@ -53,7 +51,17 @@ function toHexId(row: number, col: number): string {
 	return `${String.fromCharCode(65 + row)}${col + 1}`;
 }
 
-function neighborsOfHex(id: string, cols: number): string[] {
+type BoardSize = { rows: number; cols: number };
+
+// The board is stored row-major, so the last hex carries both dimensions.
+function boardSize(state: MatchState): BoardSize {
+	const last = state.board[state.board.length - 1];
+	const parsed = last ? parseHexId(last.id) : null;
+	if (!parsed) return { rows: 0, cols: 0 };
+	return { rows: parsed.row + 1, cols: parsed.col + 1 };
+}
+
+function neighborsOfHex(id: string, size: BoardSize): string[] {
 	const parsed = parseHexId(id);
 	if (!parsed) return [];
 	const { row, col } = parsed;
@@ -79,7 +87,7 @@ function neighborsOfHex(id: string, cols: number): string[] {
 	for (const [dc, dr] of deltas) {
 		const nr = row + dr;
 		const nc = col + dc;
-		if (nr >= 0 && nr < ROWS && nc >= 0 && nc < cols) {
+		if (nr >= 0 && nr < size.rows && nc >= 0 && nc < size.cols) {
 			result.push(toHexId(nr, nc));
 		}
 	}
@@ -136,7 +144,7 @@ export function encodeState(
 	const enemy = state.players[enemySide];
 
 	const lines: string[] = [];
-	const boardCols = Math.floor(state.board.length / ROWS);
+	const size = boardSize(state);
 
 	// Header
 	lines.push(
@@ -212,13 +220,13 @@ export function encodeState(
 	const nearbyByB = new Set<string>();
 	for (const unit of player.units) {
 		nearbyByA.add(unit.position);
-		for (const nearby of neighborsOfHex(unit.position, boardCols)) {
+		for (const nearby of neighborsOfHex(unit.position, size)) {
 			nearbyByA.add(nearby);
 		}
 	}
 	for (const unit of enemy.units) {
 		nearbyByB.add(unit.position);
-		for (const nearby of neighborsOfHex(unit.position, boardCols)) {
+		for (const nearby of neighborsOfHex(unit.position, size)) {
 			nearbyByB.add(nearby);
 		}
 	}
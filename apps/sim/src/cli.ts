@@ -1,5 +1,6 @@
 import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
 import * as path from "node:path";
+import { getMapDefinition, listMaps } from "@fightclaw/engine";
 import minimist from "minimist";
 import { replayBoardgameArtifact } from "./boardgameio/replay";
 import type {
@@ -11,6 +12,7 @@ import type {
 import { makeAggressiveBot } from "./bots/aggressiveBot";
 import { makeGreedyBot } from "./bots/greedyBot";
 import { makeLlmBot } from "./bots/llmBot";
+import { makeMctsBot } from "./bots/mctsBot";
 import { makeMockLlmBot } from "./bots/mockLlmBot";
 import { makeRandomLegalBot } from "./bots/randomBot";
 import { playMatch, replayMatch } from "./match";
@@ -25,7 +27,7 @@ import type { Bot, EngineConfigInput } from "./types";
 
 type Args = ReturnType<typeof minimist>;
 
-type BotType = "random" | "greedy" | "aggressive" | "mockllm" | "llm";
+type BotType = "random" | "greedy" | "aggressive" | "mockllm" | "llm" | "mcts";
 type StrategyName = "aggressive" | "defensive" | "random" | "strategic";
 
 function inferApiKeyForBaseUrl(
@@ -65,11 +67,18 @@ function makeBot(
 		llmMaxTokens?: number;
 		openrouterReferrer?: string;
 		openrouterTitle?: string;
+		mctsIterations?: number;
+		mctsTimeMs?: number;
 	},
 ): Bot {
 	switch (type) {
 		case "greedy":
 			return makeGreedyBot(id);
+		case "mcts":
+			return makeMctsBot(id, {
+				iterations: opts?.mctsIterations,
+				timeBudgetMs: opts?.mctsTimeMs,
+			});
 		case "aggressive":
 			return makeAggressiveBot(id);
 		case "llm": {
@@ -561,19 +570,29 @@ function createCliContext(argv: Args): CliContext {
 
 	const turnLimit = num(argv.turnLimit, 40);
 	const actionsPerTurn = num(argv.actionsPerTurn, 7);
-	const boardColumnsRaw = num(argv.boardColumns, 17);
-	const boardColumns =
-		boardColumnsRaw === 17 || boardColumnsRaw === 21 ? boardColumnsRaw : 17;
+	const boardColumns = num(argv.boardColumns, 17);
+	const boardRows = num(argv.boardRows, 9);
 	const minRecommendedMaxTurns = Math.max(200, turnLimit * actionsPerTurn * 2);
 	const maxTurns =
 		argv.maxTurns === undefined
 			? minRecommendedMaxTurns
 			: num(argv.maxTurns, minRecommendedMaxTurns);
 
+	// The sim drives bots one action at a time, so only the sequential and
+	// alternating turn modes are offered here.
+	const turnMode =
+		stringArg(argv, "turnMode") === "alternating"
+			? "alternating"
+			: "sequential";
 	const engineConfig: EngineConfigInput = {
 		turnLimit,
 		actionsPerTurn,
-		boardColumns: boardColumns as 17 | 21,
+		boardColumns,
+		boardRows,
+		turnOrder: {
+			mode: turnMode,
+			secondMoverGold: num(argv.secondMoverGold, 0),
+		},
 	};
 
 	const bot1Type = (stringArg(argv, "bot1") ?? "greedy") as BotType;
@@ -608,7 +627,15 @@ function createCliContext(argv: Args): CliContext {
 	const model1 = stringArg(argv, "model1") ?? model;
 	const model2 = stringArg(argv, "model2") ?? model;
 
+	const mctsIterations = Math.max(1, num(argv.mctsIterations, 200));
+	const mctsTimeMs =
+		argv.mctsTimeMs === undefined
+			? undefined
+			: Math.max(1, num(argv.mctsTimeMs, 1000));
+
 	const sharedLlmBotConfig = {
+		mctsIterations,
+		mctsTimeMs,
 		llmDelayMs,
 		llmParallelCalls,
 		llmTimeoutMs,
@@ -650,7 +677,17 @@ function createCliContext(argv: Args): CliContext {
 	const storeFullPrompt = parseStoreFlag(argv, "storeFullPrompt", defaultStore);
 	const storeFullOutput = parseStoreFlag(argv, "storeFullOutput", defaultStore);
 
-	const scenario = stringArg(argv, "scenario") as ScenarioName | undefined;
+	// --scenario accepts either a combat scenario or a registered map id.
+	const scenarioArg = stringArg(argv, "scenario");
+	const scenarioMap = scenarioArg ? getMapDefinition(scenarioArg) : null;
+	if (scenarioMap) {
+		engineConfig.map = scenarioMap.id;
+		engineConfig.boardColumns = scenarioMap.boardColumns;
+		engineConfig.boardRows = scenarioMap.boardRows;
+	}
+	const scenario = scenarioMap
+		? undefined
+		: (scenarioArg as ScenarioName | undefined);
 
 	return {
 		seed,
@@ -935,10 +972,20 @@ function printUsageAndExit(): never {
 	console.error("Engine options:");
 	console.error("  --turnLimit N       Engine turn limit (default: 40)");
 	console.error("  --actionsPerTurn N  Actions per turn (default: 7)");
-	console.error("  --boardColumns N    Board width: 17 or 21 (default: 17)");
+	console.error("  --boardColumns N    Board width: 5-51 (default: 17)");
+	console.error("  --boardRows N       Board height: 3-26 (default: 9)");
+	console.error(
+		"  --turnMode MODE     sequential (default) or alternating single actions",
+	);
+	console.error("  --secondMoverGold N Extra starting gold for player B");
 	console.error(
 		"  --scenario NAME     Combat scenario: melee, ranged, stronghold_rush, midfield, all_infantry, all_cavalry, all_archer, infantry_archer, cavalry_archer, infantry_cavalry, high_ground_clash, forest_chokepoints, resource_race",
 	);
+	console.error(
+		`                      or a map id: ${listMaps()
+			.map((map) => map.id)
+			.join(", ")}`,
+	);
 	console.error(
 		"  --harness MODE      Runner harness: legacy, boardgameio (default: legacy)",
 	);
@@ -961,10 +1008,10 @@ function printUsageAndExit(): never {
 	console.error("");
 	console.error("Bot options (for single, tourney, mass):");
 	console.error(
-		"  --bot1 TYPE    P1 bot type: random, greedy, aggressive, mockllm, llm (default: greedy)",
+		"  --bot1 TYPE    P1 bot type: random, greedy, aggressive, mockllm, llm, mcts (default: greedy)",
 	);
 	console.error(
-		"  --bot2 TYPE    P2 bot type: random, greedy, aggressive, mockllm, llm (default: random)",
+		"  --bot2 TYPE    P2 bot type: random, greedy, aggressive, mockllm, llm, mcts (default: random)",
 	);
 	console.error(
 		'  --prompt1 TXT  Inline prompt for P1 mockllm/llm bot (e.g., "Always attack first")',
@@ -978,6 +1025,12 @@ function printUsageAndExit(): never {
 	console.error(
 		"  --strategy2 S  MockLLM strategy: aggressive, defensive, random, strategic",
 	);
+	console.error(
+		"  --mctsIterations N  Search iterations per decision for mcts bots (default: 200)",
+	);
+	console.error(
+		"  --mctsTimeMs MS     Optional wall-clock cap per mcts decision",
+	);
 	console.error("");
 	console.error("LLM options:");
 	console.error(
@@ -11,11 +11,20 @@ import {
 	createInitialState,
 	currentPlayer,
 	getEngineConfig,
+	hashState,
 	isTerminal,
 	listLegalMoves,
+	previewMove,
+	simulateTurn,
 	winner,
 } from "@fightclaw/engine";
-import type { AgentId, EngineConfigInput, MatchState, Move } from "./types";
+import type {
+	AgentId,
+	EngineConfig,
+	EngineConfigInput,
+	MatchState,
+	Move,
+} from "./types";
 
 export const Engine = {
 	createInitialState(
@@ -46,6 +55,18 @@ export const Engine = {
 		return applyMove(state, move);
 	},
 
+	previewMove(state: MatchState, move: Move) {
+		return previewMove(state, move);
+	},
+
+	simulateTurn(state: MatchState, moves: Move[]) {
+		return simulateTurn(state, moves);
+	},
+
+	hashState(state: MatchState): string {
+		return hashState(state);
+	},
+
 	bindEngineConfig(
 		state: MatchState,
 		configInput?: EngineConfigInput,
@@ -53,7 +74,7 @@ export const Engine = {
 		return bindEngineConfig(state, configInput);
 	},
 
-	getEngineConfig(state: MatchState): EngineConfigInput {
+	getEngineConfig(state: MatchState): EngineConfig {
 		return getEngineConfig(state);
 	},
 };
@@ -12,6 +12,7 @@ import type {
 } from "../boardgameio/types";
 import { makeAggressiveBot } from "../bots/aggressiveBot";
 import { makeGreedyBot } from "../bots/greedyBot";
+import { type MctsBotOptions, makeMctsBot } from "../bots/mctsBot";
 import type { MockLlmConfig } from "../bots/mockLlmBot";
 import { makeMockLlmBot } from "../bots/mockLlmBot";
 import { makeRandomLegalBot } from "../bots/randomBot";
@@ -21,9 +22,11 @@ import type { Bot, EngineConfigInput, MatchResult } from "../types";
 export interface BotConfig {
 	id: string;
 	name: string;
-	type: "random" | "greedy" | "aggressive" | "mockllm";
+	type: "random" | "greedy" | "aggressive" | "mockllm" | "mcts";
 	/** Mock LLM config (strategy + inline prompt), only used when type is "mockllm" */
 	llmConfig?: MockLlmConfig;
+	/** Search budget, only used when type is "mcts" */
+	mctsConfig?: MctsBotOptions;
 }
 
 interface BatchRequest {
@@ -68,6 +71,8 @@ function createBot(config: BotConfig): Bot {
 			return makeAggressiveBot(config.id);
 		case "mockllm":
 			return makeMockLlmBot(config.id, config.llmConfig);
+		case "mcts":
+			return makeMctsBot(config.id, config.mctsConfig);
 		default:
 			return makeRandomLegalBot(config.id);
 	}
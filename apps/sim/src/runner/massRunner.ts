@@ -252,6 +252,7 @@ function botToConfig(bot: Bot): BotConfig {
 	if (name.includes("greedy")) type = "greedy";
 	else if (name.includes("aggressive")) type = "aggressive";
 	else if (name.includes("mockllm")) type = "mockllm";
+	else if (name.includes("mcts")) type = "mcts";
 
 	// For mockllm bots, extract the strategy from the name (MockLLM_<strategy>)
 	const config: BotConfig = { id: String(bot.id), name: bot.name, type };
@@ -267,6 +268,15 @@ function botToConfig(bot: Bot): BotConfig {
 			| undefined;
 		config.llmConfig = { strategy: strategy ?? "strategic" };
 	}
+	if (type === "mcts") {
+		const budget = bot.name.match(/MctsBot_(\d+)(?:_(\d+)ms)?/);
+		if (budget?.[1]) {
+			config.mctsConfig = {
+				iterations: Number(budget[1]),
+				...(budget[2] ? { timeBudgetMs: Number(budget[2]) } : {}),
+			};
+		}
+	}
 	return config;
 }
 
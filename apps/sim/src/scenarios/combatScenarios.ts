@@ -6,6 +6,8 @@ import type { AgentId, EngineConfigInput, MatchState } from "../types";
 const BOARD_17_CANONICAL_COL_MAP = [
 	0, 1, 2, 3, 4, 5, 6, 7, 10, 13, 14, 15, 16, 17, 18, 19, 20,
 ] as const;
+const CANONICAL_ROWS = 9;
+const CANONICAL_COLUMNS = 21;
 
 type UnitType = BaseUnitType;
 type UnitOwner = PlayerSide;
@@ -236,8 +238,17 @@ function resolveScenarioHex(state: MatchState, requested: string): string {
 	const canonicalCol = coord.col - 1;
 	if (!Number.isFinite(canonicalCol) || canonicalCol < 0) return requested;
 
-	const cols = boardColumns(state);
-	if (cols !== 17) return requested;
+	const { rows, cols } = boardSize(state);
+	if (rows === CANONICAL_ROWS && cols === CANONICAL_COLUMNS) return requested;
+	if (rows !== CANONICAL_ROWS || cols !== 17) {
+		// Other board sizes: scale the canonical coordinate proportionally.
+		const canonicalRow = coord.row.charCodeAt(0) - 65;
+		const row = Math.round((canonicalRow * (rows - 1)) / (CANONICAL_ROWS - 1));
+		const col = Math.round(
+			(canonicalCol * (cols - 1)) / (CANONICAL_COLUMNS - 1),
+		);
+		return `${String.fromCharCode(65 + row)}${col + 1}`;
+	}
 
 	const map = BOARD_17_CANONICAL_COL_MAP as readonly number[];
 	const exact = map.indexOf(canonicalCol);
@@ -255,8 +266,12 @@ function resolveScenarioHex(state: MatchState, requested: string): string {
 	return `${coord.row}${nearestIndex + 1}`;
 }
 
-function boardColumns(state: MatchState): number {
-	return Math.floor(state.board.length / 9);
+// The board is stored row-major, so the last hex carries both dimensions.
+function boardSize(state: MatchState): { rows: number; cols: number } {
+	const last = state.board[state.board.length - 1];
+	const coord = last ? parseHexCoordinate(last.id) : undefined;
+	if (!coord) return { rows: 0, cols: 0 };
+	return { rows: coord.row.charCodeAt(0) - 64, cols: coord.col };
 }
 
 function findNearestEmptyInRow(
@@ -269,7 +284,7 @@ function findNearestEmptyInRow(
 	const col = coord.col;
 	if (!Number.isFinite(col) || col < 1) return undefined;
 
-	const cols = boardColumns(state);
+	const { cols } = boardSize(state);
 	const isEmpty = (candidateCol: number) => {
 		const id = `${row}${candidateCol}`;
 		const hex = getHexById(state, id);
@@ -289,7 +304,7 @@ function findNearestEmptyInRow(
 function parseHexCoordinate(
 	value: string,
 ): { row: string; col: number } | undefined {
-	const match = /^([A-I])(\d+)$/.exec(value);
+	const match = /^([A-Z])(\d+)$/.exec(value);
 	if (!match) return undefined;
 	const row = match[1] ?? "";
 	const col = Number.parseInt(match[2] ?? "", 10);
@@ -1,5 +1,6 @@
 import type {
 	AgentId,
+	EngineConfig,
 	EngineConfigInput,
 	EngineEvent,
 	GameState,
@@ -10,6 +11,7 @@ import type {
 
 export type {
 	AgentId,
+	EngineConfig,
 	EngineConfigInput,
 	EngineEvent,
 	GameState,
@@ -56,6 +56,12 @@ describe("boardgameio harness", () => {
 		expect(artifact.artifactVersion).toBe(1);
 		const replay = replayBoardgameArtifact(artifact);
 		expect(replay.ok).toBe(true);
+
+		expect(artifact.acceptedMoves[0].postStateHash).toMatch(/^[0-9a-f]{16}$/);
+		artifact.acceptedMoves[0].postStateHash = "0".repeat(16);
+		const tampered = replayBoardgameArtifact(artifact);
+		expect(tampered.ok).toBe(false);
+		expect(tampered.error).toBe("Engine state diverged at ply 1");
 	});
 
 	test("strict harness handles terminal turns without divergence errors", async () => {
@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { makeMctsBot } from "../src/bots/mctsBot";
+import { makeRandomLegalBot } from "../src/bots/randomBot";
+import { Engine } from "../src/engineAdapter";
+import { playMatch } from "../src/match";
+import { mulberry32 } from "../src/rng";
+import type { MatchState, Move } from "../src/types";
+
+function meleeState(): MatchState {
+	const state = Engine.createInitialState(3, ["P1", "P2"], {
+		boardColumns: 21,
+	});
+	state.players.A.units = state.players.A.units.slice(0, 1);
+	state.players.B.units = state.players.B.units.slice(0, 1);
+	const [attacker] = state.players.A.units;
+	const [defender] = state.players.B.units;
+	if (!attacker || !defender) throw new Error("missing starting units");
+	attacker.type = "cavalry";
+	attacker.position = "E10";
+	defender.position = "E11";
+	defender.hp = 1;
+	for (const hex of state.board) {
+		hex.unitIds = [];
+		if (hex.id === "E10") hex.unitIds = [attacker.id];
+		if (hex.id === "E11") hex.unitIds = [defender.id];
+	}
+	return Engine.bindEngineConfig(state, { boardColumns: 21 });
+}
+
+describe("mctsBot", () => {
+	test("finds the winning attack", async () => {
+		const state = meleeState();
+		const bot = makeMctsBot("P1", { iterations: 60, seed: 1 });
+		const move = await bot.chooseMove({
+			state,
+			legalMoves: Engine.listLegalMoves(state),
+			turn: 1,
+			rng: mulberry32(1),
+		});
+		expect(move).toEqual({
+			action: "attack",
+			unitId: state.players.A.units[0]?.id ?? "",
+			target: "E11",
+		} as Move);
+	});
+
+	test("is deterministic for a fixed seed", async () => {
+		const state = Engine.createInitialState(5, ["P1", "P2"]);
+		const legalMoves = Engine.listLegalMoves(state);
+		const choose = () =>
+			makeMctsBot("P1", { iterations: 40 }).chooseMove({
+				state,
+				legalMoves,
+				turn: 1,
+				rng: mulberry32(9),
+			});
+		expect(await choose()).toEqual(await choose());
+	});
+
+	test("encodes its search budget in its name", () => {
+		expect(makeMctsBot("P1", { iterations: 50 }).name).toBe("MctsBot_50");
+		expect(makeMctsBot("P1", { iterations: 50, timeBudgetMs: 250 }).name).toBe(
+			"MctsBot_50_250ms",
+		);
+	});
+
+	// Full playouts through the engine take several seconds on a slow machine.
+	test("completes a match against a random bot", async () => {
+		const result = await playMatch({
+			seed: 11,
+			players: [makeMctsBot("P1", { iterations: 8 }), makeRandomLegalBot("P2")],
+			maxTurns: 300,
+			autofixIllegal: false,
+			engineConfig: { turnLimit: 10, actionsPerTurn: 7 },
+		});
+		expect(result.illegalMoves).toBe(0);
+		expect(["terminal", "maxTurns"]).toContain(result.reason);
+	}, 30_000);
+});
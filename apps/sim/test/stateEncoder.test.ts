@@ -51,6 +51,17 @@ describe("stateEncoder", () => {
 		expect(encoded).toContain("D11=high_ground");
 	});
 
+	test("encodeState handles non-canonical board sizes", () => {
+		const state = Engine.createInitialState(1, ["a", "b"], {
+			boardRows: 13,
+			boardColumns: 25,
+		});
+		const encoded = encodeState(state, "A");
+		expect(encoded).toContain("UNITS_A:");
+		expect(encoded).toContain("TERRAIN_NEAR_UNITS:");
+		expect(encoded).not.toContain("undefined");
+	});
+
 	test("encodeLegalMoves categorizes by action type", () => {
 		// Move A-1 off stronghold B2 so recruit becomes available
 		let state = Engine.createInitialState(1, ["a", "b"]);
@@ -3,10 +3,10 @@ import { AnimatePresence } from "framer-motion";
 import { memo, useMemo, useRef } from "react";
 import type { ArenaEffect, DamageNumberEntry } from "@/lib/arena-animator";
 import {
+	boardDimensions,
 	boardViewBox,
 	HEX_RADIUS,
 	hexIdToPixel,
-	parseHexId,
 } from "@/lib/hex-geo";
 import { ArenaEffects } from "./arena-effects";
 import { DamageNumber } from "./damage-number";
@@ -35,22 +35,10 @@ export const HexBoard = memo(function HexBoard({
 }: HexBoardProps) {
 	const R = HEX_RADIUS;
 	// Derive actual board dimensions from state to centre the viewBox correctly
-	const boardCols = useMemo(() => {
-		let maxCol = 0;
-		for (const hex of state.board) {
-			const { col } = parseHexId(hex.id);
-			if (col > maxCol) maxCol = col;
-		}
-		return maxCol + 1;
-	}, [state.board]);
-	const boardRows = useMemo(() => {
-		let maxRow = 0;
-		for (const hex of state.board) {
-			const { row } = parseHexId(hex.id);
-			if (row > maxRow) maxRow = row;
-		}
-		return maxRow + 1;
-	}, [state.board]);
+	const { rows: boardRows, cols: boardCols } = useMemo(
+		() => boardDimensions(state.board),
+		[state.board],
+	);
 	const viewBox = boardViewBox(R, 4, boardCols, boardRows);
 
 	// Keep a ref to the previous state's units so dying units remain visible
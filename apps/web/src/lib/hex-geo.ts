@@ -22,6 +22,22 @@ export function hexToPixel(row: number, col: number, R: number): PixelPoint {
 	};
 }
 
+/** Board dimensions derived from the hex ids themselves (any rows × cols). */
+export function boardDimensions(board: ReadonlyArray<{ id: HexId }>): {
+	rows: number;
+	cols: number;
+} {
+	let maxRow = -1;
+	let maxCol = -1;
+	for (const hex of board) {
+		const { row, col } = parseHexIdEngine(hex.id);
+		if (row > maxRow) maxRow = row;
+		if (col > maxCol) maxCol = col;
+	}
+	if (maxRow < 0) return { rows: BOARD_ROWS, cols: BOARD_COLS };
+	return { rows: maxRow + 1, cols: maxCol + 1 };
+}
+
 export function hexIdToPixel(id: HexId, R: number): PixelPoint {
 	const { row, col } = parseHexIdEngine(id);
 	return hexToPixel(row, col, R);
@@ -1,4 +1,5 @@
 import {
+	applyDelta,
 	applyMove,
 	createInitialState,
 	DEFAULT_CONFIG,
@@ -6,11 +7,12 @@ import {
 	type EngineEvent,
 	type MatchState,
 	type Move,
+	type StateDelta,
 } from "@fightclaw/engine";
 import { env } from "@fightclaw/env/web";
 import type { AgentThoughtEvent } from "@fightclaw/protocol";
 import { createFileRoute } from "@tanstack/react-router";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { type RefObject, useEffect, useMemo, useRef, useState } from "react";
 
 import { SpectatorArena } from "@/components/arena/spectator-arena";
 import {
@@ -38,9 +40,21 @@ type StateEvent = {
 	eventVersion: 1;
 	event: "state";
 	matchId: string | null;
+	stateVersion?: number;
 	state: MatchState;
 };
 
+type StateDeltaEvent = {
+	eventVersion: 1;
+	event: "state_delta";
+	matchId: string | null;
+	fromStateVersion: number;
+	stateVersion: number;
+	delta: StateDelta;
+};
+
+type LiveState = { stateVersion: number | null; state: MatchState };
+
 const MAX_THOUGHTS = 80;
 
 function SpectatorLanding() {
@@ -59,6 +73,8 @@ function SpectatorLanding() {
 	const [isThinkingA, setIsThinkingA] = useState(false);
 	const [isThinkingB, setIsThinkingB] = useState(false);
 	const thoughtEventIdsRef = useRef(new Set<string>());
+	// Last state received from the spectate stream; deltas apply on top of it.
+	const liveStateRef = useRef<LiveState | null>(null);
 
 	const matchId = replayMatchId ?? featured?.matchId ?? null;
 
@@ -109,6 +125,7 @@ function SpectatorLanding() {
 
 		if (!matchId) {
 			resetAnimator();
+			liveStateRef.current = null;
 			setLatestState(null);
 			setConnectionStatus("idle");
 			setThoughtsA([]);
@@ -121,6 +138,7 @@ function SpectatorLanding() {
 
 		let active = true;
 		resetAnimator();
+		liveStateRef.current = null;
 		setLatestState(null);
 		setConnectionStatus("connecting");
 		setThoughtsA([]);
@@ -151,8 +169,12 @@ function SpectatorLanding() {
 		void fetchState();
 
 		const eventSource = new EventSource(
-			`${env.VITE_SERVER_URL}/v1/matches/${matchId}/spectate`,
+			`${env.VITE_SERVER_URL}/v1/matches/${matchId}/spectate?deltas=1`,
 		);
+		const resync = createStateResync(matchId, liveStateRef, (live) => {
+			if (!active) return;
+			setLatestState(live.state);
+		});
 
 		const handleStateEvent = (event: MessageEvent<string>) => {
 			let payload: StateEvent | null = null;
@@ -166,10 +188,38 @@ function SpectatorLanding() {
 			if (!active) return;
 			const state = parseStateFromEnvelope(payload);
 			if (!state) return;
+			liveStateRef.current = {
+				stateVersion: payload.stateVersion ?? null,
+				state,
+			};
 			setLatestState(state);
 			setConnectionStatus("live");
 		};
 
+		const handleStateDeltaEvent = (event: MessageEvent<string>) => {
+			let payload: StateDeltaEvent | null = null;
+			try {
+				payload = JSON.parse(event.data) as StateDeltaEvent;
+			} catch {
+				return;
+			}
+			if (
+				!payload ||
+				payload.eventVersion !== 1 ||
+				payload.event !== "state_delta"
+			)
+				return;
+			if (!active) return;
+			const next = applyStateDeltaEvent(liveStateRef.current, payload);
+			if (!next) {
+				void resync();
+				return;
+			}
+			liveStateRef.current = next;
+			setLatestState(next.state);
+			setConnectionStatus("live");
+		};
+
 		const handleEngineEvents = (event: MessageEvent<string>) => {
 			let payload: EngineEventsEnvelopeV1 | null = null;
 			try {
@@ -215,6 +265,10 @@ function SpectatorLanding() {
 		};
 
 		eventSource.addEventListener("state", handleStateEvent as EventListener);
+		eventSource.addEventListener(
+			"state_delta",
+			handleStateDeltaEvent as EventListener,
+		);
 		eventSource.addEventListener(
 			"engine_events",
 			handleEngineEvents as EventListener,
@@ -420,8 +474,12 @@ function SpectatorLanding() {
 		let active = true;
 
 		const eventSource = new EventSource(
-			`${env.VITE_SERVER_URL}/v1/matches/${replayMatchId}/spectate`,
+			`${env.VITE_SERVER_URL}/v1/matches/${replayMatchId}/spectate?deltas=1`,
 		);
+		const resync = createStateResync(replayMatchId, liveStateRef, (live) => {
+			if (!active) return;
+			setLatestState(live.state);
+		});
 
 		const handleStateEvent = (event: MessageEvent<string>) => {
 			let payload: StateEvent | null = null;
@@ -435,10 +493,38 @@ function SpectatorLanding() {
 			if (!active) return;
 			const state = parseStateFromEnvelope(payload);
 			if (!state) return;
+			liveStateRef.current = {
+				stateVersion: payload.stateVersion ?? null,
+				state,
+			};
 			setLatestState(state);
 			setConnectionStatus("live");
 		};
 
+		const handleStateDeltaEvent = (event: MessageEvent<string>) => {
+			let payload: StateDeltaEvent | null = null;
+			try {
+				payload = JSON.parse(event.data) as StateDeltaEvent;
+			} catch {
+				return;
+			}
+			if (
+				!payload ||
+				payload.eventVersion !== 1 ||
+				payload.event !== "state_delta"
+			)
+				return;
+			if (!active) return;
+			const next = applyStateDeltaEvent(liveStateRef.current, payload);
+			if (!next) {
+				void resync();
+				return;
+			}
+			liveStateRef.current = next;
+			setLatestState(next.state);
+			setConnectionStatus("live");
+		};
+
 		const handleEngineEvents = (event: MessageEvent<string>) => {
 			let payload: EngineEventsEnvelopeV1 | null = null;
 			try {
@@ -484,6 +570,10 @@ function SpectatorLanding() {
 		};
 
 		eventSource.addEventListener("state", handleStateEvent as EventListener);
+		eventSource.addEventListener(
+			"state_delta",
+			handleStateDeltaEvent as EventListener,
+		);
 		eventSource.addEventListener(
 			"engine_events",
 			handleEngineEvents as EventListener,
@@ -571,6 +661,58 @@ function parseStateFromEnvelope(input: unknown): MatchState | null {
 	return null;
 }
 
+// A delta only applies to the exact version it was computed from; on a gap the
+// caller refetches the snapshot instead.
+function applyStateDeltaEvent(
+	base: LiveState | null,
+	payload: StateDeltaEvent,
+): LiveState | null {
+	if (!base || base.stateVersion !== payload.fromStateVersion) return null;
+	if (!Array.isArray(payload.delta)) return null;
+	try {
+		return {
+			stateVersion: payload.stateVersion,
+			state: applyDelta(base.state, payload.delta),
+		};
+	} catch {
+		return null;
+	}
+}
+
+// Refetches `/state` after a missed delta. Calls made while a fetch is in
+// flight are dropped; a later gap triggers another fetch if this one was stale.
+function createStateResync(
+	matchId: string,
+	liveStateRef: RefObject<LiveState | null>,
+	onResync: (live: LiveState) => void,
+) {
+	let pending = false;
+	return async () => {
+		if (pending) return;
+		pending = true;
+		try {
+			const res = await fetch(
+				`${env.VITE_SERVER_URL}/v1/matches/${matchId}/state`,
+			);
+			if (!res.ok) return;
+			const json = (await res.json()) as {
+				state?: { stateVersion?: unknown } | null;
+			} | null;
+			const state = parseStateFromEnvelope(json);
+			const version = json?.state?.stateVersion;
+			if (!state || typeof version !== "number") return;
+			const current = liveStateRef.current?.stateVersion ?? null;
+			if (current !== null && version <= current) return;
+			liveStateRef.current = { stateVersion: version, state };
+			onResync(liveStateRef.current);
+		} catch {
+			/* keep the last state; the next gap retries */
+		} finally {
+			pending = false;
+		}
+	};
+}
+
 function parseReplayEngineConfig(
 	input: unknown,
 ): EngineConfigInput | undefined {
@@ -588,7 +730,16 @@ function sanitizeEngineConfigInput(
 		if (typeof input !== "number" || !Number.isFinite(input)) {
 			return undefined;
 		}
-		if (path === "boardColumns" && input !== 17 && input !== 21) {
+		if (
+			path === "boardColumns" &&
+			(!Number.isInteger(input) || input < 5 || input > 51)
+		) {
+			return undefined;
+		}
+		if (
+			path === "boardRows" &&
+			(!Number.isInteger(input) || input < 3 || input > 26)
+		) {
 			return undefined;
 		}
 		return input;
@@ -15,28 +15,70 @@ type LeaderboardEntry = {
 	updated_at?: string;
 };
 
+type Season = {
+	id: number;
+	name: string | null;
+	startedAt: string;
+	endedAt: string | null;
+};
+
 type LeaderboardResponse = {
+	season?: Season;
 	leaderboard: LeaderboardEntry[];
 };
 
+type SeasonsResponse = {
+	seasons: Season[];
+};
+
+const seasonLabel = (season: Season) =>
+	`${season.name ?? `Season ${season.id}`}${season.endedAt ? "" : " (current)"}`;
+
 function Leaderboard() {
 	const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+	const [seasons, setSeasons] = useState<Season[]>([]);
+	// null follows the current season.
+	const [seasonId, setSeasonId] = useState<number | null>(null);
+	const [shownSeason, setShownSeason] = useState<Season | null>(null);
 	const [loading, setLoading] = useState(true);
 	const [error, setError] = useState<string | null>(null);
 
+	useEffect(() => {
+		let active = true;
+		const fetchSeasons = async () => {
+			try {
+				const res = await fetch(`${env.VITE_SERVER_URL}/v1/seasons`);
+				if (!res.ok) return;
+				const json = (await res.json()) as SeasonsResponse;
+				if (active) setSeasons(json.seasons ?? []);
+			} catch {
+				// The selector is optional; the current leaderboard still loads.
+			}
+		};
+
+		void fetchSeasons();
+		return () => {
+			active = false;
+		};
+	}, []);
+
 	useEffect(() => {
 		let active = true;
 		const fetchLeaderboard = async () => {
 			setLoading(true);
 			setError(null);
 			try {
-				const res = await fetch(`${env.VITE_SERVER_URL}/v1/leaderboard`);
+				const query = seasonId === null ? "" : `?season=${seasonId}`;
+				const res = await fetch(
+					`${env.VITE_SERVER_URL}/v1/leaderboard${query}`,
+				);
 				if (!res.ok) {
 					throw new Error(`Leaderboard request failed (${res.status})`);
 				}
 				const json = (await res.json()) as LeaderboardResponse;
 				if (!active) return;
 				setEntries(json.leaderboard ?? []);
+				setShownSeason(json.season ?? null);
 			} catch (err) {
 				if (!active) return;
 				setError((err as Error).message ?? "Leaderboard unavailable.");
@@ -49,13 +91,38 @@ function Leaderboard() {
 		return () => {
 			active = false;
 		};
-	}, []);
+	}, [seasonId]);
+
+	const pastSeason = shownSeason?.endedAt ? shownSeason : null;
 
 	return (
 		<div className="leaderboard-page">
 			<div className="leaderboard-inner">
 				<h1 className="leaderboard-title">Leaderboard</h1>
-				<p className="leaderboard-subtitle">Top agents by rating.</p>
+				<p className="leaderboard-subtitle">
+					{pastSeason
+						? `Final standings for ${seasonLabel(pastSeason)}.`
+						: "Top agents by rating."}
+				</p>
+
+				{seasons.length > 1 ? (
+					<select
+						className="leaderboard-season-select"
+						aria-label="Season"
+						value={seasonId ?? ""}
+						onChange={(event) =>
+							setSeasonId(
+								event.target.value === "" ? null : Number(event.target.value),
+							)
+						}
+					>
+						{seasons.map((season) => (
+							<option key={season.id} value={season.endedAt ? season.id : ""}>
+								{seasonLabel(season)}
+							</option>
+						))}
+					</select>
+				) : null}
 
 				{loading ? (
 					<div className="leaderboard-loading">Loading leaderboard...</div>
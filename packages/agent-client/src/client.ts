@@ -3,11 +3,16 @@ import { z } from "zod";
 import { ArenaHttpError, asErrorEnvelope, isRecord } from "./errors";
 import { createRouteResolver } from "./routes";
 import type {
+	ActiveMatch,
+	ApiKeyCreateResponse,
+	ApiKeySummary,
 	ArenaClientOptions,
 	ClientLogEvent,
+	MatchLogEvent,
 	MatchStateResponse,
 	MeResponse,
 	MoveSubmitResponse,
+	QueueJoinOptions,
 	QueueJoinResponse,
 	QueueStatusResponse,
 	QueueWaitResponse,
@@ -42,6 +47,37 @@ const meSchema = z
 	})
 	.passthrough();
 
+const apiKeySummarySchema = z
+	.object({
+		id: z.string(),
+		prefix: z.string(),
+		label: z.string().nullable(),
+		createdAt: z.string(),
+		lastUsedAt: z.string().nullable(),
+		revokedAt: z.string().nullable(),
+		current: z.boolean(),
+	})
+	.passthrough();
+
+const apiKeyCreateSchema = z
+	.object({
+		key: apiKeySummarySchema,
+		apiKey: z.string(),
+	})
+	.passthrough();
+
+const apiKeyListSchema = z
+	.object({
+		keys: z.array(apiKeySummarySchema),
+	})
+	.passthrough();
+
+const apiKeyRevokeSchema = z
+	.object({
+		key: apiKeySummarySchema,
+	})
+	.passthrough();
+
 const queueJoinSchema = z
 	.object({
 		status: z.enum(["waiting", "ready"]),
@@ -55,6 +91,12 @@ const queueStatusSchema = z
 		status: z.enum(["idle", "waiting", "ready"]),
 		matchId: z.string().optional(),
 		opponentId: z.string().optional(),
+		waitedMs: z.number().optional(),
+		estimatedWaitMs: z.number().nullable().optional(),
+		searchWindow: z
+			.object({ min: z.number(), max: z.number() })
+			.nullable()
+			.optional(),
 	})
 	.passthrough();
 
@@ -119,6 +161,23 @@ const matchStateSchema = z
 	})
 	.passthrough();
 
+const matchLogSchema = z
+	.object({
+		events: z.array(
+			z
+				.object({
+					id: z.number().int(),
+					matchId: z.string(),
+					turn: z.number().int(),
+					ts: z.string(),
+					eventType: z.string(),
+					payload: z.unknown(),
+				})
+				.passthrough(),
+		),
+	})
+	.passthrough();
+
 const queueWaitSchema = z
 	.object({
 		events: z.array(z.unknown()),
@@ -317,12 +376,46 @@ export class ArenaClient {
 		};
 	}
 
-	async queueJoin(): Promise<QueueJoinResponse> {
+	/** Issues an extra key for this agent. Does not switch the client to it. */
+	async createApiKey(label?: string): Promise<ApiKeyCreateResponse> {
+		const payload = await this.requestJson<unknown>(
+			this.resolveRoute("auth_keys"),
+			{
+				method: "POST",
+				body: label === undefined ? {} : { label },
+				auth: "agent",
+			},
+		);
+		return apiKeyCreateSchema.parse(payload);
+	}
+
+	async listApiKeys(): Promise<ApiKeySummary[]> {
+		const payload = await this.requestJson<unknown>(
+			this.resolveRoute("auth_keys"),
+			{
+				auth: "agent",
+			},
+		);
+		return apiKeyListSchema.parse(payload).keys;
+	}
+
+	async revokeApiKey(keyId: string): Promise<ApiKeySummary> {
+		const payload = await this.requestJson<unknown>(
+			this.resolveRoute("auth_key", { keyId }),
+			{
+				method: "DELETE",
+				auth: "agent",
+			},
+		);
+		return apiKeyRevokeSchema.parse(payload).key;
+	}
+
+	async queueJoin(options: QueueJoinOptions = {}): Promise<QueueJoinResponse> {
 		const payload = await this.requestJson<unknown>(
 			this.resolveRoute("queue_join"),
 			{
 				method: "POST",
-				body: { mode: "ranked" },
+				body: { mode: options.mode ?? "ranked" },
 				auth: "agent",
 			},
 		);
@@ -347,7 +440,17 @@ export class ArenaClient {
 			if (!parsed.matchId) {
 				throw new Error("Queue status response missing matchId.");
 			}
-			return { status: "waiting", matchId: parsed.matchId };
+			return {
+				status: "waiting",
+				matchId: parsed.matchId,
+				...(parsed.waitedMs !== undefined ? { waitedMs: parsed.waitedMs } : {}),
+				...(parsed.estimatedWaitMs !== undefined
+					? { estimatedWaitMs: parsed.estimatedWaitMs }
+					: {}),
+				...(parsed.searchWindow !== undefined
+					? { searchWindow: parsed.searchWindow }
+					: {}),
+			};
 		}
 		if (!parsed.matchId || !parsed.opponentId) {
 			throw new Error("Queue ready response missing matchId/opponentId.");
@@ -359,6 +462,13 @@ export class ArenaClient {
 		};
 	}
 
+	/** The match this agent is currently playing, or null between matches. */
+	async getActiveMatch(): Promise<ActiveMatch | null> {
+		const status = await this.queueStatus();
+		if (status.status !== "ready") return null;
+		return { matchId: status.matchId, opponentId: status.opponentId };
+	}
+
 	async queueLeave(): Promise<void> {
 		await this.requestJson<unknown>(this.resolveRoute("queue_leave"), {
 			method: "DELETE",
@@ -424,6 +534,29 @@ export class ArenaClient {
 		return parsed as MatchStateResponse;
 	}
 
+	/**
+	 * Persisted match events after `afterId`, oldest first. Logs are public once
+	 * a match has ended; before that only the featured match is readable.
+	 */
+	async getMatchLog(
+		matchId: string,
+		options: { afterId?: number; limit?: number } = {},
+	): Promise<MatchLogEvent[]> {
+		const query = new URLSearchParams();
+		if (options.afterId !== undefined) {
+			query.set("afterId", String(options.afterId));
+		}
+		if (options.limit !== undefined) query.set("limit", String(options.limit));
+		const search = query.toString();
+		const response = await this.requestJson<unknown>(
+			`${this.resolveRoute("match_log", { matchId })}${search ? `?${search}` : ""}`,
+			{
+				auth: "agent",
+			},
+		);
+		return matchLogSchema.parse(response).events as MatchLogEvent[];
+	}
+
 	async subscribeMatchStream(
 		matchId: string,
 		handler: (event: SpectatorEvent) => Promise<void> | void,
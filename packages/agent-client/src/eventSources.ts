@@ -1,8 +1,21 @@
-import type { SpectatorEvent } from "@fightclaw/engine";
+import {
+	applyDelta,
+	bindEngineConfig,
+	type EngineConfigInput,
+	type EngineEvent,
+	type MatchState,
+	type SpectatorEvent,
+	type StateDelta,
+} from "@fightclaw/engine";
 import WebSocket from "ws";
 import type { ArenaClient } from "./client";
 import { isRecord } from "./errors";
-import type { MatchEventHandler, MatchEventSource } from "./types";
+import type {
+	MatchClock,
+	MatchEventHandler,
+	MatchEventSource,
+	RatingChange,
+} from "./types";
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
@@ -35,22 +48,45 @@ export class WsEventSource implements MatchEventSource {
 			},
 		});
 		let closedByClient = false;
+		// Deltas are applied to the last snapshot so handlers always see a full
+		// state payload.
+		let snapshot: { stateVersion: number; state: MatchState } | null = null;
+		let resyncing = false;
+		// Snapshots are bare games, so the match's engine overrides that come
+		// with `state` are bound back onto every game handed out.
+		let engineConfig: EngineConfigInput | null = null;
+		const bindConfig = (state: MatchState) =>
+			engineConfig ? bindEngineConfig(state, engineConfig) : state;
 
-		await new Promise<void>((resolve, reject) => {
-			const timer = setTimeout(() => {
-				ws.terminate();
-				reject(new Error("Timed out opening websocket event source."));
-			}, this.openTimeoutMs);
-			ws.once("open", () => {
-				clearTimeout(timer);
-				resolve();
-			});
-			ws.once("error", (error: Error) => {
-				clearTimeout(timer);
-				reject(error);
-			});
-		});
+		// A missed or unusable delta leaves nothing to patch, so the snapshot is
+		// refetched over HTTP rather than waiting for the next full `state`.
+		const resync = async () => {
+			if (resyncing) return;
+			resyncing = true;
+			try {
+				const fetched = await this.client.getMatchState(this.matchId);
+				const state = fetched.state;
+				if (!state || !isRecord(state.game)) return;
+				if (snapshot && snapshot.stateVersion >= state.stateVersion) return;
+				if (state.engineConfig) engineConfig = state.engineConfig;
+				snapshot = {
+					stateVersion: state.stateVersion,
+					state: bindConfig(state.game as unknown as MatchState),
+				};
+				void handler({
+					type: "state",
+					stateVersion: state.stateVersion,
+					payload: state,
+				});
+			} catch {
+				// The next gap retries.
+			} finally {
+				resyncing = false;
+			}
+		};
 
+		// Listen before the handshake settles: the first frames can arrive in the
+		// same read as the upgrade response, before "open" resumes this method.
 		ws.on("message", (raw: WebSocket.RawData) => {
 			const text = raw.toString();
 			let parsed: unknown = null;
@@ -65,16 +101,72 @@ export class WsEventSource implements MatchEventSource {
 					void handler({
 						type: "your_turn",
 						stateVersion: parsed.stateVersion,
+						...(isRecord(parsed.clock)
+							? { clock: parsed.clock as MatchClock }
+							: {}),
 					});
 				}
 				return;
 			}
 			if (parsed.type === "state") {
 				if (typeof parsed.stateVersion === "number") {
+					if (isRecord(parsed.engineConfig)) {
+						engineConfig = parsed.engineConfig as EngineConfigInput;
+					}
+					snapshot = isRecord(parsed.stateSnapshot)
+						? {
+								stateVersion: parsed.stateVersion,
+								state: bindConfig(parsed.stateSnapshot as MatchState),
+							}
+						: null;
 					void handler({
 						type: "state",
 						stateVersion: parsed.stateVersion,
-						payload: parsed.stateSnapshot,
+						payload: snapshot?.state ?? parsed.stateSnapshot,
+					});
+				}
+				return;
+			}
+			if (parsed.type === "state_delta") {
+				if (typeof parsed.stateVersion !== "number") return;
+				// Already covered by a resynced snapshot.
+				if (snapshot && snapshot.stateVersion >= parsed.stateVersion) return;
+				let next: MatchState | null = null;
+				if (
+					snapshot &&
+					snapshot.stateVersion === parsed.fromStateVersion &&
+					Array.isArray(parsed.delta)
+				) {
+					try {
+						next = bindConfig(
+							applyDelta(snapshot.state, parsed.delta as StateDelta),
+						);
+					} catch {
+						next = null;
+					}
+				}
+				snapshot = next
+					? { stateVersion: parsed.stateVersion, state: next }
+					: null;
+				void handler({
+					type: "state",
+					stateVersion: parsed.stateVersion,
+					payload: next,
+				});
+				if (!next) void resync();
+				return;
+			}
+			if (parsed.type === "engine_events") {
+				if (
+					typeof parsed.stateVersion === "number" &&
+					typeof parsed.agentId === "string" &&
+					Array.isArray(parsed.engineEvents)
+				) {
+					void handler({
+						type: "engine_events",
+						stateVersion: parsed.stateVersion,
+						agentId: parsed.agentId,
+						engineEvents: parsed.engineEvents as EngineEvent[],
 					});
 				}
 				return;
@@ -90,6 +182,9 @@ export class WsEventSource implements MatchEventSource {
 							? parsed.winnerAgentId
 							: null,
 					loserAgentId: null,
+					...(Array.isArray(parsed.ratingChanges)
+						? { ratingChanges: parsed.ratingChanges as RatingChange[] }
+						: {}),
 				});
 				return;
 			}
@@ -97,6 +192,21 @@ export class WsEventSource implements MatchEventSource {
 				void handler({ type: "error", error: parsed.error });
 			}
 		});
+		await new Promise<void>((resolve, reject) => {
+			const timer = setTimeout(() => {
+				ws.terminate();
+				reject(new Error("Timed out opening websocket event source."));
+			}, this.openTimeoutMs);
+			ws.once("open", () => {
+				clearTimeout(timer);
+				resolve();
+			});
+			ws.once("error", (error: Error) => {
+				clearTimeout(timer);
+				reject(error);
+			});
+		});
+
 		ws.on("error", (error: Error) => {
 			void handler({ type: "error", error: error.message });
 		});
@@ -176,6 +286,7 @@ export class HttpLongPollEventSource implements MatchEventSource {
 				reason: state.endReason,
 				winnerAgentId: state.winnerAgentId ?? null,
 				loserAgentId: state.loserAgentId ?? null,
+				...(state.ratingChanges ? { ratingChanges: state.ratingChanges } : {}),
 			});
 			return;
 		}
@@ -189,6 +300,7 @@ export class HttpLongPollEventSource implements MatchEventSource {
 			await handler({
 				type: "your_turn",
 				stateVersion: state.stateVersion,
+				...(payload.clock ? { clock: payload.clock } : {}),
 			});
 		}
 	}
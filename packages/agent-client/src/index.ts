@@ -1,16 +1,37 @@
 export { ArenaClient } from "./client";
 export { ArenaHttpError } from "./errors";
 export { HttpLongPollEventSource, WsEventSource } from "./eventSources";
+export { createFileMoveJournal } from "./journal";
+export type { ReplayRecorder } from "./recorder";
+export { buildReplayBundle, createReplayRecorder } from "./recorder";
 export type { RouteKey, RouteTable } from "./routes";
 export { defaultRoutes } from "./routes";
-export { runMatch } from "./runner";
+export { resumeMatch, runMatch } from "./runner";
 export type {
+	ActiveMatch,
+	ApiKeyCreateResponse,
+	ApiKeySummary,
 	ArenaClientOptions,
 	ClientLogEvent,
 	ErrorEnvelope,
+	MatchClock,
 	MatchEventSource,
+	MatchLogEvent,
+	MatchRecorder,
+	MatchRecording,
+	MoveJournal,
 	MoveProvider,
 	MoveProviderContext,
+	PendingMove,
+	QueueJoinOptions,
+	QueueMode,
+	RatingChange,
+	RecordedEvent,
+	RecordedMove,
+	ReplayBundle,
+	ReplayMatch,
+	ReplayStep,
+	ResumeMatchOptions,
 	RunMatchOptions,
 	RunMatchResult,
 	RunnerEvent,
@@ -0,0 +1,42 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { isRecord } from "./errors";
+import type { MoveJournal, PendingMove } from "./types";
+
+const isPendingMove = (value: unknown): value is PendingMove =>
+	isRecord(value) &&
+	typeof value.matchId === "string" &&
+	typeof value.moveId === "string" &&
+	typeof value.expectedVersion === "number" &&
+	isRecord(value.move);
+
+/** Keeps one JSON file per match in `directory`; writes are atomic renames. */
+export const createFileMoveJournal = (directory: string): MoveJournal => {
+	const pathFor = (matchId: string) =>
+		join(directory, `${encodeURIComponent(matchId)}.json`);
+
+	return {
+		load: async (matchId) => {
+			try {
+				const parsed: unknown = JSON.parse(
+					await readFile(pathFor(matchId), "utf8"),
+				);
+				return isPendingMove(parsed) && parsed.matchId === matchId
+					? parsed
+					: null;
+			} catch {
+				return null;
+			}
+		},
+		save: async (pending) => {
+			await mkdir(directory, { recursive: true });
+			const path = pathFor(pending.matchId);
+			const tmpPath = `${path}.tmp`;
+			await writeFile(tmpPath, JSON.stringify(pending));
+			await rename(tmpPath, path);
+		},
+		clear: async (matchId) => {
+			await rm(pathFor(matchId), { force: true });
+		},
+	};
+};
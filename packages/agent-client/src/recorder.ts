@@ -0,0 +1,189 @@
+import { createHash } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+	applyMove,
+	createInitialState,
+	type EngineConfig,
+	hashState,
+	type MatchState,
+	type Move,
+} from "@fightclaw/engine";
+import { isRecord } from "./errors";
+import type {
+	MatchRecorder,
+	MatchRecording,
+	ReplayBundle,
+	ReplayMatch,
+	ReplayStep,
+} from "./types";
+
+// Same step hashes as the sim's artifacts: sha256 of the key-sorted JSON.
+const sortKeys = (value: unknown): unknown => {
+	if (Array.isArray(value)) return value.map((item) => sortKeys(item));
+	if (!isRecord(value)) return value;
+	const out: Record<string, unknown> = {};
+	for (const key of Object.keys(value).sort()) {
+		out[key] = sortKeys(value[key]);
+	}
+	return out;
+};
+
+const stepHash = (state: MatchState) =>
+	createHash("sha256")
+		.update(JSON.stringify(sortKeys(state)))
+		.digest("hex");
+
+type MatchStartedPayload = {
+	players: [string, string];
+	seed: number;
+	mapId: string | null;
+	engineConfig: EngineConfig;
+};
+
+const parseMatchStarted = (payload: unknown): MatchStartedPayload | null => {
+	if (!isRecord(payload)) return null;
+	const { players, seed, mapId, engineConfig } = payload;
+	if (
+		!Array.isArray(players) ||
+		players.length !== 2 ||
+		!players.every((player) => typeof player === "string") ||
+		typeof seed !== "number" ||
+		!isRecord(engineConfig)
+	) {
+		return null;
+	}
+	return {
+		players: players as [string, string],
+		seed,
+		mapId: typeof mapId === "string" ? mapId : null,
+		engineConfig: engineConfig as EngineConfig,
+	};
+};
+
+const parseMoveApplied = (
+	payload: unknown,
+): { agentId: string; move: Move } | null => {
+	if (!isRecord(payload)) return null;
+	if (typeof payload.agentId !== "string" || !isRecord(payload.move)) {
+		return null;
+	}
+	return { agentId: payload.agentId, move: payload.move as Move };
+};
+
+/**
+ * Rebuilds the game from the log's `match_started` seed and config, then
+ * replays every applied move from both agents. Returns null when the log has
+ * no usable start event; stops early if the engine rejects a logged move.
+ */
+const toReplayMatch = (recording: MatchRecording): ReplayMatch | null => {
+	const startEvent = recording.log.find(
+		(event) => event.eventType === "match_started",
+	);
+	const started = parseMatchStarted(startEvent?.payload);
+	if (!started) return null;
+
+	const initialState = createInitialState(
+		started.seed,
+		{
+			...started.engineConfig,
+			...(started.mapId ? { map: started.mapId } : {}),
+		},
+		started.players,
+	);
+
+	const steps: ReplayStep[] = [];
+	let state: MatchState = initialState;
+	for (const event of recording.log) {
+		if (event.eventType !== "move_applied") continue;
+		const applied = parseMoveApplied(event.payload);
+		if (!applied) continue;
+		const result = applyMove(state, applied.move);
+		if (!result.ok) break;
+		steps.push({
+			ply: steps.length,
+			playerID: applied.agentId,
+			move: applied.move,
+			preHash: stepHash(state),
+			postHash: stepHash(result.state),
+			postStateHash: hashState(result.state),
+		});
+		state = result.state;
+	}
+
+	const [playerA, playerB] = started.players;
+	return {
+		id: recording.matchId,
+		label: `${recording.matchId.slice(0, 8)} ${playerA} vs ${playerB}`,
+		scenario: null,
+		seed: started.seed,
+		engineConfig: started.engineConfig,
+		participants: started.players,
+		result: {
+			winner: recording.result?.winnerAgentId ?? null,
+			reason: recording.result?.reason ?? "unknown",
+			turns: state.turn,
+			illegalMoves: recording.moves.filter((entry) => !entry.response.ok)
+				.length,
+		},
+		initialState,
+		steps,
+	};
+};
+
+export const buildReplayBundle = (
+	recordings: MatchRecording[],
+	runDir: string,
+): ReplayBundle => {
+	const matches = recordings
+		.map((recording) => toReplayMatch(recording))
+		.filter((match): match is ReplayMatch => match !== null);
+	return {
+		version: 1,
+		generatedAt: new Date().toISOString(),
+		runDir,
+		summaryPath: null,
+		matchCount: matches.length,
+		matches,
+		recordings,
+	};
+};
+
+export type ReplayRecorder = MatchRecorder & {
+	recording: () => MatchRecording | null;
+};
+
+/**
+ * Records one match and writes it to `outputPath` as a replay bundle the web
+ * `/dev` viewer can open.
+ */
+export const createReplayRecorder = (outputPath: string): ReplayRecorder => {
+	let current: MatchRecording | null = null;
+
+	return {
+		recording: () => current,
+		start: (match) => {
+			current = {
+				...match,
+				events: [],
+				moves: [],
+				result: null,
+				finalState: null,
+				log: [],
+			};
+		},
+		recordEvent: (event) => {
+			current?.events.push(event);
+		},
+		recordMove: (move) => {
+			current?.moves.push(move);
+		},
+		finish: async (outcome) => {
+			if (!current) return;
+			current = { ...current, ...outcome };
+			const bundle = buildReplayBundle([current], dirname(outputPath));
+			await mkdir(dirname(outputPath), { recursive: true });
+			await writeFile(outputPath, JSON.stringify(bundle, null, 2));
+		},
+	};
+};
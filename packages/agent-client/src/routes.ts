@@ -2,12 +2,15 @@ export type RouteKey =
 	| "auth_register"
 	| "auth_verify"
 	| "auth_me"
+	| "auth_keys"
+	| "auth_key"
 	| "queue_join"
 	| "queue_status"
 	| "queue_leave"
 	| "events_wait"
 	| "match_move"
 	| "match_state"
+	| "match_log"
 	| "match_stream"
 	| "match_ws";
 
@@ -17,12 +20,15 @@ export const defaultRoutes: RouteTable = {
 	auth_register: "/v1/auth/register",
 	auth_verify: "/v1/auth/verify",
 	auth_me: "/v1/auth/me",
+	auth_keys: "/v1/auth/keys",
+	auth_key: "/v1/auth/keys/:keyId",
 	queue_join: "/v1/queue/join",
 	queue_status: "/v1/queue/status",
 	queue_leave: "/v1/queue/leave",
 	events_wait: "/v1/events/wait",
 	match_move: "/v1/matches/:matchId/move",
 	match_state: "/v1/matches/:matchId/state",
+	match_log: "/v1/matches/:matchId/log",
 	match_stream: "/v1/matches/:matchId/stream",
 	match_ws: "/v1/matches/:matchId/ws",
 };
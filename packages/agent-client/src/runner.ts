@@ -1,14 +1,29 @@
 import { randomUUID } from "node:crypto";
-import type { Move } from "@fightclaw/engine";
+import {
+	bindEngineConfig,
+	type EngineConfigInput,
+	type EngineEvent,
+	listLegalMoves,
+	type MatchState,
+	type Move,
+	type PlayerSide,
+} from "@fightclaw/engine";
 import type { ArenaClient } from "./client";
+import { isRecord } from "./errors";
 import {
 	HttpLongPollEventSource,
 	parseQueueEvent,
 	WsEventSource,
 } from "./eventSources";
 import type {
+	MatchClock,
 	MatchEventSource,
+	MatchLogEvent,
+	MatchRecorder,
+	MoveProviderContext,
 	MoveSubmitResponse,
+	PendingMove,
+	ResumeMatchOptions,
 	RunMatchOptions,
 	RunMatchResult,
 	RunnerEvent,
@@ -19,8 +34,49 @@ const DEFAULT_TIMEOUT_FALLBACK_MOVE: Move = {
 	reasoning: "Timed safety fallback: pass turn.",
 };
 
+const EMPTY_PLAN_MOVE: Move = {
+	action: "end_turn",
+	reasoning: "Turn plan was empty: end turn.",
+};
+
 const MAX_CONSECUTIVE_ACTIONS_PER_TURN = 32;
 
+const MATCH_LOG_PAGE_SIZE = 1_000;
+
+const isGameState = (value: unknown): value is MatchState =>
+	isRecord(value) && Array.isArray(value.board) && isRecord(value.players);
+
+// WS snapshots are the game itself, already bound to the match's engine config
+// by WsEventSource; HTTP state wraps it with match metadata.
+const extractGameState = (payload: unknown): MatchState | null => {
+	if (isGameState(payload)) return payload;
+	if (!isRecord(payload) || !isGameState(payload.game)) return null;
+	return isRecord(payload.engineConfig)
+		? bindEngineConfig(payload.game, payload.engineConfig as EngineConfigInput)
+		: payload.game;
+};
+
+const sideForAgent = (
+	state: MatchState,
+	agentId: string,
+): PlayerSide | null => {
+	if (state.players.A?.id === agentId) return "A";
+	if (state.players.B?.id === agentId) return "B";
+	return null;
+};
+
+const safeLegalMoves = (state: MatchState): Move[] => {
+	try {
+		return listLegalMoves(state);
+	} catch {
+		return [];
+	}
+};
+
+// Identifies a move regardless of its reasoning text or key order.
+const moveKey = ({ reasoning: _reasoning, ...move }: Move) =>
+	JSON.stringify(Object.entries(move).sort());
+
 const getActiveAgentIdFromGame = (
 	game:
 		| {
@@ -78,40 +134,86 @@ const resolveTerminalFromMove = (
 	};
 };
 
-export const runMatch = async (
+const opponentFromGame = (
+	game: { players?: Record<string, { id?: string }> } | undefined,
+	agentId: string,
+) => {
+	for (const player of Object.values(game?.players ?? {})) {
+		if (typeof player.id === "string" && player.id !== agentId) {
+			return player.id;
+		}
+	}
+	return null;
+};
+
+const readMatchLog = async (client: ArenaClient, matchId: string) => {
+	const events: MatchLogEvent[] = [];
+	while (true) {
+		const page = await client.getMatchLog(matchId, {
+			afterId: events.at(-1)?.id ?? 0,
+			limit: MATCH_LOG_PAGE_SIZE,
+		});
+		events.push(...page);
+		if (page.length < MATCH_LOG_PAGE_SIZE) return events;
+	}
+};
+
+// The log only becomes public once the match has ended, so this runs last.
+// A failed read still finishes the recording, just without that part.
+const finishRecording = async (
+	client: ArenaClient,
+	recorder: MatchRecorder,
+	result: RunMatchResult,
+) => {
+	const [finalState, log] = await Promise.all([
+		client
+			.getMatchState(result.matchId)
+			.then((response) => response.state)
+			.catch(() => null),
+		readMatchLog(client, result.matchId).catch(() => []),
+	]);
+	await recorder.finish({ result, finalState, log });
+};
+
+type MatchSession = {
+	agentId: string;
+	matchId: string;
+	opponentId: string | null;
+	// Move journalled before a restart; resent first with its original moveId.
+	pending: PendingMove | null;
+};
+
+const playMatch = async (
 	client: ArenaClient,
 	options: RunMatchOptions,
+	session: MatchSession,
 ): Promise<RunMatchResult> => {
 	const preferredTransport = options.preferredTransport ?? "ws";
 	const allowTransportFallback = options.allowTransportFallback ?? true;
 	const wsOpenTimeoutMs = options.wsOpenTimeoutMs ?? 3_000;
-	const queueWaitTimeoutSeconds = options.queueWaitTimeoutSeconds ?? 30;
-	const queueTimeoutMs = options.queueTimeoutMs ?? 10 * 60 * 1000;
 	const httpPollIntervalMs = options.httpPollIntervalMs ?? 1_500;
 	const moveProviderTimeoutMs = options.moveProviderTimeoutMs;
 	const moveProviderTimeoutFallbackMove =
 		options.moveProviderTimeoutFallbackMove ?? DEFAULT_TIMEOUT_FALLBACK_MOVE;
-	const resolveMove = async (stateVersion: number): Promise<Move> => {
-		const moveContext = {
-			agentId: me.agentId,
-			matchId,
-			stateVersion,
-		};
+	const withProviderTimeout = async <T>(
+		task: Promise<T>,
+		fallback: T,
+	): Promise<T> => {
 		if (
 			typeof moveProviderTimeoutMs !== "number" ||
 			!Number.isFinite(moveProviderTimeoutMs) ||
 			moveProviderTimeoutMs <= 0
 		) {
-			return await options.moveProvider.nextMove(moveContext);
+			return await task;
 		}
 
 		let timeout: ReturnType<typeof setTimeout> | null = null;
 		try {
 			return await Promise.race([
-				options.moveProvider.nextMove(moveContext),
-				new Promise<Move>((resolveTimeout) => {
+				task,
+				new Promise<T>((resolveTimeout) => {
 					timeout = setTimeout(() => {
-						resolveTimeout(moveProviderTimeoutFallbackMove);
+						resolveTimeout(fallback);
 					}, moveProviderTimeoutMs);
 				}),
 			]);
@@ -120,26 +222,112 @@ export const runMatch = async (
 		}
 	};
 
-	const me = await client.me();
-	const joined = await client.queueJoin();
-	let matchId = joined.matchId;
-	const opponentId = joined.opponentId ?? null;
+	let latestState: { stateVersion: number; game: MatchState } | null = null;
+	let latestClock: MatchClock | null = null;
+	// Opponent engine events since our last turn started.
+	let opponentEvents: EngineEvent[] = [];
 
-	if (joined.status !== "ready") {
-		const startedAt = Date.now();
-		while (true) {
-			if (Date.now() - startedAt > queueTimeoutMs) {
-				throw new Error("Timed out waiting for queue match.");
+	const rememberState = (stateVersion: number, payload: unknown) => {
+		if (latestState && latestState.stateVersion > stateVersion) return;
+		const game = extractGameState(payload);
+		if (game) latestState = { stateVersion, game };
+	};
+
+	const resolveState = async (stateVersion: number) => {
+		if (latestState?.stateVersion !== stateVersion) {
+			try {
+				const fetched = await client.getMatchState(matchId);
+				if (fetched.state) {
+					rememberState(fetched.state.stateVersion, fetched.state);
+				}
+				if (fetched.clock) latestClock = fetched.clock;
+			} catch {
+				// The provider still gets a context, just without a fresh state.
 			}
-			const waited = await client.waitForMatch(queueWaitTimeoutSeconds);
-			const queueEvent = parseQueueEvent(waited.events);
-			if (!queueEvent) continue;
-			if (queueEvent.type === "match_found") {
-				matchId = queueEvent.matchId;
-				break;
+		}
+		return latestState?.game ?? null;
+	};
+
+	const buildMoveContext = async (
+		stateVersion: number,
+		previousTurnEvents: EngineEvent[],
+		blockedMoves: ReadonlySet<string>,
+	): Promise<MoveProviderContext> => {
+		const state = await resolveState(stateVersion);
+		return {
+			agentId: me.agentId,
+			matchId,
+			stateVersion,
+			state,
+			legalMoves: state
+				? safeLegalMoves(state).filter(
+						(move) => !blockedMoves.has(moveKey(move)),
+					)
+				: [],
+			side: state ? sideForAgent(state, me.agentId) : null,
+			clock: latestClock,
+			previousTurnEvents,
+		};
+	};
+
+	const resolveMove = async (
+		context: MoveProviderContext,
+		plan: Move[],
+	): Promise<Move> => {
+		const provider = options.moveProvider;
+		if (provider.nextTurn) {
+			if (plan.length === 0) {
+				const planned = await withProviderTimeout(provider.nextTurn(context), [
+					moveProviderTimeoutFallbackMove,
+				]);
+				plan.push(...planned);
 			}
+			return plan.shift() ?? EMPTY_PLAN_MOVE;
 		}
-	}
+		if (!provider.nextMove) {
+			throw new Error("moveProvider needs nextMove or nextTurn.");
+		}
+		return await withProviderTimeout(
+			provider.nextMove(context),
+			moveProviderTimeoutFallbackMove,
+		);
+	};
+
+	const me = { agentId: session.agentId };
+	const { matchId, opponentId } = session;
+	const journal = options.moveJournal;
+	const recorder = options.recorder;
+	recorder?.start({ agentId: me.agentId, matchId, opponentId });
+
+	const finishMatch = async (result: RunMatchResult) => {
+		if (recorder) await finishRecording(client, recorder, result);
+		return result;
+	};
+
+	// The journal entry outlives a crash mid-request, so a restarted runner
+	// can resend the same moveId and the server applies it at most once.
+	const submitJournaled = async (pending: PendingMove) => {
+		await journal?.save(pending);
+		const submittedAtMs = Date.now();
+		const response = await client.submitMove(matchId, {
+			moveId: pending.moveId,
+			expectedVersion: pending.expectedVersion,
+			move: pending.move,
+			...(pending.publicThought
+				? { publicThought: pending.publicThought }
+				: {}),
+		});
+		recorder?.recordMove({
+			moveId: pending.moveId,
+			expectedVersion: pending.expectedVersion,
+			move: pending.move,
+			submittedAt: new Date(submittedAtMs).toISOString(),
+			latencyMs: Date.now() - submittedAtMs,
+			response,
+		});
+		await journal?.clear(matchId);
+		return response;
+	};
 
 	const createHttpSource = () =>
 		new HttpLongPollEventSource(
@@ -160,6 +348,26 @@ export const runMatch = async (
 
 	const stopFns: Array<() => void> = [];
 
+	if (session.pending) {
+		const response = await submitJournaled(session.pending);
+		if (response.ok) {
+			lastObservedVersion = response.state.stateVersion;
+			rememberState(response.state.stateVersion, response.state);
+		}
+		const terminalFromMove = resolveTerminalFromMove(
+			response,
+			me.agentId,
+			opponentId,
+		);
+		if (terminalFromMove) {
+			return await finishMatch({
+				...terminalFromMove,
+				matchId,
+				transport: "http",
+			});
+		}
+	}
+
 	let terminal: RunMatchResult;
 	try {
 		terminal = await new Promise<RunMatchResult>((resolve, reject) => {
@@ -178,6 +386,11 @@ export const runMatch = async (
 						// Once fallback is active, treat WS as dead to avoid stale turn signals.
 						if (candidate.kind === "ws" && fallbackStarted) return;
 						transport = candidate.kind;
+						recorder?.recordEvent({
+							receivedAt: new Date().toISOString(),
+							transport: candidate.kind,
+							event,
+						});
 						await handleEvent(event, candidate.kind);
 					})
 					.then((stop) => {
@@ -203,6 +416,13 @@ export const runMatch = async (
 			) => {
 				if (event.type === "state") {
 					lastObservedVersion = event.stateVersion;
+					rememberState(event.stateVersion, event.payload);
+					return;
+				}
+				if (event.type === "engine_events") {
+					if (event.agentId !== me.agentId) {
+						opponentEvents.push(...event.engineEvents);
+					}
 					return;
 				}
 				if (event.type === "match_ended") {
@@ -218,6 +438,9 @@ export const runMatch = async (
 								opponentId,
 								event.winnerAgentId ?? null,
 							),
+						...(event.ratingChanges
+							? { ratingChanges: event.ratingChanges }
+							: {}),
 					});
 					return;
 				}
@@ -240,6 +463,7 @@ export const runMatch = async (
 					return;
 				}
 				if (event.type !== "your_turn") return;
+				if (event.clock) latestClock = event.clock;
 
 				const initialExpectedVersion =
 					event.stateVersion >= 0 ? event.stateVersion : lastObservedVersion;
@@ -253,24 +477,34 @@ export const runMatch = async (
 					return;
 				}
 				turnLoopInFlight = true;
+				const previousTurnEvents = opponentEvents;
+				opponentEvents = [];
 
 				try {
 					let expectedVersion = initialExpectedVersion;
 					let actionsApplied = 0;
+					const plan: Move[] = [];
+					const blockedMoves = new Set<string>();
 
 					while (actionsApplied < MAX_CONSECUTIVE_ACTIONS_PER_TURN) {
 						if (handledTurns.has(expectedVersion)) {
 							break;
 						}
 
-						const move = await resolveMove(expectedVersion);
+						const context = await buildMoveContext(
+							expectedVersion,
+							previousTurnEvents,
+							blockedMoves,
+						);
+						const move = await resolveMove(context, plan);
 						const publicThought =
 							typeof move.reasoning === "string" &&
 							move.reasoning.trim().length > 0
 								? move.reasoning
 								: undefined;
 
-						const response = await client.submitMove(matchId, {
+						const response = await submitJournaled({
+							matchId,
 							moveId: randomUUID(),
 							expectedVersion,
 							move,
@@ -278,6 +512,7 @@ export const runMatch = async (
 						});
 						if (response.ok) {
 							lastObservedVersion = response.state.stateVersion;
+							rememberState(response.state.stateVersion, response.state);
 							handledTurns.add(expectedVersion);
 						}
 
@@ -296,6 +531,14 @@ export const runMatch = async (
 						}
 
 						if (!response.ok) {
+							// Under fog a move can run into a unit this agent cannot see.
+							// The server rejects it without a forfeit, so choose again.
+							if (response.reason === "fog_blocked") {
+								blockedMoves.add(moveKey(move));
+								plan.length = 0;
+								actionsApplied += 1;
+								continue;
+							}
 							break;
 						}
 
@@ -325,5 +568,87 @@ export const runMatch = async (
 			stop();
 		}
 	}
-	return terminal;
+	return await finishMatch(terminal);
+};
+
+export const runMatch = async (
+	client: ArenaClient,
+	options: RunMatchOptions,
+): Promise<RunMatchResult> => {
+	const queueWaitTimeoutSeconds = options.queueWaitTimeoutSeconds ?? 30;
+	const queueTimeoutMs = options.queueTimeoutMs ?? 10 * 60 * 1000;
+
+	const me = await client.me();
+	const joined = await client.queueJoin({ mode: options.queueMode });
+	let matchId = joined.matchId;
+	const opponentId = joined.opponentId ?? null;
+
+	if (joined.status !== "ready") {
+		const startedAt = Date.now();
+		while (true) {
+			if (Date.now() - startedAt > queueTimeoutMs) {
+				throw new Error("Timed out waiting for queue match.");
+			}
+			const waited = await client.waitForMatch(queueWaitTimeoutSeconds);
+			const queueEvent = parseQueueEvent(waited.events);
+			if (!queueEvent) continue;
+			if (queueEvent.type === "match_found") {
+				matchId = queueEvent.matchId;
+				break;
+			}
+		}
+	}
+
+	return await playMatch(client, options, {
+		agentId: me.agentId,
+		matchId,
+		opponentId,
+		pending: null,
+	});
+};
+
+/**
+ * Reattaches to a match this agent is already in, e.g. after the runner
+ * restarted. Without `matchId` the agent's active match is used. A move left
+ * in `moveJournal` is resent with its original moveId before play continues.
+ */
+export const resumeMatch = async (
+	client: ArenaClient,
+	options: ResumeMatchOptions,
+): Promise<RunMatchResult> => {
+	const me = await client.me();
+	const active = options.matchId ? null : await client.getActiveMatch();
+	const matchId = options.matchId ?? active?.matchId;
+	if (!matchId) {
+		throw new Error("No active match to resume.");
+	}
+
+	const { state } = await client.getMatchState(matchId);
+	if (!state) {
+		throw new Error(`Match ${matchId} not found.`);
+	}
+	const opponentId =
+		active?.opponentId ?? opponentFromGame(state.game, me.agentId);
+
+	if (state.status === "ended") {
+		await options.moveJournal?.clear(matchId);
+		const winner = state.winnerAgentId ?? null;
+		return {
+			matchId,
+			transport: "http",
+			reason: state.endReason ?? "ended",
+			winnerAgentId: winner,
+			loserAgentId:
+				state.loserAgentId ?? normalizeLoser(me.agentId, opponentId, winner),
+			...(state.ratingChanges ? { ratingChanges: state.ratingChanges } : {}),
+		};
+	}
+
+	const pending = (await options.moveJournal?.load(matchId)) ?? null;
+	return await playMatch(client, options, {
+		agentId: me.agentId,
+		matchId,
+		opponentId,
+		pending,
+	});
 };
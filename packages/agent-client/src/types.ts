@@ -1,4 +1,12 @@
-import type { Move, SpectatorEvent } from "@fightclaw/engine";
+import type {
+	EngineConfig,
+	EngineConfigInput,
+	EngineEvent,
+	MatchState,
+	Move,
+	PlayerSide,
+	SpectatorEvent,
+} from "@fightclaw/engine";
 import type { RouteTable } from "./routes";
 
 export type ErrorEnvelope = {
@@ -47,6 +55,53 @@ export type MeResponse = {
 	apiKeyId: string | null;
 };
 
+/** One of the agent's API keys. The secret itself is only returned on creation. */
+export type ApiKeySummary = {
+	id: string;
+	prefix: string;
+	label: string | null;
+	createdAt: string;
+	lastUsedAt: string | null;
+	revokedAt: string | null;
+	/** True for the key that authenticated this request. */
+	current: boolean;
+};
+
+export type ApiKeyCreateResponse = {
+	key: ApiKeySummary;
+	apiKey: string;
+};
+
+export type QueueMode = "ranked" | "casual";
+
+export type QueueJoinOptions = {
+	/** Casual matches are played and recorded but never change ratings. */
+	mode?: QueueMode;
+};
+
+/** How a ranked result moved one agent's rating. */
+export type RatingChange = {
+	agentId: string;
+	ratingBefore: number;
+	ratingAfter: number;
+	delta: number;
+	deviationAfter: number;
+};
+
+/** Chess-clock banks, sent with `your_turn` in matches played on a clock. */
+export type MatchClock = {
+	remainingMs: Record<string, number>;
+	incrementMs: number;
+	delayMs: number;
+	activeAgentId: string | null;
+	turnDeadlineAtMs: number | null;
+};
+
+export type ActiveMatch = {
+	matchId: string;
+	opponentId: string;
+};
+
 export type QueueJoinResponse = {
 	status: "waiting" | "ready";
 	matchId: string;
@@ -55,7 +110,13 @@ export type QueueJoinResponse = {
 
 export type QueueStatusResponse =
 	| { status: "idle" }
-	| { status: "waiting"; matchId: string }
+	| {
+			status: "waiting";
+			matchId: string;
+			waitedMs?: number;
+			estimatedWaitMs?: number | null;
+			searchWindow?: { min: number; max: number } | null;
+	  }
 	| { status: "ready"; matchId: string; opponentId: string };
 
 export type MoveSubmitResponse =
@@ -90,11 +151,25 @@ export type MatchStateResponse = {
 		winnerAgentId?: string | null;
 		loserAgentId?: string | null;
 		endReason?: string;
+		ratingChanges?: RatingChange[];
+		/** Engine overrides for this match; absent when it uses the defaults. */
+		engineConfig?: EngineConfigInput;
 		game?: {
 			activePlayer?: string;
 			players?: Record<string, { id?: string }>;
 		};
 	} | null;
+	clock?: MatchClock;
+};
+
+/** One row of a match's persisted event log, as served by `/log`. */
+export type MatchLogEvent = {
+	id: number;
+	matchId: string;
+	turn: number;
+	ts: string;
+	eventType: string;
+	payload: unknown;
 };
 
 export type QueueWaitResponse = {
@@ -102,13 +177,20 @@ export type QueueWaitResponse = {
 };
 
 export type RunnerEvent =
-	| { type: "your_turn"; stateVersion: number }
+	| { type: "your_turn"; stateVersion: number; clock?: MatchClock }
 	| { type: "state"; stateVersion: number; payload: unknown }
+	| {
+			type: "engine_events";
+			stateVersion: number;
+			agentId: string;
+			engineEvents: EngineEvent[];
+	  }
 	| {
 			type: "match_ended";
 			reason?: string;
 			winnerAgentId?: string | null;
 			loserAgentId?: string | null;
+			ratingChanges?: RatingChange[];
 	  }
 	| { type: "error"; error: string };
 
@@ -116,11 +198,40 @@ export type MoveProviderContext = {
 	agentId: string;
 	matchId: string;
 	stateVersion: number;
+	/** Game state at `stateVersion` as this agent sees it; null if unavailable. */
+	state: MatchState | null;
+	/**
+	 * `listLegalMoves(state)`; empty when `state` is null. Under fog of war
+	 * `state` is this agent's view, so a listed move can still run into a
+	 * hidden unit. The server rejects those as `fog_blocked`, and the runner
+	 * leaves them out for the rest of the turn.
+	 */
+	legalMoves: Move[];
+	side: PlayerSide | null;
+	/** Chess-clock banks from the last `your_turn`; null without a clock. */
+	clock: MatchClock | null;
+	/**
+	 * Engine events from the opponent's turn before this one. Only the
+	 * websocket transport carries them, and never under fog of war.
+	 */
+	previousTurnEvents: EngineEvent[];
 };
 
-export type MoveProvider = {
-	nextMove: (context: MoveProviderContext) => Promise<Move>;
-};
+/**
+ * Supply `nextMove` to choose one action at a time, or `nextTurn` to plan the
+ * whole turn. A plan is submitted in order until the turn passes or an action
+ * is rejected. If it runs out while the turn is still ours, `nextTurn` is
+ * asked again; an empty plan ends the turn.
+ */
+export type MoveProvider =
+	| {
+			nextMove: (context: MoveProviderContext) => Promise<Move>;
+			nextTurn?: (context: MoveProviderContext) => Promise<Move[]>;
+	  }
+	| {
+			nextMove?: (context: MoveProviderContext) => Promise<Move>;
+			nextTurn: (context: MoveProviderContext) => Promise<Move[]>;
+	  };
 
 export type MatchEventHandler = (event: RunnerEvent) => Promise<void> | void;
 
@@ -129,8 +240,116 @@ export type MatchEventSource = {
 	start: (handler: MatchEventHandler) => Promise<() => void>;
 };
 
+/** A move about to be submitted, kept so a restarted runner can resend it. */
+export type PendingMove = {
+	matchId: string;
+	moveId: string;
+	expectedVersion: number;
+	move: Move;
+	publicThought?: string;
+};
+
+/** Durable slot for the one move a runner may have in flight per match. */
+export type MoveJournal = {
+	load: (matchId: string) => Promise<PendingMove | null>;
+	save: (pending: PendingMove) => Promise<void>;
+	clear: (matchId: string) => Promise<void>;
+};
+
+export type RecordedEvent = {
+	receivedAt: string;
+	transport: "ws" | "http";
+	event: RunnerEvent;
+};
+
+/** A move this runner submitted and how the server answered it. */
+export type RecordedMove = {
+	moveId: string;
+	expectedVersion: number;
+	move: Move;
+	submittedAt: string;
+	latencyMs: number;
+	response: MoveSubmitResponse;
+};
+
+export type MatchRecording = {
+	matchId: string;
+	agentId: string;
+	opponentId: string | null;
+	events: RecordedEvent[];
+	moves: RecordedMove[];
+	result: RunMatchResult | null;
+	/** Null if the state could not be fetched after the match ended. */
+	finalState: MatchStateResponse["state"];
+	/** The match's event log; empty if it could not be read. */
+	log: MatchLogEvent[];
+};
+
+/**
+ * Observes one match. `finish` runs once the match has ended, after the
+ * final state and the match log have been fetched.
+ */
+export type MatchRecorder = {
+	start: (
+		match: Pick<MatchRecording, "matchId" | "agentId" | "opponentId">,
+	) => void;
+	recordEvent: (event: RecordedEvent) => void;
+	recordMove: (move: RecordedMove) => void;
+	finish: (
+		outcome: Pick<MatchRecording, "result" | "finalState" | "log">,
+	) => Promise<void>;
+};
+
+export type ReplayStep = {
+	ply: number;
+	playerID: string;
+	move: Move;
+	preHash: string;
+	postHash: string;
+	/** `hashState` after the move, as in the sim's accepted-move records. */
+	postStateHash: string;
+};
+
+export type ReplayMatch = {
+	id: string;
+	label: string;
+	scenario: null;
+	seed: number;
+	engineConfig: EngineConfig;
+	participants: [string, string];
+	result: {
+		winner: string | null;
+		reason: string;
+		turns: number;
+		illegalMoves: number;
+	};
+	initialState: MatchState;
+	steps: ReplayStep[];
+};
+
+/**
+ * The bundle `apps/sim/scripts/export-web-replay.ts` writes and the web
+ * `/dev` replay viewer loads. `recordings` is our addition: the raw events,
+ * submitted moves with latency, and final state of each match. The viewer
+ * ignores it.
+ */
+export type ReplayBundle = {
+	version: 1;
+	generatedAt: string;
+	runDir: string;
+	summaryPath: string | null;
+	matchCount: number;
+	matches: ReplayMatch[];
+	recordings: MatchRecording[];
+};
+
 export type RunMatchOptions = {
 	moveProvider: MoveProvider;
+	/** Enables resending an in-flight move from `resumeMatch` after a crash. */
+	moveJournal?: MoveJournal;
+	/** Captures events, submitted moves and the final state of the match. */
+	recorder?: MatchRecorder;
+	queueMode?: QueueMode;
 	preferredTransport?: "ws" | "http";
 	allowTransportFallback?: boolean;
 	wsOpenTimeoutMs?: number;
@@ -141,10 +360,20 @@ export type RunMatchOptions = {
 	moveProviderTimeoutFallbackMove?: Move;
 };
 
+export type ResumeMatchOptions = Omit<
+	RunMatchOptions,
+	"queueMode" | "queueTimeoutMs" | "queueWaitTimeoutSeconds"
+> & {
+	/** Defaults to the agent's current active match. */
+	matchId?: string;
+};
+
 export type RunMatchResult = {
 	matchId: string;
 	transport: "ws" | "http";
 	reason: string;
 	winnerAgentId: string | null;
 	loserAgentId: string | null;
+	/** Ranked matches only; the entry for this agent is its rating delta. */
+	ratingChanges?: RatingChange[];
 };
@@ -0,0 +1,19 @@
+ALTER TABLE leaderboard ADD COLUMN rating_deviation REAL NOT NULL DEFAULT 350;
+ALTER TABLE leaderboard ADD COLUMN volatility REAL NOT NULL DEFAULT 0.06;
+ALTER TABLE leaderboard ADD COLUMN draws INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE leaderboard ADD COLUMN last_rated_at TEXT;
+
+-- Seed the new columns from ranked history. Deviation shrinks with games
+-- played as a first approximation; POST /v1/admin/ratings/backfill replays
+-- match_results through Glicko-2 for exact values.
+UPDATE leaderboard
+SET last_rated_at = (
+  SELECT MAX(r.created_at)
+  FROM match_results r
+  JOIN matches m ON m.id = r.match_id
+  JOIN match_players mp ON mp.match_id = r.match_id
+  WHERE m.mode = 'ranked' AND mp.agent_id = leaderboard.agent_id
+);
+
+UPDATE leaderboard
+SET rating_deviation = MAX(60, 350 - 10 * games_played);
@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS rating_history (
+  match_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  opponent_agent_id TEXT NOT NULL,
+  score REAL NOT NULL,
+  rating_before REAL NOT NULL,
+  rating_after REAL NOT NULL,
+  deviation_before REAL NOT NULL,
+  deviation_after REAL NOT NULL,
+  volatility_after REAL NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (match_id, agent_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rating_history_agent_created_at
+  ON rating_history(agent_id, created_at);
+
+-- Older ranked matches have no history rows until
+-- POST /v1/admin/ratings/backfill replays them.
@@ -0,0 +1,26 @@
+CREATE TABLE IF NOT EXISTS seasons (
+  id INTEGER PRIMARY KEY,
+  name TEXT,
+  started_at TEXT NOT NULL DEFAULT (datetime('now')),
+  ended_at TEXT
+);
+
+-- Everything played so far becomes season 1, still open.
+INSERT OR IGNORE INTO seasons (id, name, started_at)
+VALUES (1, 'Season 1', COALESCE((SELECT MIN(created_at) FROM matches), datetime('now')));
+
+CREATE TABLE IF NOT EXISTS season_standings (
+  season_id INTEGER NOT NULL,
+  agent_id TEXT NOT NULL,
+  rank INTEGER NOT NULL,
+  rating REAL NOT NULL,
+  rating_deviation REAL NOT NULL,
+  wins INTEGER NOT NULL,
+  losses INTEGER NOT NULL,
+  draws INTEGER NOT NULL,
+  games_played INTEGER NOT NULL,
+  PRIMARY KEY (season_id, agent_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_season_standings_season_rank
+  ON season_standings(season_id, rank);
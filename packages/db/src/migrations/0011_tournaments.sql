@@ -0,0 +1,40 @@
+CREATE TABLE IF NOT EXISTS tournaments (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  format TEXT NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'casual',
+  status TEXT NOT NULL DEFAULT 'registration',
+  planned_rounds INTEGER NOT NULL DEFAULT 0,
+  current_round INTEGER NOT NULL DEFAULT 0,
+  settings_json TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  started_at TEXT,
+  ended_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournaments_status_created_at
+  ON tournaments(status, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS tournament_entrants (
+  tournament_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  seed INTEGER,
+  registered_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (tournament_id, agent_id)
+);
+
+CREATE TABLE IF NOT EXISTS tournament_pairings (
+  tournament_id TEXT NOT NULL,
+  round INTEGER NOT NULL,
+  table_no INTEGER NOT NULL,
+  agent_a_id TEXT NOT NULL,
+  agent_b_id TEXT,
+  match_id TEXT,
+  status TEXT NOT NULL,
+  winner_agent_id TEXT,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (tournament_id, round, table_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_pairings_match
+  ON tournament_pairings(match_id);
@@ -0,0 +1,4 @@
+-- Server-side bots that fill the queue; NULL for every ordinary agent.
+ALTER TABLE agents ADD COLUMN house_strategy TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_agents_house_strategy ON agents(house_strategy);
@@ -7,6 +7,7 @@ export const agents = sqliteTable("agents", {
 	apiKeyHash: text("api_key_hash").notNull(),
 	verifiedAt: text("verified_at"),
 	disabledAt: text("disabled_at"),
+	houseStrategy: text("house_strategy"),
 	claimCodeHash: text("claim_code_hash"),
 	createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
 });
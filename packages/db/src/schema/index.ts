@@ -7,4 +7,7 @@ export * from "./match_players";
 export * from "./match_results";
 export * from "./matches";
 export * from "./prompt_versions";
+export * from "./rating_history";
 export * from "./runner_agent_ownership";
+export * from "./seasons";
+export * from "./tournaments";
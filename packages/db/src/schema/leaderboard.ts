@@ -1,11 +1,16 @@
 import { sql } from "drizzle-orm";
-import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { integer, real, sqliteTable, text } from "drizzle-orm/sqlite-core";
 
 export const leaderboard = sqliteTable("leaderboard", {
 	agentId: text("agent_id").primaryKey(),
-	rating: integer("rating").notNull().default(1500),
+	// Glicko-2 rating; stored unrounded in the INTEGER-affinity column.
+	rating: real("rating").notNull().default(1500),
+	ratingDeviation: real("rating_deviation").notNull().default(350),
+	volatility: real("volatility").notNull().default(0.06),
 	wins: integer("wins").notNull().default(0),
 	losses: integer("losses").notNull().default(0),
+	draws: integer("draws").notNull().default(0),
 	gamesPlayed: integer("games_played").notNull().default(0),
+	lastRatedAt: text("last_rated_at"),
 	updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
 });
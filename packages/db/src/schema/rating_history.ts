@@ -0,0 +1,21 @@
+import { sql } from "drizzle-orm";
+import { primaryKey, real, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+export const ratingHistory = sqliteTable(
+	"rating_history",
+	{
+		matchId: text("match_id").notNull(),
+		agentId: text("agent_id").notNull(),
+		opponentAgentId: text("opponent_agent_id").notNull(),
+		score: real("score").notNull(),
+		ratingBefore: real("rating_before").notNull(),
+		ratingAfter: real("rating_after").notNull(),
+		deviationBefore: real("deviation_before").notNull(),
+		deviationAfter: real("deviation_after").notNull(),
+		volatilityAfter: real("volatility_after").notNull(),
+		createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+	},
+	(table) => ({
+		pk: primaryKey({ columns: [table.matchId, table.agentId] }),
+	}),
+);
@@ -0,0 +1,34 @@
+import { sql } from "drizzle-orm";
+import {
+	integer,
+	primaryKey,
+	real,
+	sqliteTable,
+	text,
+} from "drizzle-orm/sqlite-core";
+
+export const seasons = sqliteTable("seasons", {
+	id: integer("id").primaryKey(),
+	name: text("name"),
+	startedAt: text("started_at").notNull().default(sql`(datetime('now'))`),
+	endedAt: text("ended_at"),
+});
+
+// Final leaderboard of a closed season, frozen when the season closes.
+export const seasonStandings = sqliteTable(
+	"season_standings",
+	{
+		seasonId: integer("season_id").notNull(),
+		agentId: text("agent_id").notNull(),
+		rank: integer("rank").notNull(),
+		rating: real("rating").notNull(),
+		ratingDeviation: real("rating_deviation").notNull(),
+		wins: integer("wins").notNull(),
+		losses: integer("losses").notNull(),
+		draws: integer("draws").notNull(),
+		gamesPlayed: integer("games_played").notNull(),
+	},
+	(table) => ({
+		pk: primaryKey({ columns: [table.seasonId, table.agentId] }),
+	}),
+);
@@ -0,0 +1,57 @@
+import { sql } from "drizzle-orm";
+import {
+	integer,
+	primaryKey,
+	sqliteTable,
+	text,
+} from "drizzle-orm/sqlite-core";
+
+export const tournaments = sqliteTable("tournaments", {
+	id: text("id").primaryKey(),
+	name: text("name").notNull(),
+	format: text("format").notNull(),
+	mode: text("mode").notNull().default("casual"),
+	status: text("status").notNull().default("registration"),
+	plannedRounds: integer("planned_rounds").notNull().default(0),
+	currentRound: integer("current_round").notNull().default(0),
+	settingsJson: text("settings_json"),
+	createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+	startedAt: text("started_at"),
+	endedAt: text("ended_at"),
+});
+
+export const tournamentEntrants = sqliteTable(
+	"tournament_entrants",
+	{
+		tournamentId: text("tournament_id").notNull(),
+		agentId: text("agent_id").notNull(),
+		seed: integer("seed"),
+		registeredAt: text("registered_at")
+			.notNull()
+			.default(sql`(datetime('now'))`),
+	},
+	(table) => ({
+		pk: primaryKey({ columns: [table.tournamentId, table.agentId] }),
+	}),
+);
+
+// Mirror of the TournamentDO bracket for reporting; the DO is authoritative.
+export const tournamentPairings = sqliteTable(
+	"tournament_pairings",
+	{
+		tournamentId: text("tournament_id").notNull(),
+		round: integer("round").notNull(),
+		tableNo: integer("table_no").notNull(),
+		agentAId: text("agent_a_id").notNull(),
+		agentBId: text("agent_b_id"),
+		matchId: text("match_id"),
+		status: text("status").notNull(),
+		winnerAgentId: text("winner_agent_id"),
+		updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+	},
+	(table) => ({
+		pk: primaryKey({
+			columns: [table.tournamentId, table.round, table.tableNo],
+		}),
+	}),
+);
@@ -4,7 +4,7 @@ import { z } from "zod";
 
 export type AgentId = string;
 export type PlayerSide = "A" | "B";
-export type HexId = string; // "A1".."I17" or "A1".."I21"
+export type HexId = string; // row letter + 1-based column, e.g. "A1".."I17"
 export type HexType =
 	| "plains"
 	| "forest"
@@ -67,6 +67,9 @@ export type HexState = {
 };
 
 export type MatchState = {
+	// Rules the match was created under; applyMove dispatches on it. States
+	// persisted before versioning omit it and are read as the v2 ruleset.
+	rulesetVersion?: string;
 	seed: number;
 	turn: number;
 	activePlayer: PlayerSide;
@@ -77,14 +80,40 @@ export type MatchState = {
 	};
 	board: HexState[];
 	status: "active" | "ended";
+	// Present only while a draw rule (EngineConfig.drawRules) is enabled.
+	drawHistory?: DrawHistory;
+	// Present only while the crown-hold victory (EngineConfig.victory) is enabled.
+	crownHold?: CrownHold;
+	// Present only in the alternating and simultaneous turn modes: actions each
+	// side has left in the current round.
+	roundActions?: Record<PlayerSide, number>;
 };
 
 export type GameState = MatchState;
 
+export type DrawHistory = {
+	// hashPosition -> number of player turns that started in that position.
+	positions: Record<string, number>;
+	// Last turn with an attack, recruit, upgrade or control change.
+	lastProgressTurn: number;
+};
+
+export type CrownHold = {
+	// Side controlling every crown hex, or null when they are split or empty.
+	side: PlayerSide | null;
+	// Consecutive own turn ends that `side` has finished holding the crown.
+	turns: number;
+};
+
 export type TerminalReason =
 	| "stronghold_capture"
 	| "elimination"
+	| "vp_threshold"
+	| "crown_hold"
+	| "economic_control"
 	| "turn_limit"
+	| "repetition"
+	| "no_progress"
 	| "draw";
 
 export type TerminalState =
@@ -95,7 +124,8 @@ export type MoveRejectionReason =
 	| "invalid_move_schema"
 	| "illegal_move"
 	| "invalid_move"
-	| "terminal";
+	| "terminal"
+	| "unsupported_ruleset";
 
 export type EngineEvent =
 	| {
@@ -191,45 +221,168 @@ export type EngineEvent =
 
 export type Event = EngineEvent;
 
+// JSON-Patch style operations (RFC 6902 subset). Paths are JSON Pointers
+// (RFC 6901) into a MatchState, e.g. "/players/A/gold" or "/board/12/unitIds".
+export type StateDeltaOp =
+	| { op: "replace"; path: string; value: unknown }
+	| { op: "add"; path: string; value: unknown }
+	| { op: "remove"; path: string };
+
+export type StateDelta = StateDeltaOp[];
+
+export type MoveRejection = {
+	ok: false;
+	state: MatchState;
+	engineEvents: EngineEvent[];
+	reason: MoveRejectionReason;
+	error: string;
+};
+
 export type ApplyMoveResult =
+	| {
+			ok: true;
+			state: MatchState;
+			engineEvents: EngineEvent[];
+			delta: StateDelta;
+	  }
+	| MoveRejection;
+
+type ExecuteMoveResult =
 	| { ok: true; state: MatchState; engineEvents: EngineEvent[] }
+	| MoveRejection;
+
+export type ControlChange = {
+	hex: HexId;
+	from: PlayerSide | null;
+	to: PlayerSide | null;
+};
+
+export type ResourceChange = { gold: number; wood: number; vp: number };
+
+export type MovePreview =
 	| {
-			ok: false;
+			ok: true;
+			// The state after the move; the input state is left untouched.
 			state: MatchState;
 			engineEvents: EngineEvent[];
-			reason: MoveRejectionReason;
-			error: string;
-	  };
+			// Resolved attack, if the move was one.
+			combat: {
+				attackerId: string;
+				targetHex: HexId;
+				ranged: boolean;
+				attackPower: number;
+				defensePower: number;
+				abilities: string[];
+				damageDealt: number;
+				damageTaken: number;
+				attackerCasualties: string[];
+				defenderCasualties: string[];
+				captured: boolean;
+			} | null;
+			// Hexes whose control changed, including end-of-turn control updates.
+			captures: ControlChange[];
+			unitsLost: Record<PlayerSide, string[]>;
+			resources: Record<PlayerSide, ResourceChange>;
+			endsTurn: boolean;
+			terminal: TerminalState;
+	  }
+	| { ok: false; reason: MoveRejectionReason; error: string };
+
+export type SimultaneousTurnResult = {
+	state: MatchState;
+	engineEvents: EngineEvent[];
+	// Plan moves applied per side.
+	applied: Record<PlayerSide, number>;
+	// Plan moves skipped because they were illegal when their slot came up.
+	rejected: {
+		side: PlayerSide;
+		index: number;
+		move: Move;
+		reason: MoveRejectionReason;
+		error: string;
+	}[];
+	terminal: TerminalState;
+};
+
+export type SimulateTurnResult = {
+	state: MatchState;
+	engineEvents: EngineEvent[];
+	// Number of leading moves that were applied.
+	applied: number;
+	rejected: {
+		index: number;
+		move: Move;
+		reason: MoveRejectionReason;
+		error: string;
+	} | null;
+	turnEnded: boolean;
+	terminal: TerminalState;
+};
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
+// Bump when a rules change would alter how an existing state plays out, and
+// register the previous implementation or a migrator (see "Rulesets").
+export const RULESET_VERSION = "war_of_attrition_v2";
+const UNVERSIONED_RULESET = "war_of_attrition_v2";
+
 const ROWS = 9;
+const MIN_BOARD_ROWS = 3;
+const MAX_BOARD_ROWS = 26;
+const MIN_BOARD_COLUMNS = 5;
+const MAX_BOARD_COLUMNS = 51;
 const ACTIONS_PER_TURN = 7;
 const TURN_LIMIT = 40;
 const FORTIFY_WOOD_COST = 2;
 const PLAYER_SIDES: PlayerSide[] = ["A", "B"];
 
-const ROW_LETTERS = "ABCDEFGHI";
+const ROW_LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
 
 const BOARD_17_CANONICAL_COL_MAP = [
 	0, 1, 2, 3, 4, 5, 6, 7, 10, 13, 14, 15, 16, 17, 18, 19, 20,
 ] as const;
 
-function inferBoardColumnsFromBoard(board: HexState[]): 17 | 21 {
-	if (board.length % ROWS !== 0) {
+type BoardSize = { rows: number; columns: number };
+
+function assertBoardSize(rows: number, columns: number): BoardSize {
+	if (
+		!Number.isInteger(rows) ||
+		rows < MIN_BOARD_ROWS ||
+		rows > MAX_BOARD_ROWS
+	) {
+		throw new Error(
+			`Unsupported boardRows=${String(rows)}; expected ${MIN_BOARD_ROWS}..${MAX_BOARD_ROWS}`,
+		);
+	}
+	if (
+		!Number.isInteger(columns) ||
+		columns < MIN_BOARD_COLUMNS ||
+		columns > MAX_BOARD_COLUMNS
+	) {
 		throw new Error(
-			`Invalid board length=${board.length}; expected multiple of ROWS=${ROWS}`,
+			`Unsupported boardColumns=${String(columns)}; expected ${MIN_BOARD_COLUMNS}..${MAX_BOARD_COLUMNS}`,
 		);
 	}
-	const inferred = board.length / ROWS;
-	if (inferred !== 17 && inferred !== 21) {
+	return { rows, columns };
+}
+
+// Boards are stored row-major, so the last hex id carries both dimensions.
+function inferBoardSizeFromBoard(board: HexState[]): BoardSize {
+	const last = board[board.length - 1];
+	if (!last) {
+		throw new Error("Invalid board: no hexes");
+	}
+	const { row, col } = parseHexId(last.id);
+	const rows = row + 1;
+	const columns = col + 1;
+	if (rows * columns !== board.length) {
 		throw new Error(
-			`Invalid inferred board columns=${inferred} from board length=${board.length}`,
+			`Invalid board length=${board.length} for inferred size ${rows}x${columns}`,
 		);
 	}
-	return inferred;
+	return assertBoardSize(rows, columns);
 }
 
 // ---------------------------------------------------------------------------
@@ -252,30 +405,48 @@ export function toHexId(row: number, col: number): HexId {
 	return `${ROW_LETTERS[row]}${col + 1}`;
 }
 
-function hexIdIndex(id: HexId, boardColumns: 17 | 21): number {
+function hexIdIndex(id: HexId, size: BoardSize): number {
 	const { row, col } = parseHexId(id);
-	return row * boardColumns + col;
+	return row * size.columns + col;
 }
 
-function isValidHexId(s: string, boardColumns: 17 | 21): boolean {
+export function isValidHexId(
+	s: string,
+	boardColumns: number,
+	boardRows: number = ROWS,
+): boolean {
 	if (s.length < 2 || s.length > 3) return false;
 	const rowChar = s[0];
 	if (!rowChar) return false;
 	const rowIdx = rowChar.charCodeAt(0) - 65;
-	if (rowIdx < 0 || rowIdx >= ROWS) return false;
-	const colNum = Number(s.slice(1));
+	if (rowIdx < 0 || rowIdx >= boardRows) return false;
+	const colStr = s.slice(1);
+	if (colStr.startsWith("0")) return false;
+	const colNum = Number(colStr);
 	if (!Number.isInteger(colNum) || colNum < 1 || colNum > boardColumns) {
 		return false;
 	}
 	return true;
 }
 
-export function neighborsOf(id: HexId, boardColumns: 17 | 21 = 17): HexId[] {
+export function neighborsOf(
+	id: HexId,
+	boardColumns = 17,
+	boardRows: number = ROWS,
+): HexId[] {
 	const { row, col } = parseHexId(id);
-	return neighbors(row, col, boardColumns);
+	return neighbors(row, col, { rows: boardRows, columns: boardColumns });
+}
+
+function isOnBoard(id: HexId, size: BoardSize): boolean {
+	return isValidHexId(id, size.columns, size.rows);
+}
+
+function neighborsOnBoard(id: HexId, size: BoardSize): HexId[] {
+	return neighborsOf(id, size.columns, size.rows);
 }
 
-function neighbors(row: number, col: number, boardColumns: 17 | 21): HexId[] {
+function neighbors(row: number, col: number, size: BoardSize): HexId[] {
 	// odd-r offset, pointy-top
 	const deltas: ReadonlyArray<readonly [number, number]> =
 		row % 2 === 0
@@ -299,27 +470,24 @@ function neighbors(row: number, col: number, boardColumns: 17 | 21): HexId[] {
 	for (const [dc, dr] of deltas) {
 		const nr = row + dr;
 		const nc = col + dc;
-		if (nr >= 0 && nr < ROWS && nc >= 0 && nc < boardColumns) {
+		if (nr >= 0 && nr < size.rows && nc >= 0 && nc < size.columns) {
 			result.push(toHexId(nr, nc));
 		}
 	}
 	return result;
 }
 
-function hexDistance(a: HexId, b: HexId, boardColumns: 17 | 21): number | null {
-	return bfsDistance(a, b, undefined, boardColumns);
+function hexDistance(a: HexId, b: HexId, size: BoardSize): number | null {
+	return bfsDistance(a, b, undefined, size);
 }
 
 function bfsDistance(
 	start: HexId,
 	target: HexId,
-	blocked?: Set<HexId>,
-	boardColumns: 17 | 21 = 17,
+	blocked: Set<HexId> | undefined,
+	size: BoardSize,
 ): number | null {
-	if (
-		!isValidHexId(start, boardColumns) ||
-		!isValidHexId(target, boardColumns)
-	) {
+	if (!isOnBoard(start, size) || !isOnBoard(target, size)) {
 		return null;
 	}
 	if (start === target) return 0;
@@ -329,7 +497,7 @@ function bfsDistance(
 	while (queue.length > 0) {
 		const current = queue.shift();
 		if (!current) continue;
-		for (const n of neighborsOf(current.id, boardColumns)) {
+		for (const n of neighborsOnBoard(current.id, size)) {
 			if (seen.has(n)) continue;
 			if (blocked?.has(n)) continue;
 			if (n === target) return current.dist + 1;
@@ -344,16 +512,16 @@ function pathDistance(
 	start: HexId,
 	target: HexId,
 	blocked: Set<HexId>,
-	boardColumns: 17 | 21,
+	size: BoardSize,
 ): number | null {
-	return bfsDistance(start, target, blocked, boardColumns);
+	return bfsDistance(start, target, blocked, size);
 }
 
 function reachableHexes(
 	start: HexId,
 	range: number,
 	blocked: Set<HexId>,
-	boardColumns: 17 | 21,
+	size: BoardSize,
 ): HexId[] {
 	const results: HexId[] = [];
 	const queue: Array<{ id: HexId; dist: number }> = [{ id: start, dist: 0 }];
@@ -361,7 +529,7 @@ function reachableHexes(
 	while (queue.length > 0) {
 		const current = queue.shift();
 		if (!current) continue;
-		for (const n of neighborsOf(current.id, boardColumns)) {
+		for (const n of neighborsOnBoard(current.id, size)) {
 			if (seen.has(n)) continue;
 			if (blocked.has(n)) continue;
 			const nextDist = current.dist + 1;
@@ -382,7 +550,7 @@ function hasForestFreePath(
 	pathLen: number,
 	blocked: Set<HexId>,
 	board: HexState[],
-	boardColumns: 17 | 21,
+	size: BoardSize,
 ): boolean {
 	if (pathLen <= 1) return true; // adjacent, no intermediate hexes
 
@@ -398,7 +566,7 @@ function hasForestFreePath(
 		if (!current) continue;
 		if (current.dist >= pathLen) continue;
 
-		for (const n of neighborsOf(current.id, boardColumns)) {
+		for (const n of neighborsOnBoard(current.id, size)) {
 			if (blocked.has(n) && n !== target) continue;
 			const nextDist = current.dist + 1;
 			if (nextDist > pathLen) continue;
@@ -411,7 +579,7 @@ function hasForestFreePath(
 			const prev = bestDist.get(n);
 			if (prev !== undefined && prev < nextDist) continue;
 
-			const hex = board[hexIdIndex(n, boardColumns)];
+			const hex = board[hexIdIndex(n, size)];
 			const isForest = hex?.type === "forest";
 			const ff = current.forestFree && !isForest;
 
@@ -434,7 +602,7 @@ function hasForestFreePath(
 
 export const HexIdSchema = z
 	.string()
-	.regex(/^[A-I](1[0-9]|2[01]|[1-9])$/, "Invalid HexId");
+	.regex(/^[A-Z][1-9][0-9]?$/, "Invalid HexId");
 
 export const UnitTypeSchema = z.enum([
 	"infantry",
@@ -445,6 +613,19 @@ export const UnitTypeSchema = z.enum([
 	"crossbow",
 ]);
 export const BaseUnitTypeSchema = z.enum(["infantry", "cavalry", "archer"]);
+export const HexTypeSchema = z.enum([
+	"plains",
+	"forest",
+	"hills",
+	"high_ground",
+	"gold_mine",
+	"lumber_camp",
+	"crown",
+	"stronghold_a",
+	"stronghold_b",
+	"deploy_a",
+	"deploy_b",
+]);
 
 export const MoveSchema = z.discriminatedUnion("action", [
 	z
@@ -514,6 +695,7 @@ const UnitSchema = z.object({
 });
 
 export const MatchStateSchema = z.object({
+	rulesetVersion: z.string().optional(),
 	seed: z.number().int(),
 	turn: z.number().int(),
 	activePlayer: z.enum(["A", "B"]),
@@ -537,25 +719,31 @@ export const MatchStateSchema = z.object({
 	board: z.array(
 		z.object({
 			id: HexIdSchema,
-			type: z.enum([
-				"plains",
-				"forest",
-				"hills",
-				"high_ground",
-				"gold_mine",
-				"lumber_camp",
-				"crown",
-				"stronghold_a",
-				"stronghold_b",
-				"deploy_a",
-				"deploy_b",
-			]),
+			type: HexTypeSchema,
 			controlledBy: z.enum(["A", "B"]).nullable(),
 			unitIds: z.array(z.string()),
 			reserve: z.number().optional(),
 		}),
 	),
 	status: z.enum(["active", "ended"]),
+	drawHistory: z
+		.object({
+			positions: z.record(z.string(), z.number().int()),
+			lastProgressTurn: z.number().int(),
+		})
+		.optional(),
+	crownHold: z
+		.object({
+			side: z.enum(["A", "B"]).nullable(),
+			turns: z.number().int(),
+		})
+		.optional(),
+	roundActions: z
+		.object({
+			A: z.number().int(),
+			B: z.number().int(),
+		})
+		.optional(),
 });
 
 export const GameStateSchema = MatchStateSchema;
@@ -567,7 +755,8 @@ export const GameStateSchema = MatchStateSchema;
 export type EngineConfig = {
 	actionsPerTurn: number;
 	turnLimit: number;
-	boardColumns: 17 | 21;
+	boardColumns: number;
+	boardRows: number;
 	startingGold: number;
 	startingWood: number;
 	unitStats: {
@@ -649,18 +838,62 @@ export type EngineConfig = {
 		comebackGoldBonus: number;
 		comebackWoodBonus: number;
 	};
+	fogOfWar: {
+		enabled: boolean;
+		visionRadius: Record<UnitType, number>;
+		highGroundVisionBonus: number;
+	};
+	drawRules: {
+		// Draw when the same position starts a player turn this many times
+		// (3 = threefold repetition). 0 disables the rule.
+		repetitionLimit: number;
+		// Draw after this many full turns without an attack, recruit, upgrade
+		// or control change. 0 disables the rule.
+		noProgressTurns: number;
+	};
+	// Extra win conditions, checked after strongholds and elimination. Each is
+	// disabled at 0.
+	victory: {
+		// Win on reaching this many VP.
+		vpThreshold: number;
+		// Win by ending this many consecutive own turns in control of every
+		// crown hex.
+		crownHoldTurns: number;
+		// Win by controlling at least this percentage of gold mines and lumber
+		// camps.
+		economicNodePercent: number;
+	};
+	turnOrder: {
+		// "sequential": each side plays a full turn of actionsPerTurn actions.
+		// "alternating": within a round the sides alternate single actions.
+		// "simultaneous": both sides commit a turn plan up front and
+		// resolveSimultaneousTurn interleaves them in the alternating order.
+		mode: TurnMode;
+		// First-mover compensation for the round-based modes: the side acting
+		// first in a round alternates (A leads odd rounds, B leads even ones).
+		rotateLeader: boolean;
+		// Extra starting gold for side B, in every mode.
+		secondMoverGold: number;
+	};
 };
 
+export type TurnMode = "sequential" | "alternating" | "simultaneous";
+
 type DeepPartial<T> = {
 	[K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
 };
 
-export type EngineConfigInput = DeepPartial<EngineConfig>;
+export type EngineConfigInput = DeepPartial<EngineConfig> & {
+	// Battlefield to build at creation time: a registered map id or an inline
+	// definition. The map's board size takes precedence over `boardColumns`.
+	map?: string | MapDefinition;
+};
 
 export const DEFAULT_CONFIG: EngineConfig = {
 	actionsPerTurn: ACTIONS_PER_TURN,
 	turnLimit: TURN_LIMIT,
 	boardColumns: 17,
+	boardRows: ROWS,
 	startingGold: 15,
 	startingWood: 5,
 	unitStats: {
@@ -764,10 +997,38 @@ export const DEFAULT_CONFIG: EngineConfig = {
 		comebackGoldBonus: 2,
 		comebackWoodBonus: 1,
 	},
+	fogOfWar: {
+		enabled: false,
+		visionRadius: {
+			infantry: 2,
+			cavalry: 3,
+			archer: 3,
+			swordsman: 2,
+			knight: 3,
+			crossbow: 3,
+		},
+		highGroundVisionBonus: 1,
+	},
+	drawRules: {
+		repetitionLimit: 0,
+		noProgressTurns: 0,
+	},
+	victory: {
+		vpThreshold: 0,
+		crownHoldTurns: 0,
+		economicNodePercent: 0,
+	},
+	turnOrder: {
+		mode: "sequential",
+		rotateLeader: true,
+		secondMoverGold: 0,
+	},
 };
 
-function mergeConfig(input?: EngineConfigInput): EngineConfig {
-	if (!input) return DEFAULT_CONFIG;
+function mergeConfig(configInput?: EngineConfigInput): EngineConfig {
+	if (!configInput) return DEFAULT_CONFIG;
+	// Maps only shape the initial board; they are not part of the bound config.
+	const { map: _map, ...input } = configInput;
 	return {
 		...DEFAULT_CONFIG,
 		...input,
@@ -824,6 +1085,26 @@ function mergeConfig(input?: EngineConfigInput): EngineConfig {
 			...DEFAULT_CONFIG.resourceNodes,
 			...input.resourceNodes,
 		},
+		fogOfWar: {
+			...DEFAULT_CONFIG.fogOfWar,
+			...input.fogOfWar,
+			visionRadius: {
+				...DEFAULT_CONFIG.fogOfWar.visionRadius,
+				...input.fogOfWar?.visionRadius,
+			},
+		},
+		drawRules: {
+			...DEFAULT_CONFIG.drawRules,
+			...input.drawRules,
+		},
+		victory: {
+			...DEFAULT_CONFIG.victory,
+			...input.victory,
+		},
+		turnOrder: {
+			...DEFAULT_CONFIG.turnOrder,
+			...input.turnOrder,
+		},
 	};
 }
 
@@ -838,8 +1119,10 @@ function bindConfig(state: MatchState, config: EngineConfig): MatchState {
 function resolveConfig(state: MatchState): EngineConfig {
 	const bound = CONFIG_BY_STATE.get(state);
 	if (bound) return bound;
+	const size = inferBoardSizeFromBoard(state.board);
 	const inferred = mergeConfig({
-		boardColumns: inferBoardColumnsFromBoard(state.board),
+		boardColumns: size.columns,
+		boardRows: size.rows,
 	});
 	CONFIG_BY_STATE.set(state, inferred);
 	return inferred;
@@ -850,11 +1133,12 @@ export function bindEngineConfig(
 	configInput?: EngineConfigInput,
 ): MatchState {
 	const existing = resolveConfig(state);
-	const boardColumns = inferBoardColumnsFromBoard(state.board);
+	const size = inferBoardSizeFromBoard(state.board);
 	const config = mergeConfig({
 		...existing,
 		...configInput,
-		boardColumns,
+		boardColumns: size.columns,
+		boardRows: size.rows,
 	});
 	return bindConfig(state, config);
 }
@@ -887,26 +1171,63 @@ function isArcherLine(unitType: UnitType): boolean {
 	return unitType === "archer" || unitType === "crossbow";
 }
 
+// The canonical layout is mirror-symmetric (A side left/top, B side
+// right/bottom), so other sizes are sampled from the nearer half and mirrored
+// to keep both sides identical.
+function scaleToCanonical(
+	index: number,
+	count: number,
+	canonicalCount: number,
+) {
+	const last = count - 1;
+	const canonicalLast = canonicalCount - 1;
+	const near = Math.min(index, last - index);
+	const scaled = Math.round((near * canonicalLast) / last);
+	return index === near ? scaled : canonicalLast - scaled;
+}
+
+function scaleFromCanonical(
+	canonicalIndex: number,
+	count: number,
+	canonicalCount: number,
+) {
+	const last = count - 1;
+	const canonicalLast = canonicalCount - 1;
+	const near = Math.min(canonicalIndex, canonicalLast - canonicalIndex);
+	const scaled = Math.round((near * last) / canonicalLast);
+	return canonicalIndex === near ? scaled : last - scaled;
+}
+
 function canonicalColForBoardCol(
 	boardCol: number,
-	boardColumns: 17 | 21,
+	boardColumns: number,
 ): number {
 	if (boardColumns === 21) return boardCol;
-	return BOARD_17_CANONICAL_COL_MAP[boardCol] ?? boardCol;
+	if (boardColumns === 17) {
+		return BOARD_17_CANONICAL_COL_MAP[boardCol] ?? boardCol;
+	}
+	return scaleToCanonical(boardCol, boardColumns, 21);
+}
+
+function canonicalRowForBoardRow(boardRow: number, boardRows: number): number {
+	if (boardRows === ROWS) return boardRow;
+	return scaleToCanonical(boardRow, boardRows, ROWS);
 }
 
-function mapCanonicalHexToBoardHex(
-	hex: HexId,
-	boardColumns: 17 | 21,
-): HexId | null {
+function mapCanonicalHexToBoardHex(hex: HexId, size: BoardSize): HexId | null {
 	const { row, col } = parseHexId(hex);
-	if (boardColumns === 21) return hex;
-	if (boardColumns !== 17) return null;
-	const boardCol = (BOARD_17_CANONICAL_COL_MAP as readonly number[]).indexOf(
-		col,
-	);
-	if (boardCol === -1) return null;
-	return toHexId(row, boardCol);
+	const boardRow =
+		size.rows === ROWS ? row : scaleFromCanonical(row, size.rows, ROWS);
+	let boardCol: number;
+	if (size.columns === 21) {
+		boardCol = col;
+	} else if (size.columns === 17) {
+		boardCol = (BOARD_17_CANONICAL_COL_MAP as readonly number[]).indexOf(col);
+		if (boardCol === -1) return null;
+	} else {
+		boardCol = scaleFromCanonical(col, size.columns, 21);
+	}
+	return toHexId(boardRow, boardCol);
 }
 
 function strongholdHexesForState(state: MatchState, side: PlayerSide): HexId[] {
@@ -1168,25 +1489,325 @@ const CANONICAL_TERRAIN: TerrainToken[][] = [
 	],
 ];
 
-function buildCanonicalBoard(config: EngineConfig): HexState[] {
-	if (config.boardColumns !== 21 && config.boardColumns !== 17) {
-		throw new Error(`Unsupported boardColumns=${String(config.boardColumns)}`);
-	}
-	const board: HexState[] = [];
-	for (let row = 0; row < ROWS; row++) {
-		const rowTerrain = CANONICAL_TERRAIN[row];
+// ---------------------------------------------------------------------------
+// Map definitions & registry
+// ---------------------------------------------------------------------------
+
+export type MapUnitPlacement = {
+	id: string;
+	type: UnitType;
+	owner: PlayerSide;
+	position: HexId;
+};
+
+export type MapDefinition = {
+	id: string;
+	name: string;
+	boardRows: number;
+	boardColumns: number;
+	// `boardRows` rows (A, B, ...), each with `boardColumns` entries.
+	// Strongholds and deploy zones are read from the terrain types.
+	terrain: HexType[][];
+	// Per-hex starting reserve overrides for gold mines and lumber camps.
+	reserves?: Record<HexId, number>;
+	startingUnits: MapUnitPlacement[];
+};
+
+export const MapDefinitionSchema = z
+	.object({
+		id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, "Invalid map id"),
+		name: z.string().min(1),
+		boardRows: z.number().int().min(MIN_BOARD_ROWS).max(MAX_BOARD_ROWS),
+		boardColumns: z
+			.number()
+			.int()
+			.min(MIN_BOARD_COLUMNS)
+			.max(MAX_BOARD_COLUMNS),
+		terrain: z.array(z.array(HexTypeSchema)),
+		reserves: z.record(HexIdSchema, z.number().int().nonnegative()).optional(),
+		startingUnits: z.array(
+			z.object({
+				id: z.string().regex(/^[AB]-\d+$/, "Invalid unit id"),
+				type: UnitTypeSchema,
+				owner: z.enum(["A", "B"]),
+				position: HexIdSchema,
+			}),
+		),
+	})
+	.superRefine((map, ctx) => {
+		const typeAt = (id: HexId): HexType | null => {
+			if (!isValidHexId(id, map.boardColumns, map.boardRows)) return null;
+			const { row, col } = parseHexId(id);
+			return map.terrain[row]?.[col] ?? null;
+		};
+
+		if (map.terrain.length !== map.boardRows) {
+			ctx.addIssue({
+				code: "custom",
+				path: ["terrain"],
+				message: `Expected ${map.boardRows} terrain rows, got ${map.terrain.length}`,
+			});
+		}
+		map.terrain.forEach((row, rowIdx) => {
+			if (row.length !== map.boardColumns) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["terrain", rowIdx],
+					message: `Expected ${map.boardColumns} hexes in row ${ROW_LETTERS[rowIdx]}, got ${row.length}`,
+				});
+			}
+		});
+		for (const stronghold of ["stronghold_a", "stronghold_b"] as const) {
+			if (!map.terrain.some((row) => row.includes(stronghold))) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["terrain"],
+					message: `Map must contain at least one ${stronghold} hex`,
+				});
+			}
+		}
+
+		for (const [hexId, reserve] of Object.entries(map.reserves ?? {})) {
+			const type = typeAt(hexId);
+			if (type !== "gold_mine" && type !== "lumber_camp") {
+				ctx.addIssue({
+					code: "custom",
+					path: ["reserves", hexId],
+					message: `Reserve ${reserve} set on ${hexId}, which is not a resource node`,
+				});
+			}
+		}
+
+		const unitIds = new Set<string>();
+		const occupied = new Set<HexId>();
+		map.startingUnits.forEach((unit, idx) => {
+			if (!unit.id.startsWith(`${unit.owner}-`)) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["startingUnits", idx, "id"],
+					message: `Unit ${unit.id} must be prefixed with its owner ${unit.owner}-`,
+				});
+			}
+			if (unitIds.has(unit.id)) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["startingUnits", idx, "id"],
+					message: `Duplicate unit id ${unit.id}`,
+				});
+			}
+			unitIds.add(unit.id);
+			if (!typeAt(unit.position)) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["startingUnits", idx, "position"],
+					message: `${unit.position} is outside the ${map.boardRows}x${map.boardColumns} board`,
+				});
+			} else if (occupied.has(unit.position)) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["startingUnits", idx, "position"],
+					message: `${unit.position} already holds a starting unit`,
+				});
+			}
+			occupied.add(unit.position);
+		});
+	});
+
+// Starting units (spec Section 6.3), in canonical 21-column coordinates.
+const CANONICAL_STARTING_UNITS: MapUnitPlacement[] = [
+	{ id: "A-1", type: "infantry", owner: "A", position: "B2" },
+	{ id: "A-2", type: "infantry", owner: "A", position: "H2" },
+	{ id: "A-3", type: "infantry", owner: "A", position: "G2" },
+	{ id: "A-4", type: "cavalry", owner: "A", position: "B3" },
+	{ id: "A-5", type: "cavalry", owner: "A", position: "H3" },
+	{ id: "A-6", type: "archer", owner: "A", position: "C2" },
+	{ id: "B-1", type: "infantry", owner: "B", position: "B20" },
+	{ id: "B-2", type: "infantry", owner: "B", position: "H20" },
+	{ id: "B-3", type: "infantry", owner: "B", position: "G20" },
+	{ id: "B-4", type: "cavalry", owner: "B", position: "B19" },
+	{ id: "B-5", type: "cavalry", owner: "B", position: "H19" },
+	{ id: "B-6", type: "archer", owner: "B", position: "C20" },
+];
+
+const CANONICAL_STRONGHOLDS: Array<{ hex: HexId; type: HexType }> = [
+	{ hex: "B2", type: "stronghold_a" },
+	{ hex: "H2", type: "stronghold_a" },
+	{ hex: "B20", type: "stronghold_b" },
+	{ hex: "H20", type: "stronghold_b" },
+];
+const CANONICAL_CROWN: HexId = "E11";
+
+const DEMOTED_ANCHOR_TYPES: Partial<Record<HexType, HexType>> = {
+	stronghold_a: "deploy_a",
+	stronghold_b: "deploy_b",
+	crown: "plains",
+};
+
+function canonicalMapDefinition(size: BoardSize): MapDefinition {
+	const terrain: HexType[][] = [];
+	for (let row = 0; row < size.rows; row++) {
+		const canonicalRow = canonicalRowForBoardRow(row, size.rows);
+		const rowTerrain = CANONICAL_TERRAIN[canonicalRow];
 		if (!rowTerrain) {
-			throw new Error(`Missing canonical terrain row ${row}`);
+			throw new Error(`Missing canonical terrain row ${canonicalRow}`);
 		}
-		for (let col = 0; col < config.boardColumns; col++) {
-			const canonicalCol = canonicalColForBoardCol(col, config.boardColumns);
+		const hexTypes: HexType[] = [];
+		for (let col = 0; col < size.columns; col++) {
+			const canonicalCol = canonicalColForBoardCol(col, size.columns);
 			const token = rowTerrain[canonicalCol];
 			if (!token) {
 				throw new Error(
-					`Missing canonical terrain token row=${row} col=${canonicalCol}`,
+					`Missing canonical terrain token row=${canonicalRow} col=${canonicalCol}`,
+				);
+			}
+			hexTypes.push(TOKEN_TO_HEX_TYPE[token]);
+		}
+		terrain.push(hexTypes);
+	}
+
+	// Sampling can duplicate or drop the unique hexes, so strongholds and the
+	// crown are re-anchored at their scaled canonical positions.
+	const legacySize =
+		size.rows === ROWS && (size.columns === 17 || size.columns === 21);
+	if (!legacySize) {
+		for (const hexTypes of terrain) {
+			hexTypes.forEach((type, col) => {
+				hexTypes[col] = DEMOTED_ANCHOR_TYPES[type] ?? type;
+			});
+		}
+		const anchors = [
+			...CANONICAL_STRONGHOLDS,
+			{ hex: CANONICAL_CROWN, type: "crown" as const },
+		];
+		for (const anchor of anchors) {
+			const mapped = mapCanonicalHexToBoardHex(anchor.hex, size);
+			if (!mapped) continue;
+			const { row, col } = parseHexId(mapped);
+			const hexTypes = terrain[row];
+			if (hexTypes) hexTypes[col] = anchor.type;
+		}
+	}
+
+	return {
+		id: canonicalMapId(size),
+		name: `War of Attrition (${size.columns}x${size.rows})`,
+		boardRows: size.rows,
+		boardColumns: size.columns,
+		terrain,
+		startingUnits: placeCanonicalStartingUnits(size),
+	};
+}
+
+// Scaled starting positions can collide on smaller boards; colliding units
+// take the nearest free hex on their own half, or are dropped if it is full.
+// Side B mirrors side A so both armies start in equivalent positions.
+function placeCanonicalStartingUnits(size: BoardSize): MapUnitPlacement[] {
+	const occupied = new Set<HexId>();
+	const mid = (size.columns - 1) / 2;
+	const placements: MapUnitPlacement[] = [];
+	for (const def of CANONICAL_STARTING_UNITS) {
+		if (def.owner !== "A") continue;
+		const mapped = mapCanonicalHexToBoardHex(def.position, size);
+		if (!mapped) continue;
+		const queue: HexId[] = [mapped];
+		const seen = new Set<HexId>([mapped]);
+		let position: HexId | null = null;
+		while (queue.length > 0) {
+			const current = queue.shift();
+			if (!current) continue;
+			if (!occupied.has(current)) {
+				position = current;
+				break;
+			}
+			for (const n of neighborsOnBoard(current, size)) {
+				if (seen.has(n) || parseHexId(n).col >= mid) continue;
+				seen.add(n);
+				queue.push(n);
+			}
+		}
+		if (!position) continue;
+		occupied.add(position);
+		const { row, col } = parseHexId(position);
+		placements.push({ ...def, position });
+		placements.push({
+			...def,
+			id: def.id.replace(/^A-/, "B-"),
+			owner: "B",
+			position: toHexId(row, size.columns - 1 - col),
+		});
+	}
+	return placements.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function canonicalMapId(size: BoardSize): string {
+	if (size.rows === ROWS) return `war_of_attrition_${size.columns}`;
+	return `war_of_attrition_${size.columns}x${size.rows}`;
+}
+
+const MAP_REGISTRY = new Map<string, MapDefinition>();
+
+/**
+ * Validates and registers a named map so it can be selected by id via
+ * `EngineConfigInput.map`. Map ids are unique; re-registering throws.
+ */
+export function registerMap(definition: MapDefinition): MapDefinition {
+	const parsed = MapDefinitionSchema.parse(definition) as MapDefinition;
+	if (MAP_REGISTRY.has(parsed.id)) {
+		throw new Error(`Map already registered: ${parsed.id}`);
+	}
+	MAP_REGISTRY.set(parsed.id, parsed);
+	return parsed;
+}
+
+export function getMapDefinition(mapId: string): MapDefinition | null {
+	return MAP_REGISTRY.get(mapId) ?? null;
+}
+
+export function listMaps(): MapDefinition[] {
+	return [...MAP_REGISTRY.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+registerMap(canonicalMapDefinition({ rows: ROWS, columns: 21 }));
+registerMap(canonicalMapDefinition({ rows: ROWS, columns: 17 }));
+
+function resolveMapDefinition(input: EngineConfigInput | undefined) {
+	const selected = input?.map;
+	if (selected === undefined) {
+		const size = assertBoardSize(
+			input?.boardRows ?? DEFAULT_CONFIG.boardRows,
+			input?.boardColumns ?? DEFAULT_CONFIG.boardColumns,
+		);
+		return (
+			getMapDefinition(canonicalMapId(size)) ?? canonicalMapDefinition(size)
+		);
+	}
+	if (typeof selected === "string") {
+		const registered = getMapDefinition(selected);
+		if (!registered) {
+			throw new Error(`Unknown map id: ${selected}`);
+		}
+		return registered;
+	}
+	return MapDefinitionSchema.parse(selected) as MapDefinition;
+}
+
+function buildBoardFromMap(
+	map: MapDefinition,
+	config: EngineConfig,
+): HexState[] {
+	const board: HexState[] = [];
+	for (let row = 0; row < map.boardRows; row++) {
+		const rowTerrain = map.terrain[row];
+		if (!rowTerrain) {
+			throw new Error(`Missing terrain row ${row} in map ${map.id}`);
+		}
+		for (let col = 0; col < map.boardColumns; col++) {
+			const hexType = rowTerrain[col];
+			if (!hexType) {
+				throw new Error(
+					`Missing terrain in map ${map.id} at row=${row} col=${col}`,
 				);
 			}
-			const hexType = TOKEN_TO_HEX_TYPE[token];
 			const id = toHexId(row, col);
 
 			let controlledBy: PlayerSide | null = null;
@@ -1198,9 +1819,9 @@ function buildCanonicalBoard(config: EngineConfig): HexState[] {
 
 			let reserve: number | undefined;
 			if (hexType === "gold_mine") {
-				reserve = config.resourceNodes.goldMineReserve;
+				reserve = map.reserves?.[id] ?? config.resourceNodes.goldMineReserve;
 			} else if (hexType === "lumber_camp") {
-				reserve = config.resourceNodes.lumberCampReserve;
+				reserve = map.reserves?.[id] ?? config.resourceNodes.lumberCampReserve;
 			}
 
 			const hex: HexState = {
@@ -1222,25 +1843,29 @@ function buildCanonicalBoard(config: EngineConfig): HexState[] {
 // State helpers
 // ---------------------------------------------------------------------------
 
-function boardColumnsForState(state: MatchState): 17 | 21 {
-	return inferBoardColumnsFromBoard(state.board);
+function boardSizeForState(state: MatchState): BoardSize {
+	return inferBoardSizeFromBoard(state.board);
+}
+
+function boardSizeForConfig(config: EngineConfig): BoardSize {
+	return { rows: config.boardRows, columns: config.boardColumns };
 }
 
 function getHex(state: MatchState, id: HexId): HexState | null {
-	const boardColumns = boardColumnsForState(state);
-	if (!isValidHexId(id, boardColumns)) return null;
-	return state.board[hexIdIndex(id, boardColumns)] ?? null;
+	const size = boardSizeForState(state);
+	if (!isOnBoard(id, size)) return null;
+	return state.board[hexIdIndex(id, size)] ?? null;
 }
 
 function addUnitToHex(state: MatchState, hexId: HexId, unitId: string) {
-	const idx = hexIdIndex(hexId, boardColumnsForState(state));
+	const idx = hexIdIndex(hexId, boardSizeForState(state));
 	const existing = state.board[idx];
 	if (!existing) return;
 	state.board[idx] = { ...existing, unitIds: [...existing.unitIds, unitId] };
 }
 
 function removeUnitFromHex(state: MatchState, hexId: HexId, unitId: string) {
-	const idx = hexIdIndex(hexId, boardColumnsForState(state));
+	const idx = hexIdIndex(hexId, boardSizeForState(state));
 	const existing = state.board[idx];
 	if (!existing) return;
 	state.board[idx] = {
@@ -1250,7 +1875,7 @@ function removeUnitFromHex(state: MatchState, hexId: HexId, unitId: string) {
 }
 
 function clearHexUnits(state: MatchState, hexId: HexId) {
-	const idx = hexIdIndex(hexId, boardColumnsForState(state));
+	const idx = hexIdIndex(hexId, boardSizeForState(state));
 	const existing = state.board[idx];
 	if (!existing) return;
 	state.board[idx] = { ...existing, unitIds: [] };
@@ -1351,6 +1976,14 @@ function cloneState(state: MatchState): MatchState {
 		},
 		board: state.board.map((h) => ({ ...h, unitIds: [...h.unitIds] })),
 	};
+	if (state.drawHistory) {
+		cloned.drawHistory = {
+			...state.drawHistory,
+			positions: { ...state.drawHistory.positions },
+		};
+	}
+	if (state.crownHold) cloned.crownHold = { ...state.crownHold };
+	if (state.roundActions) cloned.roundActions = { ...state.roundActions };
 	return bindConfig(cloned, resolveConfig(state));
 }
 
@@ -1467,6 +2100,15 @@ function runStartOfPlayerTurnTick(
 	return { goldIncome, woodIncome, vpGained };
 }
 
+function isRoundBased(config: EngineConfig): boolean {
+	return config.turnOrder.mode !== "sequential";
+}
+
+// Side that takes the first action of a round in the round-based modes.
+function roundLeader(turn: number, config: EngineConfig): PlayerSide {
+	return config.turnOrder.rotateLeader && turn % 2 === 0 ? "B" : "A";
+}
+
 // ---------------------------------------------------------------------------
 // Line-of-sight for archer range-2
 // ---------------------------------------------------------------------------
@@ -1476,9 +2118,9 @@ function computeLoS(
 	targetPos: HexId,
 	state: MatchState,
 ): { clear: boolean; reason?: string } {
-	const boardColumns = boardColumnsForState(state);
-	const attackerNeighbors = new Set(neighborsOf(attackerPos, boardColumns));
-	const targetNeighbors = new Set(neighborsOf(targetPos, boardColumns));
+	const size = boardSizeForState(state);
+	const attackerNeighbors = new Set(neighborsOnBoard(attackerPos, size));
+	const targetNeighbors = new Set(neighborsOnBoard(targetPos, size));
 
 	const shared: HexId[] = [];
 	for (const n of attackerNeighbors) {
@@ -1514,6 +2156,153 @@ function computeLoS(
 	return { clear: true };
 }
 
+// ---------------------------------------------------------------------------
+// Fog of war
+// ---------------------------------------------------------------------------
+
+type CubeCoord = { q: number; r: number; s: number };
+
+// Odd-r offset (odd rows shifted right) to cube coordinates.
+function hexIdToCube(id: HexId): CubeCoord {
+	const { row, col } = parseHexId(id);
+	const q = col - (row - (row & 1)) / 2;
+	return { q, r: row, s: -q - row };
+}
+
+function cubeToHexId(cube: CubeCoord): HexId {
+	const col = cube.q + (cube.r - (cube.r & 1)) / 2;
+	return toHexId(cube.r, col);
+}
+
+function roundCube(q: number, r: number, s: number): CubeCoord {
+	let rq = Math.round(q);
+	let rr = Math.round(r);
+	const rs = Math.round(s);
+	const dq = Math.abs(rq - q);
+	const dr = Math.abs(rr - r);
+	const ds = Math.abs(rs - s);
+	if (dq > dr && dq > ds) rq = -rr - rs;
+	else if (dr > ds) rr = -rq - rs;
+	return { q: rq, r: rr, s: -rq - rr };
+}
+
+// Hexes strictly between `from` and `to` on the straight hex line. The small
+// nudge keeps lines that run along hex edges from flipping between sides.
+function hexesBetween(from: HexId, to: HexId): HexId[] {
+	const a = hexIdToCube(from);
+	const b = hexIdToCube(to);
+	const n = Math.max(
+		Math.abs(a.q - b.q),
+		Math.abs(a.r - b.r),
+		Math.abs(a.s - b.s),
+	);
+	const between: HexId[] = [];
+	for (let i = 1; i < n; i++) {
+		const t = i / n;
+		between.push(
+			cubeToHexId(
+				roundCube(
+					a.q + 1e-6 + (b.q - a.q) * t,
+					a.r + 1e-6 + (b.r - a.r) * t,
+					a.s - 2e-6 + (b.s - a.s) * t,
+				),
+			),
+		);
+	}
+	return between;
+}
+
+// Sight follows the same terrain rules as archer LoS, extended to any range:
+// forest and high ground block sight lines (an observer on high ground looks
+// over forest), and units in forest are only spotted from an adjacent hex.
+// Units never block sight.
+function hasSightLine(
+	state: MatchState,
+	from: HexId,
+	to: HexId,
+	fromHighGround: boolean,
+): boolean {
+	const between = hexesBetween(from, to);
+	if (between.length === 0) return true;
+	if (getHex(state, to)?.type === "forest") return false;
+	for (const id of between) {
+		const type = getHex(state, id)?.type;
+		if (type === "high_ground") return false;
+		if (type === "forest" && !fromHighGround) return false;
+	}
+	return true;
+}
+
+function computeVisibleHexes(state: MatchState, side: PlayerSide): Set<HexId> {
+	const config = resolveConfig(state);
+	const size = boardSizeForState(state);
+	const visible = new Set<HexId>();
+	for (const hex of state.board) {
+		if (hex.controlledBy === side) visible.add(hex.id);
+	}
+	for (const unit of state.players[side].units) {
+		const onHighGround = getHex(state, unit.position)?.type === "high_ground";
+		const radius =
+			config.fogOfWar.visionRadius[unit.type] +
+			(onHighGround ? config.fogOfWar.highGroundVisionBonus : 0);
+		visible.add(unit.position);
+		for (const id of reachableHexes(unit.position, radius, new Set(), size)) {
+			if (hasSightLine(state, unit.position, id, onHighGround)) {
+				visible.add(id);
+			}
+		}
+	}
+	return visible;
+}
+
+/**
+ * Hexes currently visible to `side` under the fog-of-war rules: hexes it
+ * controls plus everything its units can see. Sorted in board order.
+ */
+export function getVisibleHexes(state: MatchState, side: PlayerSide): HexId[] {
+	const visible = computeVisibleHexes(state, side);
+	return state.board.filter((hex) => visible.has(hex.id)).map((hex) => hex.id);
+}
+
+// Views made by projectStateForPlayer. Their unit lists leave out hidden
+// enemies, so a view never counts as eliminated.
+const PROJECTED_VIEWS = new WeakSet<MatchState>();
+
+/**
+ * The view of `state` that should be sent to `viewer`. With fog of war enabled
+ * and the match still running, enemy units outside the viewer's vision are
+ * removed. Spectators only see units that are visible to the opposing side, so
+ * the public stream never reveals more than either player knows. Without fog
+ * (or once the match has ended) the state is returned unchanged.
+ */
+export function projectStateForPlayer(
+	state: MatchState,
+	viewer: PlayerSide | "spectator",
+): MatchState {
+	const config = resolveConfig(state);
+	if (!config.fogOfWar.enabled || state.status === "ended") return state;
+
+	const projected = cloneState(state);
+	const hidden = new Set<string>();
+	for (const side of ["A", "B"] as const) {
+		if (viewer === side) continue;
+		const visible = computeVisibleHexes(state, otherSide(side));
+		const player = projected.players[side];
+		player.units = player.units.filter((unit) => {
+			if (visible.has(unit.position)) return true;
+			hidden.add(unit.id);
+			return false;
+		});
+	}
+	if (hidden.size > 0) {
+		for (const hex of projected.board) {
+			hex.unitIds = hex.unitIds.filter((id) => !hidden.has(id));
+		}
+	}
+	PROJECTED_VIEWS.add(projected);
+	return projected;
+}
+
 // ---------------------------------------------------------------------------
 // Combat resolution
 // ---------------------------------------------------------------------------
@@ -1618,9 +2407,9 @@ function computeCombat(
 
 	// Shield Wall: +1 per adjacent hex with friendly infantry, max +2
 	if (isInfantryLine(leadDefender.type)) {
-		const adjacentIds = neighborsOf(
+		const adjacentIds = neighborsOnBoard(
 			leadDefender.position,
-			boardColumnsForState(state),
+			boardSizeForState(state),
 		);
 		let shieldWallBonus = 0;
 		for (const adjId of adjacentIds) {
@@ -1686,6 +2475,116 @@ function computeCombat(
 	};
 }
 
+// ---------------------------------------------------------------------------
+// State hashing
+// ---------------------------------------------------------------------------
+
+// Zobrist-style: every feature string maps to a pseudo-random 64-bit key (two
+// 32-bit halves) and the keys are XORed, so array order never matters.
+function featureKey(feature: string): [number, number] {
+	let h1 = 0x811c9dc5;
+	let h2 = 0x9e3779b9;
+	for (let i = 0; i < feature.length; i++) {
+		const c = feature.charCodeAt(i);
+		h1 = Math.imul(h1 ^ c, 0x01000193);
+		h2 = Math.imul(h2 ^ c, 0x5bd1e995);
+	}
+	return [fmix32(h1), fmix32(h2)];
+}
+
+function fmix32(input: number): number {
+	let h = input;
+	h ^= h >>> 16;
+	h = Math.imul(h, 0x85ebca6b);
+	h ^= h >>> 13;
+	h = Math.imul(h, 0xc2b2ae35);
+	h ^= h >>> 16;
+	return h >>> 0;
+}
+
+function zobristHash(features: Iterable<string>): string {
+	let hi = 0;
+	let lo = 0;
+	for (const feature of features) {
+		const [a, b] = featureKey(feature);
+		hi = (hi ^ a) >>> 0;
+		lo = (lo ^ b) >>> 0;
+	}
+	return hi.toString(16).padStart(8, "0") + lo.toString(16).padStart(8, "0");
+}
+
+function* positionFeatures(state: MatchState): Generator<string> {
+	yield `active:${state.activePlayer}`;
+	for (const side of ["A", "B"] as const) {
+		for (const u of state.players[side].units) {
+			yield `unit:${u.id}:${u.owner}:${u.type}:${u.position}:${u.hp}/${u.maxHp}:${u.isFortified ? 1 : 0}`;
+		}
+	}
+	for (const hex of state.board) {
+		if (hex.controlledBy) yield `control:${hex.id}:${hex.controlledBy}`;
+	}
+}
+
+function* stateFeatures(state: MatchState): Generator<string> {
+	yield* positionFeatures(state);
+	yield `ruleset:${getRulesetVersion(state)}`;
+	yield `turn:${state.turn}`;
+	yield `status:${state.status}`;
+	yield `actions:${state.actionsRemaining}`;
+	if (state.roundActions) {
+		yield `round:${state.roundActions.A}:${state.roundActions.B}`;
+	}
+	for (const side of ["A", "B"] as const) {
+		const p = state.players[side];
+		yield `economy:${side}:${p.gold}:${p.wood}:${p.vp}`;
+		for (const u of p.units) {
+			yield `flags:${u.id}:${u.movedThisTurn ? 1 : 0}:${u.movedDistance}:${u.attackedThisTurn ? 1 : 0}:${u.canActThisTurn ? 1 : 0}:${u.chargeEligible ? 1 : 0}`;
+		}
+	}
+	for (const hex of state.board) {
+		yield `hex:${hex.id}:${hex.type}:${hex.reserve ?? "-"}`;
+	}
+	if (state.crownHold) {
+		yield `crown:${state.crownHold.side ?? "-"}:${state.crownHold.turns}`;
+	}
+}
+
+/**
+ * Canonical 64-bit hash of everything that affects play, as 16 hex chars.
+ * Clones hash identically; the seed, agent ids, unit/stack ordering and draw
+ * bookkeeping are ignored.
+ */
+export function hashState(state: MatchState): string {
+	return zobristHash(stateFeatures(state));
+}
+
+/**
+ * Hash of the board position only: units, control and the side to move.
+ * Turn number, economy and per-turn unit flags are left out so that shuffling
+ * back into a position is recognised. This is the key for repetition draws.
+ */
+export function hashPosition(state: MatchState): string {
+	return zobristHash(positionFeatures(state));
+}
+
+function drawRulesEnabled(config: EngineConfig): boolean {
+	return (
+		config.drawRules.repetitionLimit > 0 || config.drawRules.noProgressTurns > 0
+	);
+}
+
+function ensureDrawHistory(state: MatchState): DrawHistory {
+	state.drawHistory ??= { positions: {}, lastProgressTurn: state.turn };
+	return state.drawHistory;
+}
+
+// Called once per player turn start, after the active player has switched.
+function recordTurnStartPosition(state: MatchState) {
+	const history = ensureDrawHistory(state);
+	const key = hashPosition(state);
+	history.positions[key] = (history.positions[key] ?? 0) + 1;
+}
+
 // ---------------------------------------------------------------------------
 // Victory conditions
 // ---------------------------------------------------------------------------
@@ -1723,9 +2622,71 @@ function computeImmediateTerminal(state: MatchState): TerminalState {
 		return { ended: true, winner: state.players.A.id, reason: "elimination" };
 	}
 
+	return computeObjectiveTerminal(state);
+}
+
+function computeObjectiveTerminal(state: MatchState): TerminalState {
+	const { vpThreshold, crownHoldTurns, economicNodePercent } =
+		resolveConfig(state).victory;
+
+	if (vpThreshold > 0) {
+		const vpA = state.players.A.vp;
+		const vpB = state.players.B.vp;
+		if (Math.max(vpA, vpB) >= vpThreshold && vpA !== vpB) {
+			return {
+				ended: true,
+				winner: vpA > vpB ? state.players.A.id : state.players.B.id,
+				reason: "vp_threshold",
+			};
+		}
+	}
+
+	const hold = state.crownHold;
+	if (crownHoldTurns > 0 && hold?.side && hold.turns >= crownHoldTurns) {
+		return {
+			ended: true,
+			winner: state.players[hold.side].id,
+			reason: "crown_hold",
+		};
+	}
+
+	if (economicNodePercent > 0) {
+		let total = 0;
+		const held = { A: 0, B: 0 };
+		for (const hex of state.board) {
+			if (hex.type !== "gold_mine" && hex.type !== "lumber_camp") continue;
+			total++;
+			if (hex.controlledBy) held[hex.controlledBy]++;
+		}
+		const needed = (total * economicNodePercent) / 100;
+		if (total > 0 && held.A !== held.B && Math.max(held.A, held.B) >= needed) {
+			return {
+				ended: true,
+				winner: held.A > held.B ? state.players.A.id : state.players.B.id,
+				reason: "economic_control",
+			};
+		}
+	}
+
 	return { ended: false };
 }
 
+// Called at the end of every player turn, after the control update.
+function updateCrownHold(state: MatchState, side: PlayerSide) {
+	const crowns = state.board.filter((hex) => hex.type === "crown");
+	const first = crowns[0]?.controlledBy ?? null;
+	const controller = crowns.every((hex) => hex.controlledBy === first)
+		? first
+		: null;
+	const hold = state.crownHold ?? { side: null, turns: 0 };
+	if (hold.side !== controller) {
+		hold.side = controller;
+		hold.turns = 0;
+	}
+	if (controller === side) hold.turns++;
+	state.crownHold = hold;
+}
+
 function computeTurnLimitTerminal(state: MatchState): TerminalState {
 	const config = resolveConfig(state);
 	if (state.turn <= config.turnLimit) return { ended: false };
@@ -1764,10 +2725,31 @@ function computeTurnLimitTerminal(state: MatchState): TerminalState {
 	return { ended: true, winner: null, reason: "draw" };
 }
 
+function computeDrawRuleTerminal(state: MatchState): TerminalState {
+	const history = state.drawHistory;
+	if (!history) return { ended: false };
+	const { repetitionLimit, noProgressTurns } = resolveConfig(state).drawRules;
+	if (
+		repetitionLimit > 0 &&
+		(history.positions[hashPosition(state)] ?? 0) >= repetitionLimit
+	) {
+		return { ended: true, winner: null, reason: "repetition" };
+	}
+	if (
+		noProgressTurns > 0 &&
+		state.turn - history.lastProgressTurn > noProgressTurns
+	) {
+		return { ended: true, winner: null, reason: "no_progress" };
+	}
+	return { ended: false };
+}
+
 function computeTerminal(state: MatchState): TerminalState {
 	const immediate = computeImmediateTerminal(state);
 	if (immediate.ended) return immediate;
-	return computeTurnLimitTerminal(state);
+	const limit = computeTurnLimitTerminal(state);
+	if (limit.ended) return limit;
+	return computeDrawRuleTerminal(state);
 }
 
 function unitValue(state: MatchState, side: PlayerSide): number {
@@ -1831,11 +2813,17 @@ export function createInitialState(
 		throw new Error("Engine requires exactly two players.");
 	}
 	const [playerA, playerB] = players as [AgentId, AgentId];
-	const config = mergeConfig(configInput);
+	const map = resolveMapDefinition(configInput);
+	const config = mergeConfig({
+		...configInput,
+		boardColumns: map.boardColumns,
+		boardRows: map.boardRows,
+	});
 
-	const board = buildCanonicalBoard(config);
+	const board = buildBoardFromMap(map, config);
 
 	const state: MatchState = {
+		rulesetVersion: RULESET_VERSION,
 		seed,
 		turn: 1,
 		activePlayer: "A",
@@ -1850,7 +2838,7 @@ export function createInitialState(
 			},
 			B: {
 				id: playerB,
-				gold: config.startingGold,
+				gold: config.startingGold + config.turnOrder.secondMoverGold,
 				wood: config.startingWood,
 				vp: 0,
 				units: [],
@@ -1862,39 +2850,13 @@ export function createInitialState(
 
 	bindConfig(state, config);
 
-	// Place starting units (spec Section 6.3)
-	const startingUnits: Array<{
-		id: string;
-		type: UnitType;
-		owner: PlayerSide;
-		position: HexId;
-	}> = [
-		{ id: "A-1", type: "infantry", owner: "A", position: "B2" as HexId },
-		{ id: "A-2", type: "infantry", owner: "A", position: "H2" as HexId },
-		{ id: "A-3", type: "infantry", owner: "A", position: "G2" as HexId },
-		{ id: "A-4", type: "cavalry", owner: "A", position: "B3" as HexId },
-		{ id: "A-5", type: "cavalry", owner: "A", position: "H3" as HexId },
-		{ id: "A-6", type: "archer", owner: "A", position: "C2" as HexId },
-		{ id: "B-1", type: "infantry", owner: "B", position: "B20" as HexId },
-		{ id: "B-2", type: "infantry", owner: "B", position: "H20" as HexId },
-		{ id: "B-3", type: "infantry", owner: "B", position: "G20" as HexId },
-		{ id: "B-4", type: "cavalry", owner: "B", position: "B19" as HexId },
-		{ id: "B-5", type: "cavalry", owner: "B", position: "H19" as HexId },
-		{ id: "B-6", type: "archer", owner: "B", position: "C20" as HexId },
-	];
-
-	for (const def of startingUnits) {
-		const mappedPosition = mapCanonicalHexToBoardHex(
-			def.position,
-			config.boardColumns,
-		);
-		if (!mappedPosition) continue;
+	for (const def of map.startingUnits) {
 		const hp = config.unitStats[def.type].hp;
 		const unit: Unit = {
 			id: def.id,
 			type: def.type,
 			owner: def.owner,
-			position: mappedPosition,
+			position: def.position,
 			hp,
 			maxHp: hp,
 			isFortified: false,
@@ -1908,6 +2870,13 @@ export function createInitialState(
 
 	// Run Player A's start-of-turn tick eagerly (so initial state includes Turn 1 income)
 	runStartOfPlayerTurnTick(state, "A");
+	if (isRoundBased(config)) {
+		// Both sides act in every round, so B's tick runs up front too.
+		runStartOfPlayerTurnTick(state, "B");
+		state.roundActions = { A: config.actionsPerTurn, B: config.actionsPerTurn };
+	}
+
+	if (drawRulesEnabled(config)) recordTurnStartPosition(state);
 
 	return state;
 }
@@ -1924,19 +2893,35 @@ export function currentPlayer(state: MatchState): AgentId {
 	return state.players[state.activePlayer].id;
 }
 
+// A state on a ruleset with neither rules nor a migration path never ends
+// on its own; applyMove rejects its moves as unsupported.
 export function isTerminal(state: MatchState): TerminalState {
-	return computeTerminal(state);
+	return dispatchRuleset(
+		state,
+		computeTerminal,
+		(ruleset) => ruleset.isTerminal(state),
+		() => ({ ended: false }),
+	);
 }
 
 export function winner(state: MatchState): AgentId | null {
-	const terminal = computeTerminal(state);
+	const terminal = isTerminal(state);
 	return terminal.ended ? terminal.winner : null;
 }
 
 export function listLegalMoves(state: MatchState): Move[] {
+	return dispatchRuleset(
+		state,
+		listCurrentLegalMoves,
+		(ruleset) => ruleset.listLegalMoves(state),
+		() => [],
+	);
+}
+
+function listCurrentLegalMoves(state: MatchState): Move[] {
 	if (state.status === "ended") return [];
 	const config = resolveConfig(state);
-	const boardColumns = config.boardColumns;
+	const size = boardSizeForConfig(config);
 	const side = state.activePlayer;
 	const player = state.players[side];
 	const moves: Move[] = [];
@@ -1999,7 +2984,7 @@ export function listLegalMoves(state: MatchState): Move[] {
 				unit.position,
 				movementRange,
 				blocked,
-				boardColumns,
+				size,
 			);
 			for (const hexId of sortHexIds(reachable)) {
 				moves.push({ action: "move", unitId: unit.id, to: hexId });
@@ -2023,7 +3008,7 @@ export function listLegalMoves(state: MatchState): Move[] {
 			const range = config.unitStats[unit.type].range;
 			const targets = new Set<HexId>();
 			for (const enemyPos of enemyPositions) {
-				const dist = hexDistance(unit.position, enemyPos, boardColumns);
+				const dist = hexDistance(unit.position, enemyPos, size);
 				if (dist !== null && dist >= 1 && dist <= range) {
 					if (dist === 2) {
 						const los = computeLoS(unit.position, enemyPos, state);
@@ -2068,13 +3053,34 @@ export function listLegalMoves(state: MatchState): Move[] {
 // Public API: validateMove
 // ---------------------------------------------------------------------------
 
+export type ValidateMoveResult =
+	| { ok: true; move: Move }
+	| { ok: false; reason: MoveRejectionReason; error: string };
+
 export function validateMove(
 	state: MatchState,
 	move: Move,
-):
-	| { ok: true; move: Move }
-	| { ok: false; reason: MoveRejectionReason; error: string } {
-	if (state.status === "ended" || computeTerminal(state).ended) {
+): ValidateMoveResult {
+	return dispatchRuleset(
+		state,
+		(current) => validateCurrentMove(current, move),
+		(ruleset) => ruleset.validateMove(state, move),
+		(version) => ({
+			ok: false,
+			reason: "unsupported_ruleset",
+			error: `No rules registered for ruleset "${version}".`,
+		}),
+	);
+}
+
+function validateCurrentMove(
+	state: MatchState,
+	move: Move,
+): ValidateMoveResult {
+	const ended =
+		state.status === "ended" ||
+		(!PROJECTED_VIEWS.has(state) && computeTerminal(state).ended);
+	if (ended) {
 		return { ok: false, reason: "terminal", error: "Match already ended." };
 	}
 
@@ -2088,7 +3094,7 @@ export function validateMove(
 	}
 
 	const config = resolveConfig(state);
-	const boardColumns = config.boardColumns;
+	const size = boardSizeForConfig(config);
 	const m = parsed.data;
 	const side = state.activePlayer;
 	const player = state.players[side];
@@ -2171,7 +3177,7 @@ export function validateMove(
 					error: "Unit already moved this turn.",
 				};
 			}
-			if (!isValidHexId(m.to, boardColumns)) {
+			if (!isOnBoard(m.to, size)) {
 				return {
 					ok: false,
 					reason: "illegal_move",
@@ -2226,7 +3232,7 @@ export function validateMove(
 					blocked.add(hex.id);
 				}
 			}
-			const dist = pathDistance(unit.position, m.to, blocked, boardColumns);
+			const dist = pathDistance(unit.position, m.to, blocked, size);
 			if (dist == null || dist > config.unitStats[unit.type].movement) {
 				return {
 					ok: false,
@@ -2259,7 +3265,7 @@ export function validateMove(
 					error: "Unit already attacked this turn.",
 				};
 			}
-			if (!isValidHexId(m.target, boardColumns)) {
+			if (!isOnBoard(m.target, size)) {
 				return {
 					ok: false,
 					reason: "illegal_move",
@@ -2282,7 +3288,7 @@ export function validateMove(
 					error: "Target must be enemy.",
 				};
 			}
-			const dist = hexDistance(unit.position, m.target, boardColumns);
+			const dist = hexDistance(unit.position, m.target, size);
 			if (dist == null || dist > config.unitStats[unit.type].range) {
 				return {
 					ok: false,
@@ -2399,12 +3405,164 @@ export function validateMove(
 	}
 }
 
+// ---------------------------------------------------------------------------
+// Rulesets
+// ---------------------------------------------------------------------------
+
+/**
+ * A frozen rules implementation kept so matches created under an older
+ * ruleset keep playing (and replaying) exactly as they did.
+ */
+export type Ruleset = {
+	version: string;
+	applyMove(state: MatchState, move: Move): ApplyMoveResult;
+	validateMove(state: MatchState, move: Move): ValidateMoveResult;
+	listLegalMoves(state: MatchState): Move[];
+	isTerminal(state: MatchState): TerminalState;
+};
+
+/** Rewrites a state from one ruleset version to the next. */
+export type StateMigrator = {
+	from: string;
+	to: string;
+	migrate(state: MatchState): MatchState;
+};
+
+const RULESET_REGISTRY = new Map<string, Ruleset>();
+const MIGRATOR_REGISTRY = new Map<string, StateMigrator>();
+
+/** Registers an older rules implementation. Versions are unique. */
+export function registerRuleset(ruleset: Ruleset): Ruleset {
+	if (
+		ruleset.version === RULESET_VERSION ||
+		RULESET_REGISTRY.has(ruleset.version)
+	) {
+		throw new Error(`Ruleset "${ruleset.version}" is already registered.`);
+	}
+	RULESET_REGISTRY.set(ruleset.version, ruleset);
+	return ruleset;
+}
+
+/**
+ * Registers a migrator from one version to the next. Only one migrator may
+ * start at a given version, so migrations always follow a single chain.
+ */
+export function registerStateMigrator(migrator: StateMigrator): StateMigrator {
+	if (MIGRATOR_REGISTRY.has(migrator.from)) {
+		throw new Error(
+			`A migrator from ruleset "${migrator.from}" is already registered.`,
+		);
+	}
+	MIGRATOR_REGISTRY.set(migrator.from, migrator);
+	return migrator;
+}
+
+export function listRulesetVersions(): string[] {
+	return [RULESET_VERSION, ...RULESET_REGISTRY.keys()];
+}
+
+export function getRulesetVersion(state: MatchState): string {
+	return state.rulesetVersion ?? UNVERSIONED_RULESET;
+}
+
+/**
+ * Runs a rules query for the state's ruleset: the current rules (after
+ * migrating an older state when a migrator chain reaches them), a registered
+ * older ruleset, or `unsupported` when neither applies.
+ */
+function dispatchRuleset<T>(
+	state: MatchState,
+	current: (state: MatchState) => T,
+	frozen: (ruleset: Ruleset) => T,
+	unsupported: (version: string) => T,
+): T {
+	const version = getRulesetVersion(state);
+	if (version === RULESET_VERSION) return current(state);
+	const ruleset = RULESET_REGISTRY.get(version);
+	if (ruleset) return frozen(ruleset);
+	const migrated = tryMigrateState(state, RULESET_VERSION);
+	return migrated ? current(migrated) : unsupported(version);
+}
+
+function tryMigrateState(state: MatchState, target: string): MatchState | null {
+	let current = state;
+	const seen = new Set<string>();
+	let version = getRulesetVersion(current);
+	while (version !== target) {
+		const migrator = MIGRATOR_REGISTRY.get(version);
+		if (!migrator || seen.has(version)) return null;
+		seen.add(version);
+		current = {
+			...migrator.migrate(cloneState(current)),
+			rulesetVersion: migrator.to,
+		};
+		version = migrator.to;
+	}
+	if (current === state) return state;
+	// Migrators build new objects, so carry the original config binding over.
+	return bindEngineConfig(current, getEngineConfig(state));
+}
+
+/**
+ * Migrates a state along the registered migrator chain (to the current
+ * ruleset by default). Throws when no chain reaches the target.
+ */
+export function migrateState(
+	state: MatchState,
+	target: string = RULESET_VERSION,
+): MatchState {
+	const migrated = tryMigrateState(state, target);
+	if (!migrated) {
+		throw new Error(
+			`No migration path from ruleset "${getRulesetVersion(state)}" to "${target}".`,
+		);
+	}
+	return migrated;
+}
+
 // ---------------------------------------------------------------------------
 // Public API: applyMove
 // ---------------------------------------------------------------------------
 
 export function applyMove(state: MatchState, move: Move): ApplyMoveResult {
-	const validation = validateMove(state, move);
+	// Single actions would quietly play the simultaneous mode as alternating.
+	if (resolveConfig(state).turnOrder.mode === "simultaneous") {
+		throw new Error(
+			"applyMove cannot play the simultaneous mode; use resolveSimultaneousTurn.",
+		);
+	}
+	const result = executeMove(state, move);
+	if (!result.ok) return result;
+	return { ...result, delta: diffStates(state, result.state) };
+}
+
+// applyMove without the delta, for callers that only need the next state.
+// Dispatches on the state's ruleset version.
+function executeMove(state: MatchState, move: Move): ExecuteMoveResult {
+	return dispatchRuleset(
+		state,
+		(current) => executeCurrentRules(current, move),
+		(ruleset) => ruleset.applyMove(state, move),
+		(version) => ({
+			ok: false,
+			state,
+			engineEvents: [
+				{
+					type: "reject",
+					turn: state.turn,
+					player: state.activePlayer,
+					move,
+					reason: "unsupported_ruleset",
+				},
+			],
+			reason: "unsupported_ruleset",
+			error: `No rules registered for ruleset "${version}".`,
+		}),
+	);
+}
+
+function executeCurrentRules(state: MatchState, move: Move): ExecuteMoveResult {
+	const validation = validateCurrentMove(state, move);
 	if (!validation.ok) {
 		return {
 			ok: false,
@@ -2425,7 +3583,7 @@ export function applyMove(state: MatchState, move: Move): ApplyMoveResult {
 
 	const m = validation.move;
 	const config = resolveConfig(state);
-	const boardColumns = config.boardColumns;
+	const size = boardSizeForConfig(config);
 	const nextState = cloneState(state);
 	const side = nextState.activePlayer;
 	const player = nextState.players[side];
@@ -2485,7 +3643,7 @@ export function applyMove(state: MatchState, move: Move): ApplyMoveResult {
 					blocked.add(hex.id);
 				}
 			}
-			const dist = pathDistance(unit.position, m.to, blocked, boardColumns);
+			const dist = pathDistance(unit.position, m.to, blocked, size);
 			if (dist == null) {
 				return failMove(nextState, m, "invalid_move", "Move path not found.");
 			}
@@ -2500,7 +3658,7 @@ export function applyMove(state: MatchState, move: Move): ApplyMoveResult {
 					dist,
 					blocked,
 					nextState.board,
-					boardColumns,
+					size,
 				);
 			}
 
@@ -2540,11 +3698,7 @@ export function applyMove(state: MatchState, move: Move): ApplyMoveResult {
 			const attackerFrom = leadAttacker.position;
 			const defenderIds = defenders.map((d) => d.id);
 			const dist =
-				hexDistance(
-					leadAttacker.position,
-					leadDefender.position,
-					boardColumns,
-				) ?? 0;
+				hexDistance(leadAttacker.position, leadDefender.position, size) ?? 0;
 			const ranged = dist > 1;
 
 			const combat = computeCombat(
@@ -2675,6 +3829,14 @@ export function applyMove(state: MatchState, move: Move): ApplyMoveResult {
 			break;
 	}
 
+	const trackDraws = drawRulesEnabled(config);
+	if (
+		trackDraws &&
+		(m.action === "attack" || m.action === "recruit" || m.action === "upgrade")
+	) {
+		ensureDrawHistory(nextState).lastProgressTurn = nextState.turn;
+	}
+
 	// AP handling
 	if (m.action === "end_turn" || m.action === "pass") {
 		nextState.actionsRemaining = 0;
@@ -2701,9 +3863,41 @@ export function applyMove(state: MatchState, move: Move): ApplyMoveResult {
 		m.action === "pass" ||
 		nextState.actionsRemaining <= 0;
 
+	// Round-based modes hand the next action to the other side while it has
+	// actions left; the round only ends once both sides are out.
+	const roundBased = isRoundBased(config);
+	if (roundBased) {
+		const round = nextState.roundActions ?? {
+			A: config.actionsPerTurn,
+			B: config.actionsPerTurn,
+		};
+		round[side] = turnEnded ? 0 : nextState.actionsRemaining;
+		nextState.roundActions = round;
+		const nextActor =
+			round[otherSide(side)] > 0
+				? otherSide(side)
+				: round[side] > 0
+					? side
+					: null;
+		if (nextActor) {
+			nextState.activePlayer = nextActor;
+			nextState.actionsRemaining = round[nextActor];
+			return { ok: true, state: nextState, engineEvents };
+		}
+	}
+
 	if (turnEnded) {
 		// 1. Control update
 		const controlChanges = applyControlUpdate(nextState);
+		if (trackDraws && controlChanges.length > 0) {
+			ensureDrawHistory(nextState).lastProgressTurn = nextState.turn;
+		}
+		if (config.victory.crownHoldTurns > 0) {
+			// A round ends both sides' turns.
+			for (const s of roundBased ? (["A", "B"] as const) : [side]) {
+				updateCrownHold(nextState, s);
+			}
+		}
 		if (controlChanges.length > 0) {
 			engineEvents.push({
 				type: "control_update",
@@ -2718,7 +3912,7 @@ export function applyMove(state: MatchState, move: Move): ApplyMoveResult {
 			player: side,
 		});
 
-		// 2. Check stronghold capture victory after control update
+		// 2. Check stronghold capture and objective victories after control update
 		const captureTerminal = computeImmediateTerminal(nextState);
 		if (captureTerminal.ended) {
 			nextState.status = "ended";
@@ -2731,14 +3925,21 @@ export function applyMove(state: MatchState, move: Move): ApplyMoveResult {
 			return { ok: true, state: nextState, engineEvents };
 		}
 
-		// 3. Switch active player
-		const nextSide = otherSide(side);
-		nextState.activePlayer = nextSide;
-
-		// Turn increments only after Player B ends
-		if (side === "B") {
+		// 3. Switch active player. Sequential turns increment only after
+		// Player B ends; rounds always advance the turn.
+		let nextSides: PlayerSide[];
+		if (roundBased) {
 			nextState.turn += 1;
+			const leader = roundLeader(nextState.turn, config);
+			nextSides = [leader, otherSide(leader)];
+		} else {
+			nextSides = [otherSide(side)];
+			if (side === "B") {
+				nextState.turn += 1;
+			}
 		}
+		const nextSide = nextSides[0] as PlayerSide;
+		nextState.activePlayer = nextSide;
 
 		// 4. Check turn limit
 		const limitTerminal = computeTurnLimitTerminal(nextState);
@@ -2753,32 +3954,429 @@ export function applyMove(state: MatchState, move: Move): ApplyMoveResult {
 			return { ok: true, state: nextState, engineEvents };
 		}
 
-		// 5. Run next player's start-of-turn tick
-		const tick = runStartOfPlayerTurnTick(nextState, nextSide);
-		engineEvents.push({
-			type: "turn_start",
-			turn: nextState.turn,
-			player: nextSide,
-			actions: nextState.actionsRemaining,
-			goldIncome: tick.goldIncome,
-			woodIncome: tick.woodIncome,
-			vpGained: tick.vpGained,
-			goldAfter: nextState.players[nextSide].gold,
-			woodAfter: nextState.players[nextSide].wood,
-			vpAfter: nextState.players[nextSide].vp,
-		});
+		// 5. Run the start-of-turn tick for every side starting a turn
+		for (const s of nextSides) {
+			const tick = runStartOfPlayerTurnTick(nextState, s);
+			engineEvents.push({
+				type: "turn_start",
+				turn: nextState.turn,
+				player: s,
+				actions: nextState.actionsRemaining,
+				goldIncome: tick.goldIncome,
+				woodIncome: tick.woodIncome,
+				vpGained: tick.vpGained,
+				goldAfter: nextState.players[s].gold,
+				woodAfter: nextState.players[s].wood,
+				vpAfter: nextState.players[s].vp,
+			});
+		}
+		if (roundBased) {
+			nextState.roundActions = {
+				A: config.actionsPerTurn,
+				B: config.actionsPerTurn,
+			};
+		}
+
+		// 6. Start-of-turn VP can satisfy the VP victory condition
+		const tickTerminal = computeObjectiveTerminal(nextState);
+		if (tickTerminal.ended) {
+			nextState.status = "ended";
+			engineEvents.push({
+				type: "game_end",
+				turn: nextState.turn,
+				winner: tickTerminal.winner,
+				reason: tickTerminal.reason,
+			});
+			return { ok: true, state: nextState, engineEvents };
+		}
+
+		// 7. Draw rules: repetition and no progress
+		if (trackDraws) {
+			recordTurnStartPosition(nextState);
+			const drawTerminal = computeDrawRuleTerminal(nextState);
+			if (drawTerminal.ended) {
+				nextState.status = "ended";
+				engineEvents.push({
+					type: "game_end",
+					turn: nextState.turn,
+					winner: drawTerminal.winner,
+					reason: drawTerminal.reason,
+				});
+				return { ok: true, state: nextState, engineEvents };
+			}
+		}
 	}
 
 	return { ok: true, state: nextState, engineEvents };
 }
 
+// ---------------------------------------------------------------------------
+// Public API: forward model
+// ---------------------------------------------------------------------------
+
+function resourceChange(
+	before: MatchState,
+	after: MatchState,
+	side: PlayerSide,
+): ResourceChange {
+	const prev = before.players[side];
+	const next = after.players[side];
+	return {
+		gold: next.gold - prev.gold,
+		wood: next.wood - prev.wood,
+		vp: next.vp - prev.vp,
+	};
+}
+
+function lostUnitIds(
+	before: MatchState,
+	after: MatchState,
+	side: PlayerSide,
+): string[] {
+	const remaining = new Set(after.players[side].units.map((u) => u.id));
+	return before.players[side].units
+		.filter((u) => !remaining.has(u.id))
+		.map((u) => u.id);
+}
+
+/**
+ * Resolves `move` against `state` and summarises the result: combat outcome,
+ * control changes, losses and resource swings for both sides. Combat is
+ * deterministic, so the preview is exactly what `applyMove` would produce.
+ */
+export function previewMove(state: MatchState, move: Move): MovePreview {
+	const result = executeMove(state, move);
+	if (!result.ok) {
+		return { ok: false, reason: result.reason, error: result.error };
+	}
+	const next = result.state;
+
+	let combat: Extract<MovePreview, { ok: true }>["combat"] = null;
+	for (const event of result.engineEvents) {
+		if (event.type !== "attack") continue;
+		combat = {
+			attackerId: event.attackerId,
+			targetHex: event.targetHex,
+			ranged: event.ranged,
+			attackPower: event.attackPower,
+			defensePower: event.defensePower,
+			abilities: event.abilities,
+			damageDealt: event.outcome.damageDealt,
+			damageTaken: event.outcome.damageTaken,
+			attackerCasualties: event.outcome.attackerCasualties,
+			defenderCasualties: event.outcome.defenderCasualties,
+			captured: event.outcome.captured,
+		};
+	}
+
+	const captures: ControlChange[] = [];
+	for (let i = 0; i < next.board.length; i++) {
+		const before = state.board[i];
+		const after = next.board[i];
+		if (!before || !after || before.controlledBy === after.controlledBy) {
+			continue;
+		}
+		captures.push({
+			hex: after.id,
+			from: before.controlledBy,
+			to: after.controlledBy,
+		});
+	}
+
+	return {
+		ok: true,
+		state: next,
+		engineEvents: result.engineEvents,
+		combat,
+		captures,
+		unitsLost: {
+			A: lostUnitIds(state, next, "A"),
+			B: lostUnitIds(state, next, "B"),
+		},
+		resources: {
+			A: resourceChange(state, next, "A"),
+			B: resourceChange(state, next, "B"),
+		},
+		endsTurn:
+			next.turn !== state.turn || next.activePlayer !== state.activePlayer,
+		terminal: isTerminal(next),
+	};
+}
+
+/**
+ * Applies a planned sequence of moves for the active player. Stops at the
+ * first rejected move, or once the turn passes to the opponent or the game
+ * ends; moves after that point are not applied.
+ */
+export function simulateTurn(
+	state: MatchState,
+	moves: readonly Move[],
+): SimulateTurnResult {
+	const side = state.activePlayer;
+	const turn = state.turn;
+	let current = state;
+	const engineEvents: EngineEvent[] = [];
+	let applied = 0;
+	let rejected: SimulateTurnResult["rejected"] = null;
+
+	for (const [index, move] of moves.entries()) {
+		if (
+			current.status === "ended" ||
+			current.activePlayer !== side ||
+			current.turn !== turn
+		) {
+			break;
+		}
+		const result = executeMove(current, move);
+		if (!result.ok) {
+			rejected = { index, move, reason: result.reason, error: result.error };
+			break;
+		}
+		current = result.state;
+		engineEvents.push(...result.engineEvents);
+		applied++;
+	}
+
+	return {
+		state: current,
+		engineEvents,
+		applied,
+		rejected,
+		turnEnded: current.activePlayer !== side || current.turn !== turn,
+		terminal: isTerminal(current),
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Public API: simultaneous turns
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves one round of the simultaneous mode from both sides' committed
+ * plans. Moves are taken one at a time in the alternating order (leader
+ * first), so the result is deterministic. A move that is illegal when its slot
+ * comes up is skipped; an exhausted plan ends that side's turn.
+ */
+export function resolveSimultaneousTurn(
+	state: MatchState,
+	plans: Record<PlayerSide, readonly Move[]>,
+): SimultaneousTurnResult {
+	if (resolveConfig(state).turnOrder.mode !== "simultaneous") {
+		throw new Error("resolveSimultaneousTurn requires the simultaneous mode.");
+	}
+	const turn = state.turn;
+	const cursor = { A: 0, B: 0 };
+	const applied = { A: 0, B: 0 };
+	const rejected: SimultaneousTurnResult["rejected"] = [];
+	const engineEvents: EngineEvent[] = [];
+	let current = state;
+
+	while (current.status === "active" && current.turn === turn) {
+		const side = current.activePlayer;
+		const plan = plans[side];
+		const index = cursor[side];
+		const fromPlan = index < plan.length;
+		const move: Move = plan[index] ?? { action: "end_turn" };
+		if (fromPlan) cursor[side]++;
+
+		const result = executeMove(current, move);
+		if (!result.ok) {
+			if (!fromPlan) break;
+			rejected.push({
+				side,
+				index,
+				move,
+				reason: result.reason,
+				error: result.error,
+			});
+			continue;
+		}
+		current = result.state;
+		engineEvents.push(...result.engineEvents);
+		if (fromPlan) applied[side]++;
+	}
+
+	return {
+		state: current,
+		engineEvents,
+		applied,
+		rejected,
+		terminal: isTerminal(current),
+	};
+}
+
+// ---------------------------------------------------------------------------
+// State deltas
+// ---------------------------------------------------------------------------
+
+function escapePointerToken(token: string): string {
+	return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function parsePointer(path: string): string[] {
+	if (path === "") return [];
+	if (!path.startsWith("/")) {
+		throw new Error(`Invalid delta path: ${path}`);
+	}
+	return path
+		.slice(1)
+		.split("/")
+		.map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function cloneJson<T>(value: T): T {
+	if (Array.isArray(value)) return value.map(cloneJson) as T;
+	if (isPlainObject(value)) {
+		const out: Record<string, unknown> = {};
+		for (const [key, child] of Object.entries(value))
+			out[key] = cloneJson(child);
+		return out as T;
+	}
+	return value;
+}
+
+function jsonEqual(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (Array.isArray(a)) {
+		if (!Array.isArray(b) || a.length !== b.length) return false;
+		return a.every((item, i) => jsonEqual(item, b[i]));
+	}
+	if (isPlainObject(a) && isPlainObject(b)) {
+		const keys = Object.keys(a);
+		if (keys.length !== Object.keys(b).length) return false;
+		return keys.every((key) => key in b && jsonEqual(a[key], b[key]));
+	}
+	return false;
+}
+
+function diffValues(
+	prev: unknown,
+	next: unknown,
+	path: string,
+	ops: StateDeltaOp[],
+): void {
+	if (jsonEqual(prev, next)) return;
+	// Arrays of equal length (the board, unchanged unit rosters) are diffed per
+	// index; anything that grows or shrinks is replaced wholesale so indices in
+	// later ops never shift.
+	if (Array.isArray(prev) && Array.isArray(next)) {
+		if (prev.length !== next.length) {
+			ops.push({ op: "replace", path, value: cloneJson(next) });
+			return;
+		}
+		for (let i = 0; i < next.length; i++) {
+			diffValues(prev[i], next[i], `${path}/${i}`, ops);
+		}
+		return;
+	}
+	if (isPlainObject(prev) && isPlainObject(next)) {
+		for (const key of Object.keys(prev)) {
+			if (!(key in next) || next[key] === undefined) {
+				if (prev[key] !== undefined) {
+					ops.push({
+						op: "remove",
+						path: `${path}/${escapePointerToken(key)}`,
+					});
+				}
+			}
+		}
+		for (const [key, value] of Object.entries(next)) {
+			if (value === undefined) continue;
+			const childPath = `${path}/${escapePointerToken(key)}`;
+			if (!(key in prev) || prev[key] === undefined) {
+				ops.push({ op: "add", path: childPath, value: cloneJson(value) });
+			} else {
+				diffValues(prev[key], value, childPath, ops);
+			}
+		}
+		return;
+	}
+	ops.push({ op: "replace", path, value: cloneJson(next) });
+}
+
+/**
+ * Structural diff between two states. Applying the result to `prev` with
+ * `applyDelta` reproduces `next` exactly.
+ */
+export function diffStates(prev: MatchState, next: MatchState): StateDelta {
+	const ops: StateDeltaOp[] = [];
+	diffValues(prev, next, "", ops);
+	return ops;
+}
+
+/**
+ * Applies a delta produced by `applyMove` or `diffStates`. The input state is
+ * not mutated; containers along each op's path are copied on write. Throws on
+ * paths that do not exist in the state.
+ */
+export function applyDelta(state: MatchState, delta: StateDelta): MatchState {
+	let root: unknown = { ...state };
+	const copied = new Set<unknown>([root]);
+
+	for (const op of delta) {
+		const tokens = parsePointer(op.path);
+		const last = tokens.pop();
+		if (last === undefined) {
+			if (op.op === "remove") throw new Error("Cannot remove the state root");
+			root = cloneJson(op.value);
+			copied.add(root);
+			continue;
+		}
+
+		let parent = root;
+		for (const token of tokens) {
+			if (!Array.isArray(parent) && !isPlainObject(parent)) {
+				throw new Error(`Invalid delta path: ${op.path}`);
+			}
+			const container = parent as Record<string, unknown>;
+			let child = container[token];
+			if (Array.isArray(child)) {
+				if (!copied.has(child)) child = [...child];
+			} else if (isPlainObject(child)) {
+				if (!copied.has(child)) child = { ...child };
+			} else {
+				throw new Error(`Invalid delta path: ${op.path}`);
+			}
+			copied.add(child);
+			container[token] = child;
+			parent = child;
+		}
+
+		if (Array.isArray(parent)) {
+			const index = last === "-" ? parent.length : Number(last);
+			if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+				throw new Error(`Invalid delta path: ${op.path}`);
+			}
+			if (op.op === "add") parent.splice(index, 0, cloneJson(op.value));
+			else if (index >= parent.length) {
+				throw new Error(`Invalid delta path: ${op.path}`);
+			} else if (op.op === "replace") parent[index] = cloneJson(op.value);
+			else parent.splice(index, 1);
+		} else if (isPlainObject(parent)) {
+			if (op.op !== "add" && !(last in parent)) {
+				throw new Error(`Invalid delta path: ${op.path}`);
+			}
+			if (op.op === "remove") delete parent[last];
+			else parent[last] = cloneJson(op.value);
+		} else {
+			throw new Error(`Invalid delta path: ${op.path}`);
+		}
+	}
+
+	return bindConfig(root as MatchState, resolveConfig(state));
+}
+
 // ---------------------------------------------------------------------------
 // Render ASCII
 // ---------------------------------------------------------------------------
 
 export function renderAscii(state: MatchState): string {
 	const lines: string[] = [];
-	const cols = boardColumnsForState(state);
+	const { rows, columns: cols } = boardSizeForState(state);
 
 	// Header row with column numbers
 	const headerCells: string[] = [];
@@ -2787,7 +4385,7 @@ export function renderAscii(state: MatchState): string {
 	}
 	lines.push(`    ${headerCells.join("")}`);
 
-	for (let row = 0; row < ROWS; row++) {
+	for (let row = 0; row < rows; row++) {
 		const rowLabel = ROW_LETTERS[row] ?? "?";
 		const cells: string[] = [];
 		for (let col = 0; col < cols; col++) {
@@ -2870,7 +4468,7 @@ function failMove(
 	move: Move,
 	reason: MoveRejectionReason,
 	error: string,
-): ApplyMoveResult {
+): MoveRejection {
 	return {
 		ok: false,
 		state,
@@ -2892,6 +4490,12 @@ function failMove(
 // Spectator/SSE schema (envelope unchanged, payload types updated)
 // ---------------------------------------------------------------------------
 
+const StateDeltaOpSchema = z.discriminatedUnion("op", [
+	z.object({ op: z.literal("replace"), path: z.string(), value: z.unknown() }),
+	z.object({ op: z.literal("add"), path: z.string(), value: z.unknown() }),
+	z.object({ op: z.literal("remove"), path: z.string() }),
+]);
+
 export const SpectatorEventSchema = z.discriminatedUnion("event", [
 	z.object({
 		eventVersion: z.literal(1),
@@ -2909,8 +4513,17 @@ export const SpectatorEventSchema = z.discriminatedUnion("event", [
 		eventVersion: z.literal(1),
 		event: z.literal("state"),
 		matchId: z.string(),
+		stateVersion: z.number().int().optional(),
 		state: MatchStateSchema,
 	}),
+	z.object({
+		eventVersion: z.literal(1),
+		event: z.literal("state_delta"),
+		matchId: z.string(),
+		fromStateVersion: z.number().int(),
+		stateVersion: z.number().int(),
+		delta: z.array(StateDeltaOpSchema),
+	}),
 	z.object({
 		eventVersion: z.literal(1),
 		event: z.literal("engine_events"),
@@ -1,19 +1,43 @@
 import { describe, expect, test } from "bun:test";
 import {
+	applyDelta,
 	applyMove,
 	bindEngineConfig,
 	createInitialState,
 	DEFAULT_CONFIG,
+	diffStates,
 	type EngineConfigInput,
 	type EngineEvent,
 	getEngineConfig,
+	getMapDefinition,
+	getVisibleHexes,
 	type HexId,
+	HexIdSchema,
+	hashPosition,
+	hashState,
+	isTerminal,
+	isValidHexId,
 	listLegalMoves,
+	listMaps,
+	type MapDefinition,
+	MapDefinitionSchema,
 	type MatchState,
 	type Move,
+	migrateState,
 	neighborsOf,
 	parseHexId,
+	previewMove,
+	projectStateForPlayer,
+	RULESET_VERSION,
+	registerMap,
+	registerRuleset,
+	registerStateMigrator,
+	renderAscii,
+	resolveSimultaneousTurn,
+	simulateTurn,
 	type Unit,
+	validateMove,
+	winner,
 } from "@fightclaw/engine";
 
 const players = ["agent-a", "agent-b"] as const;
@@ -1564,4 +1588,734 @@ describe("v2 engine - War of Attrition", () => {
 		});
 		expect(result.ok).toBe(false);
 	});
+
+	test("canonical maps are registered and match the default board", () => {
+		const ids = listMaps().map((map) => map.id);
+		expect(ids).toContain("war_of_attrition_17");
+		expect(ids).toContain("war_of_attrition_21");
+
+		const fromDefault = createInitialState(0, undefined, [...players]);
+		const fromMap = createInitialState(0, { map: "war_of_attrition_17" }, [
+			...players,
+		]);
+		expect(fromMap).toEqual(fromDefault);
+
+		const wide = createInitialState(0, { map: "war_of_attrition_21" }, [
+			...players,
+		]);
+		expect(getEngineConfig(wide).boardColumns).toBe(21);
+		expect(wide).toEqual(createLegacyState(0, { actionsPerTurn: 7 }));
+	});
+
+	test("custom map supplies terrain, reserves and starting units", () => {
+		const base = getMapDefinition("war_of_attrition_17");
+		if (!base) throw new Error("missing canonical map");
+		const terrain = base.terrain.map((row) => [...row]);
+		// biome-ignore lint/style/noNonNullAssertion: row E exists on every map
+		terrain[4]![8] = "gold_mine";
+		const custom: MapDefinition = {
+			...base,
+			id: "test_skirmish",
+			name: "Test Skirmish",
+			terrain,
+			reserves: { E9: 4 },
+			startingUnits: [
+				{ id: "A-1", type: "knight", owner: "A", position: "E7" },
+				{ id: "B-1", type: "archer", owner: "B", position: "E11" },
+			],
+		};
+		registerMap(custom);
+		expect(() => registerMap(custom)).toThrow();
+
+		const state = createInitialState(3, { map: "test_skirmish" }, [...players]);
+		expect(
+			state.players.A.units.map((u) => [u.id, u.type, u.position]),
+		).toEqual([["A-1", "knight", "E7"]]);
+		expect(
+			state.players.B.units.map((u) => [u.id, u.type, u.position]),
+		).toEqual([["B-1", "archer", "E11"]]);
+		const mine = state.board[hexIndex("E9", 17)];
+		expect(mine?.type).toBe("gold_mine");
+		expect(mine?.reserve).toBe(4);
+		expect(state.players.A.units[0]?.hp).toBe(
+			DEFAULT_CONFIG.unitStats.knight.hp,
+		);
+
+		const inline = createInitialState(3, { map: custom }, [...players]);
+		expect(inline).toEqual(state);
+	});
+
+	test("map definitions are validated", () => {
+		const base = getMapDefinition("war_of_attrition_21");
+		if (!base) throw new Error("missing canonical map");
+		expect(MapDefinitionSchema.safeParse(base).success).toBe(true);
+
+		const shortRow = {
+			...base,
+			terrain: base.terrain.map((row, idx) => (idx === 0 ? row.slice(1) : row)),
+		};
+		expect(MapDefinitionSchema.safeParse(shortRow).success).toBe(false);
+
+		const noStronghold = {
+			...base,
+			terrain: base.terrain.map((row) =>
+				row.map((type) => (type === "stronghold_b" ? "plains" : type)),
+			),
+		};
+		expect(MapDefinitionSchema.safeParse(noStronghold).success).toBe(false);
+
+		const stacked = {
+			...base,
+			startingUnits: [
+				{ id: "A-1", type: "infantry", owner: "A", position: "E5" },
+				{ id: "A-2", type: "infantry", owner: "A", position: "E5" },
+			],
+		};
+		expect(MapDefinitionSchema.safeParse(stacked).success).toBe(false);
+
+		const badReserve = { ...base, reserves: { A4: 10 } };
+		expect(MapDefinitionSchema.safeParse(badReserve).success).toBe(false);
+
+		expect(() =>
+			createInitialState(0, { map: "no_such_map" }, [...players]),
+		).toThrow();
+	});
+
+	test("supports arbitrary board sizes within limits", () => {
+		const small = createInitialState(0, { boardRows: 5, boardColumns: 7 }, [
+			...players,
+		]);
+		expect(small.board).toHaveLength(35);
+		expect(small.board.at(-1)?.id).toBe("E7");
+		expect(getEngineConfig(small).boardRows).toBe(5);
+		expect(getEngineConfig(small).boardColumns).toBe(7);
+		expect(small.board.filter((h) => h.type === "stronghold_a")).toHaveLength(
+			2,
+		);
+		expect(small.board.filter((h) => h.type === "stronghold_b")).toHaveLength(
+			2,
+		);
+		expect(small.board.filter((h) => h.type === "crown")).toHaveLength(1);
+		expect(small.players.A.units).toHaveLength(6);
+		expect(small.players.B.units).toHaveLength(6);
+		const positions = [...small.players.A.units, ...small.players.B.units].map(
+			(u) => u.position,
+		);
+		expect(new Set(positions).size).toBe(positions.length);
+		expect(renderAscii(small).split("\n")[5]?.startsWith("E")).toBe(true);
+
+		const large = createInitialState(0, { boardRows: 15, boardColumns: 35 }, [
+			...players,
+		]);
+		expect(large.board).toHaveLength(15 * 35);
+		expect(large.board.at(-1)?.id).toBe("O35");
+		// Config must survive a plain clone without an explicit bind.
+		expect(getEngineConfig(structuredClone(large)).boardRows).toBe(15);
+		const moves = listLegalMoves(large);
+		expect(moves.length).toBeGreaterThan(1);
+		const applied = applyMove(large, moves[0] as Move);
+		expect(applied.ok).toBe(true);
+
+		expect(() =>
+			createInitialState(0, { boardRows: 2, boardColumns: 17 }, [...players]),
+		).toThrow();
+		expect(() =>
+			createInitialState(0, { boardRows: 9, boardColumns: 52 }, [...players]),
+		).toThrow();
+	});
+
+	test("hex id helpers respect board dimensions", () => {
+		expect(HexIdSchema.safeParse("O35").success).toBe(true);
+		expect(HexIdSchema.safeParse("A0").success).toBe(false);
+		expect(isValidHexId("J3", 17)).toBe(false);
+		expect(isValidHexId("J3", 17, 10)).toBe(true);
+		expect(isValidHexId("A8", 7, 5)).toBe(false);
+		expect(neighborsOf("E1", 7, 5).sort()).toEqual(["D1", "E2"]);
+		expect(neighborsOf("I5").length).toBe(4);
+		expect(neighborsOf("I5", 17, 10).length).toBe(6);
+	});
+
+	describe("fog of war", () => {
+		function createFogState(): MatchState {
+			const base = clearUnits(
+				createLegacyState(0, { fogOfWar: { enabled: true } }),
+			);
+			for (const hex of base.board) {
+				hex.type = "plains";
+				hex.controlledBy = null;
+			}
+			let s = addUnitToState(base, "A-1", "infantry", "A", "E5");
+			s = addUnitToState(s, "B-1", "infantry", "B", "E7");
+			s = addUnitToState(s, "B-2", "cavalry", "B", "E9");
+			return s;
+		}
+
+		const unitIds = (state: MatchState) =>
+			[...state.players.A.units, ...state.players.B.units]
+				.map((u) => u.id)
+				.sort();
+
+		test("is disabled by default and leaves states untouched", () => {
+			const state = createLegacyState(0);
+			expect(getEngineConfig(state).fogOfWar.enabled).toBe(false);
+			expect(projectStateForPlayer(state, "A")).toBe(state);
+			expect(projectStateForPlayer(state, "spectator")).toBe(state);
+		});
+
+		test("hides enemy units outside vision radius", () => {
+			const state = createFogState();
+			const viewA = projectStateForPlayer(state, "A");
+			expect(unitIds(viewA)).toEqual(["A-1", "B-1"]);
+			expect(viewA.board[hexIndex("E9")]?.unitIds).toEqual([]);
+			// The source state is not mutated.
+			expect(unitIds(state)).toEqual(["A-1", "B-1", "B-2"]);
+
+			expect(getVisibleHexes(state, "A")).toContain("E7");
+			expect(getVisibleHexes(state, "A")).not.toContain("E8");
+		});
+
+		test("forest blocks sight and high ground extends it", () => {
+			const state = createFogState();
+			const forestIdx = hexIndex("E6");
+			const forest = state.board[forestIdx];
+			if (forest) forest.type = "forest";
+			expect(unitIds(projectStateForPlayer(state, "A"))).toEqual(["A-1"]);
+
+			const observerIdx = hexIndex("E5");
+			const observer = state.board[observerIdx];
+			if (observer) observer.type = "high_ground";
+			// High ground sees over the forest and one hex further.
+			expect(unitIds(projectStateForPlayer(state, "A"))).toEqual([
+				"A-1",
+				"B-1",
+			]);
+			expect(getVisibleHexes(state, "A")).toContain("E8");
+		});
+
+		test("spectators only see what the opposing side can see", () => {
+			let state = createFogState();
+			state = addUnitToState(state, "A-2", "archer", "A", "A1");
+			expect(unitIds(projectStateForPlayer(state, "spectator"))).toEqual([
+				"A-1",
+				"B-1",
+			]);
+			expect(unitIds(projectStateForPlayer(state, "B"))).toEqual([
+				"A-1",
+				"B-1",
+				"B-2",
+			]);
+		});
+
+		test("a view with every enemy hidden is not eliminated", () => {
+			const base = clearUnits(
+				createLegacyState(0, { fogOfWar: { enabled: true } }),
+			);
+			let state = addUnitToState(base, "A-1", "infantry", "A", "E5");
+			state = addUnitToState(state, "B-1", "infantry", "B", "E9");
+			const view = projectStateForPlayer(state, "A");
+			expect(view.players.B.units).toEqual([]);
+			expect(
+				validateMove(view, { action: "move", unitId: "A-1", to: "E4" }),
+			).toMatchObject({ ok: true });
+		});
+
+		test("reveals everything once the match has ended", () => {
+			const state = createFogState();
+			state.status = "ended";
+			expect(projectStateForPlayer(state, "A")).toBe(state);
+		});
+	});
+
+	describe("state deltas", () => {
+		test("applyDelta reproduces every state of a played game", () => {
+			let state = createLegacyState(7);
+			let seed = 7;
+			for (let i = 0; i < 200 && state.status === "active"; i++) {
+				const moves = listLegalMoves(state);
+				seed = (seed * 1103515245 + 12345) % 2147483648;
+				const move = moves[seed % moves.length] as Move;
+				const result = applyMove(state, move);
+				expect(result.ok).toBe(true);
+				if (!result.ok) return;
+				const before = structuredClone(state);
+				const rebuilt = applyDelta(state, result.delta);
+				expect(rebuilt).toEqual(result.state);
+				// Deltas never mutate their input.
+				expect(state).toEqual(before);
+				state = result.state;
+			}
+		});
+
+		test("deltas only carry what changed", () => {
+			const state = createLegacyState(0);
+			const result = applyMove(state, { action: "fortify", unitId: "A-1" });
+			expect(result.ok).toBe(true);
+			if (!result.ok) return;
+			const paths = result.delta.map((op) => op.path).sort();
+			expect(paths).toEqual([
+				"/actionsRemaining",
+				"/players/A/units/0/canActThisTurn",
+				"/players/A/units/0/isFortified",
+				"/players/A/wood",
+			]);
+			expect(JSON.stringify(result.delta).length).toBeLessThan(
+				JSON.stringify(result.state).length / 20,
+			);
+		});
+
+		test("diffStates handles added and removed keys", () => {
+			const prev = createLegacyState(0);
+			const next = structuredClone(prev);
+			const hex = next.board[0];
+			if (hex) hex.reserve = 3;
+			const noReserve = next.board.find(
+				(h) => h.reserve !== undefined && h !== hex,
+			);
+			if (noReserve) delete noReserve.reserve;
+			next.players.B.units = next.players.B.units.slice(1);
+			const delta = diffStates(prev, next);
+			expect(delta.some((op) => op.op === "add")).toBe(true);
+			expect(delta.some((op) => op.op === "remove")).toBe(true);
+			expect(applyDelta(prev, delta)).toEqual(next);
+			expect(diffStates(prev, structuredClone(prev))).toEqual([]);
+		});
+
+		test("applyDelta rejects paths that do not exist", () => {
+			const state = createLegacyState(0);
+			expect(() =>
+				applyDelta(state, [{ op: "replace", path: "/nope/1", value: 1 }]),
+			).toThrow();
+			expect(() =>
+				applyDelta(state, [{ op: "remove", path: "/board/999" }]),
+			).toThrow();
+		});
+	});
+
+	describe("forward model", () => {
+		test("previewMove matches applyMove without mutating state", () => {
+			let state = clearUnits(createLegacyState(0));
+			state = addUnitToState(state, "A-1", "cavalry", "A", "E10");
+			state = addUnitToState(state, "B-1", "archer", "B", "E11", { hp: 1 });
+			const before = structuredClone(state);
+			const move: Move = { action: "attack", unitId: "A-1", target: "E11" };
+
+			const preview = previewMove(state, move);
+			const applied = applyMove(state, move);
+			expect(preview.ok).toBe(true);
+			expect(applied.ok).toBe(true);
+			if (!preview.ok || !applied.ok) return;
+			expect(state).toEqual(before);
+			expect(preview.state).toEqual(applied.state);
+			expect(preview.combat?.attackerId).toBe("A-1");
+			expect(preview.combat?.defenderCasualties).toEqual(["B-1"]);
+			expect(preview.unitsLost).toEqual({ A: [], B: ["B-1"] });
+			expect(preview.resources.A.vp).toBe(DEFAULT_CONFIG.abilities.vpPerKill);
+			expect(preview.terminal.ended).toBe(true);
+		});
+
+		test("previewMove reports income and turn handover", () => {
+			const state = createLegacyState(0);
+			const preview = previewMove(state, { action: "end_turn" });
+			expect(preview.ok).toBe(true);
+			if (!preview.ok) return;
+			expect(preview.combat).toBeNull();
+			expect(preview.endsTurn).toBe(true);
+			expect(preview.resources.B.gold).toBeGreaterThan(0);
+			expect(preview.resources.A).toEqual({ gold: 0, wood: 0, vp: 0 });
+		});
+
+		test("previewMove surfaces rejections", () => {
+			const state = createLegacyState(0);
+			const preview = previewMove(state, {
+				action: "move",
+				unitId: "B-1",
+				to: "E11",
+			});
+			expect(preview.ok).toBe(false);
+			if (preview.ok) return;
+			expect(preview.reason).toBe("illegal_move");
+		});
+
+		test("simulateTurn stops at rejections and turn boundaries", () => {
+			const state = createLegacyState(0);
+			const fortify: Move = { action: "fortify", unitId: "A-1" };
+			const rejected = simulateTurn(state, [fortify, fortify]);
+			expect(rejected.applied).toBe(1);
+			expect(rejected.rejected?.index).toBe(1);
+			expect(rejected.turnEnded).toBe(false);
+
+			const handover = simulateTurn(state, [
+				{ action: "end_turn" },
+				{ action: "end_turn" },
+			]);
+			expect(handover.applied).toBe(1);
+			expect(handover.rejected).toBeNull();
+			expect(handover.turnEnded).toBe(true);
+			expect(handover.state.activePlayer).toBe("B");
+			expect(state.activePlayer).toBe("A");
+		});
+	});
+
+	describe("state hashing and draw rules", () => {
+		const endTurnsUntilEnded = (state: MatchState, maxTurns = 40) => {
+			let current = state;
+			for (let i = 0; i < maxTurns && current.status === "active"; i++) {
+				const result = applyMove(current, { action: "end_turn" });
+				if (!result.ok) throw new Error(result.error);
+				current = result.state;
+			}
+			return current;
+		};
+
+		test("hashState is stable across clones and ignores non-semantic fields", () => {
+			const state = createLegacyState(0);
+			const clone = structuredClone(state);
+			clone.seed = 99;
+			clone.players.A.id = "someone-else";
+			clone.players.A.units.reverse();
+			for (const hex of clone.board) hex.unitIds.reverse();
+			expect(hashState(clone)).toBe(hashState(state));
+			expect(hashState(state)).toMatch(/^[0-9a-f]{16}$/);
+
+			const moved = applyMove(state, { action: "fortify", unitId: "A-1" });
+			expect(moved.ok).toBe(true);
+			if (!moved.ok) return;
+			expect(hashState(moved.state)).not.toBe(hashState(state));
+		});
+
+		test("hashPosition ignores the turn number and economy", () => {
+			const state = createLegacyState(0);
+			const later = structuredClone(state);
+			later.turn += 3;
+			later.players.A.gold += 10;
+			expect(hashPosition(later)).toBe(hashPosition(state));
+			expect(hashState(later)).not.toBe(hashState(state));
+		});
+
+		test("draw rules are disabled by default", () => {
+			const state = createInitialState(0, undefined, [...players]);
+			expect(state.drawHistory).toBeUndefined();
+			const ended = endTurnsUntilEnded(state, 10);
+			expect(ended.status).toBe("active");
+			expect(ended.drawHistory).toBeUndefined();
+		});
+
+		test("threefold repetition ends the game in a draw", () => {
+			const state = createInitialState(
+				0,
+				{ drawRules: { repetitionLimit: 3 } },
+				[...players],
+			);
+			const ended = endTurnsUntilEnded(state);
+			expect(ended.status).toBe("ended");
+			expect(ended.turn).toBeLessThan(6);
+			expect(isTerminal(ended)).toEqual({
+				ended: true,
+				winner: null,
+				reason: "repetition",
+			});
+		});
+
+		test("no progress for N turns ends the game in a draw", () => {
+			const state = createInitialState(
+				0,
+				{ drawRules: { noProgressTurns: 4 } },
+				[...players],
+			);
+			const ended = endTurnsUntilEnded(state);
+			expect(ended.status).toBe("ended");
+			expect(isTerminal(ended)).toEqual({
+				ended: true,
+				winner: null,
+				reason: "no_progress",
+			});
+			const history = ended.drawHistory;
+			expect(history).toBeDefined();
+			if (!history) return;
+			expect(ended.turn - history.lastProgressTurn).toBe(5);
+		});
+	});
+
+	describe("configurable victory conditions", () => {
+		const withLoneUnits = (state: MatchState, aPosition: HexId) => {
+			let s = clearUnits(state);
+			s = addUnitToState(s, "A-1", "infantry", "A", aPosition);
+			return addUnitToState(s, "B-1", "infantry", "B", "A1");
+		};
+
+		test("extra win conditions are disabled by default", () => {
+			const state = createInitialState(0, undefined, [...players]);
+			state.players.A.vp = 50;
+			for (const hex of state.board) {
+				if (hex.type === "gold_mine" || hex.type === "lumber_camp") {
+					hex.controlledBy = "A";
+				}
+			}
+			expect(isTerminal(state).ended).toBe(false);
+		});
+
+		test("reaching the VP threshold wins", () => {
+			const state = createInitialState(0, { victory: { vpThreshold: 3 } }, [
+				...players,
+			]);
+			state.players.B.vp = 3;
+			expect(isTerminal(state)).toEqual({
+				ended: true,
+				winner: "agent-b",
+				reason: "vp_threshold",
+			});
+		});
+
+		test("holding the crown for K own turns wins", () => {
+			const initial = createInitialState(
+				0,
+				{ victory: { crownHoldTurns: 2 } },
+				[...players],
+			);
+			const crown = initial.board.find((hex) => hex.type === "crown");
+			expect(crown).toBeDefined();
+			if (!crown) return;
+
+			let state = withLoneUnits(initial, crown.id);
+			const events: EngineEvent[] = [];
+			for (let i = 0; i < 3; i++) {
+				const result = applyMove(state, { action: "end_turn" });
+				expect(result.ok).toBe(true);
+				if (!result.ok) return;
+				events.push(...result.engineEvents);
+				state = result.state;
+			}
+			expect(state.status).toBe("ended");
+			expect(state.crownHold).toEqual({ side: "A", turns: 2 });
+			const gameEnd = events.find((e) => e.type === "game_end");
+			expect(gameEnd?.type === "game_end" && gameEnd.reason).toBe("crown_hold");
+		});
+
+		test("controlling enough economic nodes wins", () => {
+			const initial = createInitialState(
+				0,
+				{ victory: { economicNodePercent: 50 } },
+				[...players],
+			);
+			const state = withLoneUnits(initial, "E5");
+			const nodes = state.board.filter(
+				(hex) => hex.type === "gold_mine" || hex.type === "lumber_camp",
+			);
+			for (const hex of nodes.slice(0, Math.ceil(nodes.length / 2) - 1)) {
+				hex.controlledBy = "A";
+			}
+			expect(isTerminal(state).ended).toBe(false);
+
+			const last = nodes[Math.ceil(nodes.length / 2) - 1];
+			if (last) last.controlledBy = "A";
+			expect(isTerminal(state)).toEqual({
+				ended: true,
+				winner: "agent-a",
+				reason: "economic_control",
+			});
+		});
+	});
+
+	describe("ruleset versioning", () => {
+		test("new states record the current ruleset", () => {
+			const state = createLegacyState(0);
+			expect(state.rulesetVersion).toBe(RULESET_VERSION);
+
+			const unversioned = cloneWithConfig(state);
+			delete unversioned.rulesetVersion;
+			const result = applyMove(unversioned, { action: "end_turn" });
+			expect(result.ok).toBe(true);
+		});
+
+		test("every rules query dispatches to registered rulesets", () => {
+			// A stub older ruleset: only `pass` is legal, it skips 100 turns,
+			// and the game ends for A once the turn passes 100.
+			registerRuleset({
+				version: "test_frozen_v1",
+				applyMove: (state) => ({
+					ok: true,
+					state: { ...state, turn: state.turn + 100 },
+					engineEvents: [],
+					delta: [],
+				}),
+				validateMove: (_state, move) =>
+					move.action === "pass"
+						? { ok: true, move }
+						: { ok: false, reason: "illegal_move", error: "Frozen." },
+				listLegalMoves: () => [{ action: "pass" }],
+				isTerminal: (state) =>
+					state.turn > 100
+						? {
+								ended: true,
+								winner: state.players.A.id,
+								reason: "turn_limit",
+							}
+						: { ended: false },
+			});
+			expect(() =>
+				registerRuleset({
+					version: RULESET_VERSION,
+					applyMove,
+					validateMove,
+					listLegalMoves,
+					isTerminal,
+				}),
+			).toThrow();
+
+			const state = cloneWithConfig(createLegacyState(0));
+			state.rulesetVersion = "test_frozen_v1";
+			expect(listLegalMoves(state)).toEqual([{ action: "pass" }]);
+			expect(validateMove(state, { action: "pass" }).ok).toBe(true);
+			expect(validateMove(state, { action: "end_turn" })).toMatchObject({
+				ok: false,
+				error: "Frozen.",
+			});
+			expect(isTerminal(state)).toEqual({ ended: false });
+			expect(winner(state)).toBeNull();
+
+			const result = applyMove(state, { action: "end_turn" });
+			expect(result.ok).toBe(true);
+			if (!result.ok) return;
+			expect(result.state.turn).toBe(101);
+			expect(result.state.rulesetVersion).toBe("test_frozen_v1");
+			expect(winner(result.state)).toBe(state.players.A.id);
+
+			const preview = previewMove(state, { action: "pass" });
+			expect(preview).toMatchObject({
+				ok: true,
+				terminal: { ended: true, winner: state.players.A.id },
+			});
+			const simulated = simulateTurn(state, [{ action: "pass" }]);
+			expect(simulated.applied).toBe(1);
+			expect(simulated.terminal.ended).toBe(true);
+		});
+
+		test("states from retired rulesets are migrated to the current ruleset", () => {
+			registerStateMigrator({
+				from: "test_old_v0",
+				to: RULESET_VERSION,
+				migrate: (state) => {
+					state.players.A.gold += 1;
+					return state;
+				},
+			});
+			const state = cloneWithConfig(createLegacyState(0));
+			state.rulesetVersion = "test_old_v0";
+
+			const migrated = migrateState(state);
+			expect(migrated.rulesetVersion).toBe(RULESET_VERSION);
+			expect(migrated.players.A.gold).toBe(state.players.A.gold + 1);
+			expect(getEngineConfig(migrated)).toEqual(getEngineConfig(state));
+
+			const result = applyMove(state, { action: "end_turn" });
+			expect(result.ok).toBe(true);
+			if (!result.ok) return;
+			expect(result.state.rulesetVersion).toBe(RULESET_VERSION);
+			expect(state.rulesetVersion).toBe("test_old_v0");
+		});
+
+		test("unknown rulesets are rejected rather than played", () => {
+			const state = cloneWithConfig(createLegacyState(0));
+			state.rulesetVersion = "test_unknown";
+			const result = applyMove(state, { action: "end_turn" });
+			expect(result.ok).toBe(false);
+			if (result.ok) return;
+			expect(result.reason).toBe("unsupported_ruleset");
+			expect(validateMove(state, { action: "end_turn" })).toMatchObject({
+				ok: false,
+				reason: "unsupported_ruleset",
+			});
+			expect(listLegalMoves(state)).toEqual([]);
+			expect(() => migrateState(state)).toThrow();
+		});
+	});
+
+	describe("turn order modes", () => {
+		const fortifyFor = (state: MatchState, side: "A" | "B"): Move => {
+			const unit = state.players[side].units[0];
+			if (!unit) throw new Error(`no ${side} unit`);
+			return { action: "fortify", unitId: unit.id };
+		};
+		const apply = (state: MatchState, move: Move) => {
+			const result = applyMove(state, move);
+			if (!result.ok) throw new Error(result.error);
+			return result.state;
+		};
+
+		test("alternating mode trades single actions and rotates the leader", () => {
+			let state = createInitialState(
+				0,
+				{ actionsPerTurn: 2, turnOrder: { mode: "alternating" } },
+				[...players],
+			);
+			expect(state.activePlayer).toBe("A");
+			expect(state.roundActions).toEqual({ A: 2, B: 2 });
+
+			state = apply(state, fortifyFor(state, "A"));
+			expect(state.activePlayer).toBe("B");
+			expect(state.actionsRemaining).toBe(2);
+
+			state = apply(state, { action: "end_turn" });
+			expect(state.activePlayer).toBe("A");
+			expect(state.roundActions).toEqual({ A: 1, B: 0 });
+
+			state = apply(state, { action: "end_turn" });
+			expect(state.turn).toBe(2);
+			expect(state.activePlayer).toBe("B");
+			expect(state.roundActions).toEqual({ A: 2, B: 2 });
+		});
+
+		test("leader rotation can be turned off", () => {
+			let state = createInitialState(
+				0,
+				{ turnOrder: { mode: "alternating", rotateLeader: false } },
+				[...players],
+			);
+			state = apply(state, { action: "end_turn" });
+			state = apply(state, { action: "end_turn" });
+			expect(state.turn).toBe(2);
+			expect(state.activePlayer).toBe("A");
+		});
+
+		test("simultaneous plans resolve deterministically", () => {
+			const state = createInitialState(
+				0,
+				{ turnOrder: { mode: "simultaneous" } },
+				[...players],
+			);
+			const plans = {
+				A: [
+					{ action: "fortify", unitId: "B-1" } as Move,
+					fortifyFor(state, "A"),
+				],
+				B: [fortifyFor(state, "B")],
+			};
+			const first = resolveSimultaneousTurn(state, plans);
+			const second = resolveSimultaneousTurn(state, plans);
+			expect(first.state).toEqual(second.state);
+			expect(first.applied).toEqual({ A: 1, B: 1 });
+			expect(first.rejected.map((r) => [r.side, r.index])).toEqual([["A", 0]]);
+			expect(first.state.turn).toBe(2);
+			expect(first.state.activePlayer).toBe("B");
+			expect(state.turn).toBe(1);
+
+			expect(() =>
+				resolveSimultaneousTurn(createLegacyState(0), plans),
+			).toThrow();
+			expect(() => applyMove(state, fortifyFor(state, "A"))).toThrow(
+				"use resolveSimultaneousTurn",
+			);
+		});
+
+		test("second mover gold bonus applies at creation", () => {
+			const base = createInitialState(0, undefined, [...players]);
+			const compensated = createInitialState(
+				0,
+				{ turnOrder: { secondMoverGold: 5 } },
+				[...players],
+			);
+			expect(compensated.players.B.gold).toBe(base.players.B.gold + 5);
+			expect(compensated.players.A.gold).toBe(base.players.A.gold);
+		});
+	});
 });
@@ -1,6 +1,7 @@
 export const EVENT_VERSION = 1 as const;
-export const PROTOCOL_VERSION = 2 as const;
-export const CONTRACTS_VERSION = "2026-02-19.agent-thought.v1" as const;
+export const PROTOCOL_VERSION = 3 as const;
+export const CONTRACTS_VERSION = "2026-10-19.state-delta.v1" as const;
+// Mirrors RULESET_VERSION in @fightclaw/engine (the ruleset new matches use).
 export const ENGINE_VERSION = "war_of_attrition_v2" as const;
 
 export type PlayerSide = "A" | "B";
@@ -24,18 +25,42 @@ export type MatchFoundEvent = {
 	opponentId?: string;
 };
 
+// Chess-clock banks for matches played with a clock time control. The active
+// agent's bank already has the running turn taken off.
+export type MatchClockSnapshot = {
+	remainingMs: Record<string, number>;
+	incrementMs: number;
+	delayMs: number;
+	activeAgentId: string | null;
+	turnDeadlineAtMs: number | null;
+};
+
 export type YourTurnEvent = {
 	eventVersion: typeof EVENT_VERSION;
 	event: "your_turn";
 	matchId: string;
 	stateVersion: number;
+	clock?: MatchClockSnapshot;
 };
 
 export type StateEvent<TState = unknown> = {
 	eventVersion: typeof EVENT_VERSION;
 	event: "state";
 	matchId: string;
+	stateVersion?: number;
 	state: TState;
+	clock?: MatchClockSnapshot;
+};
+
+// Sent after each applied move instead of a full snapshot. `delta` is a list
+// of JSON-Patch style ops to apply to the state at `fromStateVersion`.
+export type StateDeltaEvent<TDelta = unknown[]> = {
+	eventVersion: typeof EVENT_VERSION;
+	event: "state_delta";
+	matchId: string;
+	fromStateVersion: number;
+	stateVersion: number;
+	delta: TDelta;
 };
 
 export type EngineEventsEvent = {
@@ -50,6 +75,15 @@ export type EngineEventsEvent = {
 	ts: string;
 };
 
+// How one ranked result moved an agent's rating. Values are rounded.
+export type RatingChange = {
+	agentId: string;
+	ratingBefore: number;
+	ratingAfter: number;
+	delta: number;
+	deviationAfter: number;
+};
+
 export type MatchEndedEvent = {
 	eventVersion: typeof EVENT_VERSION;
 	event: "match_ended";
@@ -58,6 +92,8 @@ export type MatchEndedEvent = {
 	loserAgentId?: string | null;
 	reason?: string;
 	reasonCode?: string;
+	// Ranked matches only.
+	ratingChanges?: RatingChange[];
 };
 
 export type GameEndedEvent = {
@@ -68,6 +104,7 @@ export type GameEndedEvent = {
 	loserAgentId?: string | null;
 	reason?: string;
 	reasonCode?: string;
+	ratingChanges?: RatingChange[];
 };
 
 export type ErrorEvent = {
@@ -85,6 +122,7 @@ export type SpectatorEvent =
 	| MatchFoundEvent
 	| YourTurnEvent
 	| StateEvent
+	| StateDeltaEvent
 	| EngineEventsEvent
 	| AgentThoughtEvent
 	| MatchEndedEvent